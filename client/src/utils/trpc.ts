@@ -1,14 +1,116 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, loggerLink, TRPCClientError, type TRPCLink } from '@trpc/client';
+import { observable } from '@trpc/server/observable';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Keep the tokens of a login, two-factor verification, SSO callback or refresh; a two-factor challenge has none yet
+export function storeAuthTokens(response: { token: string; refresh_token: string } | { two_factor_required: true }): void {
+  if ('token' in response) {
+    localStorage.setItem(TOKEN_KEY, response.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.refresh_token);
+  }
+}
+
+export function clearAuthTokens(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Without the retry link, so a failing refresh is not refreshed again
+const authClient = createTRPCClient<AppRouter>({
+  links: [httpBatchLink({ url: '/api', transformer: superjson })],
+});
+
+// Refresh tokens are single use, so calls failing together share one refresh
+let refreshing: Promise<boolean> | null = null;
+
+function refreshAuthTokens(): Promise<boolean> {
+  refreshing ??= (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      storeAuthTokens(await authClient.auth.refresh.mutate({ refresh_token: refreshToken }));
+      return true;
+    } catch (error) {
+      // The server turned the refresh token down, as opposed to being unreachable
+      if (error instanceof TRPCClientError && error.data) {
+        clearAuthTokens();
+      }
+      return false;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+}
+
+// Access tokens last 15 minutes: on a 401 refresh them and retry the call once
+const refreshLink: TRPCLink<AppRouter> = () => ({ op, next }) => observable(observer => {
+  let closed = false;
+  let subscription = next(op).subscribe({
+    next: value => observer.next(value),
+    error: error => {
+      if (error.data?.httpStatus !== 401) {
+        observer.error(error);
+        return;
+      }
+
+      refreshAuthTokens().then(refreshed => {
+        if (closed) {
+          return;
+        }
+        if (!refreshed) {
+          observer.error(error);
+          return;
+        }
+        subscription = next(op).subscribe(observer);
+      });
+    },
+    complete: () => observer.complete(),
+  });
+
+  return () => {
+    closed = true;
+    subscription.unsubscribe();
+  };
+});
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
     loggerLink({
-          enabled: (opts) =>
-            (typeof window !== 'undefined') ||
-            (opts.direction === 'down' && opts.result instanceof Error),
-        }),
+      enabled: (opts) =>
+        (typeof window !== 'undefined') ||
+        (opts.direction === 'down' && opts.result instanceof Error),
+    }),
+    refreshLink,
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = localStorage.getItem(TOKEN_KEY);
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
   ],
 });
+
+// Password sign-in; when a two-factor challenge comes back, verify it and store that response instead
+export async function signIn(input: { email: string; password: string }) {
+  const response = await trpc.auth.login.mutate(input);
+  storeAuthTokens(response);
+  return response;
+}
+
+export async function signOut(): Promise<void> {
+  try {
+    await trpc.auth.logout.mutate();
+  } finally {
+    clearAuthTokens();
+  }
+}
@@ -0,0 +1,239 @@
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+import { db, withTransaction } from './db';
+import { expenseApprovalStepsTable, expensesTable } from './db/schema';
+import { attachReceiptFile, detectReceiptContentType, MAX_RECEIPT_BYTES } from './handlers/attachments';
+import { startApprovalWorkflow } from './handlers/approvals';
+import { and, asc, eq, notExists, sql } from 'drizzle-orm';
+
+// Data a schema push would otherwise lose or reject. `bun run db:push-ci` runs the before steps,
+// drizzle-kit push, then the after steps. Each step looks at what is there first, so running them
+// again is harmless. Data waiting between the two is kept in the data_migrations schema, which
+// push leaves alone.
+
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+const MAX_REDIRECTS = 5;
+
+// Addresses a saved link must not reach: this host, private networks, link-local (cloud metadata
+// endpoints), multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+type Phase = 'before' | 'after';
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = ${table} and column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+async function enumHasValue(type: string, value: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    select 1 from pg_enum
+    join pg_type on pg_type.oid = pg_enum.enumtypid
+    where pg_type.typname = ${type} and pg_enum.enumlabel = ${value}
+  `);
+  return result.rows.length > 0;
+}
+
+// Expenses awaiting approval were PENDING before drafts and withdrawals came in; push cannot
+// drop the value while rows still hold it
+async function renamePendingStatus(): Promise<void> {
+  if (!await enumHasValue('expense_status', 'PENDING')) {
+    return;
+  }
+
+  if (await enumHasValue('expense_status', 'SUBMITTED')) {
+    await db.execute(sql`update expenses set status = 'SUBMITTED' where status = 'PENDING'`);
+  } else {
+    await db.execute(sql`alter type expense_status rename value 'PENDING' to 'SUBMITTED'`);
+  }
+}
+
+// expenses.receipt_url gave way to expense_attachments; keep the links until their files are fetched
+async function saveReceiptUrls(): Promise<void> {
+  if (!await columnExists('expenses', 'receipt_url')) {
+    return;
+  }
+
+  await db.execute(sql`create schema if not exists data_migrations`);
+  await db.execute(sql`
+    create table if not exists data_migrations.receipt_urls (
+      expense_id integer primary key,
+      receipt_url text not null,
+      error text
+    )
+  `);
+  await db.execute(sql`
+    insert into data_migrations.receipt_urls (expense_id, receipt_url)
+    select id, receipt_url from expenses where coalesce(receipt_url, '') <> ''
+    on conflict (expense_id) do nothing
+  `);
+}
+
+// Links are user-supplied, so only public web addresses are fetched. Hosts listed in
+// RECEIPT_IMPORT_ALLOWED_HOSTS (e.g. an internal file server the old links point to) skip the address check.
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https links are imported');
+  }
+
+  const allowedHosts = (process.env['RECEIPT_IMPORT_ALLOWED_HOSTS'] || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+  if (allowedHosts.includes(url.hostname.toLowerCase())) {
+    return;
+  }
+
+  const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true });
+  if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${url.hostname} is not a public address`);
+  }
+}
+
+// Read the body, giving up as soon as it passes the receipt size limit
+async function readLimited(response: Response): Promise<Buffer> {
+  const tooLarge = new Error(`The file is empty or larger than ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB`);
+  if (Number(response.headers.get('content-length')) > MAX_RECEIPT_BYTES || !response.body) {
+    throw tooLarge;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.length;
+    if (size > MAX_RECEIPT_BYTES) {
+      await response.body.cancel();
+      throw tooLarge;
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  if (size === 0) {
+    throw tooLarge;
+  }
+  return Buffer.concat(chunks);
+}
+
+// Redirects are followed by hand so every hop gets the same address check
+async function downloadReceipt(link: string): Promise<Buffer> {
+  const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+  let url = new URL(link);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { signal, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`The download failed with HTTP ${response.status}`);
+    }
+    return readLimited(response);
+  }
+
+  throw new Error(`The download was redirected more than ${MAX_REDIRECTS} times`);
+}
+
+function filenameOf(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '') || 'receipt';
+  } catch {
+    return 'receipt';
+  }
+}
+
+// Attach the files behind the saved links. Links that fail stay in data_migrations.receipt_urls
+// with the reason, and are tried again on the next run.
+export async function importReceiptUrls(): Promise<{ imported: number; failed: number }> {
+  const table = await db.execute<{ name: string | null }>(sql`select to_regclass('data_migrations.receipt_urls')::text as name`);
+  if (!table.rows[0]?.name) {
+    return { imported: 0, failed: 0 };
+  }
+
+  const links = await db.execute<{ expense_id: number; receipt_url: string; user_id: number | null }>(sql`
+    select link.expense_id, link.receipt_url, expenses.user_id
+    from data_migrations.receipt_urls link
+    left join expenses on expenses.id = link.expense_id
+    order by link.expense_id
+  `);
+
+  let imported = 0;
+  let failed = 0;
+  for (const link of links.rows) {
+    try {
+      // The expense was deleted since
+      if (link.user_id !== null) {
+        const data = await downloadReceipt(link.receipt_url);
+        const contentType = detectReceiptContentType(data);
+        if (!contentType) {
+          throw new Error('The file is not a JPEG, PNG, WebP or PDF');
+        }
+        await attachReceiptFile(link.expense_id, filenameOf(link.receipt_url), data, contentType, link.user_id);
+        imported++;
+      }
+      await db.execute(sql`delete from data_migrations.receipt_urls where expense_id = ${link.expense_id}`);
+    } catch (error) {
+      failed++;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Receipt link of expense ${link.expense_id} could not be imported:`, message);
+      await db.execute(sql`update data_migrations.receipt_urls set error = ${message} where expense_id = ${link.expense_id}`);
+    }
+  }
+
+  return { imported, failed };
+}
+
+// Expenses submitted before approval steps came in have none, so no approver would ever be asked
+export async function startMissingApprovalWorkflows(): Promise<{ started: number }> {
+  const expenses = await db.select()
+    .from(expensesTable)
+    .where(and(
+      eq(expensesTable.status, 'SUBMITTED'),
+      notExists(db.select({ id: expenseApprovalStepsTable.id })
+        .from(expenseApprovalStepsTable)
+        .where(eq(expenseApprovalStepsTable.expense_id, expensesTable.id)))
+    ))
+    .orderBy(asc(expensesTable.id))
+    .execute();
+
+  for (const expense of expenses) {
+    await withTransaction(() => startApprovalWorkflow(expense));
+  }
+  return { started: expenses.length };
+}
+
+export async function runDataMigrations(phase: Phase): Promise<void> {
+  if (phase === 'before') {
+    await renamePendingStatus();
+    await saveReceiptUrls();
+  } else {
+    const workflows = await startMissingApprovalWorkflows();
+    console.log('Started approval workflows:', workflows);
+    const receipts = await importReceiptUrls();
+    console.log('Imported receipt links:', receipts);
+  }
+}
+
+if (import.meta.main) {
+  const phase = process.argv[2];
+  if (phase !== 'before' && phase !== 'after') {
+    console.error('Usage: bun src/data_migrations.ts before|after');
+    process.exit(1);
+  }
+  await runDataMigrations(phase);
+  process.exit(0);
+}
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
 import * as schema from './schema';
@@ -8,4 +9,26 @@ const pool = new Pool({
 });
 
 // Pass schema to drizzle for relation queries
-export const db = drizzle(pool, { schema });
+const database = drizzle(pool, { schema });
+
+type Transaction = Parameters<Parameters<typeof database.transaction>[0]>[0];
+
+const currentTransaction = new AsyncLocalStorage<Transaction>();
+
+// Queries made through db inside withTransaction run in that transaction, so helpers
+// called from it (status changes, approval steps, notifications) commit or roll back with it
+export const db = new Proxy(database, {
+  get(target, property) {
+    const source = currentTransaction.getStore() ?? target;
+    const value = Reflect.get(source, property, source);
+    return typeof value === 'function' ? value.bind(source) : value;
+  }
+});
+
+// Run fn in a transaction that rolls back if it throws; nested calls join the outer transaction
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (currentTransaction.getStore()) {
+    return fn();
+  }
+  return database.transaction(tx => currentTransaction.run(tx, fn));
+}
@@ -8,16 +8,39 @@ import {
   boolean, 
   pgEnum,
   jsonb,
-  date
+  date,
+  unique,
+  index,
+  customType,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  }
+});
 
 // Enum definitions
 export const userRoleEnum = pgEnum('user_role', ['ADMIN', 'MANAGER', 'USER']);
-export const expenseStatusEnum = pgEnum('expense_status', ['PENDING', 'APPROVED', 'REJECTED']);
+export const expenseStatusEnum = pgEnum('expense_status', ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'SCHEDULED_FOR_PAYMENT', 'REIMBURSED', 'WITHDRAWN']);
 export const notificationTypeEnum = pgEnum('notification_type', ['BUDGET_ALERT', 'EXPENSE_APPROVAL', 'EXPENSE_REMINDER', 'SYSTEM_UPDATE']);
 export const budgetPeriodEnum = pgEnum('budget_period', ['MONTHLY', 'YEARLY']);
 export const recurringFrequencyEnum = pgEnum('recurring_frequency', ['DAILY', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
+export const tokenPurposeEnum = pgEnum('token_purpose', ['PASSWORD_RESET', 'EMAIL_VERIFICATION']);
+export const loginThrottleScopeEnum = pgEnum('login_throttle_scope', ['EMAIL', 'IP']);
+export const ssoProtocolEnum = pgEnum('sso_protocol', ['OIDC']);
+export const approverTypeEnum = pgEnum('approver_type', ['TEAM_MANAGER', 'USER']);
+export const approvalStepStatusEnum = pgEnum('approval_step_status', ['PENDING', 'APPROVED', 'REJECTED', 'SKIPPED']);
+export const reimbursementBatchStatusEnum = pgEnum('reimbursement_batch_status', ['SCHEDULED', 'PAID', 'REVERSED']);
+export const jobRunStatusEnum = pgEnum('job_run_status', ['RUNNING', 'SUCCEEDED', 'FAILED']);
+export const jobTriggerEnum = pgEnum('job_trigger', ['SCHEDULE', 'MANUAL']);
+export const receiptScanStatusEnum = pgEnum('receipt_scan_status', ['COMPLETED', 'FAILED']);
+export const exchangeRateSourceEnum = pgEnum('exchange_rate_source', ['MANUAL', 'CSV', 'ECB']);
+export const expenseTypeEnum = pgEnum('expense_type', ['STANDARD', 'MILEAGE', 'PER_DIEM']);
+export const distanceUnitEnum = pgEnum('distance_unit', ['KM', 'MI']);
+export const vehicleTypeEnum = pgEnum('vehicle_type', ['CAR', 'MOTORCYCLE', 'BICYCLE']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -30,10 +53,85 @@ export const usersTable = pgTable('users', {
   profile_picture_url: text('profile_picture_url'),
   is_email_verified: boolean('is_email_verified').notNull().default(false),
   is_active: boolean('is_active').notNull().default(true),
+  default_currency: text('default_currency'), // for new expenses; null for the base currency
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Login sessions backing rotating refresh tokens
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  refresh_token_hash: text('refresh_token_hash').notNull().unique(),
+  previous_token_hash: text('previous_token_hash'), // last rotated-out token, used to detect reuse
+  user_agent: text('user_agent'),
+  ip_address: text('ip_address'),
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Single-use tokens emailed to users (only the hash is stored)
+export const userTokensTable = pgTable('user_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  purpose: tokenPurposeEnum('purpose').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Outgoing mail captured by the outbox transport
+export const mailOutboxTable = pgTable('mail_outbox', {
+  id: serial('id').primaryKey(),
+  to_address: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// TOTP second factor; enabled_at stays null until the first code is confirmed
+export const twoFactorCredentialsTable = pgTable('two_factor_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }).unique(),
+  secret: text('secret').notNull(),
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'), // last accepted TOTP time step, blocks code replay
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Single-use recovery codes for users who lose their authenticator (only the hash is stored)
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Roles an admin has required to use two-factor authentication
+export const twoFactorPoliciesTable = pgTable('two_factor_policies', {
+  id: serial('id').primaryKey(),
+  role: userRoleEnum('role').notNull().unique(),
+  required: boolean('required').notNull().default(false),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Failed login counters per email and per client IP, with temporary lockouts
+export const loginThrottlesTable = pgTable('login_throttles', {
+  id: serial('id').primaryKey(),
+  scope: loginThrottleScopeEnum('scope').notNull(),
+  key: text('key').notNull(), // lower-cased email or IP address
+  failed_attempts: integer('failed_attempts').notNull().default(0),
+  last_failed_at: timestamp('last_failed_at').defaultNow().notNull(), // when the latest attempt was counted
+  locked_until: timestamp('locked_until'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('login_throttles_scope_key_unique').on(table.scope, table.key),
+]);
+
 // Teams table
 export const teamsTable = pgTable('teams', {
   id: serial('id').primaryKey(),
@@ -52,6 +150,63 @@ export const teamMembersTable = pgTable('team_members', {
   joined_at: timestamp('joined_at').defaultNow().notNull(),
 });
 
+// Company identity providers; protocol-specific settings live in config
+export const ssoProvidersTable = pgTable('sso_providers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  protocol: ssoProtocolEnum('protocol').notNull(),
+  config: jsonb('config').notNull(),
+  default_role: userRoleEnum('default_role').notNull().default('USER'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Email domains handled by a provider; force_sso disables password logins for them
+export const ssoDomainsTable = pgTable('sso_domains', {
+  id: serial('id').primaryKey(),
+  domain: text('domain').notNull().unique(), // lower-cased, e.g. "example.com"
+  provider_id: integer('provider_id').notNull().references(() => ssoProvidersTable.id, { onDelete: 'cascade' }),
+  force_sso: boolean('force_sso').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// IdP group -> role and/or team membership
+export const ssoGroupMappingsTable = pgTable('sso_group_mappings', {
+  id: serial('id').primaryKey(),
+  provider_id: integer('provider_id').notNull().references(() => ssoProvidersTable.id, { onDelete: 'cascade' }),
+  group: text('group').notNull(),
+  role: userRoleEnum('role'),
+  team_id: integer('team_id').references(() => teamsTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Links an IdP subject to a local user
+export const ssoIdentitiesTable = pgTable('sso_identities', {
+  id: serial('id').primaryKey(),
+  provider_id: integer('provider_id').notNull().references(() => ssoProvidersTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  subject: text('subject').notNull(),
+  last_login_at: timestamp('last_login_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('sso_identities_provider_subject_unique').on(table.provider_id, table.subject),
+]);
+
+// Pending authorization requests (state, nonce and PKCE verifier), single use
+export const ssoLoginStatesTable = pgTable('sso_login_states', {
+  id: serial('id').primaryKey(),
+  provider_id: integer('provider_id').notNull().references(() => ssoProvidersTable.id, { onDelete: 'cascade' }),
+  state_hash: text('state_hash').notNull().unique(),
+  nonce: text('nonce').notNull(),
+  code_verifier: text('code_verifier').notNull(),
+  redirect_uri: text('redirect_uri').notNull(),
+  browser_binding_hash: text('browser_binding_hash'), // cookie of the browser that started the login
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Categories table
 export const categoriesTable = pgTable('categories', {
   id: serial('id').primaryKey(),
@@ -86,18 +241,257 @@ export const expensesTable = pgTable('expenses', {
   category_id: integer('category_id').notNull().references(() => categoriesTable.id),
   title: text('title').notNull(),
   description: text('description'),
-  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
-  receipt_url: text('receipt_url'),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // in the base currency
+  // Set when the expense was entered in another currency: amount = original_amount * exchange_rate
+  currency: text('currency'),
+  original_amount: numeric('original_amount', { precision: 12, scale: 2 }),
+  exchange_rate: numeric('exchange_rate', { precision: 18, scale: 8 }),
+  // Mileage and per diem claims keep what the amount was calculated from, including the rates used
+  expense_type: expenseTypeEnum('expense_type').notNull().default('STANDARD'),
+  mileage: jsonb('mileage'),
+  per_diem: jsonb('per_diem'),
   tags: jsonb('tags').notNull().default('[]'),
-  status: expenseStatusEnum('status').notNull().default('PENDING'),
+  status: expenseStatusEnum('status').notNull().default('SUBMITTED'),
   is_recurring: boolean('is_recurring').notNull().default(false),
   recurring_frequency: recurringFrequencyEnum('recurring_frequency'),
   recurring_end_date: date('recurring_end_date'),
+  recurring_parent_id: integer('recurring_parent_id').references((): AnyPgColumn => expensesTable.id, { onDelete: 'set null' }), // template this occurrence was generated from
   expense_date: date('expense_date').notNull(),
   approved_by: integer('approved_by').references(() => usersTable.id),
   approved_at: timestamp('approved_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+  // Weighted full-text document: title (A), tags (B), description (C)
+  search_vector: tsvector('search_vector').generatedAlwaysAs(sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(jsonb_to_tsvector('english', tags, '["string"]'), 'B') || setweight(to_tsvector('english', coalesce(description, '')), 'C')`),
+}, (table) => [
+  index('expenses_search_vector_idx').using('gin', table.search_vector),
+  // Lets search pick up expenses through a matching category alongside the full-text index
+  index('expenses_category_id_idx').on(table.category_id),
+  // At most one occurrence per template and date, so the generator can safely re-run
+  unique('expenses_recurring_parent_date_unique').on(table.recurring_parent_id, table.expense_date)
+]);
+
+// Part of an expense booked to its own category and team. An expense without splits counts
+// whole under its own category and team; otherwise its splits add up to its amount.
+export const expenseSplitsTable = pgTable('expense_splits', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  category_id: integer('category_id').notNull().references(() => categoriesTable.id),
+  team_id: integer('team_id').references(() => teamsTable.id),
+  description: text('description'),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // in the base currency
+  original_amount: numeric('original_amount', { precision: 12, scale: 2 }).notNull(), // in the expense's currency
+  percentage: numeric('percentage', { precision: 7, scale: 4 }), // set when split by percentage
+  tags: jsonb('tags').notNull().default('[]'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('expense_splits_expense_idx').on(table.expense_id)
+]);
+
+// Every status change of an expense, with who made it; from_status is null for the initial status
+export const expenseStatusHistoryTable = pgTable('expense_status_history', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  from_status: expenseStatusEnum('from_status'),
+  to_status: expenseStatusEnum('to_status').notNull(),
+  changed_by: integer('changed_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  note: text('note'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Stored receipt contents, one row per distinct file (sha256) however many expenses attach it
+export const receiptFilesTable = pgTable('receipt_files', {
+  id: serial('id').primaryKey(),
+  sha256: text('sha256').notNull().unique(),
+  content_type: text('content_type').notNull(),
+  size: integer('size').notNull(), // bytes
+  storage_key: text('storage_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const expenseAttachmentsTable = pgTable('expense_attachments', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  file_id: integer('file_id').notNull().references(() => receiptFilesTable.id, { onDelete: 'restrict' }),
+  filename: text('filename').notNull(),
+  uploaded_by: integer('uploaded_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  // Uploading the same file to an expense twice keeps a single attachment
+  unique('expense_attachments_expense_file_unique').on(table.expense_id, table.file_id)
+]);
+
+// OCR result behind an expense drafted from a receipt; fields holds each value with its confidence
+export const receiptScansTable = pgTable('receipt_scans', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  attachment_id: integer('attachment_id').references(() => expenseAttachmentsTable.id, { onDelete: 'set null' }),
+  status: receiptScanStatusEnum('status').notNull(),
+  engine: text('engine').notNull(),
+  text: text('text'),
+  fields: jsonb('fields').notNull(),
+  error: text('error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// One unit of base_currency is worth rate units of currency on rate_date
+export const exchangeRatesTable = pgTable('exchange_rates', {
+  id: serial('id').primaryKey(),
+  base_currency: text('base_currency').notNull(),
+  currency: text('currency').notNull(),
+  rate_date: date('rate_date').notNull(),
+  rate: numeric('rate', { precision: 18, scale: 8 }).notNull(),
+  source: exchangeRateSourceEnum('source').notNull().default('MANUAL'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('exchange_rates_pair_date_unique').on(table.base_currency, table.currency, table.rate_date)
+]);
+
+// Reimbursement per distance unit in the base currency, from effective_from until the next rate
+export const mileageRatesTable = pgTable('mileage_rates', {
+  id: serial('id').primaryKey(),
+  vehicle_type: vehicleTypeEnum('vehicle_type').notNull(),
+  unit: distanceUnitEnum('unit').notNull(),
+  rate: numeric('rate', { precision: 10, scale: 4 }).notNull(),
+  effective_from: date('effective_from').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('mileage_rates_vehicle_unit_date_unique').on(table.vehicle_type, table.unit, table.effective_from)
+]);
+
+// Daily allowance per destination in the base currency, less a fixed amount for each meal provided
+export const perDiemRatesTable = pgTable('per_diem_rates', {
+  id: serial('id').primaryKey(),
+  destination: text('destination').notNull(), // upper-cased, e.g. a country code
+  daily_rate: numeric('daily_rate', { precision: 10, scale: 2 }).notNull(),
+  breakfast_deduction: numeric('breakfast_deduction', { precision: 10, scale: 2 }).notNull().default('0'),
+  lunch_deduction: numeric('lunch_deduction', { precision: 10, scale: 2 }).notNull().default('0'),
+  dinner_deduction: numeric('dinner_deduction', { precision: 10, scale: 2 }).notNull().default('0'),
+  effective_from: date('effective_from').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('per_diem_rates_destination_date_unique').on(table.destination, table.effective_from)
+]);
+
+// Approval stages; team rules replace the global (team_id null) ones, and a stage applies from min_amount up
+export const approvalRulesTable = pgTable('approval_rules', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  team_id: integer('team_id').references(() => teamsTable.id, { onDelete: 'cascade' }),
+  min_amount: numeric('min_amount', { precision: 12, scale: 2 }).notNull().default('0'),
+  step_order: integer('step_order').notNull(),
+  approver_type: approverTypeEnum('approver_type').notNull(),
+  approver_id: integer('approver_id').references(() => usersTable.id, { onDelete: 'cascade' }),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One row per stage an expense goes through, with the decision taken; a null approver means any admin
+export const expenseApprovalStepsTable = pgTable('expense_approval_steps', {
+  id: serial('id').primaryKey(),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id, { onDelete: 'cascade' }),
+  rule_id: integer('rule_id').references(() => approvalRulesTable.id, { onDelete: 'set null' }),
+  step_order: integer('step_order').notNull(),
+  approver_id: integer('approver_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  status: approvalStepStatusEnum('status').notNull().default('PENDING'),
+  decided_by: integer('decided_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  on_behalf_of: integer('on_behalf_of').references(() => usersTable.id, { onDelete: 'set null' }), // set when a delegate decided
+  comment: text('comment'),
+  decided_at: timestamp('decided_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Out-of-office cover: the delegate may decide the delegator's approval steps between the two dates (inclusive)
+export const approvalDelegationsTable = pgTable('approval_delegations', {
+  id: serial('id').primaryKey(),
+  delegator_id: integer('delegator_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  delegate_id: integer('delegate_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  team_id: integer('team_id').references(() => teamsTable.id, { onDelete: 'cascade' }), // null covers every team
+  starts_on: date('starts_on').notNull(),
+  ends_on: date('ends_on').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Where a user's reimbursements are paid to
+export const payoutAccountsTable = pgTable('payout_accounts', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }).unique(),
+  account_holder: text('account_holder').notNull(),
+  iban: text('iban').notNull(), // normalized: upper case, no spaces
+  bic: text('bic'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One payout run; its payments are exported to the bank as a single file
+export const reimbursementBatchesTable = pgTable('reimbursement_batches', {
+  id: serial('id').primaryKey(),
+  status: reimbursementBatchStatusEnum('status').notNull().default('SCHEDULED'),
+  execution_date: date('execution_date').notNull(),
+  total_amount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
+  payment_count: integer('payment_count').notNull(),
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  paid_at: timestamp('paid_at'),
+  reversed_at: timestamp('reversed_at'),
+  reversal_reason: text('reversal_reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One transfer per user and batch; account details are copied so later edits don't change an exported file
+export const reimbursementPaymentsTable = pgTable('reimbursement_payments', {
+  id: serial('id').primaryKey(),
+  batch_id: integer('batch_id').notNull().references(() => reimbursementBatchesTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  account_holder: text('account_holder').notNull(),
+  iban: text('iban').notNull(),
+  bic: text('bic'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// The expenses a payment reimburses
+export const reimbursementItemsTable = pgTable('reimbursement_items', {
+  id: serial('id').primaryKey(),
+  payment_id: integer('payment_id').notNull().references(() => reimbursementPaymentsTable.id, { onDelete: 'cascade' }),
+  expense_id: integer('expense_id').notNull().references(() => expensesTable.id),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+});
+
+// Periodic background jobs; rows are synced from the definitions registered in code
+export const scheduledJobsTable = pgTable('scheduled_jobs', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description').notNull(),
+  schedule: text('schedule').notNull(), // cron expression, UTC
+  max_attempts: integer('max_attempts').notNull().default(3),
+  is_paused: boolean('is_paused').notNull().default(false),
+  next_run_at: timestamp('next_run_at').notNull(),
+  attempt: integer('attempt').notNull().default(0), // consecutive failures of the current run
+  // Lease held by the instance running the job; expired leases can be taken over
+  locked_by: text('locked_by'),
+  locked_until: timestamp('locked_until'),
+  last_run_at: timestamp('last_run_at'),
+  last_status: jobRunStatusEnum('last_status'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const jobRunsTable = pgTable('job_runs', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => scheduledJobsTable.id, { onDelete: 'cascade' }),
+  trigger: jobTriggerEnum('trigger').notNull(),
+  status: jobRunStatusEnum('status').notNull().default('RUNNING'),
+  attempt: integer('attempt').notNull(),
+  worker: text('worker').notNull(),
+  result: jsonb('result'),
+  error: text('error'),
+  started_at: timestamp('started_at').defaultNow().notNull(),
+  finished_at: timestamp('finished_at'),
 });
 
 // Notifications table
@@ -114,6 +508,9 @@ export const notificationsTable = pgTable('notifications', {
 
 // Define relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
+  tokens: many(userTokensTable),
+  recoveryCodes: many(recoveryCodesTable),
   managedTeams: many(teamsTable),
   teamMemberships: many(teamMembersTable),
   categories: many(categoriesTable),
@@ -123,6 +520,34 @@ export const usersRelations = relations(usersTable, ({ many }) => ({
   notifications: many(notificationsTable),
 }));
 
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const userTokensRelations = relations(userTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const twoFactorCredentialsRelations = relations(twoFactorCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorCredentialsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
 export const teamsRelations = relations(teamsTable, ({ one, many }) => ({
   manager: one(usersTable, {
     fields: [teamsTable.manager_id],
@@ -130,6 +555,7 @@ export const teamsRelations = relations(teamsTable, ({ one, many }) => ({
   }),
   members: many(teamMembersTable),
   expenses: many(expensesTable),
+  expenseSplits: many(expenseSplitsTable),
 }));
 
 export const teamMembersRelations = relations(teamMembersTable, ({ one }) => ({
@@ -150,6 +576,7 @@ export const categoriesRelations = relations(categoriesTable, ({ one, many }) =>
   }),
   budgets: many(budgetsTable),
   expenses: many(expensesTable),
+  expenseSplits: many(expenseSplitsTable),
 }));
 
 export const budgetsRelations = relations(budgetsTable, ({ one }) => ({
@@ -163,7 +590,7 @@ export const budgetsRelations = relations(budgetsTable, ({ one }) => ({
   }),
 }));
 
-export const expensesRelations = relations(expensesTable, ({ one }) => ({
+export const expensesRelations = relations(expensesTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [expensesTable.user_id],
     references: [usersTable.id],
@@ -180,6 +607,164 @@ export const expensesRelations = relations(expensesTable, ({ one }) => ({
     fields: [expensesTable.approved_by],
     references: [usersTable.id],
   }),
+  approvalSteps: many(expenseApprovalStepsTable),
+  statusHistory: many(expenseStatusHistoryTable),
+  splits: many(expenseSplitsTable),
+  attachments: many(expenseAttachmentsTable),
+  receiptScans: many(receiptScansTable),
+  recurringTemplate: one(expensesTable, {
+    fields: [expensesTable.recurring_parent_id],
+    references: [expensesTable.id],
+    relationName: 'recurring_occurrences',
+  }),
+  recurringOccurrences: many(expensesTable, { relationName: 'recurring_occurrences' }),
+  reimbursementItems: many(reimbursementItemsTable),
+}));
+
+export const expenseSplitsRelations = relations(expenseSplitsTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseSplitsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  category: one(categoriesTable, {
+    fields: [expenseSplitsTable.category_id],
+    references: [categoriesTable.id],
+  }),
+  team: one(teamsTable, {
+    fields: [expenseSplitsTable.team_id],
+    references: [teamsTable.id],
+  }),
+}));
+
+export const expenseStatusHistoryRelations = relations(expenseStatusHistoryTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseStatusHistoryTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  changedBy: one(usersTable, {
+    fields: [expenseStatusHistoryTable.changed_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const receiptFilesRelations = relations(receiptFilesTable, ({ many }) => ({
+  attachments: many(expenseAttachmentsTable),
+}));
+
+export const expenseAttachmentsRelations = relations(expenseAttachmentsTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseAttachmentsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  file: one(receiptFilesTable, {
+    fields: [expenseAttachmentsTable.file_id],
+    references: [receiptFilesTable.id],
+  }),
+  uploadedBy: one(usersTable, {
+    fields: [expenseAttachmentsTable.uploaded_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const receiptScansRelations = relations(receiptScansTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [receiptScansTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  attachment: one(expenseAttachmentsTable, {
+    fields: [receiptScansTable.attachment_id],
+    references: [expenseAttachmentsTable.id],
+  }),
+}));
+
+export const approvalRulesRelations = relations(approvalRulesTable, ({ one }) => ({
+  team: one(teamsTable, {
+    fields: [approvalRulesTable.team_id],
+    references: [teamsTable.id],
+  }),
+  approver: one(usersTable, {
+    fields: [approvalRulesTable.approver_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const approvalDelegationsRelations = relations(approvalDelegationsTable, ({ one }) => ({
+  delegator: one(usersTable, {
+    fields: [approvalDelegationsTable.delegator_id],
+    references: [usersTable.id],
+  }),
+  delegate: one(usersTable, {
+    fields: [approvalDelegationsTable.delegate_id],
+    references: [usersTable.id],
+  }),
+  team: one(teamsTable, {
+    fields: [approvalDelegationsTable.team_id],
+    references: [teamsTable.id],
+  }),
+}));
+
+export const expenseApprovalStepsRelations = relations(expenseApprovalStepsTable, ({ one }) => ({
+  expense: one(expensesTable, {
+    fields: [expenseApprovalStepsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+  rule: one(approvalRulesTable, {
+    fields: [expenseApprovalStepsTable.rule_id],
+    references: [approvalRulesTable.id],
+  }),
+  approver: one(usersTable, {
+    fields: [expenseApprovalStepsTable.approver_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const payoutAccountsRelations = relations(payoutAccountsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [payoutAccountsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const reimbursementBatchesRelations = relations(reimbursementBatchesTable, ({ one, many }) => ({
+  createdBy: one(usersTable, {
+    fields: [reimbursementBatchesTable.created_by],
+    references: [usersTable.id],
+  }),
+  payments: many(reimbursementPaymentsTable),
+}));
+
+export const reimbursementPaymentsRelations = relations(reimbursementPaymentsTable, ({ one, many }) => ({
+  batch: one(reimbursementBatchesTable, {
+    fields: [reimbursementPaymentsTable.batch_id],
+    references: [reimbursementBatchesTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [reimbursementPaymentsTable.user_id],
+    references: [usersTable.id],
+  }),
+  items: many(reimbursementItemsTable),
+}));
+
+export const reimbursementItemsRelations = relations(reimbursementItemsTable, ({ one }) => ({
+  payment: one(reimbursementPaymentsTable, {
+    fields: [reimbursementItemsTable.payment_id],
+    references: [reimbursementPaymentsTable.id],
+  }),
+  expense: one(expensesTable, {
+    fields: [reimbursementItemsTable.expense_id],
+    references: [expensesTable.id],
+  }),
+}));
+
+export const scheduledJobsRelations = relations(scheduledJobsTable, ({ many }) => ({
+  runs: many(jobRunsTable),
+}));
+
+export const jobRunsRelations = relations(jobRunsTable, ({ one }) => ({
+  job: one(scheduledJobsTable, {
+    fields: [jobRunsTable.job_id],
+    references: [scheduledJobsTable.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
@@ -193,10 +778,81 @@ export const notificationsRelations = relations(notificationsTable, ({ one }) =>
   }),
 }));
 
+export const ssoProvidersRelations = relations(ssoProvidersTable, ({ many }) => ({
+  domains: many(ssoDomainsTable),
+  groupMappings: many(ssoGroupMappingsTable),
+  identities: many(ssoIdentitiesTable),
+}));
+
+export const ssoDomainsRelations = relations(ssoDomainsTable, ({ one }) => ({
+  provider: one(ssoProvidersTable, {
+    fields: [ssoDomainsTable.provider_id],
+    references: [ssoProvidersTable.id],
+  }),
+}));
+
+export const ssoGroupMappingsRelations = relations(ssoGroupMappingsTable, ({ one }) => ({
+  provider: one(ssoProvidersTable, {
+    fields: [ssoGroupMappingsTable.provider_id],
+    references: [ssoProvidersTable.id],
+  }),
+  team: one(teamsTable, {
+    fields: [ssoGroupMappingsTable.team_id],
+    references: [teamsTable.id],
+  }),
+}));
+
+export const ssoIdentitiesRelations = relations(ssoIdentitiesTable, ({ one }) => ({
+  provider: one(ssoProvidersTable, {
+    fields: [ssoIdentitiesTable.provider_id],
+    references: [ssoProvidersTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [ssoIdentitiesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type UserToken = typeof userTokensTable.$inferSelect;
+export type NewUserToken = typeof userTokensTable.$inferInsert;
+
+export type MailOutboxMessage = typeof mailOutboxTable.$inferSelect;
+export type NewMailOutboxMessage = typeof mailOutboxTable.$inferInsert;
+
+export type TwoFactorCredential = typeof twoFactorCredentialsTable.$inferSelect;
+export type NewTwoFactorCredential = typeof twoFactorCredentialsTable.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+
+export type TwoFactorPolicy = typeof twoFactorPoliciesTable.$inferSelect;
+export type NewTwoFactorPolicy = typeof twoFactorPoliciesTable.$inferInsert;
+
+export type LoginThrottle = typeof loginThrottlesTable.$inferSelect;
+export type NewLoginThrottle = typeof loginThrottlesTable.$inferInsert;
+
+export type SsoProvider = typeof ssoProvidersTable.$inferSelect;
+export type NewSsoProvider = typeof ssoProvidersTable.$inferInsert;
+
+export type SsoDomain = typeof ssoDomainsTable.$inferSelect;
+export type NewSsoDomain = typeof ssoDomainsTable.$inferInsert;
+
+export type SsoGroupMapping = typeof ssoGroupMappingsTable.$inferSelect;
+export type NewSsoGroupMapping = typeof ssoGroupMappingsTable.$inferInsert;
+
+export type SsoIdentity = typeof ssoIdentitiesTable.$inferSelect;
+export type NewSsoIdentity = typeof ssoIdentitiesTable.$inferInsert;
+
+export type SsoLoginState = typeof ssoLoginStatesTable.$inferSelect;
+export type NewSsoLoginState = typeof ssoLoginStatesTable.$inferInsert;
+
 export type Team = typeof teamsTable.$inferSelect;
 export type NewTeam = typeof teamsTable.$inferInsert;
 
@@ -212,16 +868,96 @@ export type NewBudget = typeof budgetsTable.$inferInsert;
 export type Expense = typeof expensesTable.$inferSelect;
 export type NewExpense = typeof expensesTable.$inferInsert;
 
+export type ExpenseSplit = typeof expenseSplitsTable.$inferSelect;
+export type NewExpenseSplit = typeof expenseSplitsTable.$inferInsert;
+
+export type ExpenseStatusHistory = typeof expenseStatusHistoryTable.$inferSelect;
+export type NewExpenseStatusHistory = typeof expenseStatusHistoryTable.$inferInsert;
+
+export type ReceiptFile = typeof receiptFilesTable.$inferSelect;
+export type NewReceiptFile = typeof receiptFilesTable.$inferInsert;
+
+export type ExpenseAttachment = typeof expenseAttachmentsTable.$inferSelect;
+export type NewExpenseAttachment = typeof expenseAttachmentsTable.$inferInsert;
+
+export type ReceiptScan = typeof receiptScansTable.$inferSelect;
+export type NewReceiptScan = typeof receiptScansTable.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRatesTable.$inferSelect;
+export type NewExchangeRate = typeof exchangeRatesTable.$inferInsert;
+
+export type MileageRate = typeof mileageRatesTable.$inferSelect;
+export type NewMileageRate = typeof mileageRatesTable.$inferInsert;
+
+export type PerDiemRate = typeof perDiemRatesTable.$inferSelect;
+export type NewPerDiemRate = typeof perDiemRatesTable.$inferInsert;
+
+export type ApprovalRule = typeof approvalRulesTable.$inferSelect;
+export type NewApprovalRule = typeof approvalRulesTable.$inferInsert;
+
+export type ExpenseApprovalStep = typeof expenseApprovalStepsTable.$inferSelect;
+export type NewExpenseApprovalStep = typeof expenseApprovalStepsTable.$inferInsert;
+
+export type ApprovalDelegation = typeof approvalDelegationsTable.$inferSelect;
+export type NewApprovalDelegation = typeof approvalDelegationsTable.$inferInsert;
+
+export type PayoutAccount = typeof payoutAccountsTable.$inferSelect;
+export type NewPayoutAccount = typeof payoutAccountsTable.$inferInsert;
+
+export type ReimbursementBatch = typeof reimbursementBatchesTable.$inferSelect;
+export type NewReimbursementBatch = typeof reimbursementBatchesTable.$inferInsert;
+
+export type ReimbursementPayment = typeof reimbursementPaymentsTable.$inferSelect;
+export type NewReimbursementPayment = typeof reimbursementPaymentsTable.$inferInsert;
+
+export type ReimbursementItem = typeof reimbursementItemsTable.$inferSelect;
+export type NewReimbursementItem = typeof reimbursementItemsTable.$inferInsert;
+
+export type ScheduledJob = typeof scheduledJobsTable.$inferSelect;
+export type NewScheduledJob = typeof scheduledJobsTable.$inferInsert;
+
+export type JobRun = typeof jobRunsTable.$inferSelect;
+export type NewJobRun = typeof jobRunsTable.$inferInsert;
+
 export type Notification = typeof notificationsTable.$inferSelect;
 export type NewNotification = typeof notificationsTable.$inferInsert;
 
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  userTokens: userTokensTable,
+  mailOutbox: mailOutboxTable,
+  twoFactorCredentials: twoFactorCredentialsTable,
+  recoveryCodes: recoveryCodesTable,
+  twoFactorPolicies: twoFactorPoliciesTable,
+  loginThrottles: loginThrottlesTable,
+  ssoProviders: ssoProvidersTable,
+  ssoDomains: ssoDomainsTable,
+  ssoGroupMappings: ssoGroupMappingsTable,
+  ssoIdentities: ssoIdentitiesTable,
+  ssoLoginStates: ssoLoginStatesTable,
   teams: teamsTable,
   teamMembers: teamMembersTable,
   categories: categoriesTable,
   budgets: budgetsTable,
   expenses: expensesTable,
+  expenseSplits: expenseSplitsTable,
+  expenseStatusHistory: expenseStatusHistoryTable,
+  receiptFiles: receiptFilesTable,
+  expenseAttachments: expenseAttachmentsTable,
+  receiptScans: receiptScansTable,
+  exchangeRates: exchangeRatesTable,
+  mileageRates: mileageRatesTable,
+  perDiemRates: perDiemRatesTable,
+  approvalRules: approvalRulesTable,
+  expenseApprovalSteps: expenseApprovalStepsTable,
+  approvalDelegations: approvalDelegationsTable,
+  payoutAccounts: payoutAccountsTable,
+  reimbursementBatches: reimbursementBatchesTable,
+  reimbursementPayments: reimbursementPaymentsTable,
+  reimbursementItems: reimbursementItemsTable,
+  scheduledJobs: scheduledJobsTable,
+  jobRuns: jobRunsTable,
   notifications: notificationsTable,
 };
\ No newline at end of file
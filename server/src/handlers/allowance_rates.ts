@@ -0,0 +1,248 @@
+import { db } from '../db';
+import { mileageRatesTable, perDiemRatesTable } from '../db/schema';
+import {
+  type MileageDetails,
+  type MileageInput,
+  type MileageRate,
+  type PerDiemDetails,
+  type PerDiemInput,
+  type PerDiemRate,
+  type SetMileageRateInput,
+  type SetPerDiemRateInput
+} from '../schema';
+import { and, asc, desc, eq, lte, sql } from 'drizzle-orm';
+
+const KM_PER_MILE = 1.609344;
+
+function convertMileageRate(rate: typeof mileageRatesTable.$inferSelect): MileageRate {
+  return { ...rate, rate: parseFloat(rate.rate), effective_from: new Date(rate.effective_from) };
+}
+
+function convertPerDiemRate(rate: typeof perDiemRatesTable.$inferSelect): PerDiemRate {
+  return {
+    ...rate,
+    daily_rate: parseFloat(rate.daily_rate),
+    breakfast_deduction: parseFloat(rate.breakfast_deduction),
+    lunch_deduction: parseFloat(rate.lunch_deduction),
+    dinner_deduction: parseFloat(rate.dinner_deduction),
+    effective_from: new Date(rate.effective_from)
+  };
+}
+
+function normalizeDestination(destination: string): string {
+  return destination.trim().toUpperCase();
+}
+
+// Rate per unit in effect on the date; a rate set per kilometre also prices miles and vice versa
+async function findMileageRate(vehicleType: MileageInput['vehicle_type'], unit: MileageInput['unit'], date: string): Promise<number | null> {
+  const rows = await db.selectDistinctOn([mileageRatesTable.unit])
+    .from(mileageRatesTable)
+    .where(and(eq(mileageRatesTable.vehicle_type, vehicleType), lte(mileageRatesTable.effective_from, date)))
+    .orderBy(mileageRatesTable.unit, desc(mileageRatesTable.effective_from))
+    .execute();
+
+  const same = rows.find(row => row.unit === unit);
+  if (same) {
+    return parseFloat(same.rate);
+  }
+  const other = rows[0];
+  if (!other) {
+    return null;
+  }
+  const rate = parseFloat(other.rate);
+  return Math.round((unit === 'MI' ? rate * KM_PER_MILE : rate / KM_PER_MILE) * 10000) / 10000;
+}
+
+async function findPerDiemRate(destination: string, date: string): Promise<typeof perDiemRatesTable.$inferSelect | null> {
+  const rows = await db.select()
+    .from(perDiemRatesTable)
+    .where(and(eq(perDiemRatesTable.destination, normalizeDestination(destination)), lte(perDiemRatesTable.effective_from, date)))
+    .orderBy(desc(perDiemRatesTable.effective_from))
+    .limit(1)
+    .execute();
+
+  return rows[0] ?? null;
+}
+
+// Base currency amount of a trip at the rate in effect on the expense date. The previous
+// calculation's rate is used when none is found, e.g. for a recurring occurrence.
+export async function calculateMileage(input: MileageInput, date: string, previous?: MileageDetails | null): Promise<{ amount: number; mileage: MileageDetails }> {
+  const rate = await findMileageRate(input.vehicle_type, input.unit, date)
+    ?? (previous?.vehicle_type === input.vehicle_type && previous.unit === input.unit ? previous.rate : null);
+  if (rate === null) {
+    throw new Error(`No ${input.vehicle_type} mileage rate on or before ${date}`);
+  }
+
+  const amount = Math.round(input.distance * rate * 100) / 100;
+  if (amount <= 0) {
+    throw new Error('The distance is too short to claim');
+  }
+  return { amount, mileage: { distance: input.distance, unit: input.unit, vehicle_type: input.vehicle_type, rate } };
+}
+
+// Daily allowance for the destination less the meals provided, at the rate in effect on the expense date
+export async function calculatePerDiem(input: PerDiemInput, date: string, previous?: PerDiemDetails | null): Promise<{ amount: number; per_diem: PerDiemDetails }> {
+  const destination = normalizeDestination(input.destination);
+  const found = await findPerDiemRate(destination, date);
+
+  let rates: Pick<PerDiemDetails, 'daily_rate' | 'breakfast_deduction' | 'lunch_deduction' | 'dinner_deduction'>;
+  if (found) {
+    rates = {
+      daily_rate: parseFloat(found.daily_rate),
+      breakfast_deduction: parseFloat(found.breakfast_deduction),
+      lunch_deduction: parseFloat(found.lunch_deduction),
+      dinner_deduction: parseFloat(found.dinner_deduction)
+    };
+  } else if (previous?.destination === destination) {
+    rates = previous;
+  } else {
+    throw new Error(`No per diem rate for ${destination} on or before ${date}`);
+  }
+
+  // In cents, so deductions cannot leave rounding residue
+  const cents = (value: number) => Math.round(value * 100);
+  const totalCents = input.days * cents(rates.daily_rate)
+    - input.breakfasts * cents(rates.breakfast_deduction)
+    - input.lunches * cents(rates.lunch_deduction)
+    - input.dinners * cents(rates.dinner_deduction);
+  if (totalCents <= 0) {
+    throw new Error('The meals provided use up the whole allowance');
+  }
+
+  return {
+    amount: totalCents / 100,
+    per_diem: {
+      destination,
+      days: input.days,
+      breakfasts: input.breakfasts,
+      lunches: input.lunches,
+      dinners: input.dinners,
+      daily_rate: rates.daily_rate,
+      breakfast_deduction: rates.breakfast_deduction,
+      lunch_deduction: rates.lunch_deduction,
+      dinner_deduction: rates.dinner_deduction
+    }
+  };
+}
+
+export async function getMileageRates(): Promise<MileageRate[]> {
+  try {
+    const rates = await db.select()
+      .from(mileageRatesTable)
+      .orderBy(asc(mileageRatesTable.vehicle_type), asc(mileageRatesTable.unit), desc(mileageRatesTable.effective_from))
+      .execute();
+
+    return rates.map(convertMileageRate);
+  } catch (error) {
+    console.error('Failed to fetch mileage rates:', error);
+    throw error;
+  }
+}
+
+// Expenses keep the rate they were calculated with, so changing or removing a rate changes no amounts
+export async function setMileageRate(input: SetMileageRateInput): Promise<MileageRate> {
+  try {
+    const rates = await db.insert(mileageRatesTable)
+      .values({
+        vehicle_type: input.vehicle_type,
+        unit: input.unit,
+        rate: input.rate.toString(),
+        effective_from: input.effective_from.toISOString().split('T')[0]
+      })
+      .onConflictDoUpdate({
+        target: [mileageRatesTable.vehicle_type, mileageRatesTable.unit, mileageRatesTable.effective_from],
+        set: { rate: sql`excluded.rate`, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return convertMileageRate(rates[0]);
+  } catch (error) {
+    console.error('Mileage rate update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteMileageRate(id: number): Promise<{ success: boolean }> {
+  try {
+    const deleted = await db.delete(mileageRatesTable)
+      .where(eq(mileageRatesTable.id, id))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error(`Mileage rate with id ${id} not found`);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Mileage rate deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getPerDiemRates(): Promise<PerDiemRate[]> {
+  try {
+    const rates = await db.select()
+      .from(perDiemRatesTable)
+      .orderBy(asc(perDiemRatesTable.destination), desc(perDiemRatesTable.effective_from))
+      .execute();
+
+    return rates.map(convertPerDiemRate);
+  } catch (error) {
+    console.error('Failed to fetch per diem rates:', error);
+    throw error;
+  }
+}
+
+export async function setPerDiemRate(input: SetPerDiemRateInput): Promise<PerDiemRate> {
+  try {
+    const deductions = [input.breakfast_deduction, input.lunch_deduction, input.dinner_deduction];
+    if (deductions.some(deduction => deduction > input.daily_rate)) {
+      throw new Error('A meal deduction cannot exceed the daily rate');
+    }
+
+    const rates = await db.insert(perDiemRatesTable)
+      .values({
+        destination: normalizeDestination(input.destination),
+        daily_rate: input.daily_rate.toString(),
+        breakfast_deduction: input.breakfast_deduction.toString(),
+        lunch_deduction: input.lunch_deduction.toString(),
+        dinner_deduction: input.dinner_deduction.toString(),
+        effective_from: input.effective_from.toISOString().split('T')[0]
+      })
+      .onConflictDoUpdate({
+        target: [perDiemRatesTable.destination, perDiemRatesTable.effective_from],
+        set: {
+          daily_rate: sql`excluded.daily_rate`,
+          breakfast_deduction: sql`excluded.breakfast_deduction`,
+          lunch_deduction: sql`excluded.lunch_deduction`,
+          dinner_deduction: sql`excluded.dinner_deduction`,
+          updated_at: new Date()
+        }
+      })
+      .returning()
+      .execute();
+
+    return convertPerDiemRate(rates[0]);
+  } catch (error) {
+    console.error('Per diem rate update failed:', error);
+    throw error;
+  }
+}
+
+export async function deletePerDiemRate(id: number): Promise<{ success: boolean }> {
+  try {
+    const deleted = await db.delete(perDiemRatesTable)
+      .where(eq(perDiemRatesTable.id, id))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error(`Per diem rate with id ${id} not found`);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Per diem rate deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,599 @@
+import { db, withTransaction } from '../db';
+import {
+  approvalDelegationsTable,
+  approvalRulesTable,
+  expenseApprovalStepsTable,
+  expensesTable,
+  notificationsTable,
+  teamMembersTable,
+  teamsTable,
+  usersTable,
+  type NewApprovalRule
+} from '../db/schema';
+import {
+  type ApprovalDelegation,
+  type ApprovalRule,
+  type ApprovalStep,
+  type ApproveExpenseInput,
+  type AuthUser,
+  type CreateApprovalDelegationInput,
+  type CreateApprovalRuleInput,
+  type UpdateApprovalRuleInput
+} from '../schema';
+import { authorize, belongsToTeam } from '../policy';
+import { sendExpenseApprovalNotification } from './notifications';
+import { transitionExpense } from './expense_status';
+import { TRPCError } from '@trpc/server';
+import { and, asc, desc, eq, gte, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+
+type DbExpense = typeof expensesTable.$inferSelect;
+type DbApprovalRule = typeof approvalRulesTable.$inferSelect;
+type DbApprovalStep = typeof expenseApprovalStepsTable.$inferSelect;
+type DbApprovalDelegation = typeof approvalDelegationsTable.$inferSelect;
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function convertRule(rule: DbApprovalRule): ApprovalRule {
+  return {
+    ...rule,
+    min_amount: parseFloat(rule.min_amount)
+  };
+}
+
+async function loadRule(id: number): Promise<DbApprovalRule> {
+  const rules = await db.select()
+    .from(approvalRulesTable)
+    .where(eq(approvalRulesTable.id, id))
+    .execute();
+
+  if (rules.length === 0) {
+    throw new Error(`Approval rule with id ${id} not found`);
+  }
+
+  return rules[0];
+}
+
+async function assertUserExists(userId: number): Promise<void> {
+  const users = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+}
+
+async function assertTeamExists(teamId: number): Promise<void> {
+  const teams = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .where(eq(teamsTable.id, teamId))
+    .execute();
+
+  if (teams.length === 0) {
+    throw new Error(`Team with id ${teamId} not found`);
+  }
+}
+
+async function displayName(userId: number): Promise<string> {
+  const users = await db.select({ first_name: usersTable.first_name, last_name: usersTable.last_name })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users.length > 0 ? `${users[0].first_name} ${users[0].last_name}` : `user #${userId}`;
+}
+
+export async function createApprovalRule(input: CreateApprovalRuleInput): Promise<ApprovalRule> {
+  try {
+    if (input.team_id) {
+      await assertTeamExists(input.team_id);
+    }
+
+    if (input.approver_type === 'USER' && input.approver_id) {
+      await assertUserExists(input.approver_id);
+    }
+
+    const result = await db.insert(approvalRulesTable)
+      .values({
+        name: input.name,
+        team_id: input.team_id || null,
+        min_amount: (input.min_amount || 0).toString(),
+        step_order: input.step_order,
+        approver_type: input.approver_type,
+        approver_id: input.approver_type === 'USER' ? input.approver_id : null
+      })
+      .returning()
+      .execute();
+
+    return convertRule(result[0]);
+  } catch (error) {
+    console.error('Approval rule creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getApprovalRules(teamId?: number): Promise<ApprovalRule[]> {
+  try {
+    const rules = await db.select()
+      .from(approvalRulesTable)
+      .where(teamId !== undefined ? eq(approvalRulesTable.team_id, teamId) : undefined)
+      .orderBy(sql`${approvalRulesTable.team_id} nulls first`, asc(approvalRulesTable.step_order), asc(approvalRulesTable.min_amount))
+      .execute();
+
+    return rules.map(convertRule);
+  } catch (error) {
+    console.error('Failed to fetch approval rules:', error);
+    throw error;
+  }
+}
+
+export async function updateApprovalRule(input: UpdateApprovalRuleInput): Promise<ApprovalRule> {
+  try {
+    const existing = await loadRule(input.id);
+
+    const approverType = input.approver_type ?? existing.approver_type;
+    const approverId = input.approver_id !== undefined ? input.approver_id : existing.approver_id;
+
+    if (approverType === 'USER') {
+      if (!approverId) {
+        throw new Error('USER rules need an approver_id');
+      }
+      await assertUserExists(approverId);
+    }
+
+    const updateData: Partial<NewApprovalRule> = {
+      approver_type: approverType,
+      approver_id: approverType === 'USER' ? approverId : null,
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.min_amount !== undefined) updateData.min_amount = input.min_amount.toString();
+    if (input.step_order !== undefined) updateData.step_order = input.step_order;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(approvalRulesTable)
+      .set(updateData)
+      .where(eq(approvalRulesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return convertRule(result[0]);
+  } catch (error) {
+    console.error('Approval rule update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteApprovalRule(id: number): Promise<{ success: boolean }> {
+  try {
+    await loadRule(id);
+
+    await db.delete(approvalRulesTable)
+      .where(eq(approvalRulesTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Approval rule deletion failed:', error);
+    throw error;
+  }
+}
+
+function convertDelegation(delegation: DbApprovalDelegation): ApprovalDelegation {
+  return {
+    ...delegation,
+    starts_on: new Date(delegation.starts_on),
+    ends_on: new Date(delegation.ends_on)
+  };
+}
+
+export async function createApprovalDelegation(input: CreateApprovalDelegationInput, actor: AuthUser): Promise<ApprovalDelegation> {
+  try {
+    const delegatorId = input.delegator_id ?? actor.id;
+
+    await authorize(actor, 'create', { type: 'delegation', delegator_id: delegatorId, delegate_id: input.delegate_id });
+
+    if (delegatorId === input.delegate_id) {
+      throw new Error('You cannot delegate approvals to yourself');
+    }
+
+    await assertUserExists(delegatorId);
+    await assertUserExists(input.delegate_id);
+    if (input.team_id) {
+      await assertTeamExists(input.team_id);
+    }
+
+    const result = await db.insert(approvalDelegationsTable)
+      .values({
+        delegator_id: delegatorId,
+        delegate_id: input.delegate_id,
+        team_id: input.team_id || null,
+        starts_on: input.starts_on.toISOString().split('T')[0],
+        ends_on: input.ends_on.toISOString().split('T')[0]
+      })
+      .returning()
+      .execute();
+
+    return convertDelegation(result[0]);
+  } catch (error) {
+    console.error('Approval delegation creation failed:', error);
+    throw error;
+  }
+}
+
+// Delegations the user gave or received; admins see all of them
+export async function getApprovalDelegations(actor: AuthUser): Promise<ApprovalDelegation[]> {
+  try {
+    const delegations = await db.select()
+      .from(approvalDelegationsTable)
+      .where(actor.role === 'ADMIN' ? undefined : or(
+        eq(approvalDelegationsTable.delegator_id, actor.id),
+        eq(approvalDelegationsTable.delegate_id, actor.id)
+      ))
+      .orderBy(desc(approvalDelegationsTable.starts_on), desc(approvalDelegationsTable.id))
+      .execute();
+
+    return delegations.map(convertDelegation);
+  } catch (error) {
+    console.error('Failed to fetch approval delegations:', error);
+    throw error;
+  }
+}
+
+export async function deleteApprovalDelegation(id: number, actor?: AuthUser): Promise<{ success: boolean }> {
+  try {
+    const delegations = await db.select()
+      .from(approvalDelegationsTable)
+      .where(eq(approvalDelegationsTable.id, id))
+      .execute();
+
+    if (delegations.length === 0) {
+      throw new Error(`Approval delegation with id ${id} not found`);
+    }
+
+    if (actor) {
+      await authorize(actor, 'delete', { type: 'delegation', ...delegations[0] });
+    }
+
+    await db.delete(approvalDelegationsTable)
+      .where(eq(approvalDelegationsTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Approval delegation deletion failed:', error);
+    throw error;
+  }
+}
+
+// Delegations covering the approver today for expenses of the given team
+function activeDelegation(approverId: SQL | number, teamId: SQL | number | null): SQL {
+  return and(
+    sql`${approvalDelegationsTable.delegator_id} = ${approverId}`,
+    lte(approvalDelegationsTable.starts_on, today()),
+    gte(approvalDelegationsTable.ends_on, today()),
+    or(
+      isNull(approvalDelegationsTable.team_id),
+      teamId === null ? sql`false` : sql`${approvalDelegationsTable.team_id} = ${teamId}`
+    )
+  )!;
+}
+
+async function activeDelegates(approverId: number, teamId: number | null): Promise<number[]> {
+  const delegations = await db.select({ delegate_id: approvalDelegationsTable.delegate_id })
+    .from(approvalDelegationsTable)
+    .where(activeDelegation(approverId, teamId))
+    .execute();
+
+  return delegations.map(delegation => delegation.delegate_id);
+}
+
+// The expense's team, unless the submitter no longer belongs to it
+async function chargedTeamId(expense: DbExpense): Promise<number | null> {
+  return expense.team_id !== null && await belongsToTeam(expense.user_id, expense.team_id) ? expense.team_id : null;
+}
+
+// Active stages for an expense: the team's own rules if it has any, else the global ones
+async function applicableRules(expense: DbExpense): Promise<DbApprovalRule[]> {
+  const teamId = await chargedTeamId(expense);
+  const rules = await db.select()
+    .from(approvalRulesTable)
+    .where(and(
+      eq(approvalRulesTable.is_active, true),
+      teamId !== null
+        ? or(isNull(approvalRulesTable.team_id), eq(approvalRulesTable.team_id, teamId))
+        : isNull(approvalRulesTable.team_id)
+    ))
+    .orderBy(asc(approvalRulesTable.step_order), asc(approvalRulesTable.id))
+    .execute();
+
+  const teamRules = rules.filter(rule => rule.team_id !== null);
+  const amount = parseFloat(expense.amount);
+
+  return (teamRules.length > 0 ? teamRules : rules)
+    .filter(rule => parseFloat(rule.min_amount) <= amount);
+}
+
+// Manager of the expense's team, or of the first team the submitter belongs to
+async function resolveTeamManager(expense: DbExpense): Promise<number | null> {
+  const teamId = await chargedTeamId(expense);
+  if (teamId !== null) {
+    const teams = await db.select({ manager_id: teamsTable.manager_id })
+      .from(teamsTable)
+      .where(eq(teamsTable.id, teamId))
+      .execute();
+
+    return teams[0]?.manager_id ?? null;
+  }
+
+  const teams = await db.select({ manager_id: teamsTable.manager_id })
+    .from(teamsTable)
+    .innerJoin(teamMembersTable, eq(teamMembersTable.team_id, teamsTable.id))
+    .where(eq(teamMembersTable.user_id, expense.user_id))
+    .orderBy(asc(teamsTable.id))
+    .limit(1)
+    .execute();
+
+  return teams[0]?.manager_id ?? null;
+}
+
+// Null routes the step to admins, which is also where submitters' own stages go
+async function resolveApprover(rule: DbApprovalRule | null, expense: DbExpense): Promise<number | null> {
+  const approverId = rule && rule.approver_type === 'USER'
+    ? rule.approver_id
+    : await resolveTeamManager(expense);
+
+  return approverId === expense.user_id ? null : approverId;
+}
+
+async function notifyApprovers(step: DbApprovalStep, expense: DbExpense): Promise<void> {
+  let recipients: number[];
+
+  if (step.approver_id !== null) {
+    // Both the approver and whoever covers for them right now
+    recipients = [step.approver_id, ...await activeDelegates(step.approver_id, expense.team_id)]
+      .filter(id => id !== expense.user_id);
+  } else {
+    const admins = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(and(eq(usersTable.role, 'ADMIN'), eq(usersTable.is_active, true)))
+      .execute();
+    recipients = admins.map(admin => admin.id).filter(id => id !== expense.user_id);
+  }
+
+  for (const recipient of new Set(recipients)) {
+    await sendExpenseApprovalNotification(expense.id, recipient);
+  }
+}
+
+async function notifyUser(userId: number, expense: DbExpense, title: string, message: string): Promise<void> {
+  await db.insert(notificationsTable)
+    .values({
+      user_id: userId,
+      type: 'EXPENSE_APPROVAL',
+      title,
+      message,
+      related_expense_id: expense.id
+    })
+    .execute();
+}
+
+async function getCurrentStep(expenseId: number): Promise<DbApprovalStep | null> {
+  const steps = await db.select()
+    .from(expenseApprovalStepsTable)
+    .where(and(
+      eq(expenseApprovalStepsTable.expense_id, expenseId),
+      eq(expenseApprovalStepsTable.status, 'PENDING')
+    ))
+    .orderBy(asc(expenseApprovalStepsTable.step_order), asc(expenseApprovalStepsTable.id))
+    .limit(1)
+    .execute();
+
+  return steps[0] ?? null;
+}
+
+// Skip every undecided step, e.g. when the expense is withdrawn or resubmitted
+export async function cancelApprovalWorkflow(expenseId: number): Promise<void> {
+  await db.update(expenseApprovalStepsTable)
+    .set({ status: 'SKIPPED' })
+    .where(and(
+      eq(expenseApprovalStepsTable.expense_id, expenseId),
+      eq(expenseApprovalStepsTable.status, 'PENDING')
+    ))
+    .execute();
+}
+
+// (Re)build the approval chain for a submitted expense; earlier undecided steps are skipped
+export async function startApprovalWorkflow(expense: DbExpense): Promise<void> {
+  await cancelApprovalWorkflow(expense.id);
+
+  const rules = await applicableRules(expense);
+  const stages: (DbApprovalRule | null)[] = rules.length > 0 ? rules : [null]; // default: the team manager
+
+  const steps = [];
+  for (const [index, rule] of stages.entries()) {
+    steps.push({
+      expense_id: expense.id,
+      rule_id: rule?.id ?? null,
+      step_order: index + 1,
+      approver_id: await resolveApprover(rule, expense)
+    });
+  }
+
+  const inserted = await db.insert(expenseApprovalStepsTable)
+    .values(steps)
+    .returning()
+    .execute();
+
+  await notifyApprovers(inserted[0], expense);
+}
+
+// The approver, an active delegate of theirs, or any admin
+async function canDecideStep(step: DbApprovalStep, expense: DbExpense, actor: AuthUser): Promise<boolean> {
+  if (actor.role === 'ADMIN' || step.approver_id === actor.id) {
+    return true;
+  }
+
+  return step.approver_id !== null && (await activeDelegates(step.approver_id, expense.team_id)).includes(actor.id);
+}
+
+// Record a decision on the expense's current step and move the workflow (and expense status) along
+export async function processApprovalDecision(expense: DbExpense, input: ApproveExpenseInput, actor?: AuthUser): Promise<void> {
+  return withTransaction(async () => {
+    if (expense.status !== 'SUBMITTED') {
+      throw new Error('Only submitted expenses can be approved or rejected');
+    }
+
+    if (input.approved_by === expense.user_id) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You cannot approve your own expense'
+      });
+    }
+
+    let step = await getCurrentStep(expense.id);
+    if (!step) {
+      // Expenses created before workflows existed get one on first decision
+      await startApprovalWorkflow(expense);
+      step = await getCurrentStep(expense.id);
+    }
+
+    if (!step || (actor && !(await canDecideStep(step, expense, actor)))) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'This expense is waiting for another approver'
+      });
+    }
+
+    // Deciding someone else's step as their delegate is recorded as on their behalf
+    const onBehalfOf = step.approver_id !== null
+      && step.approver_id !== input.approved_by
+      && (await activeDelegates(step.approver_id, expense.team_id)).includes(input.approved_by)
+      ? step.approver_id
+      : null;
+
+    const now = new Date();
+    const decided = await db.update(expenseApprovalStepsTable)
+      .set({
+        status: input.status,
+        decided_by: input.approved_by,
+        on_behalf_of: onBehalfOf,
+        comment: input.comment || null,
+        decided_at: now
+      })
+      .where(and(
+        eq(expenseApprovalStepsTable.id, step.id),
+        eq(expenseApprovalStepsTable.status, 'PENDING')
+      ))
+      .returning()
+      .execute();
+
+    if (decided.length === 0) {
+      throw new Error('This approval step has already been decided');
+    }
+
+    const note = input.comment ? ` Comment: ${input.comment}` : '';
+    const decidedBy = onBehalfOf !== null
+      ? `${await displayName(input.approved_by)} on behalf of ${await displayName(onBehalfOf)}`
+      : await displayName(input.approved_by);
+    const verb = input.status === 'REJECTED' ? 'rejected' : 'approved';
+
+    if (onBehalfOf !== null) {
+      await notifyUser(onBehalfOf, expense, 'Expense Decided on Your Behalf', `${await displayName(input.approved_by)} ${verb} the expense "${expense.title}" on your behalf.${note}`);
+    }
+
+    if (input.status === 'REJECTED') {
+      await cancelApprovalWorkflow(expense.id);
+
+      await transitionExpense(expense, 'REJECTED', input.approved_by, {
+        set: { approved_by: input.approved_by, approved_at: now },
+        note: input.comment
+      });
+
+      await notifyUser(expense.user_id, expense, 'Expense Rejected', `Your expense "${expense.title}" was rejected by ${decidedBy}.${note}`);
+      return;
+    }
+
+    const next = await getCurrentStep(expense.id);
+    if (next) {
+      await db.update(expensesTable)
+        .set({ updated_at: now })
+        .where(eq(expensesTable.id, expense.id))
+        .execute();
+
+      await notifyUser(expense.user_id, expense, 'Expense Approval Progress', `Your expense "${expense.title}" was approved at step ${step.step_order} by ${decidedBy} and moved to the next approver.${note}`);
+      await notifyApprovers(next, expense);
+      return;
+    }
+
+    await transitionExpense(expense, 'APPROVED', input.approved_by, {
+      set: { approved_by: input.approved_by, approved_at: now },
+      note: input.comment
+    });
+
+    await notifyUser(expense.user_id, expense, 'Expense Approved', `Your expense "${expense.title}" was approved by ${decidedBy}.${note}`);
+  });
+}
+
+export async function getApprovalSteps(expenseId: number, actor?: AuthUser): Promise<ApprovalStep[]> {
+  try {
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, expenseId))
+      .execute();
+
+    if (expenses.length === 0) {
+      throw new Error(`Expense with id ${expenseId} not found`);
+    }
+
+    if (actor) {
+      await authorize(actor, 'read', { type: 'expense', ...expenses[0] });
+    }
+
+    return await db.select()
+      .from(expenseApprovalStepsTable)
+      .where(eq(expenseApprovalStepsTable.expense_id, expenseId))
+      .orderBy(asc(expenseApprovalStepsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch approval steps:', error);
+    throw error;
+  }
+}
+
+// Ids of submitted expenses whose current step the user may decide, directly or as a delegate
+export async function getAwaitingApprovalIds(actor: AuthUser): Promise<number[]> {
+  const covering = sql`exists (
+    select 1 from ${approvalDelegationsTable}
+    where ${activeDelegation(sql`${expenseApprovalStepsTable.approver_id}`, sql`${expensesTable.team_id}`)}
+      and ${approvalDelegationsTable.delegate_id} = ${actor.id}
+  )`;
+
+  const earlier = sql`exists (
+    select 1 from ${expenseApprovalStepsTable} as earlier
+    where earlier.expense_id = ${expenseApprovalStepsTable.expense_id}
+      and earlier.status = 'PENDING'
+      and earlier.step_order < ${expenseApprovalStepsTable.step_order}
+  )`;
+
+  const steps = await db.select({ expense_id: expenseApprovalStepsTable.expense_id })
+    .from(expenseApprovalStepsTable)
+    .innerJoin(expensesTable, eq(expenseApprovalStepsTable.expense_id, expensesTable.id))
+    .where(and(
+      eq(expenseApprovalStepsTable.status, 'PENDING'),
+      eq(expensesTable.status, 'SUBMITTED'),
+      sql`${expensesTable.user_id} <> ${actor.id}`,
+      actor.role === 'ADMIN'
+        ? undefined
+        : or(eq(expenseApprovalStepsTable.approver_id, actor.id), covering),
+      sql`not ${earlier}`
+    ))
+    .orderBy(asc(expenseApprovalStepsTable.expense_id))
+    .execute();
+
+  return steps.map(step => step.expense_id);
+}
@@ -0,0 +1,306 @@
+import * as crypto from 'crypto';
+import { db } from '../db';
+import { expenseAttachmentsTable, expensesTable, receiptFilesTable } from '../db/schema';
+import {
+  receiptContentTypeEnum,
+  type AuthUser,
+  type ExpenseAttachment,
+  type ReceiptContentType,
+  type ReceiptDownloadUrl,
+  type ReceiptDownloadUrlInput,
+  type UploadReceiptInput
+} from '../schema';
+import { authorize, type PolicyAction } from '../policy';
+import { getStorageDriver } from '../storage';
+import { requireSecret } from '../utils/tokens';
+import { EDITABLE_EXPENSE_STATUSES } from './expense_status';
+import { loadExpense, lockedStatusMessage } from './expenses';
+import { and, asc, eq, inArray, lt, notExists } from 'drizzle-orm';
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+const ORPHAN_GRACE_MS = 60 * 60 * 1000; // leave room for uploads that stored a file but have not attached it yet
+
+const DOWNLOAD_URL_SECRET = requireSecret('RECEIPT_URL_SECRET', 'JWT_SECRET');
+
+type DbAttachment = typeof expenseAttachmentsTable.$inferSelect;
+type DbReceiptFile = typeof receiptFilesTable.$inferSelect;
+
+// Leading bytes of each accepted format, so the declared type cannot disguise other content
+function matchesContentType(data: Buffer, contentType: ReceiptContentType): boolean {
+  switch (contentType) {
+    case 'image/jpeg':
+      return data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]));
+    case 'image/png':
+      return data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/webp':
+      return data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP';
+    case 'application/pdf':
+      return data.toString('latin1', 0, 5) === '%PDF-';
+  }
+}
+
+// The accepted type a file actually is, for content that arrives without a trustworthy type
+export function detectReceiptContentType(data: Buffer): ReceiptContentType | null {
+  return receiptContentTypeEnum.options.find(contentType => matchesContentType(data, contentType)) ?? null;
+}
+
+// Content-addressed, so identical uploads share one stored object
+function storageKey(sha256: string): string {
+  return `receipts/${sha256.slice(0, 2)}/${sha256}`;
+}
+
+function toAttachment(attachment: DbAttachment, file: DbReceiptFile): ExpenseAttachment {
+  return {
+    id: attachment.id,
+    expense_id: attachment.expense_id,
+    filename: attachment.filename,
+    content_type: file.content_type as ReceiptContentType,
+    size: file.size,
+    sha256: file.sha256,
+    uploaded_by: attachment.uploaded_by,
+    created_at: attachment.created_at
+  };
+}
+
+function signDownload(id: number, expires: number): string {
+  return crypto.createHmac('sha256', DOWNLOAD_URL_SECRET).update(`${id}.${expires}`).digest('base64url');
+}
+
+// Where browsers reach this API, path included; the bundled Caddy serves it under /api of the app
+function apiBaseUrl(): string {
+  const base = process.env['API_URL'] || `${process.env['APP_URL'] || 'http://localhost'}/api`;
+  return base.replace(/\/+$/, '');
+}
+
+async function loadAttachment(id: number, action: PolicyAction, actor?: AuthUser) {
+  const rows = await db.select({
+    attachment: expenseAttachmentsTable,
+    file: receiptFilesTable,
+    expense: expensesTable
+  })
+    .from(expenseAttachmentsTable)
+    .innerJoin(receiptFilesTable, eq(expenseAttachmentsTable.file_id, receiptFilesTable.id))
+    .innerJoin(expensesTable, eq(expenseAttachmentsTable.expense_id, expensesTable.id))
+    .where(eq(expenseAttachmentsTable.id, id))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(`Attachment with id ${id} not found`);
+  }
+
+  if (actor) {
+    await authorize(actor, action, { type: 'expense', ...rows[0].expense });
+  }
+
+  return rows[0];
+}
+
+// Content hash a receipt file is stored and matched for duplicates under
+export function receiptHash(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Store the file once per distinct content and return its row
+async function storeReceiptFile(data: Buffer, contentType: ReceiptContentType): Promise<DbReceiptFile> {
+  const sha256 = receiptHash(data);
+  const findFile = () => db.select()
+    .from(receiptFilesTable)
+    .where(eq(receiptFilesTable.sha256, sha256))
+    .execute();
+
+  const existing = await findFile();
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const key = storageKey(sha256);
+  await getStorageDriver().put(key, data, contentType);
+
+  // A concurrent upload of the same content may have inserted the row first
+  await db.insert(receiptFilesTable)
+    .values({ sha256, content_type: contentType, size: data.length, storage_key: key })
+    .onConflictDoNothing({ target: receiptFilesTable.sha256 })
+    .execute();
+
+  return (await findFile())[0];
+}
+
+// Drop stored files no attachment references any more; returns how many were removed
+async function removeUnreferencedFiles(fileIds?: number[]): Promise<number> {
+  const unreferenced = notExists(
+    db.select({ id: expenseAttachmentsTable.id })
+      .from(expenseAttachmentsTable)
+      .where(eq(expenseAttachmentsTable.file_id, receiptFilesTable.id))
+  );
+
+  const removed = await db.delete(receiptFilesTable)
+    .where(fileIds
+      ? and(inArray(receiptFilesTable.id, fileIds), unreferenced)
+      : and(lt(receiptFilesTable.created_at, new Date(Date.now() - ORPHAN_GRACE_MS)), unreferenced))
+    .returning()
+    .execute();
+
+  for (const file of removed) {
+    await getStorageDriver().delete(file.storage_key);
+  }
+  return removed.length;
+}
+
+// Decode an uploaded receipt and check its size and type
+export function decodeReceiptFile(base64: string, contentType: ReceiptContentType): Buffer {
+  const data = Buffer.from(base64, 'base64');
+  if (data.length === 0) {
+    throw new Error('The uploaded file is empty');
+  }
+  if (data.length > MAX_RECEIPT_BYTES) {
+    throw new Error(`Receipts can be at most ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB`);
+  }
+  if (!matchesContentType(data, contentType)) {
+    throw new Error(`The file content does not match the type ${contentType}`);
+  }
+  return data;
+}
+
+// Attach a validated file to an expense; attaching the same content again returns the existing attachment
+export async function attachReceiptFile(expenseId: number, filename: string, data: Buffer, contentType: ReceiptContentType, uploadedBy: number): Promise<ExpenseAttachment> {
+  const file = await storeReceiptFile(data, contentType);
+
+  const inserted = await db.insert(expenseAttachmentsTable)
+    .values({ expense_id: expenseId, file_id: file.id, filename, uploaded_by: uploadedBy })
+    .onConflictDoNothing({ target: [expenseAttachmentsTable.expense_id, expenseAttachmentsTable.file_id] })
+    .returning()
+    .execute();
+
+  if (inserted.length > 0) {
+    return toAttachment(inserted[0], file);
+  }
+
+  const attachments = await db.select()
+    .from(expenseAttachmentsTable)
+    .where(and(
+      eq(expenseAttachmentsTable.expense_id, expenseId),
+      eq(expenseAttachmentsTable.file_id, file.id)
+    ))
+    .execute();
+
+  return toAttachment(attachments[0], file);
+}
+
+export async function uploadReceipt(input: UploadReceiptInput, actor?: AuthUser): Promise<ExpenseAttachment> {
+  try {
+    const expense = await loadExpense(input.expense_id, 'update', actor);
+    if (!EDITABLE_EXPENSE_STATUSES.includes(expense.status)) {
+      throw new Error(lockedStatusMessage(expense.status, 'edited'));
+    }
+
+    const data = decodeReceiptFile(input.data, input.content_type);
+    return await attachReceiptFile(expense.id, input.filename, data, input.content_type, actor?.id ?? expense.user_id);
+  } catch (error) {
+    console.error('Receipt upload failed:', error);
+    throw error;
+  }
+}
+
+export async function getExpenseAttachments(expenseId: number, actor?: AuthUser): Promise<ExpenseAttachment[]> {
+  try {
+    await loadExpense(expenseId, 'read', actor);
+    return await getAttachmentsForExpenses([expenseId]);
+  } catch (error) {
+    console.error('Failed to fetch attachments:', error);
+    throw error;
+  }
+}
+
+export async function deleteAttachment(id: number, actor?: AuthUser): Promise<{ success: boolean }> {
+  try {
+    const { attachment, expense } = await loadAttachment(id, 'update', actor);
+    if (!EDITABLE_EXPENSE_STATUSES.includes(expense.status)) {
+      throw new Error(lockedStatusMessage(expense.status, 'edited'));
+    }
+
+    await db.delete(expenseAttachmentsTable)
+      .where(eq(expenseAttachmentsTable.id, id))
+      .execute();
+
+    await removeUnreferencedFiles([attachment.file_id]);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Attachment deletion failed:', error);
+    throw error;
+  }
+}
+
+// Link anyone holding it can use until it expires, e.g. for <img> tags that cannot send a token
+export async function getReceiptDownloadUrl(input: ReceiptDownloadUrlInput, actor?: AuthUser): Promise<ReceiptDownloadUrl> {
+  try {
+    await loadAttachment(input.id, 'read', actor);
+
+    const expires = Math.floor(Date.now() / 1000) + input.expires_in;
+    const url = new URL(`${apiBaseUrl()}/receipts/${input.id}`);
+    url.searchParams.set('expires', String(expires));
+    url.searchParams.set('signature', signDownload(input.id, expires));
+
+    return { url: url.toString(), expires_at: new Date(expires * 1000) };
+  } catch (error) {
+    console.error('Receipt download link failed:', error);
+    throw error;
+  }
+}
+
+export function verifyReceiptDownload(id: number, expires: number, signature: string): boolean {
+  if (!Number.isInteger(id) || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signDownload(id, expires));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Contents of an attachment for the download endpoint; null when it no longer exists
+export async function getReceiptContent(id: number): Promise<{ filename: string; content_type: string; data: Buffer } | null> {
+  const rows = await db.select({ filename: expenseAttachmentsTable.filename, file: receiptFilesTable })
+    .from(expenseAttachmentsTable)
+    .innerJoin(receiptFilesTable, eq(expenseAttachmentsTable.file_id, receiptFilesTable.id))
+    .where(eq(expenseAttachmentsTable.id, id))
+    .execute();
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const data = await getStorageDriver().get(rows[0].file.storage_key);
+  if (!data) {
+    console.error(`Receipt file ${rows[0].file.storage_key} is missing from storage`);
+    return null;
+  }
+
+  return { filename: rows[0].filename, content_type: rows[0].file.content_type, data };
+}
+
+// Attachments of the given expenses, for detail and report views
+export async function getAttachmentsForExpenses(expenseIds: number[]): Promise<ExpenseAttachment[]> {
+  if (expenseIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db.select({ attachment: expenseAttachmentsTable, file: receiptFilesTable })
+    .from(expenseAttachmentsTable)
+    .innerJoin(receiptFilesTable, eq(expenseAttachmentsTable.file_id, receiptFilesTable.id))
+    .where(inArray(expenseAttachmentsTable.expense_id, expenseIds))
+    .orderBy(asc(expenseAttachmentsTable.created_at), asc(expenseAttachmentsTable.id))
+    .execute();
+
+  return rows.map(row => toAttachment(row.attachment, row.file));
+}
+
+// Files left behind when their expenses were deleted
+export async function pruneReceiptFiles(): Promise<{ deleted: number }> {
+  try {
+    return { deleted: await removeUnreferencedFiles() };
+  } catch (error) {
+    console.error('Receipt file cleanup failed:', error);
+    throw error;
+  }
+}
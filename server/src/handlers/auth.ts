@@ -1,11 +1,41 @@
-import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { db, withTransaction } from '../db';
+import { usersTable, userTokensTable } from '../db/schema';
+import {
+  type AuthTokensResponse,
+  type AuthUser,
+  type ChangePasswordInput,
+  type ClientInfo,
+  type CompleteSsoLoginInput,
+  type ConfirmPasswordResetInput,
+  type CreateUserInput,
+  type LoginInput,
+  type LoginResponse,
+  type PublicUser,
+  type User,
+  type VerifyTwoFactorLoginInput
+} from '../schema';
+import { createSession, rotateSession, isSessionActive, revokeAllSessions } from './sessions';
+import { isTwoFactorEnabled, isTwoFactorRequiredForRole, isTwoFactorSetupRequired, verifyTwoFactorCode } from './two_factor';
+import { claimLoginAttempt, releaseLoginAttempt, recordFailedLogin, clearFailedLogins } from './login_throttles';
+import { authenticateSsoCallback, isSsoEnforcedForEmail } from './sso';
+import { toPublicUser } from './users';
+import { appLink, sendMail } from '../mail';
+import { generateToken, hashToken, requireSecret } from '../utils/tokens';
+import { type CookieJar } from '../utils/cookies';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/passwords';
+import { TRPCError } from '@trpc/server';
+import { and, eq, gt, gte, isNull, count } from 'drizzle-orm';
 import * as crypto from 'crypto';
 
-const JWT_SECRET = process.env['JWT_SECRET'] || 'default-secret-key-for-testing';
-const JWT_EXPIRES_IN = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const JWT_SECRET = requireSecret('JWT_SECRET');
+const ACCESS_TOKEN_EXPIRES_IN = 15 * 60 * 1000; // 15 minutes in milliseconds
+const PASSWORD_RESET_EXPIRES_IN = 60 * 60 * 1000; // 1 hour in milliseconds
+const EMAIL_VERIFICATION_EXPIRES_IN = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const VERIFICATION_RESEND_COOLDOWN = 60 * 1000; // 1 minute in milliseconds
+const VERIFICATION_MAX_PER_DAY = 5;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+type TokenPurpose = typeof userTokensTable.$inferSelect['purpose'];
 
 // Simple JWT implementation using Node.js crypto
 function createJWT(payload: object, expiresInMs: number): string {
@@ -26,7 +56,7 @@ function createJWT(payload: object, expiresInMs: number): string {
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 }
 
-function verifyJWT(token: string): any {
+export function verifyJWT(token: string): any {
   const parts = token.split('.');
   if (parts.length !== 3) {
     throw new Error('Invalid token format');
@@ -55,143 +85,286 @@ function verifyJWT(token: string): any {
   return decodedPayload;
 }
 
-// Password hashing using Node.js crypto
-function hashPassword(password: string): string {
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
+// Issue a single-use token, superseding any unused token of the same purpose
+async function issueUserToken(userId: number, purpose: TokenPurpose, expiresInMs: number): Promise<string> {
+  const now = new Date();
+
+  await db.update(userTokensTable)
+    .set({ used_at: now })
+    .where(and(
+      eq(userTokensTable.user_id, userId),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at)
+    ))
+    .execute();
+
+  const token = generateToken();
+  await db.insert(userTokensTable)
+    .values({
+      user_id: userId,
+      purpose,
+      token_hash: hashToken(token),
+      expires_at: new Date(now.getTime() + expiresInMs)
+    })
+    .execute();
+
+  return token;
+}
+
+// Atomically mark a token as used; returns the owning user id
+async function consumeUserToken(token: string, purpose: TokenPurpose): Promise<number> {
+  const now = new Date();
+  const result = await db.update(userTokensTable)
+    .set({ used_at: now })
+    .where(and(
+      eq(userTokensTable.token_hash, hashToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, now)
+    ))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return result[0].user_id;
 }
 
-function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+export async function sendVerificationEmail(user: { id: number; email: string; first_name: string }): Promise<void> {
+  const verificationToken = await issueUserToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_EXPIRES_IN);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    body: [
+      `Hi ${user.first_name},`,
+      '',
+      'Please confirm your email address by opening the link below. It expires in 24 hours.',
+      '',
+      appLink('/verify-email', { token: verificationToken })
+    ].join('\n')
+  });
 }
 
-export async function registerUser(input: CreateUserInput): Promise<User> {
+export async function registerUser(input: CreateUserInput): Promise<PublicUser> {
   try {
-    // Check if user already exists
-    const existingUser = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.email, input.email))
-      .execute();
+    return await withTransaction(async () => {
+      // Check if user already exists
+      const existingUser = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, input.email))
+        .execute();
+
+      if (existingUser.length > 0) {
+        throw new Error('User with this email already exists');
+      }
+
+      if (await isSsoEnforcedForEmail(input.email)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Accounts for this domain are created through single sign-on' });
+      }
+
+      // Hash password
+      const passwordHash = await hashPassword(input.password);
+
+      // Insert new user
+      const result = await db.insert(usersTable)
+        .values({
+          email: input.email,
+          password_hash: passwordHash,
+          first_name: input.first_name,
+          last_name: input.last_name,
+          role: input.role || 'USER',
+          is_email_verified: false,
+          is_active: true
+        })
+        .returning()
+        .execute();
+
+      const user = result[0];
+
+      await sendVerificationEmail(user);
+
+      return toPublicUser(user);
+    });
+  } catch (error) {
+    console.error('User registration failed:', error);
+    throw error;
+  }
+}
 
-    if (existingUser.length > 0) {
-      throw new Error('User with this email already exists');
-    }
-
-    // Hash password
-    const passwordHash = hashPassword(input.password);
-
-    // Insert new user
-    const result = await db.insert(usersTable)
-      .values({
-        email: input.email,
-        password_hash: passwordHash,
-        first_name: input.first_name,
-        last_name: input.last_name,
-        role: input.role || 'USER',
-        is_email_verified: false,
-        is_active: true
-      })
-      .returning()
-      .execute();
+function createAccessToken(user: { id: number; email: string; role: string }, sessionId: number): string {
+  return createJWT(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId
+    },
+    ACCESS_TOKEN_EXPIRES_IN
+  );
+}
+
+// Start a session and issue a short-lived access token bound to it
+async function completeLogin(user: User, client: ClientInfo | undefined, twoFactorSetupRequired: boolean): Promise<LoginResponse> {
+  await clearFailedLogins(user.email);
+  const session = await createSession(user.id, client);
+
+  return {
+    two_factor_required: false,
+    user: toPublicUser(user),
+    token: createAccessToken(user, session.session_id),
+    refresh_token: session.refresh_token,
+    two_factor_setup_required: twoFactorSetupRequired
+  };
+}
 
-    const user = result[0];
+// With 2FA enabled the first factor only earns a challenge for the second step
+async function finishFirstFactor(user: User, client?: ClientInfo): Promise<LoginResponse> {
+  if (await isTwoFactorEnabled(user.id)) {
     return {
-      ...user,
-      // No numeric conversion needed for user fields
+      two_factor_required: true,
+      challenge_token: createJWT({ userId: user.id, type: 'two_factor_challenge' }, TWO_FACTOR_CHALLENGE_EXPIRES_IN)
     };
-  } catch (error) {
-    console.error('User registration failed:', error);
-    throw error;
   }
+
+  return completeLogin(user, client, await isTwoFactorRequiredForRole(user.role));
 }
 
-export async function loginUser(input: LoginInput): Promise<{ user: User; token: string }> {
+export async function loginUser(input: LoginInput, client?: ClientInfo): Promise<LoginResponse> {
   try {
-    // Find user by email
-    const users = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.email, input.email))
-      .execute();
+    if (await isSsoEnforcedForEmail(input.email)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Password sign-in is disabled for this domain, use single sign-on' });
+    }
 
-    if (users.length === 0) {
-      throw new Error('Invalid email or password');
+    const ipAddress = client?.ip_address ?? null;
+    await claimLoginAttempt(input.email, ipAddress);
+
+    // The claimed attempt is settled on every way out: a wrong email or password counts against
+    // the caller, an error on our side gives it back
+    let user: typeof usersTable.$inferSelect | undefined;
+    let isPasswordValid = false;
+    try {
+      [user] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, input.email))
+        .execute();
+      isPasswordValid = !!user && await verifyPassword(input.password, user.password_hash);
+    } catch (error) {
+      await releaseLoginAttempt(input.email, ipAddress);
+      throw error;
     }
 
-    const user = users[0];
+    if (!user || !isPasswordValid) {
+      await recordFailedLogin(input.email, ipAddress);
+      throw new Error('Invalid email or password');
+    }
+    await releaseLoginAttempt(input.email, ipAddress);
 
-    // Check if user is active
+    // Only someone who knows the password learns the account is deactivated
     if (!user.is_active) {
       throw new Error('Account is deactivated');
     }
 
-    // Verify password
-    const isPasswordValid = verifyPassword(input.password, user.password_hash);
-    if (!isPasswordValid) {
-      throw new Error('Invalid email or password');
+    // Upgrade legacy or weaker hashes while the plain password is at hand
+    if (needsRehash(user.password_hash)) {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
     }
 
-    // Generate JWT token
-    const token = createJWT(
-      { 
-        userId: user.id, 
-        email: user.email, 
-        role: user.role 
-      },
-      JWT_EXPIRES_IN
-    );
-
-    return {
-      user: {
-        ...user,
-        // No numeric conversion needed for user fields
-      },
-      token
-    };
+    return await finishFirstFactor(user, client);
   } catch (error) {
     console.error('User login failed:', error);
     throw error;
   }
 }
 
-export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+// The identity provider replaces the password; local 2FA still applies if enrolled
+export async function completeSsoLogin(input: CompleteSsoLoginInput, cookies: CookieJar, client?: ClientInfo): Promise<LoginResponse> {
   try {
-    // Verify JWT token
-    const decoded = verifyJWT(token);
+    const user = await authenticateSsoCallback(input, cookies);
+    return await finishFirstFactor(user, client);
+  } catch (error) {
+    console.error('SSO login completion failed:', error);
+    throw error;
+  }
+}
 
-    if (!decoded.userId) {
-      throw new Error('Invalid token payload');
+export async function verifyTwoFactorLogin(input: VerifyTwoFactorLoginInput, client?: ClientInfo): Promise<LoginResponse> {
+  try {
+    let decoded: any;
+    try {
+      decoded = verifyJWT(input.challenge_token);
+    } catch {
+      throw new Error('Invalid or expired challenge');
     }
 
-    // Update user email verification status
-    const result = await db.update(usersTable)
-      .set({ 
-        is_email_verified: true,
-        updated_at: new Date()
-      })
+    if (decoded.type !== 'two_factor_challenge' || !decoded.userId) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
       .where(eq(usersTable.id, decoded.userId))
-      .returning()
       .execute();
 
-    if (result.length === 0) {
-      throw new Error('User not found');
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Account is deactivated');
     }
 
-    return { success: true };
+    // Guessed codes count against the same limits as guessed passwords
+    const ipAddress = client?.ip_address ?? null;
+    await claimLoginAttempt(users[0].email, ipAddress);
+
+    if (!(await verifyTwoFactorCode(users[0].id, input.code))) {
+      await recordFailedLogin(users[0].email, ipAddress);
+      throw new Error('Invalid two-factor code');
+    }
+    await releaseLoginAttempt(users[0].email, ipAddress);
+
+    return await completeLogin(users[0], client, false);
+  } catch (error) {
+    console.error('Two-factor login verification failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+  try {
+    return await withTransaction(async () => {
+      // Only a token emailed for this purpose proves ownership of the address
+      const userId = await consumeUserToken(token, 'EMAIL_VERIFICATION');
+
+      // Update user email verification status
+      const result = await db.update(usersTable)
+        .set({ 
+          is_email_verified: true,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('User not found');
+      }
+
+      return { success: true };
+    });
   } catch (error) {
     console.error('Email verification failed:', error);
     throw error;
   }
 }
 
-export async function resetPassword(email: string): Promise<{ success: boolean }> {
+export async function resendVerificationEmail(userId: number): Promise<{ success: boolean }> {
   try {
-    // Check if user exists
     const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, email))
+      .where(eq(usersTable.id, userId))
       .execute();
 
     if (users.length === 0) {
@@ -199,51 +372,223 @@ export async function resetPassword(email: string): Promise<{ success: boolean }
     }
 
     const user = users[0];
-
-    // Check if user is active
-    if (!user.is_active) {
-      throw new Error('Account is deactivated');
+    if (user.is_email_verified) {
+      throw new Error('Email is already verified');
     }
 
-    // Generate reset token (in production, you would send this via email)
-    const resetToken = createJWT(
-      { userId: user.id, type: 'password-reset' },
-      60 * 60 * 1000 // 1 hour
-    );
+    // Rate limit: one email per cooldown window and a daily cap
+    const now = Date.now();
+    const recent = await db.select({ count: count() })
+      .from(userTokensTable)
+      .where(and(
+        eq(userTokensTable.user_id, userId),
+        eq(userTokensTable.purpose, 'EMAIL_VERIFICATION'),
+        gte(userTokensTable.created_at, new Date(now - VERIFICATION_RESEND_COOLDOWN))
+      ))
+      .execute();
 
-    // In a real application, you would send this token via email
-    // For now, we'll just return success
-    console.log(`Password reset token for ${email}: ${resetToken}`);
+    const today = await db.select({ count: count() })
+      .from(userTokensTable)
+      .where(and(
+        eq(userTokensTable.user_id, userId),
+        eq(userTokensTable.purpose, 'EMAIL_VERIFICATION'),
+        gte(userTokensTable.created_at, new Date(now - 24 * 60 * 60 * 1000))
+      ))
+      .execute();
+
+    if (recent[0].count > 0 || today[0].count >= VERIFICATION_MAX_PER_DAY) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Verification email was sent recently, please try again later'
+      });
+    }
+
+    await sendVerificationEmail(user);
 
     return { success: true };
   } catch (error) {
-    console.error('Password reset failed:', error);
+    console.error('Resend verification email failed:', error);
     throw error;
   }
 }
 
-export async function changePassword(userId: number, newPassword: string): Promise<{ success: boolean }> {
+// Succeeds whether or not the address has an account, so it cannot be used to find out;
+// only an active account gets the email
+export async function requestPasswordReset(email: string): Promise<{ success: boolean }> {
   try {
-    // Hash new password
-    const passwordHash = hashPassword(newPassword);
-
-    // Update user password
-    const result = await db.update(usersTable)
-      .set({ 
-        password_hash: passwordHash,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, userId))
-      .returning()
+    // A rule for the whole domain, which says nothing about the account
+    if (await isSsoEnforcedForEmail(email)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Passwords for this domain are managed by single sign-on' });
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
       .execute();
 
-    if (result.length === 0) {
-      throw new Error('User not found');
+    const user = users[0];
+    if (!user || !user.is_active) {
+      return { success: true };
     }
 
+    const resetToken = await issueUserToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_EXPIRES_IN);
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      body: [
+        `Hi ${user.first_name},`,
+        '',
+        'Use the link below to choose a new password. It expires in one hour and can only be used once.',
+        '',
+        appLink('/reset-password', { token: resetToken }),
+        '',
+        'If you did not request this, you can ignore this email.'
+      ].join('\n')
+    });
+
     return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmPasswordReset(input: ConfirmPasswordResetInput): Promise<{ success: boolean }> {
+  try {
+    return await withTransaction(async () => {
+      const userId = await consumeUserToken(input.token, 'PASSWORD_RESET');
+
+      const result = await db.update(usersTable)
+        .set({
+          password_hash: await hashPassword(input.new_password),
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(usersTable.id, userId),
+          eq(usersTable.is_active, true)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Account is deactivated');
+      }
+
+      // Whoever knew the old password is logged out everywhere
+      await revokeAllSessions(userId);
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Password reset confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function changePassword(userId: number, input: ChangePasswordInput, currentSessionId?: number): Promise<{ success: boolean }> {
+  try {
+    return await withTransaction(async () => {
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (users.length === 0) {
+        throw new Error('User not found');
+      }
+
+      if (!(await verifyPassword(input.current_password, users[0].password_hash))) {
+        throw new Error('Current password is incorrect');
+      }
+
+      // Hash new password
+      const passwordHash = await hashPassword(input.new_password);
+
+      // Update user password
+      await db.update(usersTable)
+        .set({ 
+          password_hash: passwordHash,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      // Keep the caller signed in but end every other session
+      await revokeAllSessions(userId, currentSessionId);
+
+      return { success: true };
+    });
   } catch (error) {
     console.error('Password change failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function refreshAccessToken(refreshToken: string, client?: ClientInfo): Promise<AuthTokensResponse> {
+  try {
+    const session = await rotateSession(refreshToken, client);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, session.user_id))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    return {
+      token: createAccessToken(users[0], session.session_id),
+      refresh_token: session.refresh_token
+    };
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function authenticateToken(token: string): Promise<{ user: AuthUser; session_id: number; two_factor_setup_required: boolean } | null> {
+  try {
+    let decoded: any;
+    try {
+      decoded = verifyJWT(token);
+    } catch {
+      return null;
+    }
+
+    // Purpose-scoped tokens (e.g. password reset) must not grant API access
+    if (!decoded.userId || !decoded.sid || decoded.type !== undefined) {
+      return null;
+    }
+
+    // Logged-out or revoked sessions invalidate their access tokens immediately
+    if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+      return null;
+    }
+
+    // Re-read the user so deactivation and role changes apply immediately
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, decoded.userId))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      return null;
+    }
+
+    const user = users[0];
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role
+      },
+      session_id: decoded.sid,
+      two_factor_setup_required: await isTwoFactorSetupRequired(user)
+    };
+  } catch (error) {
+    console.error('Token authentication failed:', error);
+    throw error;
+  }
+}
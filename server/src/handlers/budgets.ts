@@ -1,13 +1,18 @@
 import { db } from '../db';
-import { budgetsTable, usersTable, categoriesTable, expensesTable } from '../db/schema';
+import { budgetsTable, usersTable, categoriesTable, expensesTable, expenseSplitsTable } from '../db/schema';
 import { 
+    type AuthUser,
     type Budget, 
     type CreateBudgetInput, 
     type UpdateBudgetInput,
     type BudgetAnalytics,
     type BudgetOverviewResponse
 } from '../schema';
-import { eq, and, gte, lte, sum, sql, SQL } from 'drizzle-orm';
+import { authorize } from '../policy';
+import { APPROVED_EXPENSE_STATUSES } from './expense_status';
+import { allocatedAmount, allocatedCategoryId, splitJoin } from './expense_splits';
+import { baseCurrency } from '../utils/currency';
+import { eq, and, gte, inArray, lte, sum, sql, SQL } from 'drizzle-orm';
 
 // Helper function to convert database budget to application Budget type
 function convertBudget(dbBudget: any): Budget {
@@ -82,7 +87,7 @@ export async function getBudgets(userId: number): Promise<Budget[]> {
   }
 }
 
-export async function getBudgetById(id: number): Promise<Budget | null> {
+export async function getBudgetById(id: number, actor?: AuthUser): Promise<Budget | null> {
   try {
     const results = await db.select()
       .from(budgetsTable)
@@ -94,6 +99,10 @@ export async function getBudgetById(id: number): Promise<Budget | null> {
       return null;
     }
 
+    if (actor) {
+      await authorize(actor, 'read', { type: 'budget', user_id: results[0].user_id });
+    }
+
     return convertBudget(results[0]);
   } catch (error) {
     console.error('Get budget by ID failed:', error);
@@ -101,7 +110,7 @@ export async function getBudgetById(id: number): Promise<Budget | null> {
   }
 }
 
-export async function updateBudget(input: UpdateBudgetInput): Promise<Budget> {
+export async function updateBudget(input: UpdateBudgetInput, actor?: AuthUser): Promise<Budget> {
   try {
     // Verify budget exists
     const existing = await getBudgetById(input.id);
@@ -109,6 +118,10 @@ export async function updateBudget(input: UpdateBudgetInput): Promise<Budget> {
       throw new Error('Budget not found');
     }
 
+    if (actor) {
+      await authorize(actor, 'update', { type: 'budget', user_id: existing.user_id });
+    }
+
     // Build update values
     const updateValues: any = {};
     if (input.amount !== undefined) {
@@ -140,7 +153,7 @@ export async function updateBudget(input: UpdateBudgetInput): Promise<Budget> {
   }
 }
 
-export async function deleteBudget(id: number): Promise<{ success: boolean }> {
+export async function deleteBudget(id: number, actor?: AuthUser): Promise<{ success: boolean }> {
   try {
     // Verify budget exists
     const existing = await getBudgetById(id);
@@ -148,6 +161,10 @@ export async function deleteBudget(id: number): Promise<{ success: boolean }> {
       throw new Error('Budget not found');
     }
 
+    if (actor) {
+      await authorize(actor, 'delete', { type: 'budget', user_id: existing.user_id });
+    }
+
     await db.delete(budgetsTable)
       .where(eq(budgetsTable.id, id))
       .execute();
@@ -174,7 +191,7 @@ export async function getBudgetOverview(userId: number): Promise<BudgetOverviewR
     .from(expensesTable)
     .where(and(
       eq(expensesTable.user_id, userId),
-      eq(expensesTable.status, 'APPROVED')
+      inArray(expensesTable.status, APPROVED_EXPENSE_STATUSES)
     ))
     .execute();
 
@@ -183,6 +200,7 @@ export async function getBudgetOverview(userId: number): Promise<BudgetOverviewR
     const percentage_used = total_budget > 0 ? (total_spent / total_budget) * 100 : 0;
 
     return {
+      currency: baseCurrency(),
       budgets,
       total_budget,
       total_spent,
@@ -214,19 +232,20 @@ export async function getBudgetAnalytics(input: BudgetAnalytics): Promise<any> {
 
     const parsedBudgets = budgets.map(convertBudget);
 
-    // Get expenses in the date range
+    // Get expenses in the date range, split expenses counting towards each split's category
     const expenses = await db.select({
-      category_id: expensesTable.category_id,
-      total_amount: sum(expensesTable.amount)
+      category_id: allocatedCategoryId,
+      total_amount: sum(allocatedAmount)
     })
     .from(expensesTable)
+    .leftJoin(expenseSplitsTable, splitJoin)
     .where(and(
       eq(expensesTable.user_id, input.user_id),
-      eq(expensesTable.status, 'APPROVED'),
+      inArray(expensesTable.status, APPROVED_EXPENSE_STATUSES),
       gte(expensesTable.expense_date, startDateStr),
       lte(expensesTable.expense_date, endDateStr)
     ))
-    .groupBy(expensesTable.category_id)
+    .groupBy(allocatedCategoryId)
     .execute();
 
     // Calculate budget utilization
@@ -285,20 +304,21 @@ export async function checkBudgetAlerts(userId: number): Promise<any[]> {
       // Build base query conditions
       const conditions: SQL<unknown>[] = [
         eq(expensesTable.user_id, userId),
-        eq(expensesTable.status, 'APPROVED'),
+        inArray(expensesTable.status, APPROVED_EXPENSE_STATUSES),
         gte(expensesTable.expense_date, startDateStr),
         lte(expensesTable.expense_date, endDateStr)
       ];
 
-      // Add category filter if budget is category-specific
+      // Add category filter if budget is category-specific; only the matching splits count
       if (budget.category_id) {
-        conditions.push(eq(expensesTable.category_id, budget.category_id));
+        conditions.push(eq(allocatedCategoryId, budget.category_id));
       }
 
       const spentResults = await db.select({
-        total_spent: sum(expensesTable.amount)
+        total_spent: sum(allocatedAmount)
       })
       .from(expensesTable)
+      .leftJoin(expenseSplitsTable, splitJoin)
       .where(and(...conditions))
       .execute();
 
@@ -310,6 +330,7 @@ export async function checkBudgetAlerts(userId: number): Promise<any[]> {
         alerts.push({
           budget_id: budget.id,
           category_id: budget.category_id,
+          currency: baseCurrency(),
           budget_amount: budget.amount,
           amount_spent: total_spent,
           usage_percentage,
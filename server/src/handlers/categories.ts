@@ -1,8 +1,19 @@
 import { db } from '../db';
-import { categoriesTable, expensesTable } from '../db/schema';
-import { type Category, type CreateCategoryInput, type UpdateCategoryInput } from '../schema';
+import { categoriesTable, expenseSplitsTable, expensesTable } from '../db/schema';
+import { type AuthUser, type Category, type CreateCategoryInput, type UpdateCategoryInput } from '../schema';
+import { authorize } from '../policy';
 import { eq, or, isNull, and, desc } from 'drizzle-orm';
 
+// Load a category for a mutation and check the actor may perform it
+async function authorizeCategory(id: number, action: 'update' | 'delete', actor: AuthUser): Promise<void> {
+  const category = await getCategoryById(id);
+  if (!category) {
+    throw new Error('Category not found');
+  }
+
+  await authorize(actor, action, { type: 'category', user_id: category.user_id });
+}
+
 export async function createCategory(input: CreateCategoryInput): Promise<Category> {
   try {
     const result = await db.insert(categoriesTable)
@@ -49,22 +60,34 @@ export async function getCategories(userId?: number): Promise<Category[]> {
   }
 }
 
-export async function getCategoryById(id: number): Promise<Category | null> {
+export async function getCategoryById(id: number, actor?: AuthUser): Promise<Category | null> {
   try {
     const results = await db.select()
       .from(categoriesTable)
       .where(eq(categoriesTable.id, id))
       .execute();
 
-    return results.length > 0 ? results[0] : null;
+    if (results.length === 0) {
+      return null;
+    }
+
+    if (actor) {
+      await authorize(actor, 'read', { type: 'category', user_id: results[0].user_id });
+    }
+
+    return results[0];
   } catch (error) {
     console.error('Failed to fetch category by ID:', error);
     throw error;
   }
 }
 
-export async function updateCategory(input: UpdateCategoryInput): Promise<Category> {
+export async function updateCategory(input: UpdateCategoryInput, actor?: AuthUser): Promise<Category> {
   try {
+    if (actor) {
+      await authorizeCategory(input.id, 'update', actor);
+    }
+
     // Build update object with only provided fields
     const updateData: Partial<typeof categoriesTable.$inferInsert> = {};
     
@@ -101,8 +124,12 @@ export async function updateCategory(input: UpdateCategoryInput): Promise<Catego
   }
 }
 
-export async function deleteCategory(id: number): Promise<{ success: boolean }> {
+export async function deleteCategory(id: number, actor?: AuthUser): Promise<{ success: boolean }> {
   try {
+    if (actor) {
+      await authorizeCategory(id, 'delete', actor);
+    }
+
     // First check if category has any associated expenses
     const expenses = await db.select()
       .from(expensesTable)
@@ -110,7 +137,13 @@ export async function deleteCategory(id: number): Promise<{ success: boolean }>
       .limit(1)
       .execute();
 
-    if (expenses.length > 0) {
+    const splits = await db.select({ id: expenseSplitsTable.id })
+      .from(expenseSplitsTable)
+      .where(eq(expenseSplitsTable.category_id, id))
+      .limit(1)
+      .execute();
+
+    if (expenses.length > 0 || splits.length > 0) {
       throw new Error('Cannot delete category with existing expenses');
     }
 
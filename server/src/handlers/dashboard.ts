@@ -1,7 +1,12 @@
 import { db } from '../db';
-import { expensesTable, budgetsTable, categoriesTable } from '../db/schema';
-import { type DashboardStatsResponse } from '../schema';
-import { eq, and, sql, desc, between } from 'drizzle-orm';
+import { expensesTable, expenseSplitsTable, budgetsTable, categoriesTable, teamsTable } from '../db/schema';
+import { type AuthUser, type DashboardStatsResponse } from '../schema';
+import { authorize } from '../policy';
+import { ACTIVE_EXPENSE_STATUSES } from './expense_status';
+import { convertExpense } from './expenses';
+import { allocatedAmount, allocatedCategoryId, splitJoin } from './expense_splits';
+import { baseCurrency } from '../utils/currency';
+import { eq, and, sql, desc, between, inArray } from 'drizzle-orm';
 
 export async function getDashboardStats(userId: number): Promise<DashboardStatsResponse> {
   try {
@@ -9,6 +14,12 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
     const now = new Date();
     const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
     const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+
+    // Drafts, rejected and withdrawn expenses are not spending
+    const activeExpense = and(
+      eq(expensesTable.user_id, userId),
+      inArray(expensesTable.status, ACTIVE_EXPENSE_STATUSES)
+    );
     
     // Get total expenses count and amount for the user
     const expenseStatsResult = await db.select({
@@ -16,7 +27,7 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
       total_amount_spent: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`
     })
     .from(expensesTable)
-    .where(eq(expensesTable.user_id, userId))
+    .where(activeExpense)
     .execute();
 
     const expenseStats = expenseStatsResult[0];
@@ -34,18 +45,17 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
     const totalBudget = parseFloat(budgetResult[0].total_budget);
     const budgetUsagePercentage = totalBudget > 0 ? (totalAmountSpent / totalBudget) * 100 : 0;
 
-    // Get category breakdown with expense data
+    // Get category breakdown with expense data, split expenses counting towards each split's category
     const categoryBreakdownResult = await db.select({
       category_name: categoriesTable.name,
-      amount_spent: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`
+      amount_spent: sql<string>`coalesce(sum(${allocatedAmount}), 0)`
     })
-    .from(categoriesTable)
-    .leftJoin(expensesTable, and(
-      eq(expensesTable.category_id, categoriesTable.id),
-      eq(expensesTable.user_id, userId)
-    ))
+    .from(expensesTable)
+    .leftJoin(expenseSplitsTable, splitJoin)
+    .innerJoin(categoriesTable, eq(categoriesTable.id, allocatedCategoryId))
+    .where(activeExpense)
     .groupBy(categoriesTable.id, categoriesTable.name)
-    .having(sql`coalesce(sum(${expensesTable.amount}), 0) > 0`)
+    .having(sql`coalesce(sum(${allocatedAmount}), 0) > 0`)
     .execute();
 
     const categoryBreakdown = categoryBreakdownResult.map(item => {
@@ -65,7 +75,7 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
       amount: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`
     })
     .from(expensesTable)
-    .where(eq(expensesTable.user_id, userId))
+    .where(activeExpense)
     .groupBy(sql`to_char(${expensesTable.expense_date}, 'YYYY-MM')`)
     .orderBy(sql`to_char(${expensesTable.expense_date}, 'YYYY-MM')`)
     .execute();
@@ -75,6 +85,24 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
       amount: parseFloat(item.amount)
     }));
 
+    // Every status, so drafts and returned expenses stay visible
+    const statusBreakdownResult = await db.select({
+      status: expensesTable.status,
+      count: sql<number>`count(*)::int`,
+      amount: sql<string>`coalesce(sum(${expensesTable.amount}), 0)`
+    })
+    .from(expensesTable)
+    .where(eq(expensesTable.user_id, userId))
+    .groupBy(expensesTable.status)
+    .orderBy(expensesTable.status)
+    .execute();
+
+    const statusBreakdown = statusBreakdownResult.map(item => ({
+      status: item.status,
+      count: item.count,
+      amount: parseFloat(item.amount)
+    }));
+
     // Get recent expenses (last 5)
     const recentExpensesResult = await db.select()
       .from(expensesTable)
@@ -83,20 +111,16 @@ export async function getDashboardStats(userId: number): Promise<DashboardStatsR
       .limit(5)
       .execute();
 
-    const recentExpenses = recentExpensesResult.map(expense => ({
-      ...expense,
-      amount: parseFloat(expense.amount), // Convert numeric to number
-      tags: expense.tags as string[], // Cast jsonb to string array
-      recurring_end_date: expense.recurring_end_date ? new Date(expense.recurring_end_date) : null, // Convert date string to Date
-      expense_date: new Date(expense.expense_date) // Convert date string to Date
-    }));
+    const recentExpenses = recentExpensesResult.map(convertExpense);
 
     return {
+      currency: baseCurrency(),
       total_expenses: totalExpenses,
       total_amount_spent: totalAmountSpent,
       budget_usage_percentage: Math.round(budgetUsagePercentage * 100) / 100, // Round to 2 decimal places
       category_breakdown: categoryBreakdown,
       monthly_trend: monthlyTrend,
+      status_breakdown: statusBreakdown,
       recent_expenses: recentExpenses
     };
   } catch (error) {
@@ -135,7 +159,20 @@ export async function getExpensePredictions(userId: number): Promise<any> {
     });
 }
 
-export async function getTeamDashboardStats(teamId: number): Promise<any> {
+export async function getTeamDashboardStats(teamId: number, actor?: AuthUser): Promise<any> {
+    if (actor) {
+        const teams = await db.select()
+            .from(teamsTable)
+            .where(eq(teamsTable.id, teamId))
+            .execute();
+
+        if (teams.length === 0) {
+            throw new Error('Team not found');
+        }
+
+        await authorize(actor, 'manage', { type: 'team', ...teams[0] });
+    }
+
     // This is a placeholder declaration! Real code should be implemented here.
     // The goal of this handler is to fetch team-specific dashboard statistics
     return Promise.resolve({
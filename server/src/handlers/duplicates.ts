@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { expenseAttachmentsTable, expensesTable, receiptFilesTable } from '../db/schema';
+import { type AuthUser, type DuplicateMatch } from '../schema';
+import { getAttachmentsForExpenses } from './attachments';
+import { loadExpense } from './expenses';
+import {
+  DUPLICATE_DATE_WINDOW_DAYS,
+  DUPLICATE_WARNING_SCORE,
+  SIMILAR_AMOUNT_RATIO,
+  scoreDuplicate,
+  type DuplicateSubject
+} from '../utils/duplicates';
+import { and, between, eq, inArray, ne, notInArray, type SQL } from 'drizzle-orm';
+
+export interface DuplicateCandidate extends DuplicateSubject {
+  user_id: number;
+  exclude_expense_id?: number;
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+// The user's existing expenses that may be the same as the candidate, best match first.
+// Withdrawn and rejected expenses do not count, re-entering those is expected.
+export async function findPossibleDuplicates(candidate: DuplicateCandidate): Promise<DuplicateMatch[]> {
+  const conditions: SQL[] = [
+    eq(expensesTable.user_id, candidate.user_id),
+    notInArray(expensesTable.status, ['WITHDRAWN', 'REJECTED'])
+  ];
+  if (candidate.exclude_expense_id !== undefined) {
+    conditions.push(ne(expensesTable.id, candidate.exclude_expense_id));
+  }
+
+  const margin = Math.max(candidate.amount * SIMILAR_AMOUNT_RATIO, 0.01);
+  const nearby = await db.select()
+    .from(expensesTable)
+    .where(and(
+      ...conditions,
+      between(expensesTable.expense_date, shiftDate(candidate.expense_date, -DUPLICATE_DATE_WINDOW_DAYS), shiftDate(candidate.expense_date, DUPLICATE_DATE_WINDOW_DAYS)),
+      between(expensesTable.amount, (candidate.amount - margin).toFixed(2), (candidate.amount + margin).toFixed(2))
+    ))
+    .execute();
+
+  // The same receipt file counts whatever the amount and date
+  const sameReceipt = candidate.receipt_hashes.length === 0 ? [] : (await db.select({ expense: expensesTable })
+    .from(expensesTable)
+    .innerJoin(expenseAttachmentsTable, eq(expenseAttachmentsTable.expense_id, expensesTable.id))
+    .innerJoin(receiptFilesTable, eq(expenseAttachmentsTable.file_id, receiptFilesTable.id))
+    .where(and(...conditions, inArray(receiptFilesTable.sha256, candidate.receipt_hashes)))
+    .execute()).map(row => row.expense);
+
+  const expenses = new Map([...nearby, ...sameReceipt].map(expense => [expense.id, expense]));
+  const attachments = await getAttachmentsForExpenses([...expenses.keys()]);
+
+  const matches: DuplicateMatch[] = [];
+  for (const expense of expenses.values()) {
+    const { score, reasons } = scoreDuplicate(candidate, {
+      title: expense.title,
+      amount: parseFloat(expense.amount),
+      expense_date: expense.expense_date,
+      receipt_hashes: attachments.filter(attachment => attachment.expense_id === expense.id).map(attachment => attachment.sha256)
+    });
+
+    if (score >= DUPLICATE_WARNING_SCORE) {
+      matches.push({
+        expense_id: expense.id,
+        title: expense.title,
+        amount: parseFloat(expense.amount),
+        expense_date: new Date(expense.expense_date),
+        status: expense.status,
+        score,
+        reasons
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.expense_id - b.expense_id);
+}
+
+// "Possible duplicates" panel for reviewers of an expense
+export async function getPossibleDuplicates(expenseId: number, actor?: AuthUser): Promise<DuplicateMatch[]> {
+  try {
+    const expense = await loadExpense(expenseId, 'read', actor);
+    const attachments = await getAttachmentsForExpenses([expense.id]);
+
+    return await findPossibleDuplicates({
+      user_id: expense.user_id,
+      title: expense.title,
+      amount: parseFloat(expense.amount),
+      expense_date: expense.expense_date,
+      receipt_hashes: attachments.map(attachment => attachment.sha256),
+      exclude_expense_id: expense.id
+    });
+  } catch (error) {
+    console.error('Failed to fetch possible duplicates:', error);
+    throw error;
+  }
+}
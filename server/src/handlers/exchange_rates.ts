@@ -0,0 +1,210 @@
+import { db } from '../db';
+import { exchangeRatesTable, type NewExchangeRate } from '../db/schema';
+import {
+  type ExchangeRate,
+  type ExchangeRateFilter,
+  type ImportExchangeRatesInput,
+  type ImportExchangeRatesResponse,
+  type SetExchangeRateInput
+} from '../schema';
+import { baseCurrency, parseEcbRates } from '../utils/currency';
+import { parseCsv } from '../utils/csv';
+import { parseImportDate } from './imports';
+import { and, asc, desc, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+
+const IMPORT_CHUNK_SIZE = 1000;
+
+function convertExchangeRate(rate: typeof exchangeRatesTable.$inferSelect): ExchangeRate {
+  return { ...rate, rate: parseFloat(rate.rate), rate_date: new Date(rate.rate_date) };
+}
+
+// Units of `to` one unit of `from` is worth, using the latest rates published on or before the date.
+// Works from a direct rate, its inverse, or two rates against a common base (e.g. ECB euro rates).
+export async function findExchangeRate(from: string, to: string, date: string): Promise<number | null> {
+  if (from === to) {
+    return 1;
+  }
+
+  const rows = await db.selectDistinctOn([exchangeRatesTable.base_currency, exchangeRatesTable.currency])
+    .from(exchangeRatesTable)
+    .where(and(inArray(exchangeRatesTable.currency, [from, to]), lte(exchangeRatesTable.rate_date, date)))
+    .orderBy(exchangeRatesTable.base_currency, exchangeRatesTable.currency, desc(exchangeRatesTable.rate_date))
+    .execute();
+
+  const rates = new Map(rows.map(row => [`${row.base_currency}/${row.currency}`, parseFloat(row.rate)]));
+  const direct = rates.get(`${from}/${to}`);
+  if (direct !== undefined) {
+    return direct;
+  }
+  const inverse = rates.get(`${to}/${from}`);
+  if (inverse !== undefined) {
+    return 1 / inverse;
+  }
+
+  for (const row of rows) {
+    const toRate = rates.get(`${row.base_currency}/${to}`);
+    const fromRate = rates.get(`${row.base_currency}/${from}`);
+    if (toRate !== undefined && fromRate !== undefined) {
+      return toRate / fromRate;
+    }
+  }
+  return null;
+}
+
+// Base currency amount of an expense entered in another currency. The fallback rate is used
+// when no rate is known for the date, e.g. the template's rate for a recurring occurrence.
+export async function convertToBase(amount: number, currency: string, date: string, fallbackRate?: number): Promise<{ amount: number; exchange_rate: number }> {
+  const rate = await findExchangeRate(currency, baseCurrency(), date) ?? fallbackRate ?? null;
+  if (rate === null) {
+    throw new Error(`No exchange rate from ${currency} to ${baseCurrency()} on or before ${date}`);
+  }
+  return { amount: Math.round(amount * rate * 100) / 100, exchange_rate: Math.round(rate * 1e8) / 1e8 };
+}
+
+export async function getExchangeRates(filter: ExchangeRateFilter): Promise<ExchangeRate[]> {
+  try {
+    const conditions: SQL[] = [];
+    if (filter.currency) {
+      conditions.push(eq(exchangeRatesTable.currency, filter.currency));
+    }
+    if (filter.start_date) {
+      conditions.push(gte(exchangeRatesTable.rate_date, filter.start_date.toISOString().split('T')[0]));
+    }
+    if (filter.end_date) {
+      conditions.push(lte(exchangeRatesTable.rate_date, filter.end_date.toISOString().split('T')[0]));
+    }
+
+    const rates = await db.select()
+      .from(exchangeRatesTable)
+      .where(and(...conditions))
+      .orderBy(desc(exchangeRatesTable.rate_date), asc(exchangeRatesTable.base_currency), asc(exchangeRatesTable.currency))
+      .limit(filter.limit)
+      .execute();
+
+    return rates.map(convertExchangeRate);
+  } catch (error) {
+    console.error('Failed to fetch exchange rates:', error);
+    throw error;
+  }
+}
+
+// Returns how many distinct rates were stored; a later duplicate of a pair and day wins
+async function upsertRates(rates: NewExchangeRate[]): Promise<number> {
+  const distinct = [...new Map(rates.map(rate => [`${rate.base_currency}/${rate.currency}/${rate.rate_date}`, rate])).values()];
+
+  for (let i = 0; i < distinct.length; i += IMPORT_CHUNK_SIZE) {
+    await db.insert(exchangeRatesTable)
+      .values(distinct.slice(i, i + IMPORT_CHUNK_SIZE))
+      .onConflictDoUpdate({
+        target: [exchangeRatesTable.base_currency, exchangeRatesTable.currency, exchangeRatesTable.rate_date],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source`, updated_at: new Date() }
+      })
+      .execute();
+  }
+  return distinct.length;
+}
+
+export async function setExchangeRate(input: SetExchangeRateInput): Promise<ExchangeRate> {
+  try {
+    const base = input.base_currency ?? baseCurrency();
+    if (base === input.currency) {
+      throw new Error('An exchange rate needs two different currencies');
+    }
+
+    const rateDate = input.rate_date.toISOString().split('T')[0];
+    await upsertRates([{ base_currency: base, currency: input.currency, rate_date: rateDate, rate: input.rate.toString(), source: 'MANUAL' }]);
+
+    const rates = await db.select()
+      .from(exchangeRatesTable)
+      .where(and(
+        eq(exchangeRatesTable.base_currency, base),
+        eq(exchangeRatesTable.currency, input.currency),
+        eq(exchangeRatesTable.rate_date, rateDate)
+      ))
+      .execute();
+
+    return convertExchangeRate(rates[0]);
+  } catch (error) {
+    console.error('Exchange rate update failed:', error);
+    throw error;
+  }
+}
+
+// Expenses keep the rate they were converted with, so removing a rate changes no amounts
+export async function deleteExchangeRate(id: number): Promise<{ success: boolean }> {
+  try {
+    const deleted = await db.delete(exchangeRatesTable)
+      .where(eq(exchangeRatesTable.id, id))
+      .returning()
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new Error(`Exchange rate with id ${id} not found`);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Exchange rate deletion failed:', error);
+    throw error;
+  }
+}
+
+function parseCsvRates(input: ImportExchangeRatesInput, errors: string[]): NewExchangeRate[] {
+  const [header, ...rows] = parseCsv(input.data);
+  const names = (header ?? []).map(name => name.trim().toLowerCase());
+  const column = (name: string) => names.indexOf(name);
+
+  const missing = ['date', 'currency', 'rate'].filter(name => column(name) < 0);
+  if (missing.length > 0) {
+    throw new Error(`The file needs a header row with ${missing.join(', ')} columns`);
+  }
+
+  const rates: NewExchangeRate[] = [];
+  for (const [index, cells] of rows.entries()) {
+    const row = index + 2; // as numbered in a spreadsheet, after the header
+    const cell = (name: string) => column(name) < 0 ? '' : (cells[column(name)] ?? '').trim();
+
+    const rateDate = parseImportDate(cell('date'));
+    const currency = cell('currency').toUpperCase();
+    const base = (cell('base_currency') || input.base_currency || baseCurrency()).toUpperCase();
+    const rate = Number(cell('rate').replace(',', '.'));
+
+    if (!rateDate) {
+      errors.push(`Row ${row}: unrecognised date`);
+    } else if (!/^[A-Z]{3}$/.test(currency) || !/^[A-Z]{3}$/.test(base) || currency === base) {
+      errors.push(`Row ${row}: unrecognised currency`);
+    } else if (!cell('rate') || !isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${row}: the rate must be a positive number`);
+    } else {
+      rates.push({ base_currency: base, currency, rate_date: rateDate, rate: rate.toString(), source: 'CSV' });
+    }
+  }
+  return rates;
+}
+
+// Load rates from a spreadsheet or an ECB reference rate file; existing rates for the same day are replaced
+export async function importExchangeRates(input: ImportExchangeRatesInput): Promise<ImportExchangeRatesResponse> {
+  try {
+    const errors: string[] = [];
+    let rates: NewExchangeRate[];
+
+    if (input.format === 'ECB_XML') {
+      rates = parseEcbRates(input.data).map(rate => ({
+        base_currency: 'EUR',
+        currency: rate.currency,
+        rate_date: rate.rate_date,
+        rate: rate.rate.toString(),
+        source: 'ECB' as const
+      }));
+      if (rates.length === 0) {
+        throw new Error('No exchange rates found in the file');
+      }
+    } else {
+      rates = parseCsvRates(input, errors);
+    }
+
+    return { imported: await upsertRates(rates), errors };
+  } catch (error) {
+    console.error('Exchange rate import failed:', error);
+    throw error;
+  }
+}
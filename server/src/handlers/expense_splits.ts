@@ -0,0 +1,145 @@
+import { db } from '../db';
+import { categoriesTable, expenseSplitsTable, expensesTable, teamsTable, type NewExpenseSplit } from '../db/schema';
+import { type ExpenseSplit, type ExpenseSplitInput } from '../schema';
+import { belongsToTeam } from '../policy';
+import { TRPCError } from '@trpc/server';
+import { allocateCents, toCents } from '../utils/splits';
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+
+type DbExpenseSplit = typeof expenseSplitsTable.$inferSelect;
+
+export type SplitPlan = Omit<NewExpenseSplit, 'expense_id'>[];
+
+// What an expense contributes per category and team: each of its splits, or the whole expense
+// when it has none. Use over expenses left-joined to their splits on splitJoin. A split without
+// a team stays with the expense's team.
+export const splitJoin = eq(expenseSplitsTable.expense_id, expensesTable.id);
+export const allocatedAmount = sql<string>`coalesce(${expenseSplitsTable.amount}, ${expensesTable.amount})`;
+export const allocatedCategoryId = sql<number>`coalesce(${expenseSplitsTable.category_id}, ${expensesTable.category_id})`;
+export const allocatedTeamId = sql<number | null>`coalesce(${expenseSplitsTable.team_id}, ${expensesTable.team_id})`;
+
+function convertSplit(split: DbExpenseSplit): ExpenseSplit {
+  return {
+    ...split,
+    amount: parseFloat(split.amount),
+    original_amount: parseFloat(split.original_amount),
+    percentage: split.percentage === null ? null : parseFloat(split.percentage),
+    tags: split.tags as string[]
+  };
+}
+
+// With an owner, splits are also held to the rules of the expense itself: the owner's own or
+// global categories, and teams the owner belongs to
+async function assertReferencesExist(splits: ExpenseSplitInput[], owner?: number): Promise<void> {
+  const categoryIds = [...new Set(splits.map(split => split.category_id))];
+  const categories = await db.select({ id: categoriesTable.id, user_id: categoriesTable.user_id })
+    .from(categoriesTable)
+    .where(inArray(categoriesTable.id, categoryIds))
+    .execute();
+  const missingCategory = categoryIds.find(id => !categories.some(category => category.id === id));
+  if (missingCategory !== undefined) {
+    throw new Error(`Category with id ${missingCategory} does not exist`);
+  }
+  const foreignCategory = owner !== undefined && categories.find(category => category.user_id !== null && category.user_id !== owner);
+  if (foreignCategory) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Category with id ${foreignCategory.id} belongs to another user` });
+  }
+
+  const teamIds = [...new Set(splits.flatMap(split => split.team_id ? [split.team_id] : []))];
+  if (teamIds.length > 0) {
+    const teams = await db.select({ id: teamsTable.id })
+      .from(teamsTable)
+      .where(inArray(teamsTable.id, teamIds))
+      .execute();
+    const missingTeam = teamIds.find(id => !teams.some(team => team.id === id));
+    if (missingTeam !== undefined) {
+      throw new Error(`Team with id ${missingTeam} does not exist`);
+    }
+
+    if (owner !== undefined) {
+      for (const teamId of teamIds) {
+        if (!await belongsToTeam(owner, teamId)) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Expenses can only be charged to a team the submitter belongs to' });
+        }
+      }
+    }
+  }
+}
+
+// Check the splits against the expense total and work out each one's share, in the expense's
+// currency and in the base currency. Rounding never loses a cent: the shares add up exactly.
+// Splits being entered pass the owner; splits carried over were checked when they were entered.
+export async function planExpenseSplits(splits: ExpenseSplitInput[], originalAmount: number, baseAmount: number, owner?: number): Promise<SplitPlan> {
+  if (splits.length === 0) {
+    return [];
+  }
+
+  const byPercentage = splits.every(split => split.percentage !== undefined);
+  if (!byPercentage && splits.some(split => split.percentage !== undefined)) {
+    throw new Error('Split either by amount or by percentage, not both');
+  }
+
+  let originalCents: number[];
+  if (byPercentage) {
+    const total = splits.reduce((sum, split) => sum + split.percentage!, 0);
+    if (Math.abs(total - 100) > 0.0001) {
+      throw new Error(`The split percentages add up to ${Math.round(total * 10000) / 10000} instead of 100`);
+    }
+    originalCents = allocateCents(toCents(originalAmount), splits.map(split => split.percentage!));
+  } else {
+    originalCents = splits.map(split => toCents(split.amount!));
+    const total = originalCents.reduce((sum, cents) => sum + cents, 0);
+    if (total !== toCents(originalAmount)) {
+      throw new Error(`The splits add up to ${(total / 100).toFixed(2)} but the expense is ${originalAmount.toFixed(2)}`);
+    }
+  }
+
+  await assertReferencesExist(splits, owner);
+
+  const baseCents = allocateCents(toCents(baseAmount), originalCents);
+  return splits.map((split, index) => ({
+    category_id: split.category_id,
+    team_id: split.team_id ?? null,
+    description: split.description ?? null,
+    amount: (baseCents[index] / 100).toFixed(2),
+    original_amount: (originalCents[index] / 100).toFixed(2),
+    percentage: byPercentage ? split.percentage!.toString() : null,
+    tags: split.tags ?? []
+  }));
+}
+
+export async function replaceExpenseSplits(expenseId: number, plan: SplitPlan): Promise<void> {
+  await db.delete(expenseSplitsTable)
+    .where(eq(expenseSplitsTable.expense_id, expenseId))
+    .execute();
+
+  if (plan.length > 0) {
+    await db.insert(expenseSplitsTable)
+      .values(plan.map(split => ({ ...split, expense_id: expenseId })))
+      .execute();
+  }
+}
+
+async function loadSplits(expenseId: number): Promise<DbExpenseSplit[]> {
+  return db.select()
+    .from(expenseSplitsTable)
+    .where(eq(expenseSplitsTable.expense_id, expenseId))
+    .orderBy(asc(expenseSplitsTable.id))
+    .execute();
+}
+
+// An expense's splits as they were entered, to work them out again for a new total
+export async function getSplitInputs(expenseId: number): Promise<ExpenseSplitInput[]> {
+  const splits = await loadSplits(expenseId);
+  return splits.map(split => ({
+    category_id: split.category_id,
+    team_id: split.team_id,
+    description: split.description,
+    ...(split.percentage === null ? { amount: parseFloat(split.original_amount) } : { percentage: parseFloat(split.percentage) }),
+    tags: split.tags as string[]
+  }));
+}
+
+export async function getExpenseSplits(expenseId: number): Promise<ExpenseSplit[]> {
+  return (await loadSplits(expenseId)).map(convertSplit);
+}
@@ -0,0 +1,111 @@
+import { db } from '../db';
+import { expenseStatusHistoryTable, expensesTable, type NewExpense } from '../db/schema';
+import { type AuthUser, type ExpenseStatusHistory } from '../schema';
+import { authorize } from '../policy';
+import { and, asc, eq } from 'drizzle-orm';
+
+type DbExpense = typeof expensesTable.$inferSelect;
+export type ExpenseStatus = DbExpense['status'];
+
+// Every move the lifecycle allows; anything else is rejected by the server
+const TRANSITIONS: Record<ExpenseStatus, ExpenseStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['APPROVED', 'REJECTED', 'WITHDRAWN'],
+  REJECTED: ['SUBMITTED', 'WITHDRAWN'],
+  WITHDRAWN: ['SUBMITTED'],
+  APPROVED: ['SUBMITTED', 'SCHEDULED_FOR_PAYMENT'], // back to SUBMITTED when reopened
+  SCHEDULED_FOR_PAYMENT: ['APPROVED', 'REIMBURSED'],
+  REIMBURSED: ['APPROVED'] // the bank returned the payment
+};
+
+// Approved spend, whether or not it has been paid out yet
+export const APPROVED_EXPENSE_STATUSES: ExpenseStatus[] = ['APPROVED', 'SCHEDULED_FOR_PAYMENT', 'REIMBURSED'];
+
+// Spend that has been claimed and not dropped; drafts, rejections and withdrawals don't count
+export const ACTIVE_EXPENSE_STATUSES: ExpenseStatus[] = ['SUBMITTED', ...APPROVED_EXPENSE_STATUSES];
+
+// The owner may still change or remove the expense in these states
+export const EDITABLE_EXPENSE_STATUSES: ExpenseStatus[] = ['DRAFT', 'SUBMITTED', 'REJECTED', 'WITHDRAWN'];
+
+export function canTransition(from: ExpenseStatus, to: ExpenseStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: ExpenseStatus, to: ExpenseStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot move an expense from ${from} to ${to}`);
+  }
+}
+
+// Record the status an expense starts out in
+export async function recordInitialStatus(expense: DbExpense, changedBy: number | null): Promise<void> {
+  await db.insert(expenseStatusHistoryTable)
+    .values({
+      expense_id: expense.id,
+      from_status: null,
+      to_status: expense.status,
+      changed_by: changedBy
+    })
+    .execute();
+}
+
+// Move an expense to a new status and log it; fails if someone else changed the status in the meantime
+export async function transitionExpense(
+  expense: DbExpense,
+  to: ExpenseStatus,
+  changedBy: number | null,
+  options: { set?: Partial<NewExpense>; note?: string | null } = {}
+): Promise<DbExpense> {
+  assertTransition(expense.status, to);
+
+  const updated = await db.update(expensesTable)
+    .set({ ...options.set, status: to, updated_at: new Date() })
+    .where(and(
+      eq(expensesTable.id, expense.id),
+      eq(expensesTable.status, expense.status)
+    ))
+    .returning()
+    .execute();
+
+  if (updated.length === 0) {
+    throw new Error('The expense status changed in the meantime, reload and try again');
+  }
+
+  await db.insert(expenseStatusHistoryTable)
+    .values({
+      expense_id: expense.id,
+      from_status: expense.status,
+      to_status: to,
+      changed_by: changedBy,
+      note: options.note || null
+    })
+    .execute();
+
+  return updated[0];
+}
+
+export async function getExpenseStatusHistory(expenseId: number, actor?: AuthUser): Promise<ExpenseStatusHistory[]> {
+  try {
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, expenseId))
+      .execute();
+
+    if (expenses.length === 0) {
+      throw new Error(`Expense with id ${expenseId} not found`);
+    }
+
+    if (actor) {
+      await authorize(actor, 'read', { type: 'expense', ...expenses[0] });
+    }
+
+    return await db.select()
+      .from(expenseStatusHistoryTable)
+      .where(eq(expenseStatusHistoryTable.expense_id, expenseId))
+      .orderBy(asc(expenseStatusHistoryTable.created_at), asc(expenseStatusHistoryTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch expense status history:', error);
+    throw error;
+  }
+}
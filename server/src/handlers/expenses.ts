@@ -1,182 +1,923 @@
 import { 
+    type AuthUser,
     type Expense, 
+    type CreateExpenseResponse,
+    type ExpenseDetails,
     type CreateExpenseInput, 
     type UpdateExpenseInput, 
     type ApproveExpenseInput,
+    type ExpenseStatusChangeInput,
+    type UpdatePaymentStatusInput,
     type ExpenseFilter,
-    type ExpenseListResponse
+    type ExpenseListResponse,
+    type ExpenseSearchInput,
+    type ExpenseSearchResult,
+    type ExpenseType,
+    type MileageDetails,
+    type MileageInput,
+    type PerDiemDetails,
+    type PerDiemInput
 } from '../schema';
-import { db } from '../db';
-import { expensesTable, usersTable, categoriesTable, teamsTable, type NewExpense } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { db, withTransaction } from '../db';
+import { expensesTable, usersTable, categoriesTable, teamsTable, notificationsTable, type NewExpense } from '../db/schema';
+import { authorize, belongsToTeam, expenseReadScope, type PolicyAction } from '../policy';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { cancelApprovalWorkflow, getAwaitingApprovalIds, processApprovalDecision, startApprovalWorkflow } from './approvals';
+import { activeReimbursementBatchId, batchReference } from './reimbursements';
+import { ACTIVE_EXPENSE_STATUSES, EDITABLE_EXPENSE_STATUSES, canTransition, recordInitialStatus, transitionExpense, type ExpenseStatus } from './expense_status';
+import { getAttachmentsForExpenses } from './attachments';
+import { findPossibleDuplicates } from './duplicates';
+import { DUPLICATE_BLOCKING_SCORE } from '../utils/duplicates';
+import { dueOccurrences } from '../utils/recurrence';
+import { baseCurrency } from '../utils/currency';
+import { convertToBase } from './exchange_rates';
+import { calculateMileage, calculatePerDiem } from './allowance_rates';
+import { getExpenseSplits, getSplitInputs, planExpenseSplits, replaceExpenseSplits } from './expense_splits';
+import { TRPCError } from '@trpc/server';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, or, sql, type AnyColumn, type SQL } from 'drizzle-orm';
 
-export async function createExpense(input: CreateExpenseInput): Promise<Expense> {
+// Deployments can require a verified address before anyone submits expenses
+function requiresVerifiedEmail(): boolean {
+    return process.env['REQUIRE_VERIFIED_EMAIL_FOR_EXPENSES'] === 'true';
+}
+
+// Helper function to convert database expense to application Expense type
+export function convertExpense(dbExpense: typeof expensesTable.$inferSelect): Expense {
+    const { search_vector, ...expense } = dbExpense; // internal search index, never exposed
+    return {
+        ...expense,
+        amount: parseFloat(dbExpense.amount),
+        currency: dbExpense.currency ?? baseCurrency(),
+        original_amount: parseFloat(dbExpense.original_amount ?? dbExpense.amount),
+        exchange_rate: dbExpense.exchange_rate ? parseFloat(dbExpense.exchange_rate) : 1,
+        mileage: dbExpense.mileage as MileageDetails | null,
+        per_diem: dbExpense.per_diem as PerDiemDetails | null,
+        tags: dbExpense.tags as string[],
+        expense_date: new Date(dbExpense.expense_date),
+        recurring_end_date: dbExpense.recurring_end_date ? new Date(dbExpense.recurring_end_date) : null
+    };
+}
+
+// Amount columns for an amount entered in the given currency, converted at the expense date
+async function moneyColumns(amount: number, currency: string, expenseDate: string, fallbackRate?: string | null): Promise<Pick<NewExpense, 'amount' | 'currency' | 'original_amount' | 'exchange_rate'>> {
+    if (currency === baseCurrency()) {
+        return { amount: amount.toString(), currency: null, original_amount: null, exchange_rate: null };
+    }
+
+    const converted = await convertToBase(amount, currency, expenseDate, fallbackRate ? parseFloat(fallbackRate) : undefined);
+    return {
+        amount: converted.amount.toString(),
+        currency,
+        original_amount: amount.toString(),
+        exchange_rate: converted.exchange_rate.toString()
+    };
+}
+
+interface TypedExpenseFields {
+    amount?: number;
+    currency?: string;
+    mileage?: MileageInput;
+    per_diem?: PerDiemInput;
+}
+
+const EXPENSE_TYPE_LABELS: Record<ExpenseType, string> = { STANDARD: 'standard', MILEAGE: 'mileage', PER_DIEM: 'per diem' };
+
+// Mileage and per diem amounts come from the rate tables, never from the user
+function assertExpenseTypeFields(expenseType: ExpenseType, input: TypedExpenseFields): void {
+    if (input.mileage && expenseType !== 'MILEAGE') {
+        throw new Error(`A ${EXPENSE_TYPE_LABELS[expenseType]} expense takes no mileage details`);
+    }
+    if (input.per_diem && expenseType !== 'PER_DIEM') {
+        throw new Error(`A ${EXPENSE_TYPE_LABELS[expenseType]} expense takes no per diem details`);
+    }
+    if (expenseType !== 'STANDARD' && (input.amount !== undefined || (input.currency !== undefined && input.currency !== baseCurrency()))) {
+        throw new Error(`The amount of a ${EXPENSE_TYPE_LABELS[expenseType]} expense is calculated from the ${EXPENSE_TYPE_LABELS[expenseType]} rates in ${baseCurrency()}`);
+    }
+}
+
+// Amount columns of a mileage or per diem expense, with the details the amount was calculated from
+async function allowanceColumns(
+    expenseType: Exclude<ExpenseType, 'STANDARD'>,
+    input: TypedExpenseFields,
+    expenseDate: string,
+    previous?: typeof expensesTable.$inferSelect
+): Promise<Pick<NewExpense, 'amount' | 'currency' | 'original_amount' | 'exchange_rate' | 'mileage' | 'per_diem'>> {
+    const inBaseCurrency = { currency: null, original_amount: null, exchange_rate: null };
+
+    if (expenseType === 'MILEAGE') {
+        if (!input.mileage) {
+            throw new Error('Mileage expenses need the distance travelled');
+        }
+        const { amount, mileage } = await calculateMileage(input.mileage, expenseDate, previous?.mileage as MileageDetails | null);
+        return { ...inBaseCurrency, amount: amount.toString(), mileage, per_diem: null };
+    }
+
+    if (!input.per_diem) {
+        throw new Error('Per diem expenses need the destination and days of travel');
+    }
+    const { amount, per_diem } = await calculatePerDiem(input.per_diem, expenseDate, previous?.per_diem as PerDiemDetails | null);
+    return { ...inBaseCurrency, amount: amount.toString(), mileage: null, per_diem };
+}
+
+// Columns the expense list can be ordered by
+const expenseSortColumns = {
+    expense_date: expensesTable.expense_date,
+    amount: expensesTable.amount,
+    title: expensesTable.title,
+    status: expensesTable.status,
+    created_at: expensesTable.created_at
+};
+
+// Escape before ts_headline so only its <mark> tags reach the client as markup
+function escapeHtml(value: AnyColumn): SQL {
+    return sql`replace(replace(replace(${value}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
+
+// Turn free text into a tsquery where every word must match as a prefix, e.g. "hot berl" -> "hot:* & berl:*"
+function toPrefixTsQuery(text: string, operator: '&' | '|' = '&'): string | null {
+    const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    return terms ? terms.map(term => `${term}:*`).join(` ${operator} `) : null;
+}
+
+// Generated columns cannot reference other tables, so the category name is folded in at query time
+const searchDocument = sql`(${expensesTable.search_vector} || setweight(to_tsvector('english', ${categoriesTable.name}), 'B'))`;
+
+// Match every word against the expense and its category name. The combined document has no index,
+// so candidates are narrowed first to expenses whose own vector matches (GIN index) or whose category
+// matches any of the words (category_id index); a row matching all words has to be in one of the two.
+export async function expenseSearchCondition(text: string): Promise<SQL | null> {
+    const tsquery = toPrefixTsQuery(text);
+    const anyWord = toPrefixTsQuery(text, '|');
+    if (!tsquery || !anyWord) {
+        return null;
+    }
+
+    const query = sql`to_tsquery('english', ${tsquery})`;
+    const categories = await db.select({ id: categoriesTable.id })
+        .from(categoriesTable)
+        .where(sql`to_tsvector('english', ${categoriesTable.name}) @@ to_tsquery('english', ${anyWord})`)
+        .execute();
+
+    const ownMatch = sql`${expensesTable.search_vector} @@ ${query}`;
+    const candidates = categories.length > 0
+        ? or(ownMatch, inArray(expensesTable.category_id, categories.map(category => category.id)))!
+        : ownMatch;
+
+    return and(candidates, sql`${searchDocument} @@ ${query}`)!;
+}
+
+// Why an expense can no longer be changed by its owner
+export function lockedStatusMessage(status: ExpenseStatus, verb: 'edited' | 'deleted'): string {
+    return status === 'APPROVED'
+        ? `Approved expenses cannot be ${verb}, reopen the expense first`
+        : `Expenses that are scheduled for payment or reimbursed cannot be ${verb}`;
+}
+
+// Load an expense or fail, optionally checking the actor may perform the action
+export async function loadExpense(id: number, action: PolicyAction, actor?: AuthUser): Promise<typeof expensesTable.$inferSelect> {
+    const expenses = await db.select()
+        .from(expensesTable)
+        .where(eq(expensesTable.id, id))
+        .execute();
+
+    if (expenses.length === 0) {
+        throw new Error(`Expense with id ${id} not found`);
+    }
+
+    if (actor) {
+        await authorize(actor, action, { type: 'expense', ...expenses[0] });
+    }
+
+    return expenses[0];
+}
+
+// receiptHashes are the hashes of receipt files about to be attached, e.g. by a receipt scan,
+// so the same receipt submitted twice is caught
+export async function createExpense(input: CreateExpenseInput, receiptHashes: string[] = []): Promise<CreateExpenseResponse> {
     try {
-        // Verify foreign key constraints before insertion
+        return await withTransaction(async () => {
+            // Verify foreign key constraints before insertion
         
-        // Check if user exists
-        const userExists = await db.select()
-            .from(usersTable)
-            .where(eq(usersTable.id, input.user_id))
-            .execute();
+            // Check if user exists
+            const userExists = await db.select()
+                .from(usersTable)
+                .where(eq(usersTable.id, input.user_id))
+                .execute();
+        
+            if (userExists.length === 0) {
+                throw new Error(`User with id ${input.user_id} does not exist`);
+            }
+
+            if (requiresVerifiedEmail() && !userExists[0].is_email_verified) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: 'Verify your email address before submitting expenses'
+                });
+            }
+
+            // Check if category exists
+            const categoryExists = await db.select()
+                .from(categoriesTable)
+                .where(eq(categoriesTable.id, input.category_id))
+                .execute();
         
-        if (userExists.length === 0) {
-            throw new Error(`User with id ${input.user_id} does not exist`);
+            if (categoryExists.length === 0) {
+                throw new Error(`Category with id ${input.category_id} does not exist`);
+            }
+
+            if (categoryExists[0].user_id !== null && categoryExists[0].user_id !== input.user_id) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: `Category with id ${input.category_id} belongs to another user`
+                });
+            }
+
+            if (input.is_recurring && !input.recurring_frequency) {
+                throw new Error('Recurring expenses need a recurring_frequency');
+            }
+
+            // Check if team exists (if team_id is provided)
+            if (input.team_id) {
+                const teamExists = await db.select()
+                    .from(teamsTable)
+                    .where(eq(teamsTable.id, input.team_id))
+                    .execute();
+            
+                if (teamExists.length === 0) {
+                    throw new Error(`Team with id ${input.team_id} does not exist`);
+                }
+
+                if (!await belongsToTeam(input.user_id, input.team_id)) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: 'Expenses can only be charged to a team the submitter belongs to'
+                    });
+                }
+            }
+
+            const expenseType = input.expense_type ?? 'STANDARD';
+            assertExpenseTypeFields(expenseType, input);
+            if (expenseType === 'STANDARD' && input.amount === undefined) {
+                throw new Error('The amount is required');
+            }
+
+            const expenseDate = input.expense_date.toISOString().split('T')[0];
+            const money = expenseType === 'STANDARD'
+                ? await moneyColumns(input.amount!, input.currency ?? userExists[0].default_currency ?? baseCurrency(), expenseDate)
+                : await allowanceColumns(expenseType, input, expenseDate);
+            const splits = await planExpenseSplits(input.splits ?? [], parseFloat(money.original_amount ?? money.amount!), parseFloat(money.amount!), input.user_id);
+
+            // Near-certain duplicates (same amount, day and title) need an explicit allow_duplicate
+            const possibleDuplicates = await findPossibleDuplicates({
+                user_id: input.user_id,
+                title: input.title,
+                amount: parseFloat(money.amount!),
+                expense_date: expenseDate,
+                receipt_hashes: receiptHashes
+            });
+
+            const blocking = possibleDuplicates[0];
+            if (blocking && blocking.score >= DUPLICATE_BLOCKING_SCORE && !input.allow_duplicate) {
+                throw new TRPCError({
+                    code: 'CONFLICT',
+                    message: `This looks like a duplicate of "${blocking.title}" (expense ${blocking.expense_id}), set allow_duplicate to save it anyway`
+                });
+            }
+
+            // Insert expense record
+            const insertData: NewExpense = {
+                user_id: input.user_id,
+                team_id: input.team_id || null,
+                category_id: input.category_id,
+                title: input.title,
+                description: input.description || null,
+                expense_type: expenseType,
+                ...money,
+                tags: input.tags || [], // JSONB field accepts array directly
+                status: input.draft ? 'DRAFT' : 'SUBMITTED',
+                is_recurring: input.is_recurring || false,
+                recurring_frequency: input.recurring_frequency || null,
+                recurring_end_date: input.recurring_end_date ? input.recurring_end_date.toISOString().split('T')[0] : null,
+                expense_date: expenseDate
+            };
+
+            const result = await db.insert(expensesTable)
+                .values(insertData)
+                .returning()
+                .execute();
+
+            await replaceExpenseSplits(result[0].id, splits);
+            await recordInitialStatus(result[0], input.user_id);
+
+            if (result[0].status === 'SUBMITTED') {
+                await startApprovalWorkflow(result[0]);
+            }
+
+            // Convert numeric and date fields back to proper types before returning
+            return { ...convertExpense(result[0]), possible_duplicates: possibleDuplicates };
+        });
+    } catch (error) {
+        console.error('Expense creation failed:', error);
+        throw error;
+    }
+}
+
+export async function getExpenses(filter: ExpenseFilter, actor?: AuthUser): Promise<ExpenseListResponse> {
+    try {
+        const page = filter.page || 1;
+        const limit = filter.limit || 20;
+        const conditions: SQL<unknown>[] = [];
+
+        // Non-admins only ever see what they could open individually
+        const scope = actor ? expenseReadScope(actor) : undefined;
+        if (scope) {
+            conditions.push(scope);
+        }
+
+        if (filter.user_id !== undefined) {
+            conditions.push(eq(expensesTable.user_id, filter.user_id));
+        }
+
+        if (filter.team_id !== undefined) {
+            conditions.push(eq(expensesTable.team_id, filter.team_id));
+        }
+
+        if (filter.category_id !== undefined) {
+            conditions.push(eq(expensesTable.category_id, filter.category_id));
+        }
+
+        if (filter.status) {
+            conditions.push(eq(expensesTable.status, filter.status));
+        }
+
+        if (filter.statuses && filter.statuses.length > 0) {
+            conditions.push(inArray(expensesTable.status, filter.statuses));
+        }
+
+        if (filter.start_date) {
+            conditions.push(gte(expensesTable.expense_date, filter.start_date.toISOString().split('T')[0]));
+        }
+
+        if (filter.end_date) {
+            conditions.push(lte(expensesTable.expense_date, filter.end_date.toISOString().split('T')[0]));
+        }
+
+        if (filter.min_amount !== undefined) {
+            conditions.push(gte(expensesTable.amount, filter.min_amount.toString()));
+        }
+
+        if (filter.max_amount !== undefined) {
+            conditions.push(lte(expensesTable.amount, filter.max_amount.toString()));
+        }
+
+        // Expense must carry every requested tag
+        if (filter.tags && filter.tags.length > 0) {
+            conditions.push(sql`${expensesTable.tags} @> ${JSON.stringify(filter.tags)}::jsonb`);
         }
 
-        // Check if category exists
-        const categoryExists = await db.select()
-            .from(categoriesTable)
-            .where(eq(categoriesTable.id, input.category_id))
+        const search = filter.search?.trim();
+        if (search) {
+            const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+            conditions.push(or(
+                ilike(expensesTable.title, pattern),
+                ilike(expensesTable.description, pattern)
+            )!);
+        }
+
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+        const totals = await db.select({ count: count() })
+            .from(expensesTable)
+            .where(where)
             .execute();
-        
-        if (categoryExists.length === 0) {
-            throw new Error(`Category with id ${input.category_id} does not exist`);
+
+        const sortBy = filter.sort_by || 'expense_date';
+        const ascending = filter.sort_direction === 'asc';
+
+        // Cursors are keyed on (expense_date, id), so they only make sense for that ordering
+        let keyset: SQL | undefined;
+        if (filter.cursor) {
+            if (sortBy !== 'expense_date') {
+                throw new Error('Cursor pagination requires sorting by expense_date');
+            }
+            const cursor = decodeCursor(filter.cursor);
+            keyset = ascending
+                ? sql`(${expensesTable.expense_date}, ${expensesTable.id}) > (${cursor.value}::date, ${cursor.id})`
+                : sql`(${expensesTable.expense_date}, ${expensesTable.id}) < (${cursor.value}::date, ${cursor.id})`;
         }
 
-        // Check if team exists (if team_id is provided)
-        if (input.team_id) {
-            const teamExists = await db.select()
-                .from(teamsTable)
-                .where(eq(teamsTable.id, input.team_id))
-                .execute();
-            
-            if (teamExists.length === 0) {
-                throw new Error(`Team with id ${input.team_id} does not exist`);
-            }
-        }
-
-        // Insert expense record
-        const insertData: NewExpense = {
-            user_id: input.user_id,
-            team_id: input.team_id || null,
-            category_id: input.category_id,
-            title: input.title,
-            description: input.description || null,
-            amount: input.amount.toString(), // Convert number to string for numeric column
-            receipt_url: input.receipt_url || null,
-            tags: input.tags || [], // JSONB field accepts array directly
-            status: 'PENDING',
-            is_recurring: input.is_recurring || false,
-            recurring_frequency: input.recurring_frequency || null,
-            recurring_end_date: input.recurring_end_date ? input.recurring_end_date.toISOString().split('T')[0] : null,
-            expense_date: input.expense_date.toISOString().split('T')[0] // Convert Date to YYYY-MM-DD string
+        // Tie-break on id so pages stay stable when sort values repeat
+        const order = ascending ? asc : desc;
+        const rows = await db.select()
+            .from(expensesTable)
+            .where(keyset ? and(where, keyset) : where)
+            .orderBy(order(expenseSortColumns[sortBy]), order(expensesTable.id))
+            .limit(limit + 1)
+            .offset(keyset ? 0 : (page - 1) * limit)
+            .execute();
+
+        const hasMore = rows.length > limit;
+        const pageRows = rows.slice(0, limit);
+        const last = pageRows[pageRows.length - 1];
+        const total_count = totals[0].count;
+
+        return {
+            expenses: pageRows.map(convertExpense),
+            total_count,
+            page,
+            limit,
+            total_pages: Math.ceil(total_count / limit),
+            next_cursor: hasMore && sortBy === 'expense_date' ? encodeCursor(last.expense_date, last.id) : null
         };
+    } catch (error) {
+        console.error('Failed to fetch expenses:', error);
+        throw error;
+    }
+}
 
-        const result = await db.insert(expensesTable)
-            .values(insertData)
-            .returning()
+export async function getExpenseById(id: number, actor?: AuthUser): Promise<ExpenseDetails | null> {
+    try {
+        const submitters = alias(usersTable, 'submitter');
+        const approvers = alias(usersTable, 'approver');
+
+        const rows = await db.select({
+            expense: expensesTable,
+            category: {
+                id: categoriesTable.id,
+                name: categoriesTable.name,
+                color: categoriesTable.color,
+                icon: categoriesTable.icon
+            },
+            team: {
+                id: teamsTable.id,
+                name: teamsTable.name
+            },
+            submitter: {
+                id: submitters.id,
+                first_name: submitters.first_name,
+                last_name: submitters.last_name,
+                email: submitters.email
+            },
+            approver: {
+                id: approvers.id,
+                first_name: approvers.first_name,
+                last_name: approvers.last_name,
+                email: approvers.email
+            }
+        })
+            .from(expensesTable)
+            .innerJoin(categoriesTable, eq(expensesTable.category_id, categoriesTable.id))
+            .innerJoin(submitters, eq(expensesTable.user_id, submitters.id))
+            .leftJoin(teamsTable, eq(expensesTable.team_id, teamsTable.id))
+            .leftJoin(approvers, eq(expensesTable.approved_by, approvers.id))
+            .where(eq(expensesTable.id, id))
             .execute();
 
-        // Convert numeric and date fields back to proper types before returning
-        const expense = result[0];
+        if (rows.length === 0) {
+            return null;
+        }
+
+        const row = rows[0];
+        if (actor) {
+            await authorize(actor, 'read', { type: 'expense', ...row.expense });
+        }
+
         return {
-            ...expense,
-            amount: parseFloat(expense.amount), // Convert string back to number
-            tags: expense.tags as string[], // Type assertion for JSON field
-            expense_date: new Date(expense.expense_date), // Convert string to Date
-            recurring_end_date: expense.recurring_end_date ? new Date(expense.recurring_end_date) : null // Convert string to Date if exists
+            ...convertExpense(row.expense),
+            category: row.category,
+            team: row.team,
+            submitter: row.submitter,
+            approver: row.approver,
+            attachments: await getAttachmentsForExpenses([id]),
+            splits: await getExpenseSplits(id)
         };
     } catch (error) {
-        console.error('Expense creation failed:', error);
+        console.error('Failed to fetch expense by ID:', error);
         throw error;
     }
 }
 
-export async function getExpenses(filter: ExpenseFilter): Promise<ExpenseListResponse> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to fetch expenses with advanced filtering and pagination
-    return Promise.resolve({
-        expenses: [],
-        total_count: 0,
-        page: filter.page || 1,
-        limit: filter.limit || 20,
-        total_pages: 0
-    });
-}
-
-export async function getExpenseById(id: number): Promise<Expense | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to fetch a specific expense by ID with full details
-    return Promise.resolve(null);
-}
-
-export async function updateExpense(input: UpdateExpenseInput): Promise<Expense> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to update expense information
-    return Promise.resolve({
-        id: input.id,
-        user_id: 1,
-        team_id: null,
-        category_id: input.category_id || 1,
-        title: input.title || 'Expense Title',
-        description: input.description || null,
-        amount: input.amount || 100,
-        receipt_url: input.receipt_url || null,
-        tags: input.tags || [],
-        status: 'PENDING',
-        is_recurring: false,
-        recurring_frequency: null,
-        recurring_end_date: null,
-        expense_date: input.expense_date || new Date(),
-        approved_by: null,
-        approved_at: null,
-        created_at: new Date(),
-        updated_at: new Date()
-    } as Expense);
-}
-
-export async function deleteExpense(id: number): Promise<{ success: boolean }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to delete an expense (only by owner or admin)
-    return Promise.resolve({ success: true });
-}
-
-export async function approveExpense(input: ApproveExpenseInput): Promise<Expense> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to approve or reject expense (manager/admin only)
-    return Promise.resolve({
-        id: input.expense_id,
-        user_id: 1,
-        team_id: null,
-        category_id: 1,
-        title: 'Approved Expense',
-        description: null,
-        amount: 100,
-        receipt_url: null,
-        tags: [],
-        status: input.status,
-        is_recurring: false,
-        recurring_frequency: null,
-        recurring_end_date: null,
-        expense_date: new Date(),
-        approved_by: input.approved_by,
-        approved_at: new Date(),
-        created_at: new Date(),
-        updated_at: new Date()
-    } as Expense);
-}
-
-export async function searchExpenses(query: string, userId: number): Promise<Expense[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to perform full-text search across expense details
-    return Promise.resolve([]);
+export async function updateExpense(input: UpdateExpenseInput, actor?: AuthUser): Promise<Expense> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(input.id, 'update', actor);
+
+            if (!EDITABLE_EXPENSE_STATUSES.includes(existing.status)) {
+                throw new Error(lockedStatusMessage(existing.status, 'edited'));
+            }
+
+            if (input.category_id !== undefined) {
+                const categoryExists = await db.select({ id: categoriesTable.id, user_id: categoriesTable.user_id })
+                    .from(categoriesTable)
+                    .where(eq(categoriesTable.id, input.category_id))
+                    .execute();
+
+                if (categoryExists.length === 0) {
+                    throw new Error(`Category with id ${input.category_id} does not exist`);
+                }
+
+                if (categoryExists[0].user_id !== null && categoryExists[0].user_id !== existing.user_id) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: `Category with id ${input.category_id} belongs to another user`
+                    });
+                }
+            }
+
+            const updateData: Partial<NewExpense> = { updated_at: new Date() };
+
+            if (input.category_id !== undefined) updateData.category_id = input.category_id;
+            if (input.title !== undefined) updateData.title = input.title;
+            if (input.description !== undefined) updateData.description = input.description;
+            if (input.tags !== undefined) updateData.tags = input.tags;
+            if (input.expense_date !== undefined) updateData.expense_date = input.expense_date.toISOString().split('T')[0];
+
+            assertExpenseTypeFields(existing.expense_type, input);
+
+            // A new amount, currency or date means converting again; new trip details or a new date recalculating
+            const moneyChanged = input.amount !== undefined || input.currency !== undefined || input.expense_date !== undefined
+                || input.mileage !== undefined || input.per_diem !== undefined;
+            if (moneyChanged) {
+                Object.assign(updateData, existing.expense_type === 'STANDARD'
+                    ? await moneyColumns(
+                        input.amount ?? parseFloat(existing.original_amount ?? existing.amount),
+                        input.currency ?? existing.currency ?? baseCurrency(),
+                        updateData.expense_date ?? existing.expense_date
+                    )
+                    : await allowanceColumns(existing.expense_type, {
+                        mileage: input.mileage ?? existing.mileage as MileageDetails ?? undefined,
+                        per_diem: input.per_diem ?? existing.per_diem as PerDiemDetails ?? undefined
+                    }, updateData.expense_date ?? existing.expense_date, existing));
+            }
+
+            // Splits are worked out again for a new total; splits by amount must then be sent along
+            const splitInputs = input.splits ?? (moneyChanged ? await getSplitInputs(existing.id) : undefined);
+            const splits = splitInputs && await planExpenseSplits(
+                splitInputs,
+                parseFloat(moneyChanged ? updateData.original_amount ?? updateData.amount! : existing.original_amount ?? existing.amount),
+                parseFloat(updateData.amount ?? existing.amount),
+                input.splits ? existing.user_id : undefined
+            );
+
+            const result = await db.update(expensesTable)
+                .set(updateData)
+                .where(eq(expensesTable.id, input.id))
+                .returning()
+                .execute();
+
+            if (splits) {
+                await replaceExpenseSplits(existing.id, splits);
+            }
+
+            let updated = result[0];
+
+            // Fixing a rejected expense sends it back for approval
+            if (existing.status === 'REJECTED') {
+                updated = await transitionExpense(updated, 'SUBMITTED', actor?.id ?? existing.user_id, {
+                    set: { approved_by: null, approved_at: null }
+                });
+            }
+
+            // Approvals given for a different amount no longer count
+            const amountChanged = updateData.amount !== undefined && parseFloat(updateData.amount) !== parseFloat(existing.amount);
+            if (existing.status === 'REJECTED' || (existing.status === 'SUBMITTED' && amountChanged)) {
+                await startApprovalWorkflow(updated);
+            }
+
+            return convertExpense(updated);
+        });
+    } catch (error) {
+        console.error('Expense update failed:', error);
+        throw error;
+    }
+}
+
+// Undo an approval so the expense can be corrected; needs the same rights as approving it
+export async function reopenExpense(id: number, actor?: AuthUser): Promise<Expense> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(id, 'approve', actor);
+
+            if (existing.status !== 'APPROVED') {
+                throw new Error('Only approved expenses can be reopened');
+            }
+
+            const reopened = await transitionExpense(existing, 'SUBMITTED', actor?.id ?? null, {
+                set: { approved_by: null, approved_at: null }
+            });
+
+            await startApprovalWorkflow(reopened);
+
+            return convertExpense(reopened);
+        });
+    } catch (error) {
+        console.error('Expense reopen failed:', error);
+        throw error;
+    }
+}
+
+// Send a draft, withdrawn or rejected expense (back) into the approval workflow
+export async function submitExpense(input: ExpenseStatusChangeInput, actor?: AuthUser): Promise<Expense> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(input.id, 'update', actor);
+
+            if (existing.status === 'SUBMITTED' || !canTransition(existing.status, 'SUBMITTED')) {
+                throw new Error('Only draft, withdrawn or rejected expenses can be submitted');
+            }
+
+            // Drafts read from a receipt may still lack the amount
+            if (parseFloat(existing.amount) <= 0) {
+                throw new Error('Enter the amount before submitting the expense');
+            }
+
+            const submitted = await transitionExpense(existing, 'SUBMITTED', actor?.id ?? existing.user_id, {
+                set: { approved_by: null, approved_at: null },
+                note: input.note
+            });
+
+            await startApprovalWorkflow(submitted);
+
+            return convertExpense(submitted);
+        });
+    } catch (error) {
+        console.error('Expense submission failed:', error);
+        throw error;
+    }
+}
+
+// Pull an expense out of the approval workflow; it can be submitted again later
+export async function withdrawExpense(input: ExpenseStatusChangeInput, actor?: AuthUser): Promise<Expense> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(input.id, 'update', actor);
+
+            if (!canTransition(existing.status, 'WITHDRAWN')) {
+                throw new Error('Only submitted or rejected expenses can be withdrawn');
+            }
+
+            const withdrawn = await transitionExpense(existing, 'WITHDRAWN', actor?.id ?? existing.user_id, {
+                note: input.note
+            });
+
+            await cancelApprovalWorkflow(existing.id);
+
+            return convertExpense(withdrawn);
+        });
+    } catch (error) {
+        console.error('Expense withdrawal failed:', error);
+        throw error;
+    }
 }
 
+// Move an approved expense through payment; APPROVED takes it back out of a payment run
+export async function updatePaymentStatus(input: UpdatePaymentStatusInput, actor?: AuthUser): Promise<Expense> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(input.id, 'manage', actor);
+
+            // Batched expenses follow their batch so the exported payment file stays accurate
+            const batchId = await activeReimbursementBatchId(existing.id);
+            if (batchId !== null) {
+                throw new Error(`This expense is part of reimbursement batch ${batchReference(batchId)}, update the batch instead`);
+            }
+
+            const updated = await transitionExpense(existing, input.status, actor?.id ?? null, {
+                note: input.note
+            });
+
+            return convertExpense(updated);
+        });
+    } catch (error) {
+        console.error('Expense payment status update failed:', error);
+        throw error;
+    }
+}
+
+export async function deleteExpense(id: number, actor?: AuthUser): Promise<{ success: boolean }> {
+    try {
+        return await withTransaction(async () => {
+            const existing = await loadExpense(id, 'delete', actor);
+
+            if (!EDITABLE_EXPENSE_STATUSES.includes(existing.status)) {
+                throw new Error(lockedStatusMessage(existing.status, 'deleted'));
+            }
+
+            // Keep notifications but detach them from the removed expense
+            await db.update(notificationsTable)
+                .set({ related_expense_id: null })
+                .where(eq(notificationsTable.related_expense_id, id))
+                .execute();
+
+            await db.delete(expensesTable)
+                .where(eq(expensesTable.id, id))
+                .execute();
+
+            return { success: true };
+        });
+    } catch (error) {
+        console.error('Expense deletion failed:', error);
+        throw error;
+    }
+}
+
+// Decide the expense's current approval step; the expense is only APPROVED once every step is
+export async function approveExpense(input: ApproveExpenseInput, actor?: AuthUser): Promise<Expense> {
+    try {
+        // Step assignment decides who may act here, not the generic 'approve' policy
+        const expense = await loadExpense(input.expense_id, 'approve');
+
+        await processApprovalDecision(expense, input, actor);
+
+        return convertExpense(await loadExpense(input.expense_id, 'read'));
+    } catch (error) {
+        console.error('Expense approval failed:', error);
+        throw error;
+    }
+}
+
+// Expenses whose current approval step is waiting on the user
+export async function getPendingApprovals(actor: AuthUser): Promise<Expense[]> {
+    try {
+        const ids = await getAwaitingApprovalIds(actor);
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const expenses = await db.select()
+            .from(expensesTable)
+            .where(inArray(expensesTable.id, ids))
+            .orderBy(asc(expensesTable.expense_date), asc(expensesTable.id))
+            .execute();
+
+        return expenses.map(convertExpense);
+    } catch (error) {
+        console.error('Failed to fetch pending approvals:', error);
+        throw error;
+    }
+}
+
+export async function searchExpenses(input: ExpenseSearchInput, actor: AuthUser): Promise<ExpenseSearchResult[]> {
+    try {
+        const tsquery = toPrefixTsQuery(input.query);
+        const match = await expenseSearchCondition(input.query);
+        if (!tsquery || !match) {
+            return [];
+        }
+
+        const query = sql`to_tsquery('english', ${tsquery})`;
+        const rank = sql<number>`ts_rank(${searchDocument}, ${query})::float8`;
+
+        const conditions: SQL<unknown>[] = [match];
+        const scope = expenseReadScope(actor);
+        if (scope) {
+            conditions.push(scope);
+        }
+
+        const rows = await db.select({
+            expense: expensesTable,
+            category_name: categoriesTable.name,
+            rank,
+            title_highlight: sql<string>`ts_headline('english', ${escapeHtml(expensesTable.title)}, ${query}, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')`,
+            description_snippet: sql<string | null>`ts_headline('english', ${escapeHtml(expensesTable.description)}, ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2')`
+        })
+            .from(expensesTable)
+            .innerJoin(categoriesTable, eq(expensesTable.category_id, categoriesTable.id))
+            .where(and(...conditions))
+            .orderBy(desc(rank), desc(expensesTable.expense_date), desc(expensesTable.id))
+            .limit(input.limit || 20)
+            .execute();
+
+        return rows.map(row => ({
+            ...convertExpense(row.expense),
+            category_name: row.category_name,
+            rank: row.rank,
+            title_highlight: row.title_highlight,
+            description_snippet: row.description_snippet
+        }));
+    } catch (error) {
+        console.error('Expense search failed:', error);
+        throw error;
+    }
+}
+
+// The user's recurring templates; generated occurrences are regular expenses
 export async function getRecurringExpenses(userId: number): Promise<Expense[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to fetch all recurring expenses for a user
-    return Promise.resolve([]);
+    try {
+        const templates = await db.select()
+            .from(expensesTable)
+            .where(and(
+                eq(expensesTable.user_id, userId),
+                eq(expensesTable.is_recurring, true),
+                isNull(expensesTable.recurring_parent_id)
+            ))
+            .orderBy(asc(expensesTable.expense_date), asc(expensesTable.id))
+            .execute();
+
+        return templates.map(convertExpense);
+    } catch (error) {
+        console.error('Failed to fetch recurring expenses:', error);
+        throw error;
+    }
 }
 
-export async function processRecurringExpenses(): Promise<{ created: number }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to automatically create recurring expenses (scheduled job)
-    return Promise.resolve({ created: 0 });
+// Create the template's occurrences due up to today, returning how many were new
+async function createDueOccurrences(template: typeof expensesTable.$inferSelect, today: string): Promise<number> {
+    const until = template.recurring_end_date && template.recurring_end_date < today ? template.recurring_end_date : today;
+    const splitInputs = await getSplitInputs(template.id);
+
+    // Resume after the latest occurrence so ones the user deleted are not brought back
+    const latest = await db.select({ expense_date: sql<string | null>`max(${expensesTable.expense_date})::text` })
+        .from(expensesTable)
+        .where(eq(expensesTable.recurring_parent_id, template.id))
+        .execute();
+    const after = latest[0].expense_date ?? template.expense_date;
+
+    let created = 0;
+    for (const expenseDate of dueOccurrences(template.expense_date, template.recurring_frequency!, after, until)) {
+        // Converted or recalculated at the occurrence's date, at the template's rate while no newer one is known
+        const money = template.expense_type !== 'STANDARD'
+            ? await allowanceColumns(template.expense_type, {
+                mileage: template.mileage as MileageDetails ?? undefined,
+                per_diem: template.per_diem as PerDiemDetails ?? undefined
+            }, expenseDate, template)
+            : template.currency === null
+                ? { amount: template.amount }
+                : await moneyColumns(parseFloat(template.original_amount!), template.currency, expenseDate, template.exchange_rate);
+
+        const inserted = await db.insert(expensesTable)
+            .values({
+                user_id: template.user_id,
+                team_id: template.team_id,
+                category_id: template.category_id,
+                title: template.title,
+                description: template.description,
+                expense_type: template.expense_type,
+                ...money,
+                tags: template.tags,
+                status: 'SUBMITTED',
+                recurring_parent_id: template.id,
+                expense_date: expenseDate
+            })
+            .onConflictDoNothing({ target: [expensesTable.recurring_parent_id, expensesTable.expense_date] })
+            .returning()
+            .execute();
+
+        // A concurrent run got there first
+        if (inserted.length === 0) {
+            continue;
+        }
+
+        // Occurrences are split like their template
+        const occurrence = inserted[0];
+        await replaceExpenseSplits(occurrence.id, await planExpenseSplits(splitInputs, parseFloat(occurrence.original_amount ?? occurrence.amount), parseFloat(occurrence.amount)));
+
+        await recordInitialStatus(occurrence, null);
+        await startApprovalWorkflow(occurrence);
+        created++;
+    }
+
+    return created;
 }
 
-export async function uploadReceipt(file: Buffer, filename: string): Promise<{ url: string }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to upload receipt image to cloud storage
-    return Promise.resolve({ url: 'https://placeholder-receipt-url.com' });
-}
\ No newline at end of file
+// Create every occurrence of the active recurring templates that is due by asOf.
+// Re-running is safe: occurrences are unique per template and date.
+// A failing template is reported and left for the next run without holding up the others.
+export async function processRecurringExpenses(asOf: Date = new Date()): Promise<{ created: number; errors: string[] }> {
+    try {
+        const today = asOf.toISOString().split('T')[0];
+
+        // Drafts, rejected and withdrawn templates don't produce new claims, nor do deactivated users
+        const rows = await db.select({ template: expensesTable })
+            .from(expensesTable)
+            .innerJoin(usersTable, eq(expensesTable.user_id, usersTable.id))
+            .where(and(
+                eq(usersTable.is_active, true),
+                eq(expensesTable.is_recurring, true),
+                isNotNull(expensesTable.recurring_frequency),
+                isNull(expensesTable.recurring_parent_id),
+                inArray(expensesTable.status, ACTIVE_EXPENSE_STATUSES),
+                lte(expensesTable.expense_date, today)
+            ))
+            .orderBy(asc(expensesTable.id))
+            .execute();
+
+        let created = 0;
+        const errors: string[] = [];
+        for (const { template } of rows) {
+            try {
+                // A template catches up on all its due occurrences or none of them
+                created += await withTransaction(() => createDueOccurrences(template, today));
+            } catch (error) {
+                console.error(`Recurring expense template ${template.id} failed:`, error);
+                errors.push(`Template ${template.id}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return { created, errors };
+    } catch (error) {
+        console.error('Recurring expense processing failed:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,158 @@
+import { db } from '../db';
+import { categoriesTable, usersTable } from '../db/schema';
+import { type AuthUser, type ImportExpensesInput, type ImportExpensesResponse } from '../schema';
+import { parseCsv } from '../utils/csv';
+import { baseCurrency } from '../utils/currency';
+import { DUPLICATE_BLOCKING_SCORE } from '../utils/duplicates';
+import { findPossibleDuplicates } from './duplicates';
+import { convertToBase } from './exchange_rates';
+import { createExpense } from './expenses';
+import { eq, isNull, or } from 'drizzle-orm';
+
+// Accepted header names per field, compared case-insensitively
+const COLUMNS = {
+  date: ['date', 'datum', 'booking date', 'transaction date', 'buchungstag'],
+  title: ['title', 'merchant', 'payee', 'empfänger'],
+  amount: ['amount', 'betrag', 'value'],
+  currency: ['currency', 'währung'],
+  category: ['category', 'kategorie'],
+  description: ['description', 'memo', 'verwendungszweck', 'notes']
+};
+
+type Column = keyof typeof COLUMNS;
+
+// 2024-03-14 or 14.03.2024 (two-digit years are 20xx)
+export function parseImportDate(value: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const dotted = /^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})$/.exec(value);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : dotted
+      ? [dotted[3].length === 2 ? 2000 + Number(dotted[3]) : Number(dotted[3]), Number(dotted[2]), Number(dotted[1])]
+      : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// "-1.234,56 €", "1,234.56", "12,50-" -> number; the last separator followed by 1-2 digits is the decimal one
+export function parseImportAmount(value: string): number | null {
+  const negative = /^\s*-|-\s*$|^\s*\(.*\)\s*$/.test(value);
+  const digits = value.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) {
+    return null;
+  }
+
+  const decimal = /[.,](\d{1,2})$/.exec(digits);
+  const whole = (decimal ? digits.slice(0, decimal.index) : digits).replace(/[.,]/g, '');
+  const amount = Number(`${whole || '0'}.${decimal ? decimal[1] : '0'}`);
+  return isNaN(amount) ? null : (negative ? -amount : amount);
+}
+
+function columnIndexes(header: string[]): Partial<Record<Column, number>> {
+  const names = header.map(name => name.trim().toLowerCase());
+  const indexes: Partial<Record<Column, number>> = {};
+  for (const [column, aliases] of Object.entries(COLUMNS) as [Column, string[]][]) {
+    const index = names.findIndex(name => aliases.includes(name));
+    if (index >= 0) {
+      indexes[column] = index;
+    }
+  }
+  return indexes;
+}
+
+// Import expenses from a spreadsheet or bank export as drafts. Rows that almost certainly exist
+// already are skipped, likely duplicates are imported with a warning.
+export async function importExpenseData(input: ImportExpensesInput, actor: AuthUser): Promise<ImportExpensesResponse> {
+  try {
+    const [header, ...rows] = parseCsv(input.data);
+    const columns = columnIndexes(header ?? []);
+    // Bank statements describe the payment in a single text column
+    if (input.format === 'BANK_STATEMENT' && columns.title === undefined) {
+      columns.title = columns.description;
+      delete columns.description;
+    }
+
+    const missing = (['date', 'title', 'amount'] as Column[]).filter(column => columns[column] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`The file needs a header row with ${missing.join(', ')} columns`);
+    }
+
+    const categories = await db.select({ id: categoriesTable.id, name: categoriesTable.name })
+      .from(categoriesTable)
+      .where(or(isNull(categoriesTable.user_id), eq(categoriesTable.user_id, actor.id)))
+      .execute();
+    const categoryIds = new Map(categories.map(category => [category.name.trim().toLowerCase(), category.id]));
+
+    const users = await db.select({ default_currency: usersTable.default_currency })
+      .from(usersTable)
+      .where(eq(usersTable.id, actor.id))
+      .execute();
+    const defaultCurrency = input.currency ?? users[0]?.default_currency ?? baseCurrency();
+
+    const result: ImportExpensesResponse = { imported: 0, expense_ids: [], skipped_duplicates: [], warnings: [], errors: [] };
+
+    for (const [index, cells] of rows.entries()) {
+      const row = index + 2; // as numbered in a spreadsheet, after the header
+      const cell = (column: Column) => columns[column] === undefined ? '' : (cells[columns[column]!] ?? '').trim();
+
+      const date = parseImportDate(cell('date'));
+      const amount = parseImportAmount(cell('amount'));
+      const title = cell('title');
+      const currency = cell('currency').toUpperCase() || defaultCurrency;
+      if (!date || amount === null || !title || !/^[A-Z]{3}$/.test(currency)) {
+        result.errors.push(`Row ${row}: ${!date ? 'unrecognised date' : amount === null ? 'unrecognised amount' : !title ? 'missing title' : 'unrecognised currency'}`);
+        continue;
+      }
+
+      // Statements list money coming in as positive amounts; only payments are expenses
+      const expenseAmount = input.format === 'BANK_STATEMENT' ? -amount : amount;
+      if (expenseAmount <= 0) {
+        if (input.format === 'CSV') {
+          result.errors.push(`Row ${row}: the amount must be positive`);
+        }
+        continue;
+      }
+
+      try {
+        const converted = await convertToBase(expenseAmount, currency, date);
+        // Imported rows come without receipt files, so only amount, date and title can match
+        const duplicates = await findPossibleDuplicates({ user_id: actor.id, title, amount: converted.amount, expense_date: date, receipt_hashes: [] });
+        if (duplicates.length > 0 && duplicates[0].score >= DUPLICATE_BLOCKING_SCORE) {
+          result.skipped_duplicates.push({ row, duplicate: duplicates[0] });
+          continue;
+        }
+
+        const expense = await createExpense({
+          user_id: actor.id,
+          category_id: categoryIds.get(cell('category').toLowerCase()) ?? input.category_id,
+          title,
+          description: cell('description') || null,
+          amount: expenseAmount,
+          currency,
+          tags: [],
+          is_recurring: false,
+          expense_date: new Date(date),
+          draft: true,
+          allow_duplicate: true
+        });
+
+        result.imported++;
+        result.expense_ids.push(expense.id);
+        if (expense.possible_duplicates.length > 0) {
+          result.warnings.push({ row, expense_id: expense.id, possible_duplicates: expense.possible_duplicates });
+        }
+      } catch (error) {
+        result.errors.push(`Row ${row}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Expense import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { jobRunsTable, scheduledJobsTable } from '../db/schema';
+import { type JobRun, type JobRunsInput, type ScheduledJob } from '../schema';
+import { runJobNow } from '../scheduler';
+import { nextCronTime } from '../utils/cron';
+import { asc, desc, eq } from 'drizzle-orm';
+
+export async function getJobs(): Promise<ScheduledJob[]> {
+  try {
+    return await db.select()
+      .from(scheduledJobsTable)
+      .orderBy(asc(scheduledJobsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error);
+    throw error;
+  }
+}
+
+// Most recent runs first
+export async function getJobRuns(input: JobRunsInput): Promise<JobRun[]> {
+  try {
+    return await db.select()
+      .from(jobRunsTable)
+      .where(eq(jobRunsTable.job_id, input.job_id))
+      .orderBy(desc(jobRunsTable.started_at), desc(jobRunsTable.id))
+      .limit(input.limit || 20)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch job runs:', error);
+    throw error;
+  }
+}
+
+export async function triggerJob(id: number): Promise<JobRun> {
+  try {
+    return await runJobNow(id);
+  } catch (error) {
+    console.error('Job trigger failed:', error);
+    throw error;
+  }
+}
+
+// Resuming schedules the next regular run from now, so missed runs are not replayed
+export async function setJobPaused(id: number, paused: boolean): Promise<ScheduledJob> {
+  try {
+    const jobs = await db.select()
+      .from(scheduledJobsTable)
+      .where(eq(scheduledJobsTable.id, id))
+      .execute();
+
+    if (jobs.length === 0) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+
+    const now = new Date();
+    const result = await db.update(scheduledJobsTable)
+      .set({
+        is_paused: paused,
+        ...(paused ? {} : { attempt: 0, next_run_at: nextCronTime(jobs[0].schedule, now) }),
+        updated_at: now
+      })
+      .where(eq(scheduledJobsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Job pause update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,197 @@
+import { db } from '../db';
+import { loginThrottlesTable, usersTable } from '../db/schema';
+import { type LoginLockout } from '../schema';
+import { createNotification } from './notifications';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, gt, gte, isNull, sql } from 'drizzle-orm';
+
+type ThrottleScope = typeof loginThrottlesTable.$inferSelect['scope'];
+
+// Free attempts before delays kick in, and failures that trigger a lockout.
+// Per-IP limits are looser because offices and mobile carriers share addresses.
+const THROTTLE_LIMITS: Record<ThrottleScope, { freeAttempts: number; maxAttempts: number }> = {
+  EMAIL: { freeAttempts: 3, maxAttempts: 5 },
+  IP: { freeAttempts: 10, maxAttempts: 50 }
+};
+const ATTEMPT_WINDOW = 15 * 60 * 1000; // failures older than 15 minutes are forgotten
+const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes in milliseconds
+const BASE_DELAY = 1000; // first delay, doubled for every further failure
+const MAX_DELAY = 30 * 1000;
+
+function throttleKeys(email: string, ipAddress: string | null): { scope: ThrottleScope; key: string }[] {
+  const keys: { scope: ThrottleScope; key: string }[] = [{ scope: 'EMAIL', key: email.toLowerCase() }];
+  if (ipAddress) {
+    keys.push({ scope: 'IP', key: ipAddress });
+  }
+  return keys;
+}
+
+// Time the caller has to wait after the given number of recent failures
+export function retryDelay(scope: ThrottleScope, failedAttempts: number): number {
+  const { freeAttempts } = THROTTLE_LIMITS[scope];
+  if (failedAttempts < freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(BASE_DELAY * 2 ** (failedAttempts - freeAttempts), MAX_DELAY);
+}
+
+// Every attempt is counted up front, in one conditional upsert per email and IP, so concurrent
+// requests cannot all get in before the first failure is recorded. Throws TOO_MANY_REQUESTS
+// while either is locked out, at its limit or inside its back-off delay; the attempt is given
+// back once its factor turns out right.
+export async function claimLoginAttempt(email: string, ipAddress: string | null): Promise<void> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - ATTEMPT_WINDOW);
+
+  for (const { scope, key } of throttleKeys(email, ipAddress)) {
+    const { freeAttempts, maxAttempts } = THROTTLE_LIMITS[scope];
+
+    // Start counting afresh once the window has passed or an earlier lockout has expired
+    const restart = sql`(${loginThrottlesTable.last_failed_at} < ${windowStart.toISOString()} OR ${loginThrottlesTable.locked_until} < ${now.toISOString()})`;
+    // retryDelay in SQL
+    const delay = sql`CASE WHEN ${loginThrottlesTable.failed_attempts} < ${freeAttempts} THEN 0
+      ELSE least(${BASE_DELAY} * power(2, ${loginThrottlesTable.failed_attempts} - ${freeAttempts}), ${MAX_DELAY}) END`;
+    const allowed = sql`${restart} OR (
+      ${loginThrottlesTable.locked_until} IS NULL
+      AND ${loginThrottlesTable.failed_attempts} < ${maxAttempts}
+      AND ${loginThrottlesTable.last_failed_at} + (${delay}) * interval '1 millisecond' <= ${now.toISOString()}
+    )`;
+
+    const claimed = await db.insert(loginThrottlesTable)
+      .values({ scope, key, failed_attempts: 1, last_failed_at: now })
+      .onConflictDoUpdate({
+        target: [loginThrottlesTable.scope, loginThrottlesTable.key],
+        set: {
+          failed_attempts: sql`CASE WHEN ${restart} THEN 1 ELSE ${loginThrottlesTable.failed_attempts} + 1 END`,
+          locked_until: sql`CASE WHEN ${restart} THEN NULL ELSE ${loginThrottlesTable.locked_until} END`,
+          last_failed_at: now
+        },
+        setWhere: allowed
+      })
+      .returning()
+      .execute();
+
+    if (claimed.length > 0) {
+      continue;
+    }
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .where(and(
+        eq(loginThrottlesTable.scope, scope),
+        eq(loginThrottlesTable.key, key)
+      ))
+      .execute();
+
+    const throttle = throttles[0];
+    if (throttle?.locked_until && throttle.locked_until.getTime() > now.getTime()) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many failed login attempts, sign-in is locked until ${throttle.locked_until.toISOString()}`
+      });
+    }
+
+    // Also the moment between reaching the limit and the lockout being recorded
+    const retryAt = (throttle?.last_failed_at.getTime() ?? now.getTime()) + retryDelay(scope, throttle?.failed_attempts ?? 0);
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: `Too many failed login attempts, try again in ${Math.max(Math.ceil((retryAt - now.getTime()) / 1000), 1)} seconds`
+    });
+  }
+}
+
+// The claimed attempt was right after all
+export async function releaseLoginAttempt(email: string, ipAddress: string | null): Promise<void> {
+  for (const { scope, key } of throttleKeys(email, ipAddress)) {
+    await db.update(loginThrottlesTable)
+      .set({ failed_attempts: sql`greatest(${loginThrottlesTable.failed_attempts} - 1, 0)` })
+      .where(and(
+        eq(loginThrottlesTable.scope, scope),
+        eq(loginThrottlesTable.key, key)
+      ))
+      .execute();
+  }
+}
+
+// The claimed attempt failed: lock out whatever reached its limit
+export async function recordFailedLogin(email: string, ipAddress: string | null): Promise<void> {
+  const now = new Date();
+
+  for (const { scope, key } of throttleKeys(email, ipAddress)) {
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION);
+    const locked = await db.update(loginThrottlesTable)
+      .set({ locked_until: lockedUntil })
+      .where(and(
+        eq(loginThrottlesTable.scope, scope),
+        eq(loginThrottlesTable.key, key),
+        gte(loginThrottlesTable.failed_attempts, THROTTLE_LIMITS[scope].maxAttempts),
+        isNull(loginThrottlesTable.locked_until)
+      ))
+      .returning()
+      .execute();
+
+    if (locked.length > 0 && scope === 'EMAIL') {
+      await notifyLockedAccount(key, locked[0].failed_attempts, lockedUntil);
+    }
+  }
+}
+
+// A successful login resets the account's counter; the IP counter keeps running
+export async function clearFailedLogins(email: string): Promise<void> {
+  await db.delete(loginThrottlesTable)
+    .where(and(
+      eq(loginThrottlesTable.scope, 'EMAIL'),
+      eq(loginThrottlesTable.key, email.toLowerCase())
+    ))
+    .execute();
+}
+
+async function notifyLockedAccount(email: string, failedAttempts: number, lockedUntil: Date): Promise<void> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(sql`lower(${usersTable.email})`, email))
+    .execute();
+
+  if (users.length === 0) {
+    return;
+  }
+
+  await createNotification({
+    user_id: users[0].id,
+    type: 'SYSTEM_UPDATE',
+    title: 'Sign-in temporarily locked',
+    message: `Sign-in to your account was locked until ${lockedUntil.toISOString()} after ${failedAttempts} failed login attempts. If this was not you, consider resetting your password.`
+  });
+}
+
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+  try {
+    return await db.select()
+      .from(loginThrottlesTable)
+      .where(gt(loginThrottlesTable.locked_until, new Date()))
+      .orderBy(desc(loginThrottlesTable.locked_until))
+      .execute();
+  } catch (error) {
+    console.error('Get login lockouts failed:', error);
+    throw error;
+  }
+}
+
+export async function clearLoginLockout(id: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(loginThrottlesTable)
+      .where(eq(loginThrottlesTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Login lockout with id ${id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Clear login lockout failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,10 @@
 import { db } from '../db';
 import { notificationsTable, budgetsTable, expensesTable, usersTable } from '../db/schema';
-import { type Notification, type CreateNotificationInput } from '../schema';
-import { eq, and, count } from 'drizzle-orm';
+import { type AuthUser, type Notification, type CreateNotificationInput, type NotificationListInput, type NotificationListResponse } from '../schema';
+import { authorize } from '../policy';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { formatMoney } from '../utils/currency';
+import { eq, and, count, desc, sql } from 'drizzle-orm';
 
 export async function createNotification(input: CreateNotificationInput): Promise<Notification> {
   try {
@@ -71,7 +74,43 @@ export async function getNotifications(userId: number): Promise<Notification[]>
   }
 }
 
-export async function markNotificationAsRead(notificationId: number): Promise<{ success: boolean }> {
+// Newest first, paged by an opaque (created_at, id) cursor
+export async function getNotificationsPage(userId: number, input: NotificationListInput): Promise<NotificationListResponse> {
+  try {
+    const limit = input.limit || 20;
+    const conditions = [eq(notificationsTable.user_id, userId)];
+
+    if (input.cursor) {
+      const cursor = decodeCursor(input.cursor);
+      conditions.push(sql`(${notificationsTable.created_at}, ${notificationsTable.id}) < (${cursor.value}::timestamp, ${cursor.id})`);
+    }
+
+    // Read the timestamp as text so the cursor keeps Postgres' microsecond precision
+    const rows = await db.select({
+      notification: notificationsTable,
+      sort_key: sql<string>`${notificationsTable.created_at}::text`
+    })
+      .from(notificationsTable)
+      .where(and(...conditions))
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .limit(limit + 1)
+      .execute();
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      notifications: pageRows.map(row => row.notification),
+      next_cursor: hasMore ? encodeCursor(last.sort_key, last.notification.id) : null
+    };
+  } catch (error) {
+    console.error('Get notifications page failed:', error);
+    throw error;
+  }
+}
+
+export async function markNotificationAsRead(notificationId: number, actor?: AuthUser): Promise<{ success: boolean }> {
   try {
     // Verify notification exists
     const notifications = await db.select()
@@ -83,6 +122,10 @@ export async function markNotificationAsRead(notificationId: number): Promise<{
       throw new Error(`Notification with id ${notificationId} not found`);
     }
 
+    if (actor) {
+      await authorize(actor, 'update', { type: 'notification', user_id: notifications[0].user_id });
+    }
+
     await db.update(notificationsTable)
       .set({ is_read: true })
       .where(eq(notificationsTable.id, notificationId))
@@ -124,7 +167,7 @@ export async function markAllNotificationsAsRead(userId: number): Promise<{ succ
   }
 }
 
-export async function deleteNotification(notificationId: number): Promise<{ success: boolean }> {
+export async function deleteNotification(notificationId: number, actor?: AuthUser): Promise<{ success: boolean }> {
   try {
     // Verify notification exists
     const notifications = await db.select()
@@ -136,6 +179,10 @@ export async function deleteNotification(notificationId: number): Promise<{ succ
       throw new Error(`Notification with id ${notificationId} not found`);
     }
 
+    if (actor) {
+      await authorize(actor, 'delete', { type: 'notification', user_id: notifications[0].user_id });
+    }
+
     await db.delete(notificationsTable)
       .where(eq(notificationsTable.id, notificationId))
       .execute();
@@ -206,7 +253,7 @@ export async function sendBudgetAlert(userId: number, budgetId: number, percenta
         user_id: userId,
         type: 'BUDGET_ALERT',
         title: 'Budget Alert',
-        message: `You have used ${percentage}% of your budget (${budgetAmount}). Consider reviewing your spending.`
+        message: `You have used ${percentage}% of your budget (${formatMoney(budgetAmount)}). Consider reviewing your spending.`
       })
       .execute();
   } catch (error) {
@@ -215,7 +262,7 @@ export async function sendBudgetAlert(userId: number, budgetId: number, percenta
   }
 }
 
-export async function sendExpenseApprovalNotification(expenseId: number, managerId: number): Promise<void> {
+export async function sendExpenseApprovalNotification(expenseId: number, managerId: number, actor?: AuthUser): Promise<void> {
   try {
     // Verify manager exists
     const managers = await db.select()
@@ -238,6 +285,12 @@ export async function sendExpenseApprovalNotification(expenseId: number, manager
     }
 
     const expense = expenses[0];
+
+    // Only the submitter may ping an approver about their expense
+    if (actor) {
+      await authorize(actor, 'update', { type: 'expense', ...expense });
+    }
+
     const expenseAmount = parseFloat(expense.amount);
 
     await db.insert(notificationsTable)
@@ -245,7 +298,7 @@ export async function sendExpenseApprovalNotification(expenseId: number, manager
         user_id: managerId,
         type: 'EXPENSE_APPROVAL',
         title: 'Expense Approval Required',
-        message: `An expense "${expense.title}" of $${expenseAmount} requires your approval.`,
+        message: `An expense "${expense.title}" of ${formatMoney(expenseAmount)} requires your approval.`,
         related_expense_id: expenseId
       })
       .execute();
@@ -0,0 +1,105 @@
+import { db, withTransaction } from '../db';
+import { receiptScansTable } from '../db/schema';
+import { type AuthUser, type ReceiptScan, type ReceiptScanFields, type ScanReceiptInput, type ScanReceiptResponse } from '../schema';
+import { getOcrEngine } from '../ocr';
+import { baseCurrency } from '../utils/currency';
+import { parseReceiptText } from '../utils/receipt_parser';
+import { attachReceiptFile, decodeReceiptFile, receiptHash } from './attachments';
+import { findExchangeRate } from './exchange_rates';
+import { createExpense, loadExpense } from './expenses';
+import { TRPCError } from '@trpc/server';
+import { desc, eq } from 'drizzle-orm';
+
+const SCANNED_CURRENCY_MIN_CONFIDENCE = 0.7; // below that, "$" could be any dollar
+
+function toScan(scan: typeof receiptScansTable.$inferSelect): ReceiptScan {
+  return { ...scan, fields: scan.fields as ReceiptScanFields };
+}
+
+// Upload a receipt, read it with the local OCR engine and create a draft expense from it.
+// The draft is created even when nothing could be read from the receipt, so the upload is
+// never lost; without a working OCR installation the scan fails instead.
+export async function scanReceipt(input: ScanReceiptInput, actor: AuthUser): Promise<ScanReceiptResponse> {
+  try {
+    const data = decodeReceiptFile(input.data, input.content_type);
+    const engine = getOcrEngine();
+
+    let text: string | null = null;
+    let error: string | null = null;
+    try {
+      text = await engine.recognize(data, input.content_type);
+    } catch (err) {
+      // Without OCR every draft would come out blank, so say so instead
+      if (err instanceof TRPCError) {
+        throw err;
+      }
+      error = err instanceof Error ? err.message : String(err);
+      console.error('Receipt OCR failed:', err);
+    }
+
+    return await withTransaction(async () => {
+      const fields = parseReceiptText(text ?? '');
+      const expenseDate = fields.date.value ?? new Date().toISOString().split('T')[0];
+
+      // A clearly printed currency is kept if it can be converted, otherwise the user's default applies
+      const scannedCurrency = fields.currency.confidence >= SCANNED_CURRENCY_MIN_CONFIDENCE ? fields.currency.value : null;
+      const currency = scannedCurrency && await findExchangeRate(scannedCurrency, baseCurrency(), expenseDate) !== null ? scannedCurrency : undefined;
+
+      // Anything the parser could not read gets a placeholder for the user to fill in. Possible
+      // duplicates are left to the user and reviewers, the draft must not be lost either way.
+      const expense = await createExpense({
+        user_id: actor.id,
+        team_id: input.team_id ?? null,
+        category_id: input.category_id,
+        title: fields.merchant.value ?? input.filename.replace(/\.[^.]+$/, ''),
+        description: null,
+        amount: fields.total.value ?? 0,
+        currency,
+        tags: [],
+        is_recurring: false,
+        expense_date: new Date(expenseDate),
+        draft: true,
+        allow_duplicate: true
+      }, [receiptHash(data)]);
+
+      const attachment = await attachReceiptFile(expense.id, input.filename, data, input.content_type, actor.id);
+
+      const scans = await db.insert(receiptScansTable)
+        .values({
+          expense_id: expense.id,
+          attachment_id: attachment.id,
+          status: error === null ? 'COMPLETED' : 'FAILED',
+          engine: engine.name,
+          text,
+          fields,
+          error
+        })
+        .returning()
+        .execute();
+
+      return { expense, attachment, scan: toScan(scans[0]) };
+    });
+  } catch (error) {
+    console.error('Receipt scan failed:', error);
+    throw error;
+  }
+}
+
+// Latest scan of an expense, or null when it was not drafted from a receipt
+export async function getReceiptScan(expenseId: number, actor?: AuthUser): Promise<ReceiptScan | null> {
+  try {
+    await loadExpense(expenseId, 'read', actor);
+
+    const scans = await db.select()
+      .from(receiptScansTable)
+      .where(eq(receiptScansTable.expense_id, expenseId))
+      .orderBy(desc(receiptScansTable.created_at), desc(receiptScansTable.id))
+      .limit(1)
+      .execute();
+
+    return scans.length > 0 ? toScan(scans[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch receipt scan:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,439 @@
+import { db, withTransaction } from '../db';
+import {
+  expensesTable,
+  payoutAccountsTable,
+  reimbursementBatchesTable,
+  reimbursementItemsTable,
+  reimbursementPaymentsTable,
+  usersTable
+} from '../db/schema';
+import {
+  type AuthUser,
+  type CreateReimbursementBatchInput,
+  type CreateReimbursementBatchResponse,
+  type PaymentFile,
+  type PaymentFileInput,
+  type PayoutAccount,
+  type ReimbursementBatch,
+  type ReimbursementBatchDetails,
+  type ReverseReimbursementBatchInput,
+  type SetPayoutAccountInput
+} from '../schema';
+import { authorize } from '../policy';
+import { transitionExpense, type ExpenseStatus } from './expense_status';
+import { buildPain001, formatCents, normalizeIban, type SepaAccount } from '../utils/sepa';
+import { toCsv } from '../utils/csv';
+import { baseCurrency } from '../utils/currency';
+import { and, asc, desc, eq, inArray, ne } from 'drizzle-orm';
+
+type DbBatch = typeof reimbursementBatchesTable.$inferSelect;
+type DbExpense = typeof expensesTable.$inferSelect;
+
+// Human-readable id used in payment files and bank statements
+export function batchReference(id: number): string {
+  return `RB-${String(id).padStart(8, '0')}`;
+}
+
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+// The company account payouts are sent from
+function payoutDebtor(): SepaAccount {
+  const iban = process.env['PAYOUT_DEBTOR_IBAN'];
+  if (!iban) {
+    throw new Error('Set PAYOUT_DEBTOR_IBAN to export SEPA payment files');
+  }
+
+  return {
+    name: process.env['PAYOUT_DEBTOR_NAME'] || 'Expense Tracker',
+    iban: normalizeIban(iban),
+    bic: process.env['PAYOUT_DEBTOR_BIC'] || null
+  };
+}
+
+function convertBatch(batch: DbBatch): ReimbursementBatch {
+  return {
+    ...batch,
+    reference: batchReference(batch.id),
+    execution_date: new Date(batch.execution_date),
+    total_amount: parseFloat(batch.total_amount)
+  };
+}
+
+async function loadBatch(id: number): Promise<DbBatch> {
+  const batches = await db.select()
+    .from(reimbursementBatchesTable)
+    .where(eq(reimbursementBatchesTable.id, id))
+    .execute();
+
+  if (batches.length === 0) {
+    throw new Error(`Reimbursement batch with id ${id} not found`);
+  }
+
+  return batches[0];
+}
+
+async function loadBatchDetails(batch: DbBatch): Promise<ReimbursementBatchDetails> {
+  const payments = await db.select()
+    .from(reimbursementPaymentsTable)
+    .where(eq(reimbursementPaymentsTable.batch_id, batch.id))
+    .orderBy(asc(reimbursementPaymentsTable.id))
+    .execute();
+
+  const items = payments.length === 0 ? [] : await db.select()
+    .from(reimbursementItemsTable)
+    .where(inArray(reimbursementItemsTable.payment_id, payments.map(payment => payment.id)))
+    .orderBy(asc(reimbursementItemsTable.expense_id))
+    .execute();
+
+  return {
+    ...convertBatch(batch),
+    payments: payments.map(({ created_at, ...payment }) => ({
+      ...payment,
+      amount: parseFloat(payment.amount),
+      expense_ids: items.filter(item => item.payment_id === payment.id).map(item => item.expense_id)
+    }))
+  };
+}
+
+async function batchExpenses(batchId: number): Promise<DbExpense[]> {
+  const rows = await db.select({ expense: expensesTable })
+    .from(reimbursementItemsTable)
+    .innerJoin(reimbursementPaymentsTable, eq(reimbursementItemsTable.payment_id, reimbursementPaymentsTable.id))
+    .innerJoin(expensesTable, eq(reimbursementItemsTable.expense_id, expensesTable.id))
+    .where(eq(reimbursementPaymentsTable.batch_id, batchId))
+    .orderBy(asc(expensesTable.id))
+    .execute();
+
+  return rows.map(row => row.expense);
+}
+
+// Move every expense of a batch along, noting the batch in their status history
+async function transitionBatchExpenses(batch: DbBatch, to: ExpenseStatus, actor: AuthUser | undefined, note: string): Promise<void> {
+  for (const expense of await batchExpenses(batch.id)) {
+    await transitionExpense(expense, to, actor?.id ?? null, { note });
+  }
+}
+
+// The scheduled or paid batch an expense belongs to, if any
+export async function activeReimbursementBatchId(expenseId: number): Promise<number | null> {
+  const rows = await db.select({ batch_id: reimbursementBatchesTable.id })
+    .from(reimbursementItemsTable)
+    .innerJoin(reimbursementPaymentsTable, eq(reimbursementItemsTable.payment_id, reimbursementPaymentsTable.id))
+    .innerJoin(reimbursementBatchesTable, eq(reimbursementPaymentsTable.batch_id, reimbursementBatchesTable.id))
+    .where(and(
+      eq(reimbursementItemsTable.expense_id, expenseId),
+      ne(reimbursementBatchesTable.status, 'REVERSED')
+    ))
+    .limit(1)
+    .execute();
+
+  return rows[0]?.batch_id ?? null;
+}
+
+export async function setPayoutAccount(input: SetPayoutAccountInput, actor: AuthUser): Promise<PayoutAccount> {
+  try {
+    const userId = input.user_id ?? actor.id;
+
+    await authorize(actor, 'update', { type: 'user', id: userId });
+
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} does not exist`);
+    }
+
+    const account = {
+      account_holder: input.account_holder,
+      iban: normalizeIban(input.iban),
+      bic: input.bic ? input.bic.toUpperCase() : null
+    };
+
+    const result = await db.insert(payoutAccountsTable)
+      .values({ user_id: userId, ...account })
+      .onConflictDoUpdate({
+        target: payoutAccountsTable.user_id,
+        set: { ...account, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Payout account update failed:', error);
+    throw error;
+  }
+}
+
+// Bank details are private: only the account owner and admins see them
+export async function getPayoutAccount(userId: number, actor?: AuthUser): Promise<PayoutAccount | null> {
+  try {
+    if (actor) {
+      await authorize(actor, 'update', { type: 'user', id: userId });
+    }
+
+    const accounts = await db.select()
+      .from(payoutAccountsTable)
+      .where(eq(payoutAccountsTable.user_id, userId))
+      .execute();
+
+    return accounts[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch payout account:', error);
+    throw error;
+  }
+}
+
+// Pay out approved expenses: one transfer per user, and the expenses become SCHEDULED_FOR_PAYMENT
+export async function createReimbursementBatch(input: CreateReimbursementBatchInput, actor?: AuthUser): Promise<CreateReimbursementBatchResponse> {
+  try {
+    const executionDate = input.execution_date.toISOString().split('T')[0];
+    if (executionDate < new Date().toISOString().split('T')[0]) {
+      throw new Error('The execution date cannot be in the past');
+    }
+
+    return await withTransaction(async () => {
+      // Lock the approved expenses so a concurrent batch waits and then finds them already scheduled
+      const expenses = await db.select()
+        .from(expensesTable)
+        .where(and(
+          eq(expensesTable.status, 'APPROVED'),
+          input.user_ids ? inArray(expensesTable.user_id, input.user_ids) : undefined
+        ))
+        .orderBy(asc(expensesTable.user_id), asc(expensesTable.expense_date), asc(expensesTable.id))
+        .for('update')
+        .execute();
+
+      if (expenses.length === 0) {
+        throw new Error('There are no approved expenses to reimburse');
+      }
+
+      const userIds = [...new Set(expenses.map(expense => expense.user_id))];
+      const accounts = await db.select()
+        .from(payoutAccountsTable)
+        .where(inArray(payoutAccountsTable.user_id, userIds))
+        .execute();
+
+      const payable = userIds.flatMap(userId => {
+        const account = accounts.find(candidate => candidate.user_id === userId);
+        if (!account) {
+          return [];
+        }
+        const userExpenses = expenses.filter(expense => expense.user_id === userId);
+        const cents = userExpenses.reduce((sum, expense) => sum + toCents(expense.amount), 0);
+        return [{ account, expenses: userExpenses, cents }];
+      });
+
+      if (payable.length === 0) {
+        throw new Error('None of the users with approved expenses has a payout account');
+      }
+
+      const batches = await db.insert(reimbursementBatchesTable)
+        .values({
+          execution_date: executionDate,
+          total_amount: formatCents(payable.reduce((sum, payout) => sum + payout.cents, 0)),
+          payment_count: payable.length,
+          created_by: actor?.id ?? null
+        })
+        .returning()
+        .execute();
+      const batch = batches[0];
+      const note = `Scheduled in reimbursement batch ${batchReference(batch.id)}`;
+
+      for (const payout of payable) {
+        const payments = await db.insert(reimbursementPaymentsTable)
+          .values({
+            batch_id: batch.id,
+            user_id: payout.account.user_id,
+            amount: formatCents(payout.cents),
+            account_holder: payout.account.account_holder,
+            iban: payout.account.iban,
+            bic: payout.account.bic
+          })
+          .returning()
+          .execute();
+
+        await db.insert(reimbursementItemsTable)
+          .values(payout.expenses.map(expense => ({
+            payment_id: payments[0].id,
+            expense_id: expense.id,
+            amount: expense.amount
+          })))
+          .execute();
+
+        for (const expense of payout.expenses) {
+          await transitionExpense(expense, 'SCHEDULED_FOR_PAYMENT', actor?.id ?? null, { note });
+        }
+      }
+
+      return {
+        ...(await loadBatchDetails(batch)),
+        skipped_user_ids: userIds.filter(userId => !accounts.some(account => account.user_id === userId))
+      };
+    });
+  } catch (error) {
+    console.error('Reimbursement batch creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getReimbursementBatches(): Promise<ReimbursementBatch[]> {
+  try {
+    const batches = await db.select()
+      .from(reimbursementBatchesTable)
+      .orderBy(desc(reimbursementBatchesTable.id))
+      .execute();
+
+    return batches.map(convertBatch);
+  } catch (error) {
+    console.error('Failed to fetch reimbursement batches:', error);
+    throw error;
+  }
+}
+
+export async function getReimbursementBatch(id: number): Promise<ReimbursementBatchDetails> {
+  try {
+    return await loadBatchDetails(await loadBatch(id));
+  } catch (error) {
+    console.error('Failed to fetch reimbursement batch:', error);
+    throw error;
+  }
+}
+
+// The bank executed the batch; its expenses become REIMBURSED
+export async function markReimbursementBatchPaid(id: number, actor?: AuthUser): Promise<ReimbursementBatch> {
+  try {
+    return await withTransaction(async () => {
+      const batch = await loadBatch(id);
+      if (batch.status !== 'SCHEDULED') {
+        throw new Error('Only scheduled batches can be marked as paid');
+      }
+
+      const now = new Date();
+      const updated = await db.update(reimbursementBatchesTable)
+        .set({ status: 'PAID', paid_at: now, updated_at: now })
+        .where(and(
+          eq(reimbursementBatchesTable.id, id),
+          eq(reimbursementBatchesTable.status, 'SCHEDULED')
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error('The batch status changed in the meantime, reload and try again');
+      }
+
+      await transitionBatchExpenses(batch, 'REIMBURSED', actor, `Paid in reimbursement batch ${batchReference(id)}`);
+
+      return convertBatch(updated[0]);
+    });
+  } catch (error) {
+    console.error('Marking reimbursement batch as paid failed:', error);
+    throw error;
+  }
+}
+
+// The payment failed or was returned; the expenses go back to APPROVED for a later batch
+export async function reverseReimbursementBatch(input: ReverseReimbursementBatchInput, actor?: AuthUser): Promise<ReimbursementBatch> {
+  try {
+    return await withTransaction(async () => {
+      const batch = await loadBatch(input.id);
+      if (batch.status === 'REVERSED') {
+        throw new Error('This batch has already been reversed');
+      }
+
+      const now = new Date();
+      const updated = await db.update(reimbursementBatchesTable)
+        .set({ status: 'REVERSED', reversed_at: now, reversal_reason: input.reason, updated_at: now })
+        .where(and(
+          eq(reimbursementBatchesTable.id, input.id),
+          eq(reimbursementBatchesTable.status, batch.status)
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error('The batch status changed in the meantime, reload and try again');
+      }
+
+      await transitionBatchExpenses(batch, 'APPROVED', actor, `Reimbursement batch ${batchReference(batch.id)} reversed: ${input.reason}`);
+
+      return convertBatch(updated[0]);
+    });
+  } catch (error) {
+    console.error('Reimbursement batch reversal failed:', error);
+    throw error;
+  }
+}
+
+// Bank upload for a batch, as SEPA pain.001 XML or a generic CSV
+export async function generatePaymentFile(input: PaymentFileInput): Promise<PaymentFile> {
+  try {
+    const batch = await loadBatch(input.id);
+    if (batch.status === 'REVERSED') {
+      throw new Error('Reversed batches cannot be exported');
+    }
+
+    const details = await loadBatchDetails(batch);
+    const currency = baseCurrency(); // expenses are reimbursed in the base currency
+    const transfers = details.payments.map(payment => ({
+      payment,
+      end_to_end_id: `${details.reference}-${payment.id}`,
+      remittance_info: `Expense reimbursement ${details.reference} (${payment.expense_ids.length} expenses)`
+    }));
+
+    if (input.format === 'SEPA_XML') {
+      if (currency !== 'EUR') {
+        throw new Error(`SEPA credit transfers are euro only, export payouts in ${currency} as CSV`);
+      }
+      return {
+        filename: `${details.reference}.xml`,
+        content_type: 'application/xml',
+        content: buildPain001({
+          message_id: details.reference,
+          created_at: new Date(),
+          execution_date: batch.execution_date,
+          debtor: payoutDebtor(),
+          transfers: transfers.map(transfer => ({
+            end_to_end_id: transfer.end_to_end_id,
+            amount_cents: toCents(transfer.payment.amount.toFixed(2)),
+            creditor: {
+              name: transfer.payment.account_holder,
+              iban: transfer.payment.iban,
+              bic: transfer.payment.bic
+            },
+            remittance_info: transfer.remittance_info
+          }))
+        })
+      };
+    }
+
+    return {
+      filename: `${details.reference}.csv`,
+      content_type: 'text/csv',
+      content: toCsv(
+        ['batch_reference', 'end_to_end_id', 'execution_date', 'user_id', 'account_holder', 'iban', 'bic', 'amount', 'currency', 'remittance_info', 'expense_ids'],
+        transfers.map(({ payment, end_to_end_id, remittance_info }) => [
+          details.reference,
+          end_to_end_id,
+          batch.execution_date,
+          payment.user_id,
+          payment.account_holder,
+          payment.iban,
+          payment.bic,
+          payment.amount.toFixed(2),
+          currency,
+          remittance_info,
+          payment.expense_ids.join(' ')
+        ])
+      )
+    };
+  } catch (error) {
+    console.error('Payment file generation failed:', error);
+    throw error;
+  }
+}
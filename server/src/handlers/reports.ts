@@ -1,9 +1,101 @@
 import { db } from '../db';
-import { expensesTable, categoriesTable, usersTable, teamsTable } from '../db/schema';
-import { type ReportGeneration } from '../schema';
-import { eq, and, gte, lte, SQL } from 'drizzle-orm';
+import { expensesTable, expenseSplitsTable, categoriesTable, usersTable, teamsTable, expenseAttachmentsTable } from '../db/schema';
+import { type AuthUser, type ReportGeneration } from '../schema';
+import { authorize } from '../policy';
+import { baseCurrency } from '../utils/currency';
+import { allocatedAmount, allocatedCategoryId, allocatedTeamId, splitJoin } from './expense_splits';
+import { eq, and, asc, gte, lte, sql, SQL } from 'drizzle-orm';
+
+// Team-wide reports are reserved for the team's manager (or an admin)
+async function authorizeTeamReport(teamId: number, actor: AuthUser): Promise<void> {
+  const teams = await db.select()
+    .from(teamsTable)
+    .where(eq(teamsTable.id, teamId))
+    .execute();
+
+  if (teams.length === 0) {
+    throw new Error('Team not found');
+  }
+
+  await authorize(actor, 'manage', { type: 'team', ...teams[0] });
+}
 
-export async function generateExpenseReport(input: ReportGeneration): Promise<{ reportUrl: string }> {
+// Report rows, one per split of a split expense, with the totals per category. Amounts are in
+// the base currency; a team report takes the splits charged to that team.
+export async function getExpenseReportData(input: ReportGeneration) {
+  // Build query conditions
+  const conditions: SQL<unknown>[] = [];
+
+  // Add user filter - either specific user or team members
+  if (input.team_id) {
+    conditions.push(eq(allocatedTeamId, input.team_id));
+  } else {
+    conditions.push(eq(expensesTable.user_id, input.user_id));
+  }
+
+  // Add date range filters (convert dates to strings for PgDateString column)
+  conditions.push(gte(expensesTable.expense_date, input.start_date.toISOString().split('T')[0]));
+  conditions.push(lte(expensesTable.expense_date, input.end_date.toISOString().split('T')[0]));
+
+  // Build the query with joins to get all relevant data
+  const query = db.select({
+    expense_id: expensesTable.id,
+    expense_title: expensesTable.title,
+    expense_description: expensesTable.description,
+    expense_amount: allocatedAmount,
+    expense_currency: expensesTable.currency,
+    expense_original_amount: sql<string>`coalesce(${expenseSplitsTable.original_amount}, ${expensesTable.original_amount}, ${expensesTable.amount})`,
+    expense_date: expensesTable.expense_date,
+    expense_status: expensesTable.status,
+    expense_tags: expensesTable.tags,
+    expense_attachment_count: sql<number>`(select count(*)::int from ${expenseAttachmentsTable} where ${expenseAttachmentsTable.expense_id} = ${expensesTable.id})`,
+    split_id: expenseSplitsTable.id,
+    split_description: expenseSplitsTable.description,
+    split_tags: expenseSplitsTable.tags,
+    team_id: allocatedTeamId,
+    category_name: categoriesTable.name,
+    category_color: categoriesTable.color,
+    user_first_name: usersTable.first_name,
+    user_last_name: usersTable.last_name,
+    user_email: usersTable.email
+  })
+  .from(expensesTable)
+  .leftJoin(expenseSplitsTable, splitJoin)
+  .innerJoin(categoriesTable, eq(allocatedCategoryId, categoriesTable.id))
+  .innerJoin(usersTable, eq(expensesTable.user_id, usersTable.id))
+  .where(and(...conditions))
+  .orderBy(asc(expensesTable.expense_date), asc(expensesTable.id), asc(expenseSplitsTable.id));
+
+  const results = await query.execute();
+
+  // Convert numeric amounts and process data for report; totals are in the base currency
+  const rows = results.map(result => ({
+    ...result,
+    expense_amount: parseFloat(result.expense_amount), // Convert numeric to number
+    expense_currency: result.expense_currency ?? baseCurrency(),
+    expense_original_amount: parseFloat(result.expense_original_amount),
+    user_full_name: `${result.user_first_name} ${result.user_last_name}`,
+    expense_tags: result.expense_tags as string[], // Cast jsonb to string array
+    split_tags: (result.split_tags ?? []) as string[]
+  }));
+
+  // Calculate report summary statistics
+  const totalAmount = rows.reduce((sum, row) => sum + row.expense_amount, 0);
+  const expenseCount = new Set(rows.map(row => row.expense_id)).size;
+  const categoryBreakdown = rows.reduce((acc, row) => {
+    const category = row.category_name;
+    if (!acc[category]) {
+      acc[category] = { count: 0, total: 0 };
+    }
+    acc[category].count += 1;
+    acc[category].total += row.expense_amount;
+    return acc;
+  }, {} as Record<string, { count: number; total: number }>);
+
+  return { rows, expenseCount, totalAmount, categoryBreakdown };
+}
+
+export async function generateExpenseReport(input: ReportGeneration, actor?: AuthUser): Promise<{ reportUrl: string }> {
   try {
     // Verify that the user exists
     const userExists = await db.select({ id: usersTable.id })
@@ -25,65 +117,13 @@ export async function generateExpenseReport(input: ReportGeneration): Promise<{
       if (teamExists.length === 0) {
         throw new Error('Team not found');
       }
-    }
-
-    // Build query conditions
-    const conditions: SQL<unknown>[] = [];
 
-    // Add user filter - either specific user or team members
-    if (input.team_id) {
-      conditions.push(eq(expensesTable.team_id, input.team_id));
-    } else {
-      conditions.push(eq(expensesTable.user_id, input.user_id));
+      if (actor) {
+        await authorizeTeamReport(input.team_id, actor);
+      }
     }
 
-    // Add date range filters (convert dates to strings for PgDateString column)
-    conditions.push(gte(expensesTable.expense_date, input.start_date.toISOString().split('T')[0]));
-    conditions.push(lte(expensesTable.expense_date, input.end_date.toISOString().split('T')[0]));
-
-    // Build the query with joins to get all relevant data
-    const query = db.select({
-      expense_id: expensesTable.id,
-      expense_title: expensesTable.title,
-      expense_description: expensesTable.description,
-      expense_amount: expensesTable.amount,
-      expense_date: expensesTable.expense_date,
-      expense_status: expensesTable.status,
-      expense_tags: expensesTable.tags,
-      expense_receipt_url: expensesTable.receipt_url,
-      category_name: categoriesTable.name,
-      category_color: categoriesTable.color,
-      user_first_name: usersTable.first_name,
-      user_last_name: usersTable.last_name,
-      user_email: usersTable.email
-    })
-    .from(expensesTable)
-    .innerJoin(categoriesTable, eq(expensesTable.category_id, categoriesTable.id))
-    .innerJoin(usersTable, eq(expensesTable.user_id, usersTable.id))
-    .where(and(...conditions));
-
-    const results = await query.execute();
-
-    // Convert numeric amounts and process data for report
-    const reportData = results.map(result => ({
-      ...result,
-      expense_amount: parseFloat(result.expense_amount), // Convert numeric to number
-      user_full_name: `${result.user_first_name} ${result.user_last_name}`,
-      expense_tags: result.expense_tags as string[] // Cast jsonb to string array
-    }));
-
-    // Calculate report summary statistics
-    const totalAmount = reportData.reduce((sum, expense) => sum + expense.expense_amount, 0);
-    const expenseCount = reportData.length;
-    const categoryBreakdown = reportData.reduce((acc, expense) => {
-      const category = expense.category_name;
-      if (!acc[category]) {
-        acc[category] = { count: 0, total: 0 };
-      }
-      acc[category].count += 1;
-      acc[category].total += expense.expense_amount;
-      return acc;
-    }, {} as Record<string, { count: number; total: number }>);
+    const { expenseCount, totalAmount } = await getExpenseReportData(input);
 
     // Generate report URL based on format
     // In a real application, this would generate actual files and return real URLs
@@ -110,6 +150,7 @@ export async function generateExpenseReport(input: ReportGeneration): Promise<{
       reportId,
       expenseCount,
       totalAmount,
+      currency: baseCurrency(),
       dateRange: `${input.start_date.toISOString().split('T')[0]} to ${input.end_date.toISOString().split('T')[0]}`,
       teamId: input.team_id,
       includeReceipts: input.include_receipts
@@ -130,7 +171,11 @@ export async function generateBudgetReport(userId: number, startDate: Date, endD
     });
 }
 
-export async function generateTeamReport(teamId: number, startDate: Date, endDate: Date): Promise<{ reportUrl: string }> {
+export async function generateTeamReport(teamId: number, startDate: Date, endDate: Date, actor?: AuthUser): Promise<{ reportUrl: string }> {
+    if (actor) {
+        await authorizeTeamReport(teamId, actor);
+    }
+
     // This is a placeholder declaration! Real code should be implemented here.
     // The goal of this handler is to generate team expense reports for managers
     return Promise.resolve({
@@ -146,15 +191,6 @@ export async function exportExpenseData(userId: number, format: 'CSV' | 'JSON',
     });
 }
 
-export async function importExpenseData(userId: number, fileBuffer: Buffer, format: 'CSV' | 'BANK_STATEMENT'): Promise<{ imported: number; errors: string[] }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is to import expense data from external sources
-    return Promise.resolve({
-        imported: 0,
-        errors: []
-    });
-}
-
 export async function scheduledReportGeneration(): Promise<{ generated: number }> {
     // This is a placeholder declaration! Real code should be implemented here.
     // The goal of this handler is to generate automated periodic reports
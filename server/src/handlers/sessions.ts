@@ -0,0 +1,177 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type ClientInfo, type Session } from '../schema';
+import { generateToken, hashToken } from '../utils/tokens';
+import { and, eq, gt, isNull, ne, desc, type SQL } from 'drizzle-orm';
+
+const REFRESH_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+
+// Helper function to convert database session to application Session type
+function convertSession(dbSession: typeof sessionsTable.$inferSelect, currentSessionId?: number | null): Session {
+  return {
+    id: dbSession.id,
+    user_id: dbSession.user_id,
+    user_agent: dbSession.user_agent,
+    ip_address: dbSession.ip_address,
+    expires_at: dbSession.expires_at,
+    last_used_at: dbSession.last_used_at,
+    revoked_at: dbSession.revoked_at,
+    created_at: dbSession.created_at,
+    is_current: dbSession.id === currentSessionId
+  };
+}
+
+export async function createSession(userId: number, client?: ClientInfo): Promise<{ session_id: number; refresh_token: string }> {
+  try {
+    const refreshToken = generateToken();
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        refresh_token_hash: hashToken(refreshToken),
+        user_agent: client?.user_agent ?? null,
+        ip_address: client?.ip_address ?? null,
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_EXPIRES_IN)
+      })
+      .returning()
+      .execute();
+
+    return { session_id: result[0].id, refresh_token: refreshToken };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+// Exchange a refresh token for a new one; the presented token stops working
+export async function rotateSession(refreshToken: string, client?: ClientInfo): Promise<{ session_id: number; user_id: number; refresh_token: string }> {
+  try {
+    const tokenHash = hashToken(refreshToken);
+    const now = new Date();
+
+    const nextToken = generateToken();
+
+    // Conditional on the presented token, so of two requests racing with the same token only one
+    // rotates; the other finds no row and is treated like any other replay
+    const sessions = await db.update(sessionsTable)
+      .set({
+        refresh_token_hash: hashToken(nextToken),
+        previous_token_hash: tokenHash,
+        user_agent: client?.user_agent ?? undefined,
+        ip_address: client?.ip_address ?? undefined,
+        expires_at: new Date(now.getTime() + REFRESH_TOKEN_EXPIRES_IN),
+        last_used_at: now
+      })
+      .where(and(
+        eq(sessionsTable.refresh_token_hash, tokenHash),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, now)
+      ))
+      .returning()
+      .execute();
+
+    if (sessions.length === 0) {
+      // A rotated-out token being replayed means it leaked: kill the whole session
+      await db.update(sessionsTable)
+        .set({ revoked_at: now })
+        .where(and(
+          eq(sessionsTable.previous_token_hash, tokenHash),
+          isNull(sessionsTable.revoked_at)
+        ))
+        .execute();
+
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    const session = sessions[0];
+    return { session_id: session.id, user_id: session.user_id, refresh_token: nextToken };
+  } catch (error) {
+    console.error('Session rotation failed:', error);
+    throw error;
+  }
+}
+
+export async function isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+  try {
+    const sessions = await db.select({ id: sessionsTable.id })
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    return sessions.length > 0;
+  } catch (error) {
+    console.error('Session check failed:', error);
+    throw error;
+  }
+}
+
+export async function getActiveSessions(userId: number, currentSessionId?: number | null): Promise<Session[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_used_at))
+      .execute();
+
+    return sessions.map(session => convertSession(session, currentSessionId));
+  } catch (error) {
+    console.error('Get active sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(sessionId: number, userId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Session with id ${sessionId} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeAllSessions(userId: number, exceptSessionId?: number): Promise<{ revoked: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    return { revoked: result.length };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
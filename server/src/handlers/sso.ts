@@ -0,0 +1,565 @@
+import { db, withTransaction } from '../db';
+import {
+  ssoDomainsTable,
+  ssoGroupMappingsTable,
+  ssoIdentitiesTable,
+  ssoLoginStatesTable,
+  ssoProvidersTable,
+  teamMembersTable,
+  teamsTable,
+  usersTable
+} from '../db/schema';
+import {
+  oidcProviderConfigSchema,
+  type CompleteSsoLoginInput,
+  type CreateSsoGroupMappingInput,
+  type CreateSsoProviderInput,
+  type SetSsoDomainInput,
+  type SsoDiscovery,
+  type SsoDomain,
+  type SsoGroupMapping,
+  type SsoProvider,
+  type UpdateSsoProviderInput,
+  type User
+} from '../schema';
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoverOidcMetadata,
+  exchangeAuthorizationCode,
+  verifyIdToken
+} from '../utils/oidc';
+import { hashPassword } from '../utils/passwords';
+import { generateToken, hashToken } from '../utils/tokens';
+import { type CookieJar } from '../utils/cookies';
+import { appLink } from '../mail';
+import { TRPCError } from '@trpc/server';
+import { and, eq, gt, isNull, sql } from 'drizzle-orm';
+
+const LOGIN_STATE_EXPIRES_IN = 10 * 60 * 1000; // 10 minutes in milliseconds
+const BROWSER_COOKIE = 'sso_browser';
+const ROLE_RANK: Record<User['role'], number> = { USER: 1, MANAGER: 2, ADMIN: 3 };
+
+type DbSsoProvider = typeof ssoProvidersTable.$inferSelect;
+
+// What every protocol driver extracts from a successful IdP login
+interface SsoIdentityClaims {
+  subject: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  groups: string[];
+}
+
+// One driver per protocol; SAML or others plug in by implementing this interface
+interface SsoDriver {
+  start(provider: DbSsoProvider, params: { state: string; redirect_uri: string }): Promise<{
+    authorization_url: string;
+    nonce: string;
+    code_verifier: string;
+  }>;
+  complete(provider: DbSsoProvider, params: {
+    code: string;
+    nonce: string;
+    code_verifier: string;
+    redirect_uri: string;
+  }): Promise<SsoIdentityClaims>;
+}
+
+const oidcDriver: SsoDriver = {
+  async start(provider, params) {
+    const config = oidcProviderConfigSchema.parse(provider.config);
+    const metadata = await discoverOidcMetadata(config.issuer);
+    const nonce = generateToken(16);
+    const pkce = createPkcePair();
+
+    return {
+      authorization_url: buildAuthorizationUrl(metadata, config, {
+        redirect_uri: params.redirect_uri,
+        state: params.state,
+        nonce,
+        code_challenge: pkce.challenge
+      }),
+      nonce,
+      code_verifier: pkce.verifier
+    };
+  },
+
+  async complete(provider, params) {
+    const config = oidcProviderConfigSchema.parse(provider.config);
+    const metadata = await discoverOidcMetadata(config.issuer);
+    const idToken = await exchangeAuthorizationCode(metadata, config, params);
+    const claims = await verifyIdToken(idToken, metadata, config, params.nonce);
+
+    if (typeof claims['sub'] !== 'string' || typeof claims['email'] !== 'string') {
+      throw new Error('ID token is missing the subject or email claim');
+    }
+    if (claims['email_verified'] !== true && !config.trust_unverified_emails) {
+      throw new Error('The identity provider has not verified this email address');
+    }
+
+    const groups = claims[config.groups_claim];
+    return {
+      subject: claims['sub'],
+      email: claims['email'],
+      first_name: typeof claims['given_name'] === 'string' ? claims['given_name'] : null,
+      last_name: typeof claims['family_name'] === 'string' ? claims['family_name'] : null,
+      groups: Array.isArray(groups) ? groups.filter((group): group is string => typeof group === 'string') : []
+    };
+  }
+};
+
+const drivers: Record<DbSsoProvider['protocol'], SsoDriver> = {
+  OIDC: oidcDriver
+};
+
+// Helper function to convert a provider row, dropping the client secret
+function convertProvider(dbProvider: DbSsoProvider): SsoProvider {
+  const { client_secret: _secret, ...config } = oidcProviderConfigSchema.parse(dbProvider.config);
+  return {
+    ...dbProvider,
+    config
+  };
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+async function loadProvider(providerId: number): Promise<DbSsoProvider> {
+  const providers = await db.select()
+    .from(ssoProvidersTable)
+    .where(eq(ssoProvidersTable.id, providerId))
+    .execute();
+
+  if (providers.length === 0) {
+    throw new Error(`SSO provider with id ${providerId} not found`);
+  }
+
+  return providers[0];
+}
+
+async function findDomain(email: string) {
+  const domains = await db.select()
+    .from(ssoDomainsTable)
+    .where(eq(ssoDomainsTable.domain, emailDomain(email)))
+    .execute();
+
+  return domains[0] ?? null;
+}
+
+export async function createSsoProvider(input: CreateSsoProviderInput): Promise<SsoProvider> {
+  try {
+    const result = await db.insert(ssoProvidersTable)
+      .values({
+        name: input.name,
+        protocol: input.protocol,
+        config: input.config,
+        default_role: input.default_role ?? 'USER',
+        is_active: input.is_active ?? true
+      })
+      .returning()
+      .execute();
+
+    return convertProvider(result[0]);
+  } catch (error) {
+    console.error('SSO provider creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSsoProviders(): Promise<SsoProvider[]> {
+  try {
+    const providers = await db.select()
+      .from(ssoProvidersTable)
+      .orderBy(ssoProvidersTable.name)
+      .execute();
+
+    return providers.map(convertProvider);
+  } catch (error) {
+    console.error('Get SSO providers failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSsoProvider(input: UpdateSsoProviderInput): Promise<SsoProvider> {
+  try {
+    const existing = await loadProvider(input.id);
+
+    const updateData: Partial<typeof ssoProvidersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.default_role !== undefined) updateData.default_role = input.default_role;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+    if (input.config !== undefined) {
+      const changes = Object.fromEntries(Object.entries(input.config).filter(([, value]) => value !== undefined));
+      updateData.config = oidcProviderConfigSchema.parse({ ...(existing.config as object), ...changes });
+    }
+
+    const result = await db.update(ssoProvidersTable)
+      .set(updateData)
+      .where(eq(ssoProvidersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return convertProvider(result[0]);
+  } catch (error) {
+    console.error('SSO provider update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteSsoProvider(id: number): Promise<{ success: boolean }> {
+  try {
+    await loadProvider(id);
+
+    await db.delete(ssoProvidersTable)
+      .where(eq(ssoProvidersTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('SSO provider deletion failed:', error);
+    throw error;
+  }
+}
+
+// Assign a domain to a provider (replacing any previous assignment)
+export async function setSsoDomain(input: SetSsoDomainInput): Promise<SsoDomain> {
+  try {
+    await loadProvider(input.provider_id);
+    const domain = input.domain.toLowerCase();
+
+    const result = await db.insert(ssoDomainsTable)
+      .values({ domain, provider_id: input.provider_id, force_sso: input.force_sso })
+      .onConflictDoUpdate({
+        target: ssoDomainsTable.domain,
+        set: { provider_id: input.provider_id, force_sso: input.force_sso }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Set SSO domain failed:', error);
+    throw error;
+  }
+}
+
+export async function getSsoDomains(): Promise<SsoDomain[]> {
+  try {
+    return await db.select()
+      .from(ssoDomainsTable)
+      .orderBy(ssoDomainsTable.domain)
+      .execute();
+  } catch (error) {
+    console.error('Get SSO domains failed:', error);
+    throw error;
+  }
+}
+
+export async function removeSsoDomain(id: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(ssoDomainsTable)
+      .where(eq(ssoDomainsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`SSO domain with id ${id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Remove SSO domain failed:', error);
+    throw error;
+  }
+}
+
+export async function createSsoGroupMapping(input: CreateSsoGroupMappingInput): Promise<SsoGroupMapping> {
+  try {
+    await loadProvider(input.provider_id);
+
+    if (input.team_id) {
+      const teams = await db.select()
+        .from(teamsTable)
+        .where(eq(teamsTable.id, input.team_id))
+        .execute();
+
+      if (teams.length === 0) {
+        throw new Error(`Team with id ${input.team_id} not found`);
+      }
+    }
+
+    const result = await db.insert(ssoGroupMappingsTable)
+      .values({
+        provider_id: input.provider_id,
+        group: input.group,
+        role: input.role ?? null,
+        team_id: input.team_id ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('SSO group mapping creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSsoGroupMappings(providerId: number): Promise<SsoGroupMapping[]> {
+  try {
+    return await db.select()
+      .from(ssoGroupMappingsTable)
+      .where(eq(ssoGroupMappingsTable.provider_id, providerId))
+      .orderBy(ssoGroupMappingsTable.group)
+      .execute();
+  } catch (error) {
+    console.error('Get SSO group mappings failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteSsoGroupMapping(id: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(ssoGroupMappingsTable)
+      .where(eq(ssoGroupMappingsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`SSO group mapping with id ${id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('SSO group mapping deletion failed:', error);
+    throw error;
+  }
+}
+
+// Which provider (if any) handles this email, so the login form can offer SSO
+export async function discoverSsoProvider(email: string): Promise<SsoDiscovery | null> {
+  try {
+    const domain = await findDomain(email);
+    if (!domain) {
+      return null;
+    }
+
+    const provider = await loadProvider(domain.provider_id);
+    if (!provider.is_active) {
+      return null;
+    }
+
+    return {
+      provider_id: provider.id,
+      provider_name: provider.name,
+      force_sso: domain.force_sso
+    };
+  } catch (error) {
+    console.error('SSO discovery failed:', error);
+    throw error;
+  }
+}
+
+// True when password logins are disabled for the email's domain
+export async function isSsoEnforcedForEmail(email: string): Promise<boolean> {
+  const discovery = await discoverSsoProvider(email);
+  return discovery?.force_sso ?? false;
+}
+
+// The state is bound to a cookie of the starting browser: only that browser can complete the login,
+// so nobody can slip their own IdP login into someone else's browser (login CSRF)
+export async function startSsoLogin(providerId: number, cookies: CookieJar): Promise<{ authorization_url: string }> {
+  try {
+    const provider = await loadProvider(providerId);
+    if (!provider.is_active) {
+      throw new Error('SSO provider is disabled');
+    }
+
+    const state = generateToken();
+    const browserBinding = generateToken();
+    const redirectUri = appLink('/sso/callback', {});
+    const request = await drivers[provider.protocol].start(provider, { state, redirect_uri: redirectUri });
+
+    await db.insert(ssoLoginStatesTable)
+      .values({
+        provider_id: provider.id,
+        state_hash: hashToken(state),
+        nonce: request.nonce,
+        code_verifier: request.code_verifier,
+        redirect_uri: redirectUri,
+        browser_binding_hash: hashToken(browserBinding),
+        expires_at: new Date(Date.now() + LOGIN_STATE_EXPIRES_IN)
+      })
+      .execute();
+
+    cookies.set(BROWSER_COOKIE, browserBinding, LOGIN_STATE_EXPIRES_IN / 1000);
+    return { authorization_url: request.authorization_url };
+  } catch (error) {
+    console.error('SSO login start failed:', error);
+    throw error;
+  }
+}
+
+// Pick the most privileged mapped role, keep team memberships of mapped teams in sync
+async function applyGroupMappings(user: typeof usersTable.$inferSelect, providerId: number, groups: string[], isNewUser: boolean, defaultRole: User['role']) {
+  const mappings = await db.select()
+    .from(ssoGroupMappingsTable)
+    .where(eq(ssoGroupMappingsTable.provider_id, providerId))
+    .execute();
+
+  const matched = mappings.filter(mapping => groups.includes(mapping.group));
+  const mappedRoles = matched
+    .map(mapping => mapping.role)
+    .filter((role): role is User['role'] => role !== null)
+    .sort((a, b) => ROLE_RANK[b] - ROLE_RANK[a]);
+
+  // Without a matching role mapping, existing users keep the role they have
+  const role = mappedRoles[0] ?? (isNewUser ? defaultRole : user.role);
+  if (role !== user.role) {
+    await db.update(usersTable)
+      .set({ role, updated_at: new Date() })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+  }
+
+  const mappedTeams = new Set(mappings.flatMap(mapping => mapping.team_id ? [mapping.team_id] : []));
+  const desiredTeams = new Set(matched.flatMap(mapping => mapping.team_id ? [mapping.team_id] : []));
+
+  const memberships = await db.select()
+    .from(teamMembersTable)
+    .where(eq(teamMembersTable.user_id, user.id))
+    .execute();
+  const currentTeams = new Set(memberships.map(membership => membership.team_id));
+
+  for (const teamId of mappedTeams) {
+    if (desiredTeams.has(teamId) && !currentTeams.has(teamId)) {
+      await db.insert(teamMembersTable)
+        .values({ team_id: teamId, user_id: user.id })
+        .execute();
+    } else if (!desiredTeams.has(teamId) && currentTeams.has(teamId)) {
+      await db.delete(teamMembersTable)
+        .where(and(
+          eq(teamMembersTable.team_id, teamId),
+          eq(teamMembersTable.user_id, user.id)
+        ))
+        .execute();
+    }
+  }
+
+  return { ...user, role };
+}
+
+// Finish the IdP round trip and return the (possibly just provisioned) local user
+export async function authenticateSsoCallback(input: CompleteSsoLoginInput, cookies: CookieJar): Promise<User> {
+  try {
+    const browserBinding = cookies.get(BROWSER_COOKIE);
+    if (!browserBinding) {
+      throw new Error('Invalid or expired SSO state');
+    }
+    cookies.set(BROWSER_COOKIE, '', 0);
+
+    const now = new Date();
+    const states = await db.update(ssoLoginStatesTable)
+      .set({ used_at: now })
+      .where(and(
+        eq(ssoLoginStatesTable.state_hash, hashToken(input.state)),
+        eq(ssoLoginStatesTable.browser_binding_hash, hashToken(browserBinding)),
+        isNull(ssoLoginStatesTable.used_at),
+        gt(ssoLoginStatesTable.expires_at, now)
+      ))
+      .returning()
+      .execute();
+
+    if (states.length === 0) {
+      throw new Error('Invalid or expired SSO state');
+    }
+
+    const pending = states[0];
+    const provider = await loadProvider(pending.provider_id);
+    if (!provider.is_active) {
+      throw new Error('SSO provider is disabled');
+    }
+
+    const claims = await drivers[provider.protocol].complete(provider, {
+      code: input.code,
+      nonce: pending.nonce,
+      code_verifier: pending.code_verifier,
+      redirect_uri: pending.redirect_uri
+    });
+
+    return await withTransaction(async () => {
+      let user: typeof usersTable.$inferSelect | null = null;
+      let isNewUser = false;
+
+      const identities = await db.select()
+        .from(ssoIdentitiesTable)
+        .innerJoin(usersTable, eq(ssoIdentitiesTable.user_id, usersTable.id))
+        .where(and(
+          eq(ssoIdentitiesTable.provider_id, provider.id),
+          eq(ssoIdentitiesTable.subject, claims.subject)
+        ))
+        .execute();
+
+      if (identities.length > 0) {
+        user = identities[0].users;
+        await db.update(ssoIdentitiesTable)
+          .set({ last_login_at: now })
+          .where(eq(ssoIdentitiesTable.id, identities[0].sso_identities.id))
+          .execute();
+      } else {
+        // A provider only speaks for the email domains assigned to it, for new and existing accounts alike
+        const domain = await findDomain(claims.email);
+        if (!domain || domain.provider_id !== provider.id) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: `${provider.name} does not handle sign-ins for ${emailDomain(claims.email)}` });
+        }
+
+        const existing = await db.select()
+          .from(usersTable)
+          .where(eq(sql`lower(${usersTable.email})`, claims.email.toLowerCase()))
+          .execute();
+
+        if (existing.length > 0) {
+          // Whoever registered it may not own the address, so the account would be handed over
+          if (!existing[0].is_email_verified) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'An unverified account with this email already exists, verify it before signing in with single sign-on' });
+          }
+          user = existing[0];
+        } else {
+          // Just-in-time provisioning; the random password is never revealed
+          const created = await db.insert(usersTable)
+            .values({
+              email: claims.email,
+              password_hash: await hashPassword(generateToken()),
+              first_name: claims.first_name || claims.email.split('@')[0],
+              last_name: claims.last_name || '',
+              role: provider.default_role,
+              is_email_verified: true,
+              is_active: true
+            })
+            .returning()
+            .execute();
+          user = created[0];
+          isNewUser = true;
+        }
+
+        await db.insert(ssoIdentitiesTable)
+          .values({ provider_id: provider.id, user_id: user.id, subject: claims.subject })
+          .execute();
+      }
+
+      if (!user.is_active) {
+        throw new Error('Account is deactivated');
+      }
+
+      return await applyGroupMappings(user, provider.id, claims.groups, isNewUser, provider.default_role);
+    });
+  } catch (error) {
+    console.error('SSO login failed:', error);
+    throw error;
+  }
+}
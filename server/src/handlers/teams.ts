@@ -1,10 +1,33 @@
 import { db } from '../db';
 import { teamsTable, teamMembersTable, usersTable } from '../db/schema';
-import { type Team, type CreateTeamInput, type UpdateTeamInput, type TeamMember } from '../schema';
+import { type AuthUser, type Team, type CreateTeamInput, type UpdateTeamInput, type TeamMember } from '../schema';
+import { authorize } from '../policy';
 import { eq, and } from 'drizzle-orm';
 
-export async function createTeam(input: CreateTeamInput): Promise<Team> {
+// Load a team or fail, optionally checking the actor may perform the action
+async function loadTeam(teamId: number, action: 'read' | 'update' | 'manage', actor?: AuthUser): Promise<Team> {
+  const teams = await db.select()
+    .from(teamsTable)
+    .where(eq(teamsTable.id, teamId))
+    .execute();
+
+  if (teams.length === 0) {
+    throw new Error('Team not found');
+  }
+
+  if (actor) {
+    await authorize(actor, action, { type: 'team', ...teams[0] });
+  }
+
+  return teams[0];
+}
+
+export async function createTeam(input: CreateTeamInput, actor?: AuthUser): Promise<Team> {
   try {
+    if (actor) {
+      await authorize(actor, 'create', { type: 'team', manager_id: input.manager_id });
+    }
+
     // Verify that the manager exists and has appropriate permissions
     const manager = await db.select()
       .from(usersTable)
@@ -45,22 +68,34 @@ export async function getTeams(): Promise<Team[]> {
   }
 }
 
-export async function getTeamById(id: number): Promise<Team | null> {
+export async function getTeamById(id: number, actor?: AuthUser): Promise<Team | null> {
   try {
     const teams = await db.select()
       .from(teamsTable)
       .where(eq(teamsTable.id, id))
       .execute();
 
-    return teams.length > 0 ? teams[0] : null;
+    if (teams.length === 0) {
+      return null;
+    }
+
+    if (actor) {
+      await authorize(actor, 'read', { type: 'team', ...teams[0] });
+    }
+
+    return teams[0];
   } catch (error) {
     console.error('Failed to fetch team:', error);
     throw error;
   }
 }
 
-export async function updateTeam(input: UpdateTeamInput): Promise<Team> {
+export async function updateTeam(input: UpdateTeamInput, actor?: AuthUser): Promise<Team> {
   try {
+    if (actor) {
+      await loadTeam(input.id, 'update', actor);
+    }
+
     // If manager_id is being updated, verify the new manager exists
     if (input.manager_id !== undefined) {
       const manager = await db.select()
@@ -119,17 +154,10 @@ export async function deleteTeam(id: number): Promise<{ success: boolean }> {
   }
 }
 
-export async function addTeamMember(teamId: number, userId: number): Promise<TeamMember> {
+export async function addTeamMember(teamId: number, userId: number, actor?: AuthUser): Promise<TeamMember> {
   try {
     // Verify team exists
-    const team = await db.select()
-      .from(teamsTable)
-      .where(eq(teamsTable.id, teamId))
-      .execute();
-
-    if (team.length === 0) {
-      throw new Error('Team not found');
-    }
+    await loadTeam(teamId, 'manage', actor);
 
     // Verify user exists
     const user = await db.select()
@@ -170,8 +198,12 @@ export async function addTeamMember(teamId: number, userId: number): Promise<Tea
   }
 }
 
-export async function removeTeamMember(teamId: number, userId: number): Promise<{ success: boolean }> {
+export async function removeTeamMember(teamId: number, userId: number, actor?: AuthUser): Promise<{ success: boolean }> {
   try {
+    if (actor) {
+      await loadTeam(teamId, 'manage', actor);
+    }
+
     // Check if membership exists
     const existingMembership = await db.select()
       .from(teamMembersTable)
@@ -200,17 +232,10 @@ export async function removeTeamMember(teamId: number, userId: number): Promise<
   }
 }
 
-export async function getTeamMembers(teamId: number): Promise<TeamMember[]> {
+export async function getTeamMembers(teamId: number, actor?: AuthUser): Promise<TeamMember[]> {
   try {
     // Verify team exists
-    const team = await db.select()
-      .from(teamsTable)
-      .where(eq(teamsTable.id, teamId))
-      .execute();
-
-    if (team.length === 0) {
-      throw new Error('Team not found');
-    }
+    await loadTeam(teamId, 'read', actor);
 
     const members = await db.select()
       .from(teamMembersTable)
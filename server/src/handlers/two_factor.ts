@@ -0,0 +1,311 @@
+import { db, withTransaction } from '../db';
+import { recoveryCodesTable, twoFactorCredentialsTable, twoFactorPoliciesTable, usersTable } from '../db/schema';
+import {
+  type AuthUser,
+  type RecoveryCodesResponse,
+  type TwoFactorEnrollment,
+  type TwoFactorPolicy,
+  type TwoFactorStatus
+} from '../schema';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotpCode } from '../utils/totp';
+import { requireSecret } from '../utils/tokens';
+import { TRPCError } from '@trpc/server';
+import { and, count, eq, isNull, lt, or } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+const TOTP_ISSUER = process.env['TOTP_ISSUER'] || 'Expense Tracker';
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 10;
+const RECOVERY_CODE_SECRET = requireSecret('RECOVERY_CODE_SECRET', 'JWT_SECRET');
+
+type UserRole = AuthUser['role'];
+
+// Recovery codes look like "k3x9-p2qa-7fmd-w4ze"; dashes, spaces and case are ignored on input
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]+/g, '');
+}
+
+function generateRecoveryCode(): string {
+  const raw = base32Encode(crypto.randomBytes(RECOVERY_CODE_BYTES)).toLowerCase();
+  return raw.match(/.{1,4}/g)!.join('-');
+}
+
+// Keyed, so a leaked table cannot be brute-forced offline without the server secret
+function hashRecoveryCode(code: string): string {
+  return crypto.createHmac('sha256', RECOVERY_CODE_SECRET).update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Replace all of a user's recovery codes; the plain codes are only ever returned here
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  return withTransaction(async () => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await db.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await db.insert(recoveryCodesTable)
+      .values(codes.map(code => ({
+        user_id: userId,
+        code_hash: hashRecoveryCode(code)
+      })))
+      .execute();
+
+    return codes;
+  });
+}
+
+async function removeTwoFactor(userId: number): Promise<void> {
+  return withTransaction(async () => {
+    await db.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await db.delete(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+  });
+}
+
+async function getCredential(userId: number) {
+  const credentials = await db.select()
+    .from(twoFactorCredentialsTable)
+    .where(eq(twoFactorCredentialsTable.user_id, userId))
+    .execute();
+
+  return credentials[0] ?? null;
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const credential = await getCredential(userId);
+  return credential?.enabled_at != null;
+}
+
+export async function isTwoFactorRequiredForRole(role: UserRole): Promise<boolean> {
+  const policies = await db.select()
+    .from(twoFactorPoliciesTable)
+    .where(eq(twoFactorPoliciesTable.role, role))
+    .execute();
+
+  return policies[0]?.required ?? false;
+}
+
+// True when the user's role requires 2FA but they have not enrolled yet
+export async function isTwoFactorSetupRequired(user: { id: number; role: UserRole }): Promise<boolean> {
+  if (!(await isTwoFactorRequiredForRole(user.role))) {
+    return false;
+  }
+
+  return !(await isTwoFactorEnabled(user.id));
+}
+
+// Check a TOTP code (each time step is accepted once) or burn an unused recovery code
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const credential = await getCredential(userId);
+  if (!credential || !credential.enabled_at) {
+    return false;
+  }
+
+  const step = verifyTotpCode(credential.secret, code);
+  if (step !== null) {
+    const result = await db.update(twoFactorCredentialsTable)
+      .set({ last_used_step: step })
+      .where(and(
+        eq(twoFactorCredentialsTable.id, credential.id),
+        or(
+          isNull(twoFactorCredentialsTable.last_used_step),
+          lt(twoFactorCredentialsTable.last_used_step, step)
+        )
+      ))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  }
+
+  const result = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashRecoveryCode(code)),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+export async function getTwoFactorStatus(user: AuthUser): Promise<TwoFactorStatus> {
+  try {
+    const remaining = await db.select({ count: count() })
+      .from(recoveryCodesTable)
+      .where(and(
+        eq(recoveryCodesTable.user_id, user.id),
+        isNull(recoveryCodesTable.used_at)
+      ))
+      .execute();
+
+    return {
+      enabled: await isTwoFactorEnabled(user.id),
+      required: await isTwoFactorRequiredForRole(user.role),
+      recovery_codes_remaining: remaining[0].count
+    };
+  } catch (error) {
+    console.error('Get two-factor status failed:', error);
+    throw error;
+  }
+}
+
+// Start (or restart) enrollment with a fresh secret; 2FA stays off until a code is confirmed
+export async function beginTwoFactorEnrollment(userId: number): Promise<TwoFactorEnrollment> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (await isTwoFactorEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentialsTable.user_id,
+        set: { secret, enabled_at: null, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, users[0].email, TOTP_ISSUER)
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTwoFactorEnrollment(userId: number, code: string): Promise<RecoveryCodesResponse> {
+  try {
+    return await withTransaction(async () => {
+      const credential = await getCredential(userId);
+      if (!credential) {
+        throw new Error('Two-factor enrollment has not been started');
+      }
+
+      if (credential.enabled_at) {
+        throw new Error('Two-factor authentication is already enabled');
+      }
+
+      const step = verifyTotpCode(credential.secret, code);
+      if (step === null) {
+        throw new Error('Invalid two-factor code');
+      }
+
+      await db.update(twoFactorCredentialsTable)
+        .set({ enabled_at: new Date(), last_used_step: step })
+        .where(eq(twoFactorCredentialsTable.id, credential.id))
+        .execute();
+
+      return { recovery_codes: await issueRecoveryCodes(userId) };
+    });
+  } catch (error) {
+    console.error('Two-factor enrollment confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: number, code: string): Promise<RecoveryCodesResponse> {
+  try {
+    if (!(await verifyTwoFactorCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return { recovery_codes: await issueRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(user: AuthUser, code: string): Promise<{ success: boolean }> {
+  try {
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication is required for your role' });
+    }
+
+    if (!(await verifyTwoFactorCode(user.id, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await removeTwoFactor(user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+}
+
+// Admin recovery path for users who lost both their authenticator and recovery codes
+export async function resetTwoFactor(userId: number): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await removeTwoFactor(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+}
+
+export async function getTwoFactorPolicies(): Promise<TwoFactorPolicy[]> {
+  try {
+    const policies = await db.select()
+      .from(twoFactorPoliciesTable)
+      .execute();
+
+    return (['ADMIN', 'MANAGER'] as const).map(role => ({
+      role,
+      required: policies.find(policy => policy.role === role)?.required ?? false
+    }));
+  } catch (error) {
+    console.error('Get two-factor policies failed:', error);
+    throw error;
+  }
+}
+
+export async function setTwoFactorPolicy(input: TwoFactorPolicy): Promise<TwoFactorPolicy> {
+  try {
+    const result = await db.insert(twoFactorPoliciesTable)
+      .values({ role: input.role, required: input.required })
+      .onConflictDoUpdate({
+        target: twoFactorPoliciesTable.role,
+        set: { required: input.required, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return { role: input.role, required: result[0].required };
+  } catch (error) {
+    console.error('Set two-factor policy failed:', error);
+    throw error;
+  }
+}
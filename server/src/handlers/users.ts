@@ -1,28 +1,29 @@
-import { db } from '../db';
+import { db, withTransaction } from '../db';
 import { usersTable } from '../db/schema';
-import { type User, type UpdateUserInput } from '../schema';
+import { publicUserSchema, type AuthUser, type PublicUser, type UpdateUserInput } from '../schema';
+import { authorize } from '../policy';
+import { revokeAllSessions } from './sessions';
+import { sendVerificationEmail } from './auth';
 import { eq } from 'drizzle-orm';
 
-export async function getUsers(): Promise<User[]> {
+export function toPublicUser(user: typeof usersTable.$inferSelect): PublicUser {
+  return publicUserSchema.parse(user);
+}
+
+export async function getUsers(): Promise<PublicUser[]> {
   try {
     const results = await db.select()
       .from(usersTable)
       .execute();
 
-    // Convert numeric fields back to numbers
-    return results.map(user => ({
-      ...user,
-      id: user.id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    }));
+    return results.map(toPublicUser);
   } catch (error) {
     console.error('Failed to fetch users:', error);
     throw error;
   }
 }
 
-export async function getUserById(id: number): Promise<User | null> {
+export async function getUserById(id: number, actor?: AuthUser): Promise<PublicUser | null> {
   try {
     const results = await db.select()
       .from(usersTable)
@@ -33,52 +34,69 @@ export async function getUserById(id: number): Promise<User | null> {
       return null;
     }
 
-    const user = results[0];
-    return {
-      ...user,
-      id: user.id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    if (actor) {
+      await authorize(actor, 'read', { type: 'user', id });
+    }
+
+    return toPublicUser(results[0]);
   } catch (error) {
     console.error('Failed to fetch user by ID:', error);
     throw error;
   }
 }
 
-export async function updateUser(input: UpdateUserInput): Promise<User> {
+export async function updateUser(input: UpdateUserInput, actor?: AuthUser): Promise<PublicUser> {
   try {
-    // Check if user exists first
-    const existingUser = await getUserById(input.id);
-    if (!existingUser) {
-      throw new Error(`User with id ${input.id} not found`);
-    }
+    return await withTransaction(async () => {
+      // Check if user exists first
+      const existingUser = await getUserById(input.id);
+      if (!existingUser) {
+        throw new Error(`User with id ${input.id} not found`);
+      }
 
-    // Build update object with only provided fields
-    const updateData: Partial<typeof usersTable.$inferInsert> = {
-      updated_at: new Date()
-    };
-
-    if (input.email !== undefined) updateData.email = input.email;
-    if (input.first_name !== undefined) updateData.first_name = input.first_name;
-    if (input.last_name !== undefined) updateData.last_name = input.last_name;
-    if (input.role !== undefined) updateData.role = input.role;
-    if (input.profile_picture_url !== undefined) updateData.profile_picture_url = input.profile_picture_url;
-    if (input.is_active !== undefined) updateData.is_active = input.is_active;
-
-    const results = await db.update(usersTable)
-      .set(updateData)
-      .where(eq(usersTable.id, input.id))
-      .returning()
-      .execute();
+      if (actor) {
+        await authorize(actor, 'update', { type: 'user', id: input.id });
+
+        // Role and activation changes are administrative
+        if (input.role !== undefined || input.is_active !== undefined) {
+          await authorize(actor, 'manage', { type: 'user', id: input.id });
+        }
+      }
+
+      // Build update object with only provided fields
+      const updateData: Partial<typeof usersTable.$inferInsert> = {
+        updated_at: new Date()
+      };
 
-    const user = results[0];
-    return {
-      ...user,
-      id: user.id,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+      // A new address has to be verified again before it counts as the user's
+      const emailChanged = input.email !== undefined && input.email.toLowerCase() !== existingUser.email.toLowerCase();
+      if (input.email !== undefined) updateData.email = input.email;
+      if (emailChanged) updateData.is_email_verified = false;
+      if (input.first_name !== undefined) updateData.first_name = input.first_name;
+      if (input.last_name !== undefined) updateData.last_name = input.last_name;
+      if (input.role !== undefined) updateData.role = input.role;
+      if (input.profile_picture_url !== undefined) updateData.profile_picture_url = input.profile_picture_url;
+      if (input.is_active !== undefined) updateData.is_active = input.is_active;
+      if (input.default_currency !== undefined) updateData.default_currency = input.default_currency;
+
+      const results = await db.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, input.id))
+        .returning()
+        .execute();
+
+      // Deactivated accounts lose every open session
+      if (input.is_active === false) {
+        await revokeAllSessions(input.id);
+      }
+
+      const user = results[0];
+      if (emailChanged) {
+        await sendVerificationEmail(user);
+      }
+
+      return toPublicUser(user);
+    });
   } catch (error) {
     console.error('Failed to update user:', error);
     throw error;
@@ -87,29 +105,33 @@ export async function updateUser(input: UpdateUserInput): Promise<User> {
 
 export async function deleteUser(id: number): Promise<{ success: boolean }> {
   try {
-    // Check if user exists first
-    const existingUser = await getUserById(id);
-    if (!existingUser) {
-      return { success: false };
-    }
+    return await withTransaction(async () => {
+      // Check if user exists first
+      const existingUser = await getUserById(id);
+      if (!existingUser) {
+        return { success: false };
+      }
 
-    // Soft delete by setting is_active to false
-    await db.update(usersTable)
-      .set({ 
-        is_active: false,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, id))
-      .execute();
+      // Soft delete by setting is_active to false
+      await db.update(usersTable)
+        .set({ 
+          is_active: false,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, id))
+        .execute();
+
+      await revokeAllSessions(id);
 
-    return { success: true };
+      return { success: true };
+    });
   } catch (error) {
     console.error('Failed to delete user:', error);
     throw error;
   }
 }
 
-export async function getUserProfile(userId: number): Promise<User | null> {
+export async function getUserProfile(userId: number): Promise<PublicUser | null> {
   // This is essentially the same as getUserById
   return getUserById(userId);
 }
\ No newline at end of file
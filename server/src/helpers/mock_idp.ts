@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+
+// Claims the mock IdP puts into the next ID token it issues
+export interface MockIdpUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  groups?: string[];
+}
+
+interface PendingCode {
+  user: MockIdpUser;
+  client_id: string;
+  redirect_uri: string;
+  nonce: string;
+  code_challenge: string;
+}
+
+export interface MockIdp {
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  signInAs(user: MockIdpUser): void;
+  // Follow an authorization URL like a browser would and return the callback parameters
+  authorize(authorizationUrl: string): Promise<{ code: string; state: string }>;
+  stop(): void;
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Minimal OpenID provider (discovery, authorize, token, JWKS) for tests and local development
+export function startMockIdp(): MockIdp {
+  const client_id = 'expense-app';
+  const client_secret = 'mock-idp-secret';
+  const kid = 'mock-key-1';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  let currentUser: MockIdpUser | null = null;
+  let issuer = '';
+
+  function signIdToken(pending: PendingCode): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url({ alg: 'RS256', typ: 'JWT', kid });
+    const payload = base64url({
+      iss: issuer,
+      aud: pending.client_id,
+      iat: now,
+      exp: now + 300,
+      nonce: pending.nonce,
+      ...pending.user
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+
+      if (url.pathname === '/.well-known/openid-configuration') {
+        return Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`
+        });
+      }
+
+      if (url.pathname === '/jwks') {
+        return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+      }
+
+      if (url.pathname === '/authorize') {
+        const params = url.searchParams;
+        if (!currentUser || params.get('client_id') !== client_id || params.get('code_challenge_method') !== 'S256') {
+          return new Response('invalid_request', { status: 400 });
+        }
+
+        const code = crypto.randomBytes(16).toString('base64url');
+        codes.set(code, {
+          user: currentUser,
+          client_id,
+          redirect_uri: params.get('redirect_uri') || '',
+          nonce: params.get('nonce') || '',
+          code_challenge: params.get('code_challenge') || ''
+        });
+
+        const redirect = new URL(params.get('redirect_uri') || '');
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', params.get('state') || '');
+        return Response.redirect(redirect.toString(), 302);
+      }
+
+      if (url.pathname === '/token' && request.method === 'POST') {
+        const form = new URLSearchParams(await request.text());
+        const pending = codes.get(form.get('code') || '');
+        codes.delete(form.get('code') || '');
+
+        const verifier = form.get('code_verifier') || '';
+        const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+        if (!pending
+          || form.get('client_id') !== client_id
+          || form.get('client_secret') !== client_secret
+          || form.get('redirect_uri') !== pending.redirect_uri
+          || challenge !== pending.code_challenge) {
+          return Response.json({ error: 'invalid_grant' }, { status: 400 });
+        }
+
+        return Response.json({ access_token: 'mock-access-token', token_type: 'Bearer', id_token: signIdToken(pending) });
+      }
+
+      return new Response('not found', { status: 404 });
+    }
+  });
+
+  issuer = `http://localhost:${server.port}`;
+
+  return {
+    issuer,
+    client_id,
+    client_secret,
+    signInAs(user) {
+      currentUser = user;
+    },
+    async authorize(authorizationUrl) {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status !== 302 || !location) {
+        throw new Error(`Mock IdP rejected the authorization request (${response.status})`);
+      }
+
+      const callback = new URL(location);
+      return {
+        code: callback.searchParams.get('code') || '',
+        state: callback.searchParams.get('state') || ''
+      };
+    },
+    stop() {
+      server.stop(true);
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import { type S3StorageConfig } from '../storage';
+import { signS3Request } from '../utils/sigv4';
+
+interface StoredObject {
+  body: Buffer;
+  content_type: string;
+}
+
+export interface MockS3 extends S3StorageConfig {
+  objects: Map<string, StoredObject>; // by object key
+  stop(): void;
+}
+
+// "20240301T101500Z" -> Date
+function parseAmzDate(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`) : new Date(NaN);
+}
+
+// Minimal S3-compatible object server (path-style PUT, GET, DELETE with SigV4) for tests and local development
+export function startMockS3(): MockS3 {
+  const config = {
+    region: 'us-east-1',
+    bucket: 'receipts',
+    access_key_id: 'mock-access-key',
+    secret_access_key: 'mock-secret-key'
+  };
+  const objects = new Map<string, StoredObject>();
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const body = request.method === 'PUT' ? Buffer.from(await request.arrayBuffer()) : undefined;
+      const contentType = request.headers.get('content-type');
+
+      // Re-sign what arrived and compare, as a real server would
+      const expected = signS3Request(
+        { method: request.method, url, body, headers: contentType && body ? { 'content-type': contentType } : {} },
+        config,
+        parseAmzDate(request.headers.get('x-amz-date') || '')
+      );
+      if (request.headers.get('authorization') !== expected['authorization']) {
+        return new Response('<Error><Code>SignatureDoesNotMatch</Code></Error>', { status: 403 });
+      }
+
+      const [, bucket, ...keyParts] = url.pathname.split('/');
+      if (bucket !== config.bucket) {
+        return new Response('<Error><Code>NoSuchBucket</Code></Error>', { status: 404 });
+      }
+      const key = keyParts.map(decodeURIComponent).join('/');
+
+      switch (request.method) {
+        case 'PUT':
+          objects.set(key, { body: body!, content_type: contentType || 'application/octet-stream' });
+          return new Response(null, { status: 200 });
+        case 'GET': {
+          const object = objects.get(key);
+          return object
+            ? new Response(object.body, { headers: { 'content-type': object.content_type } })
+            : new Response('<Error><Code>NoSuchKey</Code></Error>', { status: 404 });
+        }
+        case 'DELETE':
+          objects.delete(key);
+          return new Response(null, { status: 204 });
+        default:
+          return new Response(null, { status: 405 });
+      }
+    }
+  });
+
+  return {
+    ...config,
+    endpoint: `http://localhost:${server.port}`,
+    objects,
+    stop() {
+      server.stop(true);
+    }
+  };
+}
@@ -1,14 +1,25 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import { type IncomingMessage, type ServerResponse } from 'http';
 import { z } from 'zod';
+import { createContext, router, publicProcedure, authenticatedProcedure, protectedProcedure, managerProcedure, adminProcedure } from './trpc';
 
 // Import schemas
 import {
   createUserInputSchema,
   loginInputSchema,
+  requestPasswordResetInputSchema,
+  confirmPasswordResetInputSchema,
+  changePasswordInputSchema,
+  verifyTwoFactorLoginInputSchema,
+  twoFactorCodeInputSchema,
+  twoFactorPolicySchema,
+  createSsoProviderInputSchema,
+  updateSsoProviderInputSchema,
+  setSsoDomainInputSchema,
+  createSsoGroupMappingInputSchema,
+  completeSsoLoginInputSchema,
   updateUserInputSchema,
   createTeamInputSchema,
   updateTeamInputSchema,
@@ -20,28 +31,58 @@ import {
   createExpenseInputSchema,
   updateExpenseInputSchema,
   approveExpenseInputSchema,
+  expenseStatusChangeInputSchema,
+  updatePaymentStatusInputSchema,
+  uploadReceiptInputSchema,
+  receiptDownloadUrlInputSchema,
+  scanReceiptInputSchema,
+  importExpensesInputSchema,
+  exchangeRateFilterSchema,
+  setExchangeRateInputSchema,
+  importExchangeRatesInputSchema,
+  setMileageRateInputSchema,
+  setPerDiemRateInputSchema,
+  createApprovalRuleInputSchema,
+  updateApprovalRuleInputSchema,
+  createApprovalDelegationInputSchema,
+  setPayoutAccountInputSchema,
+  createReimbursementBatchInputSchema,
+  reverseReimbursementBatchInputSchema,
+  paymentFileInputSchema,
+  jobRunsInputSchema,
   expenseFilterSchema,
+  expenseSearchInputSchema,
   createNotificationInputSchema,
+  notificationListInputSchema,
   reportGenerationSchema
 } from './schema';
 
 // Import handlers
-import { registerUser, loginUser, verifyEmail, resetPassword } from './handlers/auth';
+import { registerUser, loginUser, completeSsoLogin, verifyTwoFactorLogin, refreshAccessToken, verifyEmail, resendVerificationEmail, requestPasswordReset, confirmPasswordReset, changePassword } from './handlers/auth';
+import { getLoginLockouts, clearLoginLockout } from './handlers/login_throttles';
+import { createSsoProvider, getSsoProviders, updateSsoProvider, deleteSsoProvider, setSsoDomain, getSsoDomains, removeSsoDomain, createSsoGroupMapping, getSsoGroupMappings, deleteSsoGroupMapping, discoverSsoProvider, startSsoLogin } from './handlers/sso';
+import { getTwoFactorStatus, beginTwoFactorEnrollment, confirmTwoFactorEnrollment, regenerateRecoveryCodes, disableTwoFactor, resetTwoFactor, getTwoFactorPolicies, setTwoFactorPolicy } from './handlers/two_factor';
+import { getActiveSessions, revokeSession, revokeAllSessions } from './handlers/sessions';
 import { getUsers, getUserById, updateUser, deleteUser, getUserProfile } from './handlers/users';
 import { createTeam, getTeams, getTeamById, updateTeam, deleteTeam, addTeamMember, removeTeamMember, getTeamMembers } from './handlers/teams';
 import { createCategory, getCategories, getCategoryById, updateCategory, deleteCategory, getGlobalCategories } from './handlers/categories';
 import { createBudget, getBudgets, getBudgetById, updateBudget, deleteBudget, getBudgetOverview, getBudgetAnalytics, checkBudgetAlerts } from './handlers/budgets';
-import { createExpense, getExpenses, getExpenseById, updateExpense, deleteExpense, approveExpense, searchExpenses, getRecurringExpenses, processRecurringExpenses, uploadReceipt } from './handlers/expenses';
-import { createNotification, getNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, getUnreadNotificationCount, sendBudgetAlert, sendExpenseApprovalNotification, sendExpenseReminderNotification } from './handlers/notifications';
+import { createExpense, getExpenses, getExpenseById, updateExpense, reopenExpense, submitExpense, withdrawExpense, updatePaymentStatus, deleteExpense, approveExpense, getPendingApprovals, searchExpenses, getRecurringExpenses, processRecurringExpenses } from './handlers/expenses';
+import { getExpenseStatusHistory } from './handlers/expense_status';
+import { uploadReceipt, getExpenseAttachments, deleteAttachment, getReceiptDownloadUrl, verifyReceiptDownload, getReceiptContent } from './handlers/attachments';
+import { scanReceipt, getReceiptScan } from './handlers/receipt_scans';
+import { getPossibleDuplicates } from './handlers/duplicates';
+import { importExpenseData } from './handlers/imports';
+import { getExchangeRates, setExchangeRate, deleteExchangeRate, importExchangeRates } from './handlers/exchange_rates';
+import { getMileageRates, setMileageRate, deleteMileageRate, getPerDiemRates, setPerDiemRate, deletePerDiemRate } from './handlers/allowance_rates';
+import { createApprovalRule, getApprovalRules, updateApprovalRule, deleteApprovalRule, getApprovalSteps, createApprovalDelegation, getApprovalDelegations, deleteApprovalDelegation } from './handlers/approvals';
+import { setPayoutAccount, getPayoutAccount, createReimbursementBatch, getReimbursementBatches, getReimbursementBatch, markReimbursementBatchPaid, reverseReimbursementBatch, generatePaymentFile } from './handlers/reimbursements';
+import { getJobs, getJobRuns, triggerJob, setJobPaused } from './handlers/jobs';
+import { registerBuiltInJobs } from './jobs';
+import { startScheduler } from './scheduler';
+import { createNotification, getNotificationsPage, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, getUnreadNotificationCount, sendBudgetAlert, sendExpenseApprovalNotification, sendExpenseReminderNotification } from './handlers/notifications';
 import { getDashboardStats, getSpendingTrends, getCategoryAnalytics, getExpensePredictions, getTeamDashboardStats } from './handlers/dashboard';
-import { generateExpenseReport, generateBudgetReport, generateTeamReport, exportExpenseData, importExpenseData, scheduledReportGeneration } from './handlers/reports';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
+import { generateExpenseReport, generateBudgetReport, generateTeamReport, exportExpenseData, scheduledReportGeneration } from './handlers/reports';
 
 const appRouter = router({
   // Health check
@@ -52,280 +93,605 @@ const appRouter = router({
   // Authentication routes
   auth: router({
     register: publicProcedure
-      .input(createUserInputSchema)
-      .mutation(({ input }) => registerUser(input)),
+      .input(createUserInputSchema.omit({ role: true }))
+      .mutation(({ input }) => registerUser({ ...input, role: 'USER' })),
     
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => loginUser(input)),
+      .mutation(({ input, ctx }) => loginUser(input, ctx.client)),
+    
+    verifyTwoFactor: publicProcedure
+      .input(verifyTwoFactorLoginInputSchema)
+      .mutation(({ input, ctx }) => verifyTwoFactorLogin(input, ctx.client)),
+    
+    refresh: publicProcedure
+      .input(z.object({ refresh_token: z.string() }))
+      .mutation(({ input, ctx }) => refreshAccessToken(input.refresh_token, ctx.client)),
+    
+    logout: authenticatedProcedure
+      .mutation(({ ctx }) => revokeSession(ctx.sessionId, ctx.user.id)),
+    
+    logoutAllDevices: protectedProcedure
+      .mutation(({ ctx }) => revokeAllSessions(ctx.user.id)),
+    
+    getSessions: protectedProcedure
+      .query(({ ctx }) => getActiveSessions(ctx.user.id, ctx.sessionId)),
+    
+    revokeSession: protectedProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(({ input, ctx }) => revokeSession(input.sessionId, ctx.user.id)),
     
     verifyEmail: publicProcedure
       .input(z.object({ token: z.string() }))
       .mutation(({ input }) => verifyEmail(input.token)),
     
-    resetPassword: publicProcedure
+    resendVerification: protectedProcedure
+      .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+    
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input.email)),
+    
+    confirmPasswordReset: publicProcedure
+      .input(confirmPasswordResetInputSchema)
+      .mutation(({ input }) => confirmPasswordReset(input)),
+    
+    changePassword: protectedProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ input, ctx }) => changePassword(ctx.user.id, input, ctx.sessionId)),
+    
+    // Enrollment stays reachable while a role-required setup is still pending
+    twoFactor: router({
+      getStatus: authenticatedProcedure
+        .query(({ ctx }) => getTwoFactorStatus(ctx.user)),
+      
+      beginEnrollment: authenticatedProcedure
+        .mutation(({ ctx }) => beginTwoFactorEnrollment(ctx.user.id)),
+      
+      confirmEnrollment: authenticatedProcedure
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => confirmTwoFactorEnrollment(ctx.user.id, input.code)),
+      
+      regenerateRecoveryCodes: protectedProcedure
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input.code)),
+      
+      disable: protectedProcedure
+        .input(twoFactorCodeInputSchema)
+        .mutation(({ input, ctx }) => disableTwoFactor(ctx.user, input.code)),
+      
+      reset: adminProcedure
+        .input(z.object({ userId: z.number() }))
+        .mutation(({ input }) => resetTwoFactor(input.userId)),
+      
+      getPolicies: adminProcedure
+        .query(() => getTwoFactorPolicies()),
+      
+      setPolicy: adminProcedure
+        .input(twoFactorPolicySchema)
+        .mutation(({ input }) => setTwoFactorPolicy(input))
+    }),
+    
+    lockouts: router({
+      getAll: adminProcedure
+        .query(() => getLoginLockouts()),
+      
+      clear: adminProcedure
+        .input(z.object({ id: z.number() }))
+        .mutation(({ input }) => clearLoginLockout(input.id))
+    })
+  }),
+
+  // Single sign-on routes
+  sso: router({
+    discover: publicProcedure
       .input(z.object({ email: z.string().email() }))
-      .mutation(({ input }) => resetPassword(input.email))
+      .query(({ input }) => discoverSsoProvider(input.email)),
+    
+    start: publicProcedure
+      .input(z.object({ provider_id: z.number() }))
+      .mutation(({ input, ctx }) => startSsoLogin(input.provider_id, ctx.cookies)),
+    
+    callback: publicProcedure
+      .input(completeSsoLoginInputSchema)
+      .mutation(({ input, ctx }) => completeSsoLogin(input, ctx.cookies, ctx.client)),
+    
+    getProviders: adminProcedure
+      .query(() => getSsoProviders()),
+    
+    createProvider: adminProcedure
+      .input(createSsoProviderInputSchema)
+      .mutation(({ input }) => createSsoProvider(input)),
+    
+    updateProvider: adminProcedure
+      .input(updateSsoProviderInputSchema)
+      .mutation(({ input }) => updateSsoProvider(input)),
+    
+    deleteProvider: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteSsoProvider(input.id)),
+    
+    getDomains: adminProcedure
+      .query(() => getSsoDomains()),
+    
+    setDomain: adminProcedure
+      .input(setSsoDomainInputSchema)
+      .mutation(({ input }) => setSsoDomain(input)),
+    
+    removeDomain: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => removeSsoDomain(input.id)),
+    
+    getGroupMappings: adminProcedure
+      .input(z.object({ provider_id: z.number() }))
+      .query(({ input }) => getSsoGroupMappings(input.provider_id)),
+    
+    createGroupMapping: adminProcedure
+      .input(createSsoGroupMappingInputSchema)
+      .mutation(({ input }) => createSsoGroupMapping(input)),
+    
+    deleteGroupMapping: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteSsoGroupMapping(input.id))
   }),
 
   // User management routes
   users: router({
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getUsers()),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getUserById(input.id)),
+      .query(({ input, ctx }) => getUserById(input.id, ctx.user)),
     
-    getProfile: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getUserProfile(input.userId)),
+    getProfile: protectedProcedure
+      .query(({ ctx }) => getUserProfile(ctx.user.id)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateUserInputSchema)
-      .mutation(({ input }) => updateUser(input)),
+      .mutation(({ input, ctx }) => updateUser(input, ctx.user)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => deleteUser(input.id))
   }),
 
   // Team management routes
   teams: router({
-    create: publicProcedure
+    create: managerProcedure
       .input(createTeamInputSchema)
-      .mutation(({ input }) => createTeam(input)),
+      .mutation(({ input, ctx }) => createTeam(input, ctx.user)),
     
-    getAll: publicProcedure
+    getAll: protectedProcedure
       .query(() => getTeams()),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getTeamById(input.id)),
+      .query(({ input, ctx }) => getTeamById(input.id, ctx.user)),
     
-    update: publicProcedure
+    update: managerProcedure
       .input(updateTeamInputSchema)
-      .mutation(({ input }) => updateTeam(input)),
+      .mutation(({ input, ctx }) => updateTeam(input, ctx.user)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => deleteTeam(input.id)),
     
-    addMember: publicProcedure
+    addMember: managerProcedure
       .input(z.object({ teamId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => addTeamMember(input.teamId, input.userId)),
+      .mutation(({ input, ctx }) => addTeamMember(input.teamId, input.userId, ctx.user)),
     
-    removeMember: publicProcedure
+    removeMember: managerProcedure
       .input(z.object({ teamId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => removeTeamMember(input.teamId, input.userId)),
+      .mutation(({ input, ctx }) => removeTeamMember(input.teamId, input.userId, ctx.user)),
     
-    getMembers: publicProcedure
+    getMembers: protectedProcedure
       .input(z.object({ teamId: z.number() }))
-      .query(({ input }) => getTeamMembers(input.teamId))
+      .query(({ input, ctx }) => getTeamMembers(input.teamId, ctx.user))
   }),
 
   // Category management routes
   categories: router({
-    create: publicProcedure
-      .input(createCategoryInputSchema)
-      .mutation(({ input }) => createCategory(input)),
+    create: protectedProcedure
+      .input(createCategoryInputSchema.omit({ user_id: true }))
+      .mutation(({ input, ctx }) => createCategory({ ...input, user_id: ctx.user.id })),
+    
+    createGlobal: adminProcedure
+      .input(createCategoryInputSchema.omit({ user_id: true }))
+      .mutation(({ input }) => createCategory({ ...input, user_id: null })),
     
-    getAll: publicProcedure
-      .input(z.object({ userId: z.number().optional() }))
-      .query(({ input }) => getCategories(input.userId)),
+    getAll: protectedProcedure
+      .query(({ ctx }) => getCategories(ctx.user.id)),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getCategoryById(input.id)),
+      .query(({ input, ctx }) => getCategoryById(input.id, ctx.user)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateCategoryInputSchema)
-      .mutation(({ input }) => updateCategory(input)),
+      .mutation(({ input, ctx }) => updateCategory(input, ctx.user)),
     
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteCategory(input.id)),
+      .mutation(({ input, ctx }) => deleteCategory(input.id, ctx.user)),
     
-    getGlobal: publicProcedure
+    getGlobal: protectedProcedure
       .query(() => getGlobalCategories())
   }),
 
   // Budget management routes
   budgets: router({
-    create: publicProcedure
-      .input(createBudgetInputSchema)
-      .mutation(({ input }) => createBudget(input)),
+    create: protectedProcedure
+      .input(createBudgetInputSchema.omit({ user_id: true }))
+      .mutation(({ input, ctx }) => createBudget({ ...input, user_id: ctx.user.id })),
     
-    getByUser: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getBudgets(input.userId)),
+    getByUser: protectedProcedure
+      .query(({ ctx }) => getBudgets(ctx.user.id)),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getBudgetById(input.id)),
+      .query(({ input, ctx }) => getBudgetById(input.id, ctx.user)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateBudgetInputSchema)
-      .mutation(({ input }) => updateBudget(input)),
+      .mutation(({ input, ctx }) => updateBudget(input, ctx.user)),
     
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteBudget(input.id)),
+      .mutation(({ input, ctx }) => deleteBudget(input.id, ctx.user)),
     
-    getOverview: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getBudgetOverview(input.userId)),
+    getOverview: protectedProcedure
+      .query(({ ctx }) => getBudgetOverview(ctx.user.id)),
     
-    getAnalytics: publicProcedure
-      .input(budgetAnalyticsSchema)
-      .query(({ input }) => getBudgetAnalytics(input)),
+    getAnalytics: protectedProcedure
+      .input(budgetAnalyticsSchema.omit({ user_id: true }))
+      .query(({ input, ctx }) => getBudgetAnalytics({ ...input, user_id: ctx.user.id })),
     
-    checkAlerts: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => checkBudgetAlerts(input.userId))
+    checkAlerts: protectedProcedure
+      .query(({ ctx }) => checkBudgetAlerts(ctx.user.id))
   }),
 
   // Expense management routes
   expenses: router({
-    create: publicProcedure
-      .input(createExpenseInputSchema)
-      .mutation(({ input }) => createExpense(input)),
+    create: protectedProcedure
+      .input(createExpenseInputSchema.omit({ user_id: true }))
+      .mutation(({ input, ctx }) => createExpense({ ...input, user_id: ctx.user.id })),
     
-    getAll: publicProcedure
+    getAll: protectedProcedure
       .input(expenseFilterSchema)
-      .query(({ input }) => getExpenses(input)),
+      .query(({ input, ctx }) => getExpenses(input, ctx.user)),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getExpenseById(input.id)),
+      .query(({ input, ctx }) => getExpenseById(input.id, ctx.user)),
     
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateExpenseInputSchema)
-      .mutation(({ input }) => updateExpense(input)),
+      .mutation(({ input, ctx }) => updateExpense(input, ctx.user)),
     
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteExpense(input.id)),
+      .mutation(({ input, ctx }) => deleteExpense(input.id, ctx.user)),
     
-    approve: publicProcedure
-      .input(approveExpenseInputSchema)
-      .mutation(({ input }) => approveExpense(input)),
+    // Any user can be a rule's approver, so the workflow decides who may act
+    approve: protectedProcedure
+      .input(approveExpenseInputSchema.omit({ approved_by: true }))
+      .mutation(({ input, ctx }) => approveExpense({ ...input, approved_by: ctx.user.id }, ctx.user)),
     
-    search: publicProcedure
-      .input(z.object({ query: z.string(), userId: z.number() }))
-      .query(({ input }) => searchExpenses(input.query, input.userId)),
+    reopen: managerProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => reopenExpense(input.id, ctx.user)),
     
-    getRecurring: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getRecurringExpenses(input.userId)),
+    submit: protectedProcedure
+      .input(expenseStatusChangeInputSchema)
+      .mutation(({ input, ctx }) => submitExpense(input, ctx.user)),
+    
+    withdraw: protectedProcedure
+      .input(expenseStatusChangeInputSchema)
+      .mutation(({ input, ctx }) => withdrawExpense(input, ctx.user)),
+    
+    updatePaymentStatus: adminProcedure
+      .input(updatePaymentStatusInputSchema)
+      .mutation(({ input, ctx }) => updatePaymentStatus(input, ctx.user)),
+    
+    getStatusHistory: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input, ctx }) => getExpenseStatusHistory(input.id, ctx.user)),
+    
+    getApprovalSteps: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input, ctx }) => getApprovalSteps(input.id, ctx.user)),
+    
+    getPendingApprovals: protectedProcedure
+      .query(({ ctx }) => getPendingApprovals(ctx.user)),
+    
+    search: protectedProcedure
+      .input(expenseSearchInputSchema)
+      .query(({ input, ctx }) => searchExpenses(input, ctx.user)),
+    
+    getRecurring: protectedProcedure
+      .query(({ ctx }) => getRecurringExpenses(ctx.user.id)),
     
-    processRecurring: publicProcedure
+    processRecurring: adminProcedure
       .mutation(() => processRecurringExpenses()),
     
-    uploadReceipt: publicProcedure
-      .input(z.object({ file: z.any(), filename: z.string() }))
-      .mutation(({ input }) => uploadReceipt(input.file, input.filename))
+    uploadReceipt: protectedProcedure
+      .input(uploadReceiptInputSchema)
+      .mutation(({ input, ctx }) => uploadReceipt(input, ctx.user)),
+    
+    getAttachments: protectedProcedure
+      .input(z.object({ expense_id: z.number() }))
+      .query(({ input, ctx }) => getExpenseAttachments(input.expense_id, ctx.user)),
+    
+    getReceiptUrl: protectedProcedure
+      .input(receiptDownloadUrlInputSchema)
+      .query(({ input, ctx }) => getReceiptDownloadUrl(input, ctx.user)),
+    
+    deleteAttachment: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => deleteAttachment(input.id, ctx.user)),
+    
+    scanReceipt: protectedProcedure
+      .input(scanReceiptInputSchema)
+      .mutation(({ input, ctx }) => scanReceipt(input, ctx.user)),
+    
+    getReceiptScan: protectedProcedure
+      .input(z.object({ expense_id: z.number() }))
+      .query(({ input, ctx }) => getReceiptScan(input.expense_id, ctx.user)),
+    
+    getPossibleDuplicates: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input, ctx }) => getPossibleDuplicates(input.id, ctx.user))
+  }),
+
+  // Exchange rate routes; expenses in other currencies are converted with these
+  exchangeRates: router({
+    getAll: protectedProcedure
+      .input(exchangeRateFilterSchema)
+      .query(({ input }) => getExchangeRates(input)),
+    
+    set: adminProcedure
+      .input(setExchangeRateInputSchema)
+      .mutation(({ input }) => setExchangeRate(input)),
+    
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteExchangeRate(input.id)),
+    
+    import: adminProcedure
+      .input(importExchangeRatesInputSchema)
+      .mutation(({ input }) => importExchangeRates(input))
+  }),
+
+  // Rate tables MILEAGE and PER_DIEM expenses are calculated from
+  mileageRates: router({
+    getAll: protectedProcedure
+      .query(() => getMileageRates()),
+    
+    set: adminProcedure
+      .input(setMileageRateInputSchema)
+      .mutation(({ input }) => setMileageRate(input)),
+    
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteMileageRate(input.id))
+  }),
+
+  perDiemRates: router({
+    getAll: protectedProcedure
+      .query(() => getPerDiemRates()),
+    
+    set: adminProcedure
+      .input(setPerDiemRateInputSchema)
+      .mutation(({ input }) => setPerDiemRate(input)),
+    
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deletePerDiemRate(input.id))
+  }),
+
+  // Approval workflow routes
+  approvalRules: router({
+    getAll: adminProcedure
+      .input(z.object({ team_id: z.number().optional() }))
+      .query(({ input }) => getApprovalRules(input.team_id)),
+    
+    create: adminProcedure
+      .input(createApprovalRuleInputSchema)
+      .mutation(({ input }) => createApprovalRule(input)),
+    
+    update: adminProcedure
+      .input(updateApprovalRuleInputSchema)
+      .mutation(({ input }) => updateApprovalRule(input)),
+    
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteApprovalRule(input.id))
+  }),
+
+  approvalDelegations: router({
+    getAll: protectedProcedure
+      .query(({ ctx }) => getApprovalDelegations(ctx.user)),
+    
+    create: protectedProcedure
+      .input(createApprovalDelegationInputSchema)
+      .mutation(({ input, ctx }) => createApprovalDelegation(input, ctx.user)),
+    
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => deleteApprovalDelegation(input.id, ctx.user))
+  }),
+
+  // Reimbursement routes
+  reimbursements: router({
+    getPayoutAccount: protectedProcedure
+      .input(z.object({ user_id: z.number().optional() }))
+      .query(({ input, ctx }) => getPayoutAccount(input.user_id ?? ctx.user.id, ctx.user)),
+    
+    setPayoutAccount: protectedProcedure
+      .input(setPayoutAccountInputSchema)
+      .mutation(({ input, ctx }) => setPayoutAccount(input, ctx.user)),
+    
+    getBatches: adminProcedure
+      .query(() => getReimbursementBatches()),
+    
+    getBatch: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input }) => getReimbursementBatch(input.id)),
+    
+    createBatch: adminProcedure
+      .input(createReimbursementBatchInputSchema)
+      .mutation(({ input, ctx }) => createReimbursementBatch(input, ctx.user)),
+    
+    markPaid: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input, ctx }) => markReimbursementBatchPaid(input.id, ctx.user)),
+    
+    reverse: adminProcedure
+      .input(reverseReimbursementBatchInputSchema)
+      .mutation(({ input, ctx }) => reverseReimbursementBatch(input, ctx.user)),
+    
+    exportPaymentFile: adminProcedure
+      .input(paymentFileInputSchema)
+      .query(({ input }) => generatePaymentFile(input))
+  }),
+
+  // Background job routes
+  jobs: router({
+    getAll: adminProcedure
+      .query(() => getJobs()),
+    
+    getRuns: adminProcedure
+      .input(jobRunsInputSchema)
+      .query(({ input }) => getJobRuns(input)),
+    
+    trigger: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => triggerJob(input.id)),
+    
+    pause: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => setJobPaused(input.id, true)),
+    
+    resume: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => setJobPaused(input.id, false))
   }),
 
   // Notification routes
   notifications: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createNotificationInputSchema)
       .mutation(({ input }) => createNotification(input)),
     
-    getByUser: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getNotifications(input.userId)),
+    getByUser: protectedProcedure
+      .input(notificationListInputSchema)
+      .query(({ input, ctx }) => getNotificationsPage(ctx.user.id, input)),
     
-    markAsRead: publicProcedure
+    markAsRead: protectedProcedure
       .input(z.object({ notificationId: z.number() }))
-      .mutation(({ input }) => markNotificationAsRead(input.notificationId)),
+      .mutation(({ input, ctx }) => markNotificationAsRead(input.notificationId, ctx.user)),
     
-    markAllAsRead: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .mutation(({ input }) => markAllNotificationsAsRead(input.userId)),
+    markAllAsRead: protectedProcedure
+      .mutation(({ ctx }) => markAllNotificationsAsRead(ctx.user.id)),
     
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ notificationId: z.number() }))
-      .mutation(({ input }) => deleteNotification(input.notificationId)),
+      .mutation(({ input, ctx }) => deleteNotification(input.notificationId, ctx.user)),
     
-    getUnreadCount: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getUnreadNotificationCount(input.userId)),
+    getUnreadCount: protectedProcedure
+      .query(({ ctx }) => getUnreadNotificationCount(ctx.user.id)),
     
-    sendBudgetAlert: publicProcedure
+    sendBudgetAlert: adminProcedure
       .input(z.object({ userId: z.number(), budgetId: z.number(), percentage: z.number() }))
       .mutation(({ input }) => sendBudgetAlert(input.userId, input.budgetId, input.percentage)),
     
-    sendExpenseApproval: publicProcedure
+    sendExpenseApproval: protectedProcedure
       .input(z.object({ expenseId: z.number(), managerId: z.number() }))
-      .mutation(({ input }) => sendExpenseApprovalNotification(input.expenseId, input.managerId)),
+      .mutation(({ input, ctx }) => sendExpenseApprovalNotification(input.expenseId, input.managerId, ctx.user)),
     
-    sendExpenseReminder: publicProcedure
+    sendExpenseReminder: managerProcedure
       .input(z.object({ userId: z.number() }))
       .mutation(({ input }) => sendExpenseReminderNotification(input.userId))
   }),
 
   // Dashboard routes
   dashboard: router({
-    getStats: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getDashboardStats(input.userId)),
+    getStats: protectedProcedure
+      .query(({ ctx }) => getDashboardStats(ctx.user.id)),
     
-    getSpendingTrends: publicProcedure
-      .input(z.object({ userId: z.number(), months: z.number().optional() }))
-      .query(({ input }) => getSpendingTrends(input.userId, input.months)),
+    getSpendingTrends: protectedProcedure
+      .input(z.object({ months: z.number().optional() }))
+      .query(({ input, ctx }) => getSpendingTrends(ctx.user.id, input.months)),
     
-    getCategoryAnalytics: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getCategoryAnalytics(input.userId)),
+    getCategoryAnalytics: protectedProcedure
+      .query(({ ctx }) => getCategoryAnalytics(ctx.user.id)),
     
-    getPredictions: publicProcedure
-      .input(z.object({ userId: z.number() }))
-      .query(({ input }) => getExpensePredictions(input.userId)),
+    getPredictions: protectedProcedure
+      .query(({ ctx }) => getExpensePredictions(ctx.user.id)),
     
-    getTeamStats: publicProcedure
+    getTeamStats: managerProcedure
       .input(z.object({ teamId: z.number() }))
-      .query(({ input }) => getTeamDashboardStats(input.teamId))
+      .query(({ input, ctx }) => getTeamDashboardStats(input.teamId, ctx.user))
   }),
 
   // Reports routes
   reports: router({
-    generateExpenseReport: publicProcedure
-      .input(reportGenerationSchema)
-      .mutation(({ input }) => generateExpenseReport(input)),
+    generateExpenseReport: protectedProcedure
+      .input(reportGenerationSchema.omit({ user_id: true }))
+      .mutation(({ input, ctx }) => generateExpenseReport({ ...input, user_id: ctx.user.id }, ctx.user)),
     
-    generateBudgetReport: publicProcedure
-      .input(z.object({ userId: z.number(), startDate: z.coerce.date(), endDate: z.coerce.date() }))
-      .mutation(({ input }) => generateBudgetReport(input.userId, input.startDate, input.endDate)),
+    generateBudgetReport: protectedProcedure
+      .input(z.object({ startDate: z.coerce.date(), endDate: z.coerce.date() }))
+      .mutation(({ input, ctx }) => generateBudgetReport(ctx.user.id, input.startDate, input.endDate)),
     
-    generateTeamReport: publicProcedure
+    generateTeamReport: managerProcedure
       .input(z.object({ teamId: z.number(), startDate: z.coerce.date(), endDate: z.coerce.date() }))
-      .mutation(({ input }) => generateTeamReport(input.teamId, input.startDate, input.endDate)),
+      .mutation(({ input, ctx }) => generateTeamReport(input.teamId, input.startDate, input.endDate, ctx.user)),
     
-    exportData: publicProcedure
+    exportData: protectedProcedure
       .input(z.object({ 
-        userId: z.number(), 
         format: z.enum(['CSV', 'JSON']), 
         filters: z.any().optional() 
       }))
-      .mutation(({ input }) => exportExpenseData(input.userId, input.format, input.filters)),
+      .mutation(({ input, ctx }) => exportExpenseData(ctx.user.id, input.format, input.filters)),
     
-    importData: publicProcedure
-      .input(z.object({ 
-        userId: z.number(), 
-        fileBuffer: z.any(), 
-        format: z.enum(['CSV', 'BANK_STATEMENT']) 
-      }))
-      .mutation(({ input }) => importExpenseData(input.userId, input.fileBuffer, input.format)),
+    importData: protectedProcedure
+      .input(importExpensesInputSchema)
+      .mutation(({ input, ctx }) => importExpenseData(input, ctx.user)),
     
-    generateScheduledReports: publicProcedure
+    generateScheduledReports: adminProcedure
       .mutation(() => scheduledReportGeneration())
   })
 });
 
 export type AppRouter = typeof appRouter;
 
+// GET /receipts/:id?expires=...&signature=... serves an attachment through a link from expenses.getReceiptUrl
+async function serveReceiptDownload(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const id = Number(url.pathname.split('/')[2]);
+
+  if (!verifyReceiptDownload(id, Number(url.searchParams.get('expires')), url.searchParams.get('signature') || '')) {
+    res.writeHead(403, { 'Content-Type': 'text/plain' }).end('This download link is invalid or has expired');
+    return;
+  }
+
+  const receipt = await getReceiptContent(id);
+  if (!receipt) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Receipt not found');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': receipt.content_type,
+    'Content-Length': receipt.data.length,
+    'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(receipt.filename)}`,
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff'
+  }).end(receipt.data);
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
@@ -335,15 +701,28 @@ async function start() {
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'Authorization']
-      })(req, res, next);
+      })(req, res, () => {
+        if (req.method === 'GET' && req.url?.startsWith('/receipts/')) {
+          serveReceiptDownload(req, res).catch(error => {
+            console.error('Receipt download failed:', error);
+            res.writeHead(500).end();
+          });
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   
   server.listen(port);
+
+  // Every instance runs the scheduler; job leases keep them from running the same job twice
+  if (process.env['SCHEDULER_ENABLED'] !== 'false') {
+    registerBuiltInJobs();
+    await startScheduler();
+  }
   console.log(`🚀 Advanced Monthly Expense Manager TRPC Server`);
   console.log(`🌟 Server listening at port: ${port}`);
   console.log(`💜 Purple-themed expense management with comprehensive features!`);
@@ -0,0 +1,76 @@
+import { db } from './db';
+import { budgetsTable, expensesTable } from './db/schema';
+import { registerJob } from './scheduler';
+import { processRecurringExpenses } from './handlers/expenses';
+import { checkBudgetAlerts } from './handlers/budgets';
+import { sendBudgetAlert, sendExpenseReminderNotification } from './handlers/notifications';
+import { scheduledReportGeneration } from './handlers/reports';
+import { pruneReceiptFiles } from './handlers/attachments';
+import { eq } from 'drizzle-orm';
+
+// Alert every user whose budgets passed their threshold
+export async function sendBudgetAlerts(): Promise<{ sent: number }> {
+  const users = await db.selectDistinct({ user_id: budgetsTable.user_id })
+    .from(budgetsTable)
+    .execute();
+
+  let sent = 0;
+  for (const { user_id } of users) {
+    for (const alert of await checkBudgetAlerts(user_id)) {
+      await sendBudgetAlert(user_id, alert.budget_id, Math.round(alert.usage_percentage));
+      sent++;
+    }
+  }
+  return { sent };
+}
+
+// Nudge users who have drafts they never submitted
+export async function sendDraftReminders(): Promise<{ sent: number }> {
+  const users = await db.selectDistinct({ user_id: expensesTable.user_id })
+    .from(expensesTable)
+    .where(eq(expensesTable.status, 'DRAFT'))
+    .execute();
+
+  for (const { user_id } of users) {
+    await sendExpenseReminderNotification(user_id);
+  }
+  return { sent: users.length };
+}
+
+export function registerBuiltInJobs(): void {
+  registerJob({
+    name: 'recurring-expenses',
+    description: 'Create the due occurrences of recurring expenses',
+    schedule: '0 1 * * *',
+    run: () => processRecurringExpenses()
+  });
+
+  // Weekly, so users over budget are reminded without being flooded
+  registerJob({
+    name: 'budget-alerts',
+    description: 'Notify users whose budgets passed their alert threshold',
+    schedule: '0 7 * * 1',
+    run: sendBudgetAlerts
+  });
+
+  registerJob({
+    name: 'expense-reminders',
+    description: 'Remind users about draft expenses they have not submitted',
+    schedule: '0 9 * * 1',
+    run: sendDraftReminders
+  });
+
+  registerJob({
+    name: 'scheduled-reports',
+    description: 'Generate the periodic expense reports',
+    schedule: '0 6 1 * *',
+    run: () => scheduledReportGeneration()
+  });
+
+  registerJob({
+    name: 'receipt-cleanup',
+    description: 'Delete stored receipt files that no expense references any more',
+    schedule: '30 2 * * *',
+    run: pruneReceiptFiles
+  });
+}
@@ -0,0 +1,74 @@
+import { mkdir, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { db } from './db';
+import { mailOutboxTable } from './db/schema';
+import { generateToken } from './utils/tokens';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+// Anything that can deliver a message; swap in SMTP or an API client for production
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Stores messages in the mail_outbox table (default for local development and tests)
+export function createDatabaseOutboxTransport(): MailTransport {
+  return {
+    async send(message) {
+      await db.insert(mailOutboxTable)
+        .values({
+          to_address: message.to,
+          subject: message.subject,
+          body: message.body
+        })
+        .execute();
+    }
+  };
+}
+
+// Writes each message as a JSON file into the given directory
+export function createFileOutboxTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${generateToken(6)}.json`;
+      const payload = { ...message, created_at: new Date().toISOString() };
+      await writeFile(path.join(directory, filename), JSON.stringify(payload, null, 2));
+    }
+  };
+}
+
+function createDefaultTransport(): MailTransport {
+  if (process.env['MAIL_TRANSPORT'] === 'file') {
+    return createFileOutboxTransport(process.env['MAIL_OUTBOX_DIR'] || './mail-outbox');
+  }
+
+  return createDatabaseOutboxTransport();
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+
+  await transport.send(message);
+}
+
+// Absolute link into the client app, e.g. for reset and verification emails
+export function appLink(pathname: string, params: Record<string, string>): string {
+  const url = new URL(pathname, process.env['APP_URL'] || 'http://localhost');
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
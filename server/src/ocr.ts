@@ -0,0 +1,101 @@
+import { spawn } from 'child_process';
+import { TRPCError } from '@trpc/server';
+
+// Turns a receipt image or PDF into plain text
+export interface OcrEngine {
+  name: string;
+  recognize(data: Buffer, contentType: string): Promise<string>;
+}
+
+const COMMAND_TIMEOUT_MS = 60 * 1000;
+
+// The server cannot read receipts at all, as opposed to this one being unreadable
+function ocrUnavailable(reason: string): TRPCError {
+  return new TRPCError({ code: 'PRECONDITION_FAILED', message: `OCR is not available: ${reason}` });
+}
+
+// Run a local program with the file on stdin and return its stdout
+function runCommand(command: string, args: string[], input: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'], timeout: COMMAND_TIMEOUT_MS });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', error => {
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? ocrUnavailable(`${command} is not installed`) : error);
+    });
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString('utf8').trim()}`));
+      }
+    });
+
+    // The program may exit before reading everything, e.g. on unsupported input
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+export interface TesseractOptions {
+  tesseract_path: string;
+  pdftotext_path: string;
+  pdftoppm_path: string;
+  languages: string; // tesseract language codes, e.g. "eng+deu"
+}
+
+// Tesseract for images and pdftotext (poppler) for PDFs with a text layer; all run locally.
+// Scanned PDFs have no text layer, so their first page is rendered with pdftoppm and read by tesseract.
+export function createTesseractEngine(options: TesseractOptions): OcrEngine {
+  // psm 4: a single column of text of variable sizes, which suits receipts
+  async function readImage(image: Buffer): Promise<string> {
+    try {
+      return (await runCommand(options.tesseract_path, ['stdin', 'stdout', '-l', options.languages, '--psm', '4'], image)).toString('utf8');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Failed loading language')) {
+        throw ocrUnavailable(`the ${options.languages} language data for tesseract is not installed`);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    name: 'tesseract',
+    async recognize(data, contentType) {
+      if (contentType !== 'application/pdf') {
+        return readImage(data);
+      }
+
+      const text = (await runCommand(options.pdftotext_path, ['-layout', '-', '-'], data)).toString('utf8');
+      if (text.trim()) {
+        return text;
+      }
+      return readImage(await runCommand(options.pdftoppm_path, ['-png', '-r', '300', '-f', '1', '-singlefile', '-'], data));
+    }
+  };
+}
+
+function createDefaultEngine(): OcrEngine {
+  return createTesseractEngine({
+    tesseract_path: process.env['TESSERACT_PATH'] || 'tesseract',
+    pdftotext_path: process.env['PDFTOTEXT_PATH'] || 'pdftotext',
+    pdftoppm_path: process.env['PDFTOPPM_PATH'] || 'pdftoppm',
+    languages: process.env['OCR_LANGUAGES'] || 'eng'
+  });
+}
+
+let engine: OcrEngine | null = null;
+
+export function setOcrEngine(next: OcrEngine | null): void {
+  engine = next;
+}
+
+export function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    engine = createDefaultEngine();
+  }
+  return engine;
+}
@@ -0,0 +1,172 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray, or, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { expensesTable, teamsTable, teamMembersTable } from './db/schema';
+import { type AuthUser } from './schema';
+
+export type PolicyAction = 'create' | 'read' | 'update' | 'delete' | 'approve' | 'manage';
+
+// Only the fields each rule needs; full records can be spread in
+export type PolicyResource =
+  | { type: 'expense'; user_id: number; team_id: number | null }
+  | { type: 'budget'; user_id: number }
+  | { type: 'category'; user_id: number | null }
+  | { type: 'team'; id?: number; manager_id: number }
+  | { type: 'notification'; user_id: number }
+  | { type: 'delegation'; delegator_id: number; delegate_id: number }
+  | { type: 'user'; id: number };
+
+async function isTeamMember(teamId: number, userId: number): Promise<boolean> {
+  const members = await db.select({ id: teamMembersTable.id })
+    .from(teamMembersTable)
+    .where(and(
+      eq(teamMembersTable.team_id, teamId),
+      eq(teamMembersTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  return members.length > 0;
+}
+
+async function managesTeam(managerId: number, teamId: number): Promise<boolean> {
+  const teams = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .where(and(
+      eq(teamsTable.id, teamId),
+      eq(teamsTable.manager_id, managerId)
+    ))
+    .limit(1)
+    .execute();
+
+  return teams.length > 0;
+}
+
+// True when the manager runs any team the user belongs to
+async function managesUser(managerId: number, userId: number): Promise<boolean> {
+  const teams = await db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .innerJoin(teamMembersTable, eq(teamMembersTable.team_id, teamsTable.id))
+    .where(and(
+      eq(teamsTable.manager_id, managerId),
+      eq(teamMembersTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  return teams.length > 0;
+}
+
+// Expenses can only be charged to a team their submitter belongs to or manages
+export async function belongsToTeam(userId: number, teamId: number): Promise<boolean> {
+  return await isTeamMember(teamId, userId) || await managesTeam(userId, teamId);
+}
+
+async function supervisesExpense(user: AuthUser, expense: { user_id: number; team_id: number | null }): Promise<boolean> {
+  if (expense.team_id !== null && await managesTeam(user.id, expense.team_id)) {
+    return true;
+  }
+
+  return managesUser(user.id, expense.user_id);
+}
+
+export async function can(user: AuthUser, action: PolicyAction, resource: PolicyResource): Promise<boolean> {
+  // Admins may do anything
+  if (user.role === 'ADMIN') {
+    return true;
+  }
+
+  switch (resource.type) {
+    case 'expense': {
+      const isOwner = resource.user_id === user.id;
+      switch (action) {
+        case 'create':
+        case 'update':
+        case 'delete':
+          return isOwner;
+        case 'read':
+          return isOwner || await supervisesExpense(user, resource);
+        case 'approve':
+          return !isOwner && await supervisesExpense(user, resource);
+        default:
+          return false;
+      }
+    }
+
+    case 'budget':
+    case 'notification':
+      return resource.user_id === user.id;
+
+    case 'delegation':
+      // Delegates can see the cover they provide but only the delegator may change it
+      if (action === 'read') {
+        return resource.delegator_id === user.id || resource.delegate_id === user.id;
+      }
+      return resource.delegator_id === user.id;
+
+    case 'category':
+      // Global categories are readable by everyone and editable by admins only
+      if (resource.user_id === null) {
+        return action === 'read';
+      }
+      return resource.user_id === user.id;
+
+    case 'team': {
+      const isManager = resource.manager_id === user.id;
+      switch (action) {
+        case 'create':
+          return isManager && user.role === 'MANAGER';
+        case 'read':
+          return isManager || (resource.id !== undefined && await isTeamMember(resource.id, user.id));
+        case 'update':
+        case 'manage':
+          return isManager;
+        default:
+          return false;
+      }
+    }
+
+    case 'user':
+      switch (action) {
+        case 'read':
+          return resource.id === user.id || await managesUser(user.id, resource.id);
+        case 'update':
+          return resource.id === user.id;
+        default:
+          return false;
+      }
+  }
+}
+
+// SQL condition matching the expenses a user may read, mirroring the 'read' rule above.
+// Returns undefined when no restriction applies.
+export function expenseReadScope(user: AuthUser): SQL | undefined {
+  if (user.role === 'ADMIN') {
+    return undefined;
+  }
+
+  const managedTeams = db.select({ id: teamsTable.id })
+    .from(teamsTable)
+    .where(eq(teamsTable.manager_id, user.id));
+
+  const managedMembers = db.select({ id: teamMembersTable.user_id })
+    .from(teamMembersTable)
+    .innerJoin(teamsTable, eq(teamMembersTable.team_id, teamsTable.id))
+    .where(eq(teamsTable.manager_id, user.id));
+
+  return or(
+    eq(expensesTable.user_id, user.id),
+    inArray(expensesTable.team_id, managedTeams),
+    inArray(expensesTable.user_id, managedMembers)
+  );
+}
+
+// Throws a FORBIDDEN tRPC error unless the policy allows the action
+export async function authorize(user: AuthUser, action: PolicyAction, resource: PolicyResource): Promise<void> {
+  if (!(await can(user, action, resource))) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Not allowed to ${action} this ${resource.type}`
+    });
+  }
+}
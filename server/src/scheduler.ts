@@ -0,0 +1,209 @@
+import * as os from 'os';
+import { db } from './db';
+import { jobRunsTable, scheduledJobsTable } from './db/schema';
+import { nextCronTime, parseCron } from './utils/cron';
+import { generateToken } from './utils/tokens';
+import { and, asc, eq, inArray, isNull, lte, or, sql } from 'drizzle-orm';
+
+type DbJob = typeof scheduledJobsTable.$inferSelect;
+type DbJobRun = typeof jobRunsTable.$inferSelect;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // cron expression, UTC
+  max_attempts?: number;
+  run: () => Promise<unknown>;
+}
+
+const LEASE_MS = 30 * 60 * 1000; // longest a run may take before another instance may take over
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Identifies this process in locks and run history
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${generateToken(4)}`;
+
+const registry = new Map<string, JobDefinition>();
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+export function registerJob(definition: JobDefinition): void {
+  parseCron(definition.schedule); // fail at startup rather than on first run
+  registry.set(definition.name, definition);
+}
+
+export function unregisterJob(name: string): void {
+  registry.delete(name);
+}
+
+// 1, 2, 4, ... minutes after consecutive failures, capped at an hour
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Create rows for newly registered jobs and pick up schedule changes; pause state is kept.
+// A changed schedule also moves the next run, an unchanged one leaves it (and any retry) alone.
+export async function syncJobs(now: Date = new Date()): Promise<void> {
+  for (const definition of registry.values()) {
+    await db.insert(scheduledJobsTable)
+      .values({
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        max_attempts: definition.max_attempts ?? 3,
+        next_run_at: nextCronTime(definition.schedule, now)
+      })
+      .onConflictDoUpdate({
+        target: scheduledJobsTable.name,
+        set: {
+          description: definition.description,
+          schedule: definition.schedule,
+          max_attempts: definition.max_attempts ?? 3,
+          next_run_at: sql`case when ${scheduledJobsTable.schedule} = excluded.schedule then ${scheduledJobsTable.next_run_at} else excluded.next_run_at end`,
+          updated_at: now
+        }
+      })
+      .execute();
+  }
+}
+
+// Take the lease on one due job; SKIP LOCKED keeps concurrent instances from picking the same row
+async function claimDueJob(now: Date): Promise<DbJob | null> {
+  const names = [...registry.keys()];
+  if (names.length === 0) {
+    return null;
+  }
+
+  const candidate = db.select({ id: scheduledJobsTable.id })
+    .from(scheduledJobsTable)
+    .where(and(
+      inArray(scheduledJobsTable.name, names),
+      eq(scheduledJobsTable.is_paused, false),
+      lte(scheduledJobsTable.next_run_at, now),
+      or(isNull(scheduledJobsTable.locked_until), lte(scheduledJobsTable.locked_until, now))
+    ))
+    .orderBy(asc(scheduledJobsTable.next_run_at))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const claimed = await db.update(scheduledJobsTable)
+    .set({ locked_by: WORKER_ID, locked_until: new Date(now.getTime() + LEASE_MS) })
+    .where(inArray(scheduledJobsTable.id, candidate))
+    .returning()
+    .execute();
+
+  return claimed[0] ?? null;
+}
+
+// Run a job this worker holds the lease on, record the run and schedule the next one
+async function executeJob(job: DbJob, trigger: 'SCHEDULE' | 'MANUAL'): Promise<DbJobRun> {
+  const definition = registry.get(job.name);
+  const attempt = job.attempt + 1;
+
+  const runs = await db.insert(jobRunsTable)
+    .values({ job_id: job.id, trigger, attempt, worker: WORKER_ID })
+    .returning()
+    .execute();
+
+  let result: unknown = null;
+  let error: string | null = null;
+  try {
+    if (!definition) {
+      throw new Error(`No handler is registered for job ${job.name}`);
+    }
+    result = await definition.run();
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    console.error(`Job ${job.name} failed:`, err);
+  }
+
+  const finished = new Date();
+  const retry = error !== null && attempt < job.max_attempts;
+
+  const finishedRuns = await db.update(jobRunsTable)
+    .set({ status: error === null ? 'SUCCEEDED' : 'FAILED', result: result ?? null, error, finished_at: finished })
+    .where(eq(jobRunsTable.id, runs[0].id))
+    .returning()
+    .execute();
+
+  await db.update(scheduledJobsTable)
+    .set({
+      attempt: retry ? attempt : 0,
+      next_run_at: retry ? new Date(finished.getTime() + retryDelay(attempt)) : nextCronTime(job.schedule, finished),
+      last_run_at: finished,
+      last_status: error === null ? 'SUCCEEDED' : 'FAILED',
+      locked_by: null,
+      locked_until: null,
+      updated_at: finished
+    })
+    .where(and(
+      eq(scheduledJobsTable.id, job.id),
+      eq(scheduledJobsTable.locked_by, WORKER_ID)
+    ))
+    .execute();
+
+  return finishedRuns[0];
+}
+
+// Run every job that is due, one at a time; returns the runs made
+export async function runDueJobs(now: Date = new Date()): Promise<DbJobRun[]> {
+  const runs: DbJobRun[] = [];
+  for (let job = await claimDueJob(now); job; job = await claimDueJob(now)) {
+    runs.push(await executeJob(job, 'SCHEDULE'));
+  }
+  return runs;
+}
+
+// Run a job immediately, paused or not, unless another run holds its lease
+export async function runJobNow(jobId: number): Promise<DbJobRun> {
+  const now = new Date();
+  const claimed = await db.update(scheduledJobsTable)
+    .set({ locked_by: WORKER_ID, locked_until: new Date(now.getTime() + LEASE_MS) })
+    .where(and(
+      eq(scheduledJobsTable.id, jobId),
+      or(isNull(scheduledJobsTable.locked_until), lte(scheduledJobsTable.locked_until, now))
+    ))
+    .returning()
+    .execute();
+
+  if (claimed.length === 0) {
+    const exists = await db.select({ id: scheduledJobsTable.id })
+      .from(scheduledJobsTable)
+      .where(eq(scheduledJobsTable.id, jobId))
+      .execute();
+
+    throw new Error(exists.length === 0 ? `Job with id ${jobId} not found` : 'This job is already running');
+  }
+
+  return executeJob(claimed[0], 'MANUAL');
+}
+
+export async function startScheduler(intervalMs: number = 30 * 1000): Promise<void> {
+  if (timer) {
+    return;
+  }
+
+  await syncJobs();
+
+  // Skip a tick rather than overlap when the previous one is still running
+  timer = setInterval(async () => {
+    if (ticking) {
+      return;
+    }
+    ticking = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -1,11 +1,42 @@
 import { z } from 'zod';
+import { isCommonPassword } from './utils/common_passwords';
+import { isValidBic, isValidIban } from './utils/sepa';
 
 // Enum definitions
 export const userRoleEnum = z.enum(['ADMIN', 'MANAGER', 'USER']);
-export const expenseStatusEnum = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+export const expenseStatusEnum = z.enum(['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'SCHEDULED_FOR_PAYMENT', 'REIMBURSED', 'WITHDRAWN']);
 export const notificationTypeEnum = z.enum(['BUDGET_ALERT', 'EXPENSE_APPROVAL', 'EXPENSE_REMINDER', 'SYSTEM_UPDATE']);
 export const budgetPeriodEnum = z.enum(['MONTHLY', 'YEARLY']);
 export const recurringFrequencyEnum = z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
+export const loginThrottleScopeEnum = z.enum(['EMAIL', 'IP']);
+export const ssoProtocolEnum = z.enum(['OIDC']);
+export const expenseSortFieldEnum = z.enum(['expense_date', 'amount', 'title', 'status', 'created_at']);
+export const sortDirectionEnum = z.enum(['asc', 'desc']);
+export const approverTypeEnum = z.enum(['TEAM_MANAGER', 'USER']);
+export const approvalStepStatusEnum = z.enum(['PENDING', 'APPROVED', 'REJECTED', 'SKIPPED']);
+export const reimbursementBatchStatusEnum = z.enum(['SCHEDULED', 'PAID', 'REVERSED']);
+export const paymentFileFormatEnum = z.enum(['SEPA_XML', 'CSV']);
+export const jobRunStatusEnum = z.enum(['RUNNING', 'SUCCEEDED', 'FAILED']);
+export const jobTriggerEnum = z.enum(['SCHEDULE', 'MANUAL']);
+export const receiptScanStatusEnum = z.enum(['COMPLETED', 'FAILED']);
+export const duplicateReasonEnum = z.enum(['SAME_AMOUNT', 'SIMILAR_AMOUNT', 'SAME_DATE', 'NEAR_DATE', 'SIMILAR_TITLE', 'SAME_RECEIPT']);
+export const exchangeRateSourceEnum = z.enum(['MANUAL', 'CSV', 'ECB']);
+export const expenseTypeEnum = z.enum(['STANDARD', 'MILEAGE', 'PER_DIEM']);
+export type ExpenseType = z.infer<typeof expenseTypeEnum>;
+export const distanceUnitEnum = z.enum(['KM', 'MI']);
+export const vehicleTypeEnum = z.enum(['CAR', 'MOTORCYCLE', 'BICYCLE']);
+
+// ISO 4217 code such as EUR or USD
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Use a three-letter currency code such as EUR');
+
+// Password policy applied wherever a new password is chosen
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`)
+  .refine(password => !isCommonPassword(password), 'This password is too common, please choose another one');
 
 // User schema
 export const userSchema = z.object({
@@ -18,12 +49,19 @@ export const userSchema = z.object({
   profile_picture_url: z.string().nullable(),
   is_email_verified: z.boolean(),
   is_active: z.boolean(),
+  default_currency: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// What clients get to see of an account; parsing drops the password hash and any other column
+// not listed here
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 // Team schema
 export const teamSchema = z.object({
   id: z.number(),
@@ -76,6 +114,52 @@ export const budgetSchema = z.object({
 
 export type Budget = z.infer<typeof budgetSchema>;
 
+// What a mileage or per diem amount was calculated from; rates are in the base currency
+export const mileageDetailsSchema = z.object({
+  distance: z.number(),
+  unit: distanceUnitEnum,
+  vehicle_type: vehicleTypeEnum,
+  rate: z.number() // per unit of distance
+});
+
+export type MileageDetails = z.infer<typeof mileageDetailsSchema>;
+
+export const perDiemDetailsSchema = z.object({
+  destination: z.string(),
+  days: z.number(),
+  breakfasts: z.number(), // meals provided, deducted from the allowance
+  lunches: z.number(),
+  dinners: z.number(),
+  daily_rate: z.number(),
+  breakfast_deduction: z.number(),
+  lunch_deduction: z.number(),
+  dinner_deduction: z.number()
+});
+
+export type PerDiemDetails = z.infer<typeof perDiemDetailsSchema>;
+
+export const mileageInputSchema = z.object({
+  distance: z.number().positive().max(100000),
+  unit: distanceUnitEnum.optional().default('KM'),
+  vehicle_type: vehicleTypeEnum.optional().default('CAR')
+});
+
+export type MileageInput = z.infer<typeof mileageInputSchema>;
+
+export const perDiemInputSchema = z.object({
+  destination: z.string().trim().min(1).max(100),
+  days: z.number().int().positive().max(366),
+  // Meals paid for by someone else during the trip, e.g. hotel breakfasts
+  breakfasts: z.number().int().min(0).optional().default(0),
+  lunches: z.number().int().min(0).optional().default(0),
+  dinners: z.number().int().min(0).optional().default(0)
+}).refine(
+  trip => Math.max(trip.breakfasts, trip.lunches, trip.dinners) <= trip.days,
+  'At most one of each meal can be provided per day'
+);
+
+export type PerDiemInput = z.infer<typeof perDiemInputSchema>;
+
 // Expense schema
 export const expenseSchema = z.object({
   id: z.number(),
@@ -84,13 +168,19 @@ export const expenseSchema = z.object({
   category_id: z.number(),
   title: z.string(),
   description: z.string().nullable(),
-  amount: z.number(),
-  receipt_url: z.string().nullable(),
+  amount: z.number(), // in the base currency
+  currency: z.string(), // as entered
+  original_amount: z.number(),
+  exchange_rate: z.number(),
+  expense_type: expenseTypeEnum,
+  mileage: mileageDetailsSchema.nullable(),
+  per_diem: perDiemDetailsSchema.nullable(),
   tags: z.array(z.string()),
   status: expenseStatusEnum,
   is_recurring: z.boolean(),
   recurring_frequency: recurringFrequencyEnum.nullable(),
   recurring_end_date: z.coerce.date().nullable(),
+  recurring_parent_id: z.number().nullable(),
   expense_date: z.coerce.date(),
   approved_by: z.number().nullable(),
   approved_at: z.coerce.date().nullable(),
@@ -100,6 +190,90 @@ export const expenseSchema = z.object({
 
 export type Expense = z.infer<typeof expenseSchema>;
 
+// File types accepted as receipts
+export const receiptContentTypeEnum = z.enum(['image/jpeg', 'image/png', 'image/webp', 'application/pdf']);
+export type ReceiptContentType = z.infer<typeof receiptContentTypeEnum>;
+
+export const expenseAttachmentSchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  filename: z.string(),
+  content_type: receiptContentTypeEnum,
+  size: z.number().int(),
+  sha256: z.string(),
+  uploaded_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ExpenseAttachment = z.infer<typeof expenseAttachmentSchema>;
+
+// Part of an expense booked to its own category and team
+export const expenseSplitSchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  category_id: z.number(),
+  team_id: z.number().nullable(),
+  description: z.string().nullable(),
+  amount: z.number(), // in the base currency
+  original_amount: z.number(), // in the expense's currency
+  percentage: z.number().nullable(),
+  tags: z.array(z.string()),
+  created_at: z.coerce.date()
+});
+
+export type ExpenseSplit = z.infer<typeof expenseSplitSchema>;
+
+// Splits are given either all by amount (in the expense's currency) or all by percentage
+export const expenseSplitInputSchema = z.object({
+  category_id: z.number(),
+  team_id: z.number().nullable().optional(),
+  description: z.string().nullable().optional(),
+  amount: z.number().positive().optional(),
+  percentage: z.number().positive().max(100).optional(),
+  tags: z.array(z.string()).optional().default([])
+}).refine(split => (split.amount === undefined) !== (split.percentage === undefined), 'Give each split either an amount or a percentage');
+
+export type ExpenseSplitInput = z.infer<typeof expenseSplitInputSchema>;
+
+const expensePersonSchema = z.object({
+  id: z.number(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string()
+});
+
+// Expense with the records it references, for detail views
+export const expenseDetailsSchema = expenseSchema.extend({
+  category: z.object({
+    id: z.number(),
+    name: z.string(),
+    color: z.string(),
+    icon: z.string().nullable()
+  }),
+  team: z.object({
+    id: z.number(),
+    name: z.string()
+  }).nullable(),
+  submitter: expensePersonSchema,
+  approver: expensePersonSchema.nullable(),
+  attachments: z.array(expenseAttachmentSchema),
+  splits: z.array(expenseSplitSchema)
+});
+
+export type ExpenseDetails = z.infer<typeof expenseDetailsSchema>;
+
+export const expenseStatusHistorySchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  from_status: expenseStatusEnum.nullable(),
+  to_status: expenseStatusEnum,
+  changed_by: z.number().nullable(),
+  note: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ExpenseStatusHistory = z.infer<typeof expenseStatusHistorySchema>;
+
 // Notification schema
 export const notificationSchema = z.object({
   id: z.number(),
@@ -119,7 +293,7 @@ export type Notification = z.infer<typeof notificationSchema>;
 // User input schemas
 export const createUserInputSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(8),
+  password: passwordSchema,
   first_name: z.string(),
   last_name: z.string(),
   role: userRoleEnum.optional().default('USER')
@@ -134,7 +308,8 @@ export const updateUserInputSchema = z.object({
   last_name: z.string().optional(),
   role: userRoleEnum.optional(),
   profile_picture_url: z.string().nullable().optional(),
-  is_active: z.boolean().optional()
+  is_active: z.boolean().optional(),
+  default_currency: currencyCodeSchema.nullable().optional()
 });
 
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
@@ -146,6 +321,241 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Authenticated caller resolved from the request's bearer token
+export const authUserSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  role: userRoleEnum
+});
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
+// Request metadata recorded against sessions
+export const clientInfoSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type ClientInfo = z.infer<typeof clientInfoSchema>;
+
+// Session schema (refresh token hashes are never exposed)
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  last_used_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  is_current: z.boolean()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Password management input schemas
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const confirmPasswordResetInputSchema = z.object({
+  token: z.string(),
+  new_password: passwordSchema
+});
+
+export type ConfirmPasswordResetInput = z.infer<typeof confirmPasswordResetInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: passwordSchema
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const authTokensResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string()
+});
+
+export type AuthTokensResponse = z.infer<typeof authTokensResponseSchema>;
+
+// Login either completes, or stops after the password and asks for a second factor
+export const loginResponseSchema = z.discriminatedUnion('two_factor_required', [
+  z.object({
+    two_factor_required: z.literal(false),
+    user: publicUserSchema,
+    token: z.string(),
+    refresh_token: z.string(),
+    two_factor_setup_required: z.boolean() // role requires 2FA but the user has not enrolled yet
+  }),
+  z.object({
+    two_factor_required: z.literal(true),
+    challenge_token: z.string()
+  })
+]);
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+// Two-factor authentication schemas
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(1) // 6-digit TOTP code or a recovery code
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const verifyTwoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(1)
+});
+
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginInputSchema>;
+
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string()
+});
+
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(),
+  recovery_codes_remaining: z.number().int()
+});
+
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+export const recoveryCodesResponseSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodesResponse = z.infer<typeof recoveryCodesResponseSchema>;
+
+// Only privileged roles can be forced onto 2FA
+export const twoFactorPolicyRoleEnum = z.enum(['ADMIN', 'MANAGER']);
+
+export const twoFactorPolicySchema = z.object({
+  role: twoFactorPolicyRoleEnum,
+  required: z.boolean()
+});
+
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
+// Login brute-force protection
+export const loginLockoutSchema = z.object({
+  id: z.number(),
+  scope: loginThrottleScopeEnum,
+  key: z.string(),
+  failed_attempts: z.number().int(),
+  last_failed_at: z.coerce.date(),
+  locked_until: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoginLockout = z.infer<typeof loginLockoutSchema>;
+
+// Single sign-on schemas
+export const oidcProviderConfigSchema = z.object({
+  issuer: z.string().url(),
+  client_id: z.string().min(1),
+  client_secret: z.string().min(1),
+  scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+  groups_claim: z.string().default('groups'), // ID token claim listing the user's groups
+  // Accept emails without email_verified: true, for directories that vouch for every address but omit the claim
+  trust_unverified_emails: z.boolean().default(false)
+});
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderConfigSchema>;
+
+// Client secrets are write-only
+export const ssoProviderSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  protocol: ssoProtocolEnum,
+  config: oidcProviderConfigSchema.omit({ client_secret: true }),
+  default_role: userRoleEnum,
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SsoProvider = z.infer<typeof ssoProviderSchema>;
+
+export const createSsoProviderInputSchema = z.object({
+  name: z.string().min(1),
+  protocol: ssoProtocolEnum,
+  config: oidcProviderConfigSchema,
+  default_role: userRoleEnum.optional(),
+  is_active: z.boolean().optional()
+});
+
+export type CreateSsoProviderInput = z.infer<typeof createSsoProviderInputSchema>;
+
+export const updateSsoProviderInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  config: oidcProviderConfigSchema.partial().optional(), // omitted keys keep their current value
+  default_role: userRoleEnum.optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateSsoProviderInput = z.infer<typeof updateSsoProviderInputSchema>;
+
+export const ssoDomainSchema = z.object({
+  id: z.number(),
+  domain: z.string(),
+  provider_id: z.number(),
+  force_sso: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type SsoDomain = z.infer<typeof ssoDomainSchema>;
+
+export const setSsoDomainInputSchema = z.object({
+  domain: z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i, 'Invalid domain'),
+  provider_id: z.number(),
+  force_sso: z.boolean()
+});
+
+export type SetSsoDomainInput = z.infer<typeof setSsoDomainInputSchema>;
+
+export const ssoGroupMappingSchema = z.object({
+  id: z.number(),
+  provider_id: z.number(),
+  group: z.string(),
+  role: userRoleEnum.nullable(),
+  team_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SsoGroupMapping = z.infer<typeof ssoGroupMappingSchema>;
+
+export const createSsoGroupMappingInputSchema = z.object({
+  provider_id: z.number(),
+  group: z.string().min(1),
+  role: userRoleEnum.nullable().optional(),
+  team_id: z.number().nullable().optional()
+}).refine(input => input.role || input.team_id, 'Map the group to a role, a team or both');
+
+export type CreateSsoGroupMappingInput = z.infer<typeof createSsoGroupMappingInputSchema>;
+
+export const ssoDiscoverySchema = z.object({
+  provider_id: z.number(),
+  provider_name: z.string(),
+  force_sso: z.boolean()
+});
+
+export type SsoDiscovery = z.infer<typeof ssoDiscoverySchema>;
+
+export const completeSsoLoginInputSchema = z.object({
+  state: z.string(),
+  code: z.string()
+});
+
+export type CompleteSsoLoginInput = z.infer<typeof completeSsoLoginInputSchema>;
+
 // Team input schemas
 export const createTeamInputSchema = z.object({
   name: z.string(),
@@ -215,26 +625,60 @@ export const createExpenseInputSchema = z.object({
   category_id: z.number(),
   title: z.string(),
   description: z.string().nullable().optional(),
-  amount: z.number().positive(),
-  receipt_url: z.string().nullable().optional(),
+  // Mileage and per diem expenses are calculated from the rate tables and take no amount
+  expense_type: expenseTypeEnum.optional(), // STANDARD if omitted
+  amount: z.number().positive().optional(),
+  // Currency of the amount, the user's default currency if omitted
+  currency: currencyCodeSchema.optional(),
+  mileage: mileageInputSchema.optional(),
+  per_diem: perDiemInputSchema.optional(),
   tags: z.array(z.string()).optional().default([]),
   is_recurring: z.boolean().optional().default(false),
   recurring_frequency: recurringFrequencyEnum.nullable().optional(),
   recurring_end_date: z.coerce.date().nullable().optional(),
-  expense_date: z.coerce.date()
+  expense_date: z.coerce.date(),
+  // Drafts are saved without entering the approval workflow
+  draft: z.boolean().optional(),
+  // Save even when the expense looks like a duplicate of an existing one
+  allow_duplicate: z.boolean().optional(),
+  splits: z.array(expenseSplitInputSchema).optional()
 });
 
 export type CreateExpenseInput = z.infer<typeof createExpenseInputSchema>;
 
+// An existing expense the new or reviewed one may duplicate; score is 0-1
+export const duplicateMatchSchema = z.object({
+  expense_id: z.number(),
+  title: z.string(),
+  amount: z.number(),
+  expense_date: z.coerce.date(),
+  status: expenseStatusEnum,
+  score: z.number(),
+  reasons: z.array(duplicateReasonEnum)
+});
+
+export type DuplicateMatch = z.infer<typeof duplicateMatchSchema>;
+
+export const createExpenseResponseSchema = expenseSchema.extend({
+  possible_duplicates: z.array(duplicateMatchSchema)
+});
+
+export type CreateExpenseResponse = z.infer<typeof createExpenseResponseSchema>;
+
 export const updateExpenseInputSchema = z.object({
   id: z.number(),
   category_id: z.number().optional(),
   title: z.string().optional(),
   description: z.string().nullable().optional(),
   amount: z.number().positive().optional(),
-  receipt_url: z.string().nullable().optional(),
+  currency: currencyCodeSchema.optional(),
+  // Recalculates a mileage or per diem expense
+  mileage: mileageInputSchema.optional(),
+  per_diem: perDiemInputSchema.optional(),
   tags: z.array(z.string()).optional(),
-  expense_date: z.coerce.date().optional()
+  expense_date: z.coerce.date().optional(),
+  // Replaces the splits; an empty list books the whole expense to its own category again
+  splits: z.array(expenseSplitInputSchema).optional()
 });
 
 export type UpdateExpenseInput = z.infer<typeof updateExpenseInputSchema>;
@@ -242,11 +686,412 @@ export type UpdateExpenseInput = z.infer<typeof updateExpenseInputSchema>;
 export const approveExpenseInputSchema = z.object({
   expense_id: z.number(),
   status: z.enum(['APPROVED', 'REJECTED']),
-  approved_by: z.number()
+  approved_by: z.number(),
+  comment: z.string().max(1000).nullable().optional()
 });
 
 export type ApproveExpenseInput = z.infer<typeof approveExpenseInputSchema>;
 
+export const expenseStatusChangeInputSchema = z.object({
+  id: z.number(),
+  note: z.string().max(1000).nullable().optional()
+});
+
+export type ExpenseStatusChangeInput = z.infer<typeof expenseStatusChangeInputSchema>;
+
+// Payment states are set by finance once an expense is approved
+export const updatePaymentStatusInputSchema = z.object({
+  id: z.number(),
+  status: z.enum(['APPROVED', 'SCHEDULED_FOR_PAYMENT', 'REIMBURSED']),
+  note: z.string().max(1000).nullable().optional()
+});
+
+export type UpdatePaymentStatusInput = z.infer<typeof updatePaymentStatusInputSchema>;
+
+// Receipt upload; data is the base64-encoded file
+export const uploadReceiptInputSchema = z.object({
+  expense_id: z.number(),
+  filename: z.string().trim().min(1).max(255),
+  content_type: receiptContentTypeEnum,
+  data: z.string().base64()
+});
+
+export type UploadReceiptInput = z.infer<typeof uploadReceiptInputSchema>;
+
+export const receiptDownloadUrlInputSchema = z.object({
+  id: z.number(),
+  expires_in: z.number().int().min(60).max(24 * 60 * 60).optional().default(15 * 60) // seconds
+});
+
+export type ReceiptDownloadUrlInput = z.infer<typeof receiptDownloadUrlInputSchema>;
+
+export const receiptDownloadUrlSchema = z.object({
+  url: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type ReceiptDownloadUrl = z.infer<typeof receiptDownloadUrlSchema>;
+
+// A value read from a receipt and how sure the parser is about it (0-1)
+const receiptFieldSchema = <T extends z.ZodTypeAny>(value: T) => z.object({
+  value: value.nullable(),
+  confidence: z.number().min(0).max(1)
+});
+
+export const receiptScanFieldsSchema = z.object({
+  merchant: receiptFieldSchema(z.string()),
+  date: receiptFieldSchema(z.string()),
+  total: receiptFieldSchema(z.number()),
+  tax: receiptFieldSchema(z.number()),
+  currency: receiptFieldSchema(z.string())
+});
+
+export type ReceiptScanFields = z.infer<typeof receiptScanFieldsSchema>;
+
+export const receiptScanSchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  attachment_id: z.number().nullable(),
+  status: receiptScanStatusEnum,
+  engine: z.string(),
+  text: z.string().nullable(),
+  fields: receiptScanFieldsSchema,
+  error: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ReceiptScan = z.infer<typeof receiptScanSchema>;
+
+// Upload a receipt and draft an expense from what can be read on it
+export const scanReceiptInputSchema = uploadReceiptInputSchema.omit({ expense_id: true }).extend({
+  category_id: z.number(),
+  team_id: z.number().nullable().optional()
+});
+
+export type ScanReceiptInput = z.infer<typeof scanReceiptInputSchema>;
+
+export const scanReceiptResponseSchema = z.object({
+  expense: createExpenseResponseSchema,
+  attachment: expenseAttachmentSchema,
+  scan: receiptScanSchema
+});
+
+export type ScanReceiptResponse = z.infer<typeof scanReceiptResponseSchema>;
+
+// One unit of base_currency is worth rate units of currency
+export const exchangeRateSchema = z.object({
+  id: z.number(),
+  base_currency: z.string(),
+  currency: z.string(),
+  rate_date: z.coerce.date(),
+  rate: z.number(),
+  source: exchangeRateSourceEnum,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+
+export const exchangeRateFilterSchema = z.object({
+  currency: currencyCodeSchema.optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(1000).optional().default(100)
+});
+
+export type ExchangeRateFilter = z.infer<typeof exchangeRateFilterSchema>;
+
+// Replaces the rate for the same pair and day; base_currency defaults to the organization's
+export const setExchangeRateInputSchema = z.object({
+  base_currency: currencyCodeSchema.optional(),
+  currency: currencyCodeSchema,
+  rate_date: z.coerce.date(),
+  rate: z.number().positive()
+});
+
+export type SetExchangeRateInput = z.infer<typeof setExchangeRateInputSchema>;
+
+// CSV with "date,currency,rate[,base_currency]" columns, or an ECB euro reference rate XML file
+export const importExchangeRatesInputSchema = z.object({
+  format: z.enum(['CSV', 'ECB_XML']),
+  data: z.string().min(1).max(20 * 1024 * 1024),
+  base_currency: currencyCodeSchema.optional() // for CSV rows without a base_currency column
+});
+
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesInputSchema>;
+
+export const importExchangeRatesResponseSchema = z.object({
+  imported: z.number(),
+  errors: z.array(z.string())
+});
+
+export type ImportExchangeRatesResponse = z.infer<typeof importExchangeRatesResponseSchema>;
+
+export const mileageRateSchema = z.object({
+  id: z.number(),
+  vehicle_type: vehicleTypeEnum,
+  unit: distanceUnitEnum,
+  rate: z.number(),
+  effective_from: z.coerce.date(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type MileageRate = z.infer<typeof mileageRateSchema>;
+
+// Replaces the rate for the same vehicle, unit and day
+export const setMileageRateInputSchema = z.object({
+  vehicle_type: vehicleTypeEnum,
+  unit: distanceUnitEnum,
+  rate: z.number().positive(),
+  effective_from: z.coerce.date()
+});
+
+export type SetMileageRateInput = z.infer<typeof setMileageRateInputSchema>;
+
+export const perDiemRateSchema = z.object({
+  id: z.number(),
+  destination: z.string(),
+  daily_rate: z.number(),
+  breakfast_deduction: z.number(),
+  lunch_deduction: z.number(),
+  dinner_deduction: z.number(),
+  effective_from: z.coerce.date(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PerDiemRate = z.infer<typeof perDiemRateSchema>;
+
+// Replaces the rate for the same destination and day; destinations are matched case-insensitively
+export const setPerDiemRateInputSchema = z.object({
+  destination: z.string().trim().min(1).max(100),
+  daily_rate: z.number().positive(),
+  breakfast_deduction: z.number().min(0).optional().default(0),
+  lunch_deduction: z.number().min(0).optional().default(0),
+  dinner_deduction: z.number().min(0).optional().default(0),
+  effective_from: z.coerce.date()
+});
+
+export type SetPerDiemRateInput = z.infer<typeof setPerDiemRateInputSchema>;
+
+// Approval workflow schemas
+export const approvalRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  team_id: z.number().nullable(),
+  min_amount: z.number(),
+  step_order: z.number().int(),
+  approver_type: approverTypeEnum,
+  approver_id: z.number().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ApprovalRule = z.infer<typeof approvalRuleSchema>;
+
+export const createApprovalRuleInputSchema = z.object({
+  name: z.string().min(1),
+  team_id: z.number().nullable().optional(),
+  min_amount: z.number().nonnegative().optional().default(0),
+  step_order: z.number().int().min(1),
+  approver_type: approverTypeEnum,
+  approver_id: z.number().nullable().optional()
+}).refine(input => input.approver_type !== 'USER' || input.approver_id, 'USER rules need an approver_id');
+
+export type CreateApprovalRuleInput = z.infer<typeof createApprovalRuleInputSchema>;
+
+export const updateApprovalRuleInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  min_amount: z.number().nonnegative().optional(),
+  step_order: z.number().int().min(1).optional(),
+  approver_type: approverTypeEnum.optional(),
+  approver_id: z.number().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateApprovalRuleInput = z.infer<typeof updateApprovalRuleInputSchema>;
+
+export const approvalStepSchema = z.object({
+  id: z.number(),
+  expense_id: z.number(),
+  rule_id: z.number().nullable(),
+  step_order: z.number().int(),
+  approver_id: z.number().nullable(),
+  status: approvalStepStatusEnum,
+  decided_by: z.number().nullable(),
+  on_behalf_of: z.number().nullable(),
+  comment: z.string().nullable(),
+  decided_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApprovalStep = z.infer<typeof approvalStepSchema>;
+
+export const approvalDelegationSchema = z.object({
+  id: z.number(),
+  delegator_id: z.number(),
+  delegate_id: z.number(),
+  team_id: z.number().nullable(),
+  starts_on: z.coerce.date(),
+  ends_on: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type ApprovalDelegation = z.infer<typeof approvalDelegationSchema>;
+
+// delegator_id defaults to the caller; only admins may set up cover for someone else
+export const createApprovalDelegationInputSchema = z.object({
+  delegator_id: z.number().optional(),
+  delegate_id: z.number(),
+  team_id: z.number().nullable().optional(),
+  starts_on: z.coerce.date(),
+  ends_on: z.coerce.date()
+})
+  .refine(input => input.ends_on >= input.starts_on, 'The delegation must end on or after its start date');
+
+export type CreateApprovalDelegationInput = z.infer<typeof createApprovalDelegationInputSchema>;
+
+// Reimbursement schemas
+export const payoutAccountSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  account_holder: z.string(),
+  iban: z.string(),
+  bic: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PayoutAccount = z.infer<typeof payoutAccountSchema>;
+
+// user_id defaults to the caller; only admins may set someone else's account
+export const setPayoutAccountInputSchema = z.object({
+  user_id: z.number().optional(),
+  account_holder: z.string().trim().min(1).max(70),
+  iban: z.string().refine(isValidIban, 'Invalid IBAN'),
+  bic: z.string().refine(isValidBic, 'Invalid BIC').nullable().optional()
+});
+
+export type SetPayoutAccountInput = z.infer<typeof setPayoutAccountInputSchema>;
+
+export const reimbursementBatchSchema = z.object({
+  id: z.number(),
+  reference: z.string(),
+  status: reimbursementBatchStatusEnum,
+  execution_date: z.coerce.date(),
+  total_amount: z.number(),
+  payment_count: z.number().int(),
+  created_by: z.number().nullable(),
+  paid_at: z.coerce.date().nullable(),
+  reversed_at: z.coerce.date().nullable(),
+  reversal_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ReimbursementBatch = z.infer<typeof reimbursementBatchSchema>;
+
+export const reimbursementPaymentSchema = z.object({
+  id: z.number(),
+  batch_id: z.number(),
+  user_id: z.number(),
+  amount: z.number(),
+  account_holder: z.string(),
+  iban: z.string(),
+  bic: z.string().nullable(),
+  expense_ids: z.array(z.number())
+});
+
+export type ReimbursementPayment = z.infer<typeof reimbursementPaymentSchema>;
+
+export const reimbursementBatchDetailsSchema = reimbursementBatchSchema.extend({
+  payments: z.array(reimbursementPaymentSchema)
+});
+
+export type ReimbursementBatchDetails = z.infer<typeof reimbursementBatchDetailsSchema>;
+
+// Without user_ids every approved expense is picked up
+export const createReimbursementBatchInputSchema = z.object({
+  execution_date: z.coerce.date(),
+  user_ids: z.array(z.number()).optional()
+});
+
+export type CreateReimbursementBatchInput = z.infer<typeof createReimbursementBatchInputSchema>;
+
+// Users with approved expenses but no payout account are left for a later batch
+export const createReimbursementBatchResponseSchema = reimbursementBatchDetailsSchema.extend({
+  skipped_user_ids: z.array(z.number())
+});
+
+export type CreateReimbursementBatchResponse = z.infer<typeof createReimbursementBatchResponseSchema>;
+
+export const reverseReimbursementBatchInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1).max(1000)
+});
+
+export type ReverseReimbursementBatchInput = z.infer<typeof reverseReimbursementBatchInputSchema>;
+
+export const paymentFileInputSchema = z.object({
+  id: z.number(),
+  format: paymentFileFormatEnum
+});
+
+export type PaymentFileInput = z.infer<typeof paymentFileInputSchema>;
+
+export const paymentFileSchema = z.object({
+  filename: z.string(),
+  content_type: z.string(),
+  content: z.string()
+});
+
+export type PaymentFile = z.infer<typeof paymentFileSchema>;
+
+// Scheduler schemas
+export const scheduledJobSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  schedule: z.string(),
+  max_attempts: z.number().int(),
+  is_paused: z.boolean(),
+  next_run_at: z.coerce.date(),
+  attempt: z.number().int(),
+  locked_by: z.string().nullable(),
+  locked_until: z.coerce.date().nullable(),
+  last_run_at: z.coerce.date().nullable(),
+  last_status: jobRunStatusEnum.nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ScheduledJob = z.infer<typeof scheduledJobSchema>;
+
+export const jobRunSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  trigger: jobTriggerEnum,
+  status: jobRunStatusEnum,
+  attempt: z.number().int(),
+  worker: z.string(),
+  result: z.unknown(),
+  error: z.string().nullable(),
+  started_at: z.coerce.date(),
+  finished_at: z.coerce.date().nullable()
+});
+
+export type JobRun = z.infer<typeof jobRunSchema>;
+
+export const jobRunsInputSchema = z.object({
+  job_id: z.number(),
+  limit: z.number().int().min(1).max(100).optional().default(20)
+});
+
+export type JobRunsInput = z.infer<typeof jobRunsInputSchema>;
+
 // Notification input schemas
 export const createNotificationInputSchema = z.object({
   user_id: z.number(),
@@ -258,24 +1103,43 @@ export const createNotificationInputSchema = z.object({
 
 export type CreateNotificationInput = z.infer<typeof createNotificationInputSchema>;
 
+export const notificationListInputSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).optional().default(20)
+});
+
+export type NotificationListInput = z.infer<typeof notificationListInputSchema>;
+
 // Query schemas
 export const expenseFilterSchema = z.object({
   user_id: z.number().optional(),
   team_id: z.number().optional(),
   category_id: z.number().optional(),
   status: expenseStatusEnum.optional(),
+  statuses: z.array(expenseStatusEnum).optional(),
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
   min_amount: z.number().optional(),
   max_amount: z.number().optional(),
   tags: z.array(z.string()).optional(),
   search: z.string().optional(),
+  sort_by: expenseSortFieldEnum.optional().default('expense_date'),
+  sort_direction: sortDirectionEnum.optional().default('desc'),
+  // Keyset mode: pass the previous response's next_cursor instead of a page (expense_date sort only)
+  cursor: z.string().optional(),
   page: z.number().int().min(1).optional().default(1),
   limit: z.number().int().min(1).max(100).optional().default(20)
 });
 
 export type ExpenseFilter = z.infer<typeof expenseFilterSchema>;
 
+export const expenseSearchInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  limit: z.number().int().min(1).max(50).optional().default(20)
+});
+
+export type ExpenseSearchInput = z.infer<typeof expenseSearchInputSchema>;
+
 export const budgetAnalyticsSchema = z.object({
   user_id: z.number(),
   period: budgetPeriodEnum,
@@ -296,18 +1160,59 @@ export const reportGenerationSchema = z.object({
 
 export type ReportGeneration = z.infer<typeof reportGenerationSchema>;
 
+// CSV text: "date,title,amount[,currency][,category][,description]" for CSV, "date,description,amount" with
+// outgoing payments as negative amounts for BANK_STATEMENT. Rows become drafts.
+export const importExpensesInputSchema = z.object({
+  format: z.enum(['CSV', 'BANK_STATEMENT']),
+  data: z.string().min(1).max(5 * 1024 * 1024),
+  category_id: z.number(), // for rows without a known category
+  currency: currencyCodeSchema.optional() // for rows without a currency column
+});
+
+export type ImportExpensesInput = z.infer<typeof importExpensesInputSchema>;
+
+export const importExpensesResponseSchema = z.object({
+  imported: z.number(),
+  expense_ids: z.array(z.number()),
+  // Rows that almost certainly exist already were not imported
+  skipped_duplicates: z.array(z.object({ row: z.number(), duplicate: duplicateMatchSchema })),
+  warnings: z.array(z.object({ row: z.number(), expense_id: z.number(), possible_duplicates: z.array(duplicateMatchSchema) })),
+  errors: z.array(z.string())
+});
+
+export type ImportExpensesResponse = z.infer<typeof importExpensesResponseSchema>;
+
 // Response schemas
 export const expenseListResponseSchema = z.object({
   expenses: z.array(expenseSchema),
   total_count: z.number(),
   page: z.number(),
   limit: z.number(),
-  total_pages: z.number()
+  total_pages: z.number(),
+  next_cursor: z.string().nullable()
 });
 
 export type ExpenseListResponse = z.infer<typeof expenseListResponseSchema>;
 
+// Highlights wrap matches in <mark></mark>; the surrounding text is HTML-escaped
+export const expenseSearchResultSchema = expenseSchema.extend({
+  category_name: z.string(),
+  rank: z.number(),
+  title_highlight: z.string(),
+  description_snippet: z.string().nullable()
+});
+
+export type ExpenseSearchResult = z.infer<typeof expenseSearchResultSchema>;
+
+export const notificationListResponseSchema = z.object({
+  notifications: z.array(notificationSchema),
+  next_cursor: z.string().nullable()
+});
+
+export type NotificationListResponse = z.infer<typeof notificationListResponseSchema>;
+
 export const budgetOverviewResponseSchema = z.object({
+  currency: z.string(), // base currency of all amounts
   budgets: z.array(budgetSchema),
   total_budget: z.number(),
   total_spent: z.number(),
@@ -318,6 +1223,7 @@ export const budgetOverviewResponseSchema = z.object({
 export type BudgetOverviewResponse = z.infer<typeof budgetOverviewResponseSchema>;
 
 export const dashboardStatsResponseSchema = z.object({
+  currency: z.string(), // base currency of all amounts
   total_expenses: z.number(),
   total_amount_spent: z.number(),
   budget_usage_percentage: z.number(),
@@ -330,6 +1236,11 @@ export const dashboardStatsResponseSchema = z.object({
     month: z.string(),
     amount: z.number()
   })),
+  status_breakdown: z.array(z.object({
+    status: expenseStatusEnum,
+    count: z.number(),
+    amount: z.number()
+  })),
   recent_expenses: z.array(expenseSchema)
 });
 
@@ -0,0 +1,119 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { generateToken } from './utils/tokens';
+import { signS3Request, uriEncode } from './utils/sigv4';
+
+// Where uploaded files are kept; keys are relative paths such as "receipts/ab/ab12..."
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when the object does not exist
+  delete(key: string): Promise<void>;
+}
+
+// Stores objects as files below the given directory (default for local development)
+export function createLocalStorageDriver(directory: string): StorageDriver {
+  const root = path.resolve(directory);
+
+  function filePath(key: string): string {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return file;
+  }
+
+  return {
+    async put(key, data) {
+      const file = filePath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so readers never see a partial file
+      const temporary = `${file}.${generateToken(6)}.tmp`;
+      await writeFile(temporary, data);
+      await rename(temporary, file);
+    },
+    async get(key) {
+      try {
+        return await readFile(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    }
+  };
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  access_key_id: string;
+  secret_access_key: string;
+}
+
+// Path-style requests, so MinIO and other S3-compatible servers work without bucket DNS
+export function createS3StorageDriver(config: S3StorageConfig): StorageDriver {
+  const base = config.endpoint.replace(/\/+$/, '');
+
+  async function send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = new URL(`${base}/${uriEncode(config.bucket)}/${key.split('/').map(uriEncode).join('/')}`);
+    const headers = signS3Request({ method, url, body, headers: contentType ? { 'content-type': contentType } : {} }, config);
+    return fetch(url, { method, headers, body });
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const response = await send('PUT', key, data, contentType);
+      if (!response.ok) {
+        throw new Error(`Storage upload of ${key} failed with status ${response.status}`);
+      }
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Storage download of ${key} failed with status ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Storage delete of ${key} failed with status ${response.status}`);
+      }
+    }
+  };
+}
+
+function createDefaultDriver(): StorageDriver {
+  if (process.env['STORAGE_DRIVER'] === 's3') {
+    return createS3StorageDriver({
+      endpoint: process.env['S3_ENDPOINT'] || 'https://s3.amazonaws.com',
+      region: process.env['S3_REGION'] || 'us-east-1',
+      bucket: process.env['S3_BUCKET'] || '',
+      access_key_id: process.env['S3_ACCESS_KEY_ID'] || '',
+      secret_access_key: process.env['S3_SECRET_ACCESS_KEY'] || ''
+    });
+  }
+
+  return createLocalStorageDriver(process.env['STORAGE_DIR'] || './storage');
+}
+
+let driver: StorageDriver | null = null;
+
+export function setStorageDriver(next: StorageDriver | null): void {
+  driver = next;
+}
+
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createDefaultDriver();
+  }
+  return driver;
+}
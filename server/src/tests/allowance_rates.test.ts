@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import {
+  calculateMileage,
+  deleteMileageRate,
+  getMileageRates,
+  getPerDiemRates,
+  setMileageRate,
+  setPerDiemRate
+} from '../handlers/allowance_rates';
+import { createExpense, getExpenseById, processRecurringExpenses, updateExpense } from '../handlers/expenses';
+import { eq } from 'drizzle-orm';
+
+describe('allowance rates', () => {
+  let userId: number;
+  let categoryId: number;
+
+  const expense = (input: Partial<CreateExpenseInput> = {}) => createExpense({
+    user_id: userId,
+    category_id: categoryId,
+    title: 'Customer visit',
+    tags: [],
+    is_recurring: false,
+    expense_date: new Date('2024-03-10'),
+    ...input
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashedpassword', first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+    categoryId = categories[0].id;
+
+    await setMileageRate({ vehicle_type: 'CAR', unit: 'KM', rate: 0.3, effective_from: new Date('2024-01-01') });
+    await setMileageRate({ vehicle_type: 'CAR', unit: 'KM', rate: 0.35, effective_from: new Date('2024-04-01') });
+    await setPerDiemRate({
+      destination: 'de',
+      daily_rate: 28,
+      breakfast_deduction: 5.6,
+      lunch_deduction: 11.2,
+      dinner_deduction: 11.2,
+      effective_from: new Date('2024-01-01')
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should manage rates by hand', async () => {
+    // The same vehicle, unit and day is replaced, not duplicated
+    const rate = await setMileageRate({ vehicle_type: 'CAR', unit: 'KM', rate: 0.32, effective_from: new Date('2024-01-01') });
+    expect(rate).toMatchObject({ vehicle_type: 'CAR', unit: 'KM', rate: 0.32 });
+    expect((await getMileageRates()).map(row => row.rate)).toEqual([0.35, 0.32]);
+
+    const perDiem = await getPerDiemRates();
+    expect(perDiem).toHaveLength(1);
+    expect(perDiem[0]).toMatchObject({ destination: 'DE', daily_rate: 28, breakfast_deduction: 5.6 });
+
+    await expect(setPerDiemRate({
+      destination: 'FR',
+      daily_rate: 20,
+      breakfast_deduction: 0,
+      lunch_deduction: 25,
+      dinner_deduction: 0,
+      effective_from: new Date('2024-01-01')
+    })).rejects.toThrow(/cannot exceed the daily rate/);
+
+    await deleteMileageRate(rate.id);
+    await expect(deleteMileageRate(rate.id)).rejects.toThrow(/not found/);
+  });
+
+  it('should price mileage at the rate in effect on the day', async () => {
+    expect(await calculateMileage({ distance: 100, unit: 'KM', vehicle_type: 'CAR' }, '2024-03-31')).toMatchObject({ amount: 30 });
+    expect(await calculateMileage({ distance: 100, unit: 'KM', vehicle_type: 'CAR' }, '2024-04-01')).toMatchObject({ amount: 35 });
+
+    // A per kilometre rate also prices miles
+    const miles = await calculateMileage({ distance: 10, unit: 'MI', vehicle_type: 'CAR' }, '2024-03-10');
+    expect(miles).toEqual({ amount: 4.83, mileage: { distance: 10, unit: 'MI', vehicle_type: 'CAR', rate: 0.4828 } });
+
+    await expect(calculateMileage({ distance: 10, unit: 'KM', vehicle_type: 'BICYCLE' }, '2024-03-10')).rejects.toThrow('No BICYCLE mileage rate on or before 2024-03-10');
+    await expect(calculateMileage({ distance: 10, unit: 'KM', vehicle_type: 'CAR' }, '2023-12-31')).rejects.toThrow(/No CAR mileage rate/);
+  });
+
+  it('should calculate mileage expenses on the server', async () => {
+    const created = await expense({ expense_type: 'MILEAGE', mileage: { distance: 123.4, unit: 'KM', vehicle_type: 'CAR' } });
+
+    expect(created).toMatchObject({
+      expense_type: 'MILEAGE',
+      amount: 37.02,
+      currency: 'USD',
+      mileage: { distance: 123.4, unit: 'KM', vehicle_type: 'CAR', rate: 0.3 },
+      per_diem: null
+    });
+
+    await expect(expense({ expense_type: 'MILEAGE', amount: 500, mileage: { distance: 10, unit: 'KM', vehicle_type: 'CAR' } }))
+      .rejects.toThrow('The amount of a mileage expense is calculated from the mileage rates in USD');
+    await expect(expense({ expense_type: 'MILEAGE', currency: 'EUR', mileage: { distance: 10, unit: 'KM', vehicle_type: 'CAR' } }))
+      .rejects.toThrow(/calculated from the mileage rates/);
+    await expect(expense({ expense_type: 'MILEAGE' })).rejects.toThrow(/need the distance travelled/);
+    await expect(expense({ amount: 10, mileage: { distance: 10, unit: 'KM', vehicle_type: 'CAR' } })).rejects.toThrow(/standard expense takes no mileage details/);
+    await expect(expense({})).rejects.toThrow('The amount is required');
+  });
+
+  it('should deduct provided meals from the per diem', async () => {
+    const created = await expense({
+      expense_type: 'PER_DIEM',
+      per_diem: { destination: ' De ', days: 3, breakfasts: 2, lunches: 1, dinners: 0 }
+    });
+
+    // 3 x 28 - 2 x 5.60 - 11.20
+    expect(created.amount).toEqual(61.6);
+    expect(created.per_diem).toMatchObject({ destination: 'DE', days: 3, breakfasts: 2, lunches: 1, dinners: 0, daily_rate: 28 });
+
+    await expect(expense({
+      expense_type: 'PER_DIEM',
+      per_diem: { destination: 'DE', days: 1, breakfasts: 1, lunches: 1, dinners: 1 }
+    })).rejects.toThrow(/use up the whole allowance/);
+    await expect(expense({
+      expense_type: 'PER_DIEM',
+      per_diem: { destination: 'Atlantis', days: 1, breakfasts: 0, lunches: 0, dinners: 0 }
+    })).rejects.toThrow('No per diem rate for ATLANTIS on or before 2024-03-10');
+  });
+
+  it('should recalculate when the trip or date changes but never take an amount', async () => {
+    const created = await expense({ draft: true, expense_type: 'MILEAGE', mileage: { distance: 100, unit: 'KM', vehicle_type: 'CAR' } });
+
+    const longer = await updateExpense({ id: created.id, mileage: { distance: 200, unit: 'KM', vehicle_type: 'CAR' } });
+    expect(longer.amount).toEqual(60);
+
+    const later = await updateExpense({ id: created.id, expense_date: new Date('2024-04-02') });
+    expect(later).toMatchObject({ amount: 70, mileage: { distance: 200, rate: 0.35 } });
+
+    await expect(updateExpense({ id: created.id, amount: 1000 })).rejects.toThrow(/calculated from the mileage rates/);
+    await expect(updateExpense({ id: created.id, per_diem: { destination: 'DE', days: 1, breakfasts: 0, lunches: 0, dinners: 0 } }))
+      .rejects.toThrow(/mileage expense takes no per diem details/);
+
+    const details = await getExpenseById(created.id);
+    expect(details).toMatchObject({ amount: 70, expense_type: 'MILEAGE' });
+  });
+
+  it('should recalculate recurring occurrences at their own date', async () => {
+    const commute = await expense({
+      title: 'Weekly site visit',
+      expense_type: 'MILEAGE',
+      mileage: { distance: 40, unit: 'KM', vehicle_type: 'CAR' },
+      expense_date: new Date('2024-03-15'),
+      is_recurring: true,
+      recurring_frequency: 'MONTHLY'
+    });
+
+    await processRecurringExpenses(new Date('2024-04-20'));
+
+    const occurrences = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.recurring_parent_id, commute.id))
+      .execute();
+    expect(occurrences.map(row => [row.expense_type, row.expense_date, row.amount])).toEqual([['MILEAGE', '2024-04-15', '14.00']]);
+    expect(occurrences[0].mileage).toEqual({ distance: 40, unit: 'KM', vehicle_type: 'CAR', rate: 0.35 });
+  });
+});
@@ -0,0 +1,485 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, teamsTable, teamMembersTable, notificationsTable, expenseApprovalStepsTable, expensesTable } from '../db/schema';
+import { createApprovalDelegationInputSchema, createApprovalRuleInputSchema, type AuthUser, type CreateExpenseInput } from '../schema';
+import { createExpense, approveExpense, updateExpense, getPendingApprovals, submitExpense } from '../handlers/expenses';
+import {
+  createApprovalRule,
+  getApprovalRules,
+  updateApprovalRule,
+  deleteApprovalRule,
+  getApprovalSteps,
+  createApprovalDelegation,
+  getApprovalDelegations,
+  deleteApprovalDelegation
+} from '../handlers/approvals';
+import { and, asc, eq, sql } from 'drizzle-orm';
+
+let submitter: AuthUser;
+let manager: AuthUser;
+let finance: AuthUser;
+let otherManager: AuthUser;
+let admin: AuthUser;
+let teamId: number;
+let categoryId: number;
+
+function expenseInput(overrides: Partial<CreateExpenseInput> = {}): CreateExpenseInput {
+  return {
+    user_id: submitter.id,
+    team_id: teamId,
+    category_id: categoryId,
+    title: 'Client dinner',
+    amount: 250,
+    tags: [],
+    is_recurring: false,
+    expense_date: new Date('2024-05-10'),
+    ...overrides
+  };
+}
+
+const decide = (expenseId: number, actor: AuthUser, status: 'APPROVED' | 'REJECTED', comment?: string) =>
+  approveExpense({ expense_id: expenseId, status, approved_by: actor.id, comment }, actor);
+
+function daysFromNow(days: number): Date {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+const notificationsFor = (userId: number) => db.select()
+  .from(notificationsTable)
+  .where(and(eq(notificationsTable.user_id, userId), eq(notificationsTable.type, 'EXPENSE_APPROVAL')))
+  .orderBy(asc(notificationsTable.id))
+  .execute();
+
+describe('approval workflow', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'submitter@example.com', password_hash: 'x', first_name: 'Sam', last_name: 'Submitter', role: 'USER' },
+        { email: 'manager@example.com', password_hash: 'x', first_name: 'Mia', last_name: 'Manager', role: 'MANAGER' },
+        { email: 'finance@example.com', password_hash: 'x', first_name: 'Fin', last_name: 'Ance', role: 'USER' },
+        { email: 'other@example.com', password_hash: 'x', first_name: 'Oli', last_name: 'Other', role: 'MANAGER' },
+        { email: 'admin@example.com', password_hash: 'x', first_name: 'Ada', last_name: 'Admin', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    [submitter, manager, finance, otherManager, admin] = users.map(user => ({ id: user.id, email: user.email, role: user.role }));
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+    await db.insert(teamMembersTable)
+      .values([{ team_id: teamId, user_id: submitter.id }, { team_id: teamId, user_id: manager.id }])
+      .execute();
+
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Meals', color: '#00FF00' })
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('routing', () => {
+    it('should route to the team manager without any rules', async () => {
+      const expense = await createExpense(expenseInput());
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps).toHaveLength(1);
+      expect(steps[0].approver_id).toEqual(manager.id);
+      expect(steps[0].status).toEqual('PENDING');
+
+      const notifications = await notificationsFor(manager.id);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].related_expense_id).toEqual(expense.id);
+    });
+
+    it('should use the submitter\'s team when the expense has none', async () => {
+      const expense = await createExpense(expenseInput({ team_id: null }));
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps[0].approver_id).toEqual(manager.id);
+    });
+
+    it('should add stages above their amount threshold', async () => {
+      await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      await createApprovalRule({ name: 'Finance', step_order: 2, min_amount: 1000, approver_type: 'USER', approver_id: finance.id });
+
+      const small = await createExpense(expenseInput({ amount: 999.99 }));
+      const large = await createExpense(expenseInput({ amount: 1000 }));
+
+      expect((await getApprovalSteps(small.id)).map(s => s.approver_id)).toEqual([manager.id]);
+      expect((await getApprovalSteps(large.id)).map(s => s.approver_id)).toEqual([manager.id, finance.id]);
+    });
+
+    it('should let team rules replace the global ones', async () => {
+      await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      await createApprovalRule({ name: 'Sales finance', team_id: teamId, step_order: 1, min_amount: 0, approver_type: 'USER', approver_id: finance.id });
+
+      const expense = await createExpense(expenseInput());
+
+      expect((await getApprovalSteps(expense.id)).map(s => s.approver_id)).toEqual([finance.id]);
+    });
+
+    it('should only charge and route an expense to a team the submitter belongs to', async () => {
+      const support = await db.insert(teamsTable)
+        .values({ name: 'Support', manager_id: otherManager.id })
+        .returning()
+        .execute();
+      await expect(createExpense(expenseInput({ team_id: support[0].id }))).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      // A team's manager may charge it without being listed as a member
+      await db.update(teamsTable).set({ manager_id: submitter.id }).where(eq(teamsTable.id, support[0].id)).execute();
+      await createExpense(expenseInput({ team_id: support[0].id, draft: true }));
+
+      // Once the submitter leaves the team, its rules and manager no longer apply
+      await createApprovalRule({ name: 'Sales finance', team_id: teamId, step_order: 1, min_amount: 0, approver_type: 'USER', approver_id: finance.id });
+      const expense = await createExpense(expenseInput({ draft: true, allow_duplicate: true }));
+      await db.delete(teamMembersTable).where(eq(teamMembersTable.user_id, submitter.id)).execute();
+      await submitExpense({ id: expense.id });
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps.map(s => s.approver_id)).toEqual([null]);
+    });
+
+    it('should ignore inactive rules', async () => {
+      const rule = await createApprovalRule({ name: 'Finance', step_order: 1, min_amount: 0, approver_type: 'USER', approver_id: finance.id });
+      await updateApprovalRule({ id: rule.id, is_active: false });
+
+      const expense = await createExpense(expenseInput());
+
+      expect((await getApprovalSteps(expense.id)).map(s => s.approver_id)).toEqual([manager.id]);
+    });
+
+    it('should send a manager\'s own expense to the admins', async () => {
+      const expense = await createExpense(expenseInput({ user_id: manager.id }));
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps[0].approver_id).toBeNull();
+      expect(await notificationsFor(admin.id)).toHaveLength(1);
+    });
+  });
+
+  describe('decisions', () => {
+    beforeEach(async () => {
+      await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      await createApprovalRule({ name: 'Finance', step_order: 2, min_amount: 1000, approver_type: 'USER', approver_id: finance.id });
+    });
+
+    it('should approve after every stage has approved', async () => {
+      const expense = await createExpense(expenseInput({ amount: 1500 }));
+
+      const afterManager = await decide(expense.id, manager, 'APPROVED', 'Looks fine');
+      expect(afterManager.status).toEqual('SUBMITTED');
+      expect(afterManager.approved_by).toBeNull();
+      expect(await notificationsFor(finance.id)).toHaveLength(1);
+
+      const afterFinance = await decide(expense.id, finance, 'APPROVED');
+      expect(afterFinance.status).toEqual('APPROVED');
+      expect(afterFinance.approved_by).toEqual(finance.id);
+      expect(afterFinance.approved_at).toBeInstanceOf(Date);
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps.map(s => [s.status, s.decided_by, s.comment])).toEqual([
+        ['APPROVED', manager.id, 'Looks fine'],
+        ['APPROVED', finance.id, null]
+      ]);
+
+      const submitterNotifications = await notificationsFor(submitter.id);
+      expect(submitterNotifications.map(n => n.title)).toEqual(['Expense Approval Progress', 'Expense Approved']);
+    });
+
+    it('should only accept the assigned approver for the current stage', async () => {
+      const expense = await createExpense(expenseInput({ amount: 1500 }));
+
+      await expect(decide(expense.id, finance, 'APPROVED')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(decide(expense.id, otherManager, 'APPROVED')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      await decide(expense.id, manager, 'APPROVED');
+      await expect(decide(expense.id, manager, 'APPROVED')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should let admins decide any stage', async () => {
+      const expense = await createExpense(expenseInput());
+
+      const result = await decide(expense.id, admin, 'APPROVED');
+
+      expect(result.status).toEqual('APPROVED');
+      expect(result.approved_by).toEqual(admin.id);
+    });
+
+    it('should prevent self-approval, even for admins', async () => {
+      const ownExpense = await createExpense(expenseInput({ user_id: manager.id }));
+      await expect(decide(ownExpense.id, manager, 'APPROVED')).rejects.toThrow(/your own expense/i);
+
+      const adminExpense = await createExpense(expenseInput({ user_id: admin.id, team_id: null }));
+      await expect(decide(adminExpense.id, admin, 'APPROVED')).rejects.toThrow(/your own expense/i);
+    });
+
+    it('should reject at any stage and skip the rest', async () => {
+      const expense = await createExpense(expenseInput({ amount: 1500 }));
+
+      const result = await decide(expense.id, manager, 'REJECTED', 'Missing receipt');
+
+      expect(result.status).toEqual('REJECTED');
+      expect(result.approved_by).toEqual(manager.id);
+      expect((await getApprovalSteps(expense.id)).map(s => s.status)).toEqual(['REJECTED', 'SKIPPED']);
+
+      const notifications = await notificationsFor(submitter.id);
+      expect(notifications[0].title).toEqual('Expense Rejected');
+      expect(notifications[0].message).toContain('Missing receipt');
+      expect(await notificationsFor(finance.id)).toHaveLength(0);
+    });
+
+    it('should refuse decisions on expenses that are no longer pending', async () => {
+      const expense = await createExpense(expenseInput());
+      await decide(expense.id, manager, 'APPROVED');
+
+      await expect(decide(expense.id, admin, 'REJECTED')).rejects.toThrow(/only submitted/i);
+    });
+
+    it('should restart the workflow when a rejected expense is resubmitted', async () => {
+      const expense = await createExpense(expenseInput());
+      await decide(expense.id, manager, 'REJECTED');
+
+      await updateExpense({ id: expense.id, description: 'Receipt attached' }, submitter);
+
+      const steps = await getApprovalSteps(expense.id);
+      expect(steps.map(s => s.status)).toEqual(['REJECTED', 'PENDING']);
+
+      const result = await decide(expense.id, manager, 'APPROVED');
+      expect(result.status).toEqual('APPROVED');
+    });
+
+    it('should void earlier approvals when the amount changes', async () => {
+      const expense = await createExpense(expenseInput({ amount: 1500 }));
+      await decide(expense.id, manager, 'APPROVED');
+
+      await updateExpense({ id: expense.id, amount: 1800 }, submitter);
+
+      const pending = await db.select()
+        .from(expenseApprovalStepsTable)
+        .where(and(eq(expenseApprovalStepsTable.expense_id, expense.id), eq(expenseApprovalStepsTable.status, 'PENDING')))
+        .execute();
+      expect(pending.map(s => s.approver_id)).toEqual([manager.id, finance.id]);
+    });
+
+    it('should keep the expense and its steps unchanged when a decision fails partway', async () => {
+      const expense = await createExpense(expenseInput());
+      // Fail the status change, after the step was decided
+      await db.execute(sql`create function block_approval() returns trigger as $$ begin if new.status = 'APPROVED' then raise exception 'approval blocked'; end if; return new; end $$ language plpgsql`);
+      await db.execute(sql`create trigger block_approval before update on expenses for each row execute function block_approval()`);
+
+      await expect(decide(expense.id, manager, 'APPROVED')).rejects.toThrow(/approval blocked/);
+
+      expect((await getApprovalSteps(expense.id)).map(s => s.status)).toEqual(['PENDING']);
+      expect(await notificationsFor(submitter.id)).toHaveLength(0);
+    });
+
+    it('should not save an expense whose workflow cannot start', async () => {
+      await db.execute(sql`create function block_steps() returns trigger as $$ begin raise exception 'steps blocked'; end $$ language plpgsql`);
+      await db.execute(sql`create trigger block_steps before insert on expense_approval_steps for each row execute function block_steps()`);
+
+      await expect(createExpense(expenseInput())).rejects.toThrow(/steps blocked/);
+
+      expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+    });
+  });
+
+  describe('pending approvals', () => {
+    it('should list expenses waiting on the user\'s current stage only', async () => {
+      await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      await createApprovalRule({ name: 'Finance', step_order: 2, min_amount: 1000, approver_type: 'USER', approver_id: finance.id });
+      const expense = await createExpense(expenseInput({ amount: 1500 }));
+
+      expect((await getPendingApprovals(manager)).map(e => e.id)).toEqual([expense.id]);
+      expect(await getPendingApprovals(finance)).toEqual([]);
+
+      await decide(expense.id, manager, 'APPROVED');
+
+      expect(await getPendingApprovals(manager)).toEqual([]);
+      expect((await getPendingApprovals(finance)).map(e => e.id)).toEqual([expense.id]);
+    });
+
+    it('should show admins every pending stage except their own expenses', async () => {
+      const expense = await createExpense(expenseInput());
+      await createExpense(expenseInput({ user_id: admin.id, team_id: null }));
+
+      expect((await getPendingApprovals(admin)).map(e => e.id)).toEqual([expense.id]);
+    });
+  });
+
+  describe('rules', () => {
+    it('should require an approver for USER rules', async () => {
+      const parsed = createApprovalRuleInputSchema.safeParse({ name: 'Finance', step_order: 1, approver_type: 'USER' });
+      expect(parsed.success).toBe(false);
+
+      const rule = await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      await expect(updateApprovalRule({ id: rule.id, approver_type: 'USER' })).rejects.toThrow(/approver_id/i);
+    });
+
+    it('should list, update and delete rules', async () => {
+      const global = await createApprovalRule({ name: 'Manager', step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' });
+      const team = await createApprovalRule({ name: 'Finance', team_id: teamId, step_order: 2, min_amount: 500, approver_type: 'USER', approver_id: finance.id });
+
+      expect((await getApprovalRules()).map(r => r.id)).toEqual([global.id, team.id]);
+      expect((await getApprovalRules(teamId)).map(r => r.id)).toEqual([team.id]);
+
+      const updated = await updateApprovalRule({ id: team.id, min_amount: 750.5 });
+      expect(updated.min_amount).toEqual(750.5);
+      expect(updated.approver_id).toEqual(finance.id);
+
+      await deleteApprovalRule(global.id);
+      await expect(deleteApprovalRule(global.id)).rejects.toThrow(/not found/i);
+    });
+
+    it('should validate the team and approver', async () => {
+      await expect(createApprovalRule({ name: 'Ghost team', team_id: 99999, step_order: 1, min_amount: 0, approver_type: 'TEAM_MANAGER' }))
+        .rejects.toThrow(/not found/i);
+      await expect(createApprovalRule({ name: 'Ghost', step_order: 1, min_amount: 0, approver_type: 'USER', approver_id: 99999 }))
+        .rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('delegation', () => {
+    let deputy: AuthUser;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable)
+        .values({ email: 'deputy@example.com', password_hash: 'x', first_name: 'Dee', last_name: 'Puty', role: 'MANAGER' })
+        .returning()
+        .execute();
+      deputy = { id: users[0].id, email: users[0].email, role: 'MANAGER' };
+    });
+
+    const delegate = (overrides: { team_id?: number | null; starts_on?: Date; ends_on?: Date } = {}) =>
+      createApprovalDelegation({
+        delegate_id: deputy.id,
+        starts_on: daysFromNow(-1),
+        ends_on: daysFromNow(1),
+        ...overrides
+      }, manager);
+
+    it('should route approvals to both the approver and the delegate', async () => {
+      await delegate();
+
+      const expense = await createExpense(expenseInput());
+
+      expect((await notificationsFor(manager.id)).map(n => n.related_expense_id)).toEqual([expense.id]);
+      expect((await notificationsFor(deputy.id)).map(n => n.related_expense_id)).toEqual([expense.id]);
+      expect((await getPendingApprovals(deputy)).map(e => e.id)).toEqual([expense.id]);
+    });
+
+    it('should record decisions by the delegate on behalf of the approver', async () => {
+      await delegate();
+      const expense = await createExpense(expenseInput());
+
+      const result = await decide(expense.id, deputy, 'APPROVED');
+
+      expect(result.status).toEqual('APPROVED');
+      expect(result.approved_by).toEqual(deputy.id);
+
+      const [step] = await getApprovalSteps(expense.id);
+      expect(step.decided_by).toEqual(deputy.id);
+      expect(step.on_behalf_of).toEqual(manager.id);
+
+      const [approved] = await notificationsFor(submitter.id);
+      expect(approved.message).toContain('approved by Dee Puty on behalf of Mia Manager');
+
+      const managerNotifications = await notificationsFor(manager.id);
+      expect(managerNotifications.map(n => n.title)).toContain('Expense Decided on Your Behalf');
+    });
+
+    it('should leave the approver able to decide directly', async () => {
+      await delegate();
+      const expense = await createExpense(expenseInput());
+
+      await decide(expense.id, manager, 'REJECTED');
+
+      const [step] = await getApprovalSteps(expense.id);
+      expect(step.on_behalf_of).toBeNull();
+    });
+
+    it('should only apply within the date range', async () => {
+      await delegate({ starts_on: daysFromNow(-10), ends_on: daysFromNow(-1) });
+      await delegate({ starts_on: daysFromNow(1), ends_on: daysFromNow(10) });
+      const expense = await createExpense(expenseInput());
+
+      expect(await notificationsFor(deputy.id)).toHaveLength(0);
+      expect(await getPendingApprovals(deputy)).toEqual([]);
+      await expect(decide(expense.id, deputy, 'APPROVED')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should respect the team scope', async () => {
+      const otherTeam = await db.insert(teamsTable)
+        .values({ name: 'Support', manager_id: manager.id })
+        .returning()
+        .execute();
+      await db.insert(teamMembersTable).values({ team_id: otherTeam[0].id, user_id: submitter.id }).execute();
+      await delegate({ team_id: otherTeam[0].id });
+
+      const salesExpense = await createExpense(expenseInput());
+      const supportExpense = await createExpense(expenseInput({ team_id: otherTeam[0].id, allow_duplicate: true }));
+
+      await expect(decide(salesExpense.id, deputy, 'APPROVED')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect((await getPendingApprovals(deputy)).map(e => e.id)).toEqual([supportExpense.id]);
+      expect((await decide(supportExpense.id, deputy, 'APPROVED')).status).toEqual('APPROVED');
+    });
+
+    it('should not let a delegate approve their own expense', async () => {
+      await delegate();
+      await db.insert(teamMembersTable).values({ team_id: teamId, user_id: deputy.id }).execute();
+
+      const expense = await createExpense(expenseInput({ user_id: deputy.id }));
+
+      expect(await notificationsFor(deputy.id)).toHaveLength(0);
+      await expect(decide(expense.id, deputy, 'APPROVED')).rejects.toThrow(/your own expense/i);
+    });
+
+    it('should validate who may set up and remove delegations', async () => {
+      await expect(createApprovalDelegation({
+        delegator_id: manager.id,
+        delegate_id: deputy.id,
+        starts_on: daysFromNow(0),
+        ends_on: daysFromNow(1)
+      }, submitter)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const byAdmin = await createApprovalDelegation({
+        delegator_id: manager.id,
+        delegate_id: deputy.id,
+        starts_on: daysFromNow(0),
+        ends_on: daysFromNow(1)
+      }, admin);
+      expect(byAdmin.delegator_id).toEqual(manager.id);
+
+      await expect(createApprovalDelegation({
+        delegate_id: manager.id,
+        starts_on: daysFromNow(0),
+        ends_on: daysFromNow(1)
+      }, manager)).rejects.toThrow(/yourself/i);
+
+      expect((await getApprovalDelegations(deputy)).map(d => d.id)).toEqual([byAdmin.id]);
+      expect(await getApprovalDelegations(submitter)).toEqual([]);
+
+      await expect(deleteApprovalDelegation(byAdmin.id, deputy)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(await deleteApprovalDelegation(byAdmin.id, manager)).toEqual({ success: true });
+      await expect(deleteApprovalDelegation(byAdmin.id, manager)).rejects.toThrow(/not found/i);
+    });
+
+    it('should reject ranges that end before they start', () => {
+      const parsed = createApprovalDelegationInputSchema.safeParse({
+        delegate_id: 2,
+        starts_on: '2024-06-10',
+        ends_on: '2024-06-01'
+      });
+      expect(parsed.success).toBe(false);
+    });
+  });
+});
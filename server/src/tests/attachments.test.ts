@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { startMockS3, type MockS3 } from '../helpers/mock_s3';
+import { db } from '../db';
+import { categoriesTable, expensesTable, receiptFilesTable, usersTable } from '../db/schema';
+import { type AuthUser, type ReceiptContentType } from '../schema';
+import { createLocalStorageDriver, createS3StorageDriver, setStorageDriver } from '../storage';
+import {
+  deleteAttachment,
+  getExpenseAttachments,
+  getReceiptContent,
+  getReceiptDownloadUrl,
+  pruneReceiptFiles,
+  uploadReceipt,
+  verifyReceiptDownload
+} from '../handlers/attachments';
+import { deleteExpense, getExpenseById } from '../handlers/expenses';
+import { eq } from 'drizzle-orm';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('png receipt')]);
+const PDF = Buffer.from('%PDF-1.7\nreceipt');
+
+const upload = (expenseId: number, data: Buffer, actor: AuthUser, contentType: ReceiptContentType = 'image/png', filename = 'receipt.png') =>
+  uploadReceipt({ expense_id: expenseId, filename, content_type: contentType, data: data.toString('base64') }, actor);
+
+async function listFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { recursive: true, withFileTypes: true });
+  return entries.filter(entry => entry.isFile()).map(entry => entry.name);
+}
+
+describe('receipt attachments', () => {
+  let directory: string;
+  let owner: AuthUser;
+  let other: AuthUser;
+  let expenseId: number;
+  let secondExpenseId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    directory = await mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    setStorageDriver(createLocalStorageDriver(directory));
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Olga', last_name: 'Owner' },
+        { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Otto', last_name: 'Other' }
+      ])
+      .returning()
+      .execute();
+    [owner, other] = users.map(user => ({ id: user.id, email: user.email, role: user.role }));
+
+    const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+    const expenses = await db.insert(expensesTable)
+      .values([
+        { user_id: owner.id, category_id: categories[0].id, title: 'Hotel', amount: '120.00', expense_date: '2024-03-01' },
+        { user_id: owner.id, category_id: categories[0].id, title: 'Taxi', amount: '30.00', expense_date: '2024-03-02' }
+      ])
+      .returning()
+      .execute();
+    [expenseId, secondExpenseId] = expenses.map(expense => expense.id);
+  });
+
+  afterEach(async () => {
+    setStorageDriver(null);
+    await rm(directory, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should store several attachments per expense', async () => {
+    const png = await upload(expenseId, PNG, owner);
+    const pdf = await upload(expenseId, PDF, owner, 'application/pdf', 'invoice.pdf');
+
+    expect(png.content_type).toEqual('image/png');
+    expect(png.size).toEqual(PNG.length);
+    expect(png.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(png.uploaded_by).toEqual(owner.id);
+
+    const attachments = await getExpenseAttachments(expenseId, owner);
+    expect(attachments.map(attachment => attachment.filename)).toEqual(['receipt.png', 'invoice.pdf']);
+    expect((await getExpenseById(expenseId))!.attachments.map(attachment => attachment.id)).toEqual([png.id, pdf.id]);
+    expect(await listFiles(directory)).toHaveLength(2);
+  });
+
+  it('should store identical content only once', async () => {
+    const first = await upload(expenseId, PNG, owner);
+    const again = await upload(expenseId, PNG, owner, 'image/png', 'copy.png');
+    const elsewhere = await upload(secondExpenseId, PNG, owner);
+
+    expect(again.id).toEqual(first.id);
+    expect(elsewhere.id).not.toEqual(first.id);
+    expect(elsewhere.sha256).toEqual(first.sha256);
+    expect(await db.select().from(receiptFilesTable).execute()).toHaveLength(1);
+    expect(await listFiles(directory)).toHaveLength(1);
+  });
+
+  it('should reject files that are empty, too large or not what they claim', async () => {
+    await expect(upload(expenseId, Buffer.alloc(0), owner)).rejects.toThrow(/empty/i);
+    await expect(upload(expenseId, PDF, owner, 'image/png')).rejects.toThrow(/does not match/i);
+    await expect(upload(expenseId, Buffer.from('<html>not a receipt</html>'), owner, 'image/jpeg')).rejects.toThrow(/does not match/i);
+
+    const huge = Buffer.concat([PDF, Buffer.alloc(10 * 1024 * 1024)]);
+    await expect(upload(expenseId, huge, owner, 'application/pdf')).rejects.toThrow(/at most 10 MB/);
+
+    expect(await listFiles(directory)).toHaveLength(0);
+  });
+
+  it('should only let the owner change attachments while the expense is editable', async () => {
+    await expect(upload(expenseId, PNG, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(getExpenseAttachments(expenseId, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const attachment = await upload(expenseId, PNG, owner);
+    await db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, expenseId)).execute();
+
+    await expect(upload(expenseId, PDF, owner, 'application/pdf')).rejects.toThrow(/reopen the expense first/);
+    await expect(deleteAttachment(attachment.id, owner)).rejects.toThrow(/reopen the expense first/);
+  });
+
+  it('should delete the stored file with its last attachment', async () => {
+    const first = await upload(expenseId, PNG, owner);
+    const second = await upload(secondExpenseId, PNG, owner);
+
+    await deleteAttachment(first.id, owner);
+    expect(await getExpenseAttachments(expenseId, owner)).toHaveLength(0);
+    expect(await listFiles(directory)).toHaveLength(1);
+
+    await deleteAttachment(second.id, owner);
+    expect(await db.select().from(receiptFilesTable).execute()).toHaveLength(0);
+    expect(await listFiles(directory)).toHaveLength(0);
+
+    await expect(deleteAttachment(second.id, owner)).rejects.toThrow(/not found/i);
+  });
+
+  it('should prune files left behind by deleted expenses', async () => {
+    await upload(expenseId, PNG, owner);
+    await deleteExpense(expenseId, owner);
+
+    // Recent files are kept, an upload may still be attaching them
+    expect(await pruneReceiptFiles()).toEqual({ deleted: 0 });
+
+    await db.update(receiptFilesTable).set({ created_at: new Date(Date.now() - 2 * 60 * 60 * 1000) }).execute();
+    expect(await pruneReceiptFiles()).toEqual({ deleted: 1 });
+    expect(await listFiles(directory)).toHaveLength(0);
+  });
+
+  it('should issue download links that expire and cannot be altered', async () => {
+    const attachment = await upload(expenseId, PNG, owner);
+    await expect(getReceiptDownloadUrl({ id: attachment.id, expires_in: 600 }, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const link = await getReceiptDownloadUrl({ id: attachment.id, expires_in: 600 }, owner);
+    const url = new URL(link.url);
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toEqual(`/api/receipts/${attachment.id}`);
+    expect(link.expires_at.getTime()).toEqual(expires * 1000);
+    expect(verifyReceiptDownload(attachment.id, expires, signature)).toBe(true);
+    expect(verifyReceiptDownload(attachment.id + 1, expires, signature)).toBe(false);
+    expect(verifyReceiptDownload(attachment.id, expires + 3600, signature)).toBe(false);
+    expect(verifyReceiptDownload(attachment.id, expires, 'forged')).toBe(false);
+
+    const expired = await getReceiptDownloadUrl({ id: attachment.id, expires_in: 60 }, owner);
+    const expiredUrl = new URL(expired.url);
+    const expiredAt = Number(expiredUrl.searchParams.get('expires'));
+    const originalNow = Date.now;
+    Date.now = () => expiredAt * 1000 + 1000;
+    try {
+      expect(verifyReceiptDownload(attachment.id, expiredAt, expiredUrl.searchParams.get('signature')!)).toBe(false);
+    } finally {
+      Date.now = originalNow;
+    }
+
+    // The configured base keeps its path
+    process.env['API_URL'] = 'https://expenses.example.com/tracker/api/';
+    try {
+      const proxied = await getReceiptDownloadUrl({ id: attachment.id, expires_in: 600 }, owner);
+      expect(proxied.url).toStartWith(`https://expenses.example.com/tracker/api/receipts/${attachment.id}?expires=`);
+    } finally {
+      delete process.env['API_URL'];
+    }
+
+    const content = await getReceiptContent(attachment.id);
+    expect(content!.data.equals(PNG)).toBe(true);
+    expect(content!.content_type).toEqual('image/png');
+    expect(content!.filename).toEqual('receipt.png');
+    expect(await getReceiptContent(99999)).toBeNull();
+  });
+});
+
+describe('storage drivers', () => {
+  let s3: MockS3;
+
+  beforeEach(() => {
+    s3 = startMockS3();
+  });
+
+  afterEach(() => {
+    s3.stop();
+  });
+
+  it('should keep local files inside the storage directory', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    try {
+      const driver = createLocalStorageDriver(directory);
+      await driver.put('receipts/ab/abc', PNG, 'image/png');
+
+      expect((await driver.get('receipts/ab/abc'))!.equals(PNG)).toBe(true);
+      expect(await driver.get('receipts/ab/missing')).toBeNull();
+      await expect(driver.put('../escape', PNG, 'image/png')).rejects.toThrow(/Invalid storage key/);
+
+      await driver.delete('receipts/ab/abc');
+      expect(await driver.get('receipts/ab/abc')).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should sign requests to an S3-compatible server', async () => {
+    const driver = createS3StorageDriver(s3);
+
+    await driver.put('receipts/ab/abc', PDF, 'application/pdf');
+    expect(s3.objects.get('receipts/ab/abc')!.content_type).toEqual('application/pdf');
+    expect((await driver.get('receipts/ab/abc'))!.equals(PDF)).toBe(true);
+    expect(await driver.get('receipts/ab/missing')).toBeNull();
+
+    await driver.delete('receipts/ab/abc');
+    expect(s3.objects.size).toEqual(0);
+  });
+
+  it('should surface S3 errors', async () => {
+    const driver = createS3StorageDriver({ ...s3, secret_access_key: 'wrong-secret' });
+
+    await expect(driver.put('receipts/ab/abc', PDF, 'application/pdf')).rejects.toThrow(/status 403/);
+    expect(s3.objects.size).toEqual(0);
+  });
+
+  it('should store uploads through the S3 driver', async () => {
+    await createDB();
+    setStorageDriver(createS3StorageDriver(s3));
+    try {
+      const users = await db.insert(usersTable)
+        .values({ email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Olga', last_name: 'Owner' })
+        .returning()
+        .execute();
+      const owner: AuthUser = { id: users[0].id, email: users[0].email, role: users[0].role };
+      const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+      const expenses = await db.insert(expensesTable)
+        .values({ user_id: owner.id, category_id: categories[0].id, title: 'Hotel', amount: '120.00', expense_date: '2024-03-01' })
+        .returning()
+        .execute();
+
+      const attachment = await upload(expenses[0].id, PNG, owner);
+
+      expect(s3.objects.has(`receipts/${attachment.sha256.slice(0, 2)}/${attachment.sha256}`)).toBe(true);
+      expect((await getReceiptContent(attachment.id))!.data.equals(PNG)).toBe(true);
+    } finally {
+      setStorageDriver(null);
+      await resetDB();
+    }
+  });
+});
@@ -1,13 +1,29 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, userTokensTable, mailOutboxTable } from '../db/schema';
 import { type CreateUserInput, type LoginInput } from '../schema';
-import { registerUser, loginUser, verifyEmail, resetPassword, changePassword } from '../handlers/auth';
+import { registerUser, loginUser, verifyEmail, resendVerificationEmail, requestPasswordReset, confirmPasswordReset, changePassword, authenticateToken } from '../handlers/auth';
+import { requireSecret } from '../utils/tokens';
 import { eq } from 'drizzle-orm';
 import * as crypto from 'crypto';
 
-const JWT_SECRET = process.env['JWT_SECRET'] || 'default-secret-key-for-testing';
+const JWT_SECRET = requireSecret('JWT_SECRET');
+
+// Helper function to log in an account without two-factor authentication
+async function passwordLogin(input: LoginInput) {
+  const result = await loginUser(input);
+  if (result.two_factor_required) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+}
+
+// Helper function to read the password hash the API no longer returns
+async function storedHash(userId: number): Promise<string> {
+  const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+  return users[0].password_hash;
+}
 
 // Helper function to verify JWT token format and decode payload
 function decodeJWT(token: string): any {
@@ -51,11 +67,27 @@ function createTestJWT(payload: object, expiresInMs: number): string {
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 }
 
-// Helper function to verify password hash
+// Helper function to verify a `$scrypt$v=1$ln=<n>,r=<r>,p=<p>$<salt>$<hash>` password hash
 function verifyPasswordHash(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+  const [, , , params, salt, hash] = hashedPassword.split('$');
+  const { ln, r, p } = Object.fromEntries(params.split(',').map(pair => {
+    const [name, value] = pair.split('=');
+    return [name, Number(value)];
+  }));
+  const expected = Buffer.from(hash, 'base64');
+  const verifyHash = crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: 2 ** ln, r, p, maxmem: 256 * 2 ** ln * r
+  });
+  return verifyHash.equals(expected);
+}
+
+// Helper function to pull the token out of a link in an outbox email
+function extractToken(body: string): string {
+  const match = /[?&]token=([^\s&]+)/.exec(body);
+  if (!match) {
+    throw new Error('No token link in email');
+  }
+  return decodeURIComponent(match[1]);
 }
 
 // Test inputs
@@ -91,10 +123,8 @@ describe('Authentication Handlers', () => {
       expect(result.created_at).toBeInstanceOf(Date);
       expect(result.updated_at).toBeInstanceOf(Date);
 
-      // Verify password is hashed (not plain text)
-      expect(result.password_hash).not.toEqual('password123');
-      expect(result.password_hash.includes(':')).toBe(true);
-      expect(result.password_hash.length).toBeGreaterThan(50);
+      // The hash stays on the server
+      expect(result).not.toHaveProperty('password_hash');
     });
 
     it('should save user to database with correct password hash', async () => {
@@ -171,7 +201,7 @@ describe('Authentication Handlers', () => {
     });
 
     it('should login user with valid credentials', async () => {
-      const result = await loginUser(testLoginInput);
+      const result = await passwordLogin(testLoginInput);
 
       // Verify user data
       expect(result.user.email).toEqual('test@example.com');
@@ -179,6 +209,7 @@ describe('Authentication Handlers', () => {
       expect(result.user.last_name).toEqual('Doe');
       expect(result.user.role).toEqual('USER');
       expect(result.user.is_active).toBe(true);
+      expect(result.user).not.toHaveProperty('password_hash');
 
       // Verify token is provided
       expect(result.token).toBeDefined();
@@ -187,16 +218,24 @@ describe('Authentication Handlers', () => {
     });
 
     it('should generate valid JWT token', async () => {
-      const result = await loginUser(testLoginInput);
+      const result = await passwordLogin(testLoginInput);
 
       // Verify token can be decoded
       const decoded = decodeJWT(result.token);
       expect(decoded.userId).toEqual(result.user.id);
       expect(decoded.email).toEqual('test@example.com');
       expect(decoded.role).toEqual('USER');
+      expect(decoded.sid).toBeDefined(); // Bound session
       expect(decoded.exp).toBeDefined(); // Expiration time
     });
 
+    it('should issue a refresh token', async () => {
+      const result = await passwordLogin(testLoginInput);
+
+      expect(typeof result.refresh_token).toBe('string');
+      expect(result.refresh_token.length).toBeGreaterThan(20);
+    });
+
     it('should throw error with invalid email', async () => {
       const invalidInput = {
         email: 'nonexistent@example.com',
@@ -227,6 +266,16 @@ describe('Authentication Handlers', () => {
       await expect(loginUser(testLoginInput))
         .rejects.toThrow(/account is deactivated/i);
     });
+
+    it('should not reveal a deactivated account to a wrong password', async () => {
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, 'test@example.com'))
+        .execute();
+
+      await expect(loginUser({ ...testLoginInput, password: 'wrongpassword' }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
   });
 
   describe('verifyEmail', () => {
@@ -237,9 +286,25 @@ describe('Authentication Handlers', () => {
       testUserId = user.id;
     });
 
+    async function latestVerificationToken(): Promise<string> {
+      const mail = await db.select().from(mailOutboxTable).execute();
+      const verification = mail.filter(m => m.subject === 'Verify your email address');
+      return extractToken(verification[verification.length - 1].body);
+    }
+
+    it('should email a verification link on registration', async () => {
+      const tokens = await db.select().from(userTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].purpose).toEqual('EMAIL_VERIFICATION');
+      expect(tokens[0].user_id).toEqual(testUserId);
+
+      const mail = await db.select().from(mailOutboxTable).execute();
+      expect(mail[0].to_address).toEqual('test@example.com');
+      expect(mail[0].body).toContain('/verify-email?token=');
+    });
+
     it('should verify email with valid token', async () => {
-      // Generate verification token
-      const token = createTestJWT({ userId: testUserId }, 60 * 60 * 1000); // 1 hour
+      const token = await latestVerificationToken();
 
       const result = await verifyEmail(token);
       expect(result.success).toBe(true);
@@ -261,49 +326,195 @@ describe('Authentication Handlers', () => {
     });
 
     it('should throw error with expired token', async () => {
-      // Generate expired token
-      const expiredToken = createTestJWT(
-        { userId: testUserId }, 
-        -60 * 60 * 1000 // Already expired (negative time)
-      );
+      const token = await latestVerificationToken();
+      await db.update(userTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
 
-      await expect(verifyEmail(expiredToken))
-        .rejects.toThrow();
+      await expect(verifyEmail(token))
+        .rejects.toThrow(/invalid or expired token/i);
     });
 
-    it('should throw error for non-existent user', async () => {
-      // Generate token for non-existent user
-      const token = createTestJWT({ userId: 999999 }, 60 * 60 * 1000);
+    it('should reject login tokens', async () => {
+      const { token } = await passwordLogin(testLoginInput);
 
       await expect(verifyEmail(token))
-        .rejects.toThrow(/user not found/i);
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+
+    it('should reject password reset tokens', async () => {
+      await requestPasswordReset('test@example.com');
+      const mail = await db.select().from(mailOutboxTable).execute();
+      const resetToken = extractToken(mail[mail.length - 1].body);
+
+      await expect(verifyEmail(resetToken))
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+
+    it('should only accept a token once', async () => {
+      const token = await latestVerificationToken();
+      await verifyEmail(token);
+
+      await expect(verifyEmail(token))
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    let testUserId: number;
+
+    beforeEach(async () => {
+      const user = await registerUser(testUserInput);
+      testUserId = user.id;
+
+      // Age the registration email past the cooldown window
+      await db.update(userTokensTable)
+        .set({ created_at: new Date(Date.now() - 5 * 60 * 1000) })
+        .execute();
+    });
+
+    it('should send a fresh token and invalidate the previous one', async () => {
+      const mailBefore = await db.select().from(mailOutboxTable).execute();
+      const firstToken = extractToken(mailBefore[0].body);
+
+      const result = await resendVerificationEmail(testUserId);
+      expect(result.success).toBe(true);
+
+      const mailAfter = await db.select().from(mailOutboxTable).execute();
+      expect(mailAfter).toHaveLength(2);
+      const secondToken = extractToken(mailAfter[1].body);
+
+      await expect(verifyEmail(firstToken)).rejects.toThrow(/invalid or expired token/i);
+      expect((await verifyEmail(secondToken)).success).toBe(true);
+    });
+
+    it('should rate limit repeated requests', async () => {
+      await resendVerificationEmail(testUserId);
+
+      await expect(resendVerificationEmail(testUserId))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should enforce a daily cap', async () => {
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+      for (let i = 0; i < 4; i++) {
+        await resendVerificationEmail(testUserId);
+        await db.update(userTokensTable)
+          .set({ created_at: hourAgo })
+          .execute();
+      }
+
+      await expect(resendVerificationEmail(testUserId))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should refuse when already verified', async () => {
+      await db.update(usersTable)
+        .set({ is_email_verified: true })
+        .where(eq(usersTable.id, testUserId))
+        .execute();
+
+      await expect(resendVerificationEmail(testUserId))
+        .rejects.toThrow(/already verified/i);
     });
   });
 
-  describe('resetPassword', () => {
+  describe('requestPasswordReset', () => {
     beforeEach(async () => {
       await registerUser(testUserInput);
     });
 
     it('should initiate password reset for existing user', async () => {
-      const result = await resetPassword('test@example.com');
+      const result = await requestPasswordReset('test@example.com');
       expect(result.success).toBe(true);
     });
 
-    it('should throw error for non-existent user', async () => {
-      await expect(resetPassword('nonexistent@example.com'))
-        .rejects.toThrow(/user not found/i);
+    it('should store only a hash of the reset token and email the link', async () => {
+      await requestPasswordReset('test@example.com');
+
+      const tokens = await db.select()
+        .from(userTokensTable)
+        .where(eq(userTokensTable.purpose, 'PASSWORD_RESET'))
+        .execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].used_at).toBeNull();
+
+      const mail = await db.select()
+        .from(mailOutboxTable)
+        .where(eq(mailOutboxTable.subject, 'Reset your password'))
+        .execute();
+      expect(mail).toHaveLength(1);
+      expect(mail[0].to_address).toEqual('test@example.com');
+      const token = extractToken(mail[0].body);
+      expect(token).not.toEqual(tokens[0].token_hash);
     });
 
-    it('should throw error for deactivated user', async () => {
-      // Deactivate user
+    it('should answer the same for unknown and deactivated accounts without sending mail', async () => {
+      expect(await requestPasswordReset('nonexistent@example.com')).toEqual({ success: true });
+
       await db.update(usersTable)
         .set({ is_active: false })
         .where(eq(usersTable.email, 'test@example.com'))
         .execute();
+      expect(await requestPasswordReset('test@example.com')).toEqual({ success: true });
 
-      await expect(resetPassword('test@example.com'))
-        .rejects.toThrow(/account is deactivated/i);
+      expect(await db.select().from(mailOutboxTable).where(eq(mailOutboxTable.subject, 'Reset your password')).execute()).toHaveLength(0);
+    });
+  });
+
+  describe('confirmPasswordReset', () => {
+    beforeEach(async () => {
+      await registerUser(testUserInput);
+    });
+
+    async function requestToken(): Promise<string> {
+      await requestPasswordReset('test@example.com');
+      const mail = await db.select().from(mailOutboxTable).execute();
+      return extractToken(mail[mail.length - 1].body);
+    }
+
+    it('should set the new password and end existing sessions', async () => {
+      const { token: accessToken } = await passwordLogin(testLoginInput);
+      const resetToken = await requestToken();
+
+      const result = await confirmPasswordReset({ token: resetToken, new_password: 'brandnewpass1' });
+      expect(result.success).toBe(true);
+
+      const login = await passwordLogin({ email: 'test@example.com', password: 'brandnewpass1' });
+      expect(login.token).toBeDefined();
+      expect(await authenticateToken(accessToken)).toBeNull();
+    });
+
+    it('should only accept a token once', async () => {
+      const resetToken = await requestToken();
+      await confirmPasswordReset({ token: resetToken, new_password: 'brandnewpass1' });
+
+      await expect(confirmPasswordReset({ token: resetToken, new_password: 'anotherpass2' }))
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      const resetToken = await requestToken();
+      await db.update(userTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(confirmPasswordReset({ token: resetToken, new_password: 'brandnewpass1' }))
+        .rejects.toThrow(/invalid or expired token/i);
+    });
+
+    it('should invalidate earlier tokens when a new one is requested', async () => {
+      const first = await requestToken();
+      const second = await requestToken();
+
+      await expect(confirmPasswordReset({ token: first, new_password: 'brandnewpass1' }))
+        .rejects.toThrow(/invalid or expired token/i);
+      expect((await confirmPasswordReset({ token: second, new_password: 'brandnewpass1' })).success).toBe(true);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(confirmPasswordReset({ token: 'made-up-token', new_password: 'brandnewpass1' }))
+        .rejects.toThrow(/invalid or expired token/i);
     });
   });
 
@@ -318,11 +529,11 @@ describe('Authentication Handlers', () => {
     it('should change user password successfully', async () => {
       const newPassword = 'newpassword456';
       
-      const result = await changePassword(testUserId, newPassword);
+      const result = await changePassword(testUserId, { current_password: 'password123', new_password: newPassword });
       expect(result.success).toBe(true);
 
       // Verify new password works for login
-      const loginResult = await loginUser({
+      const loginResult = await passwordLogin({
         email: 'test@example.com',
         password: newPassword
       });
@@ -334,7 +545,7 @@ describe('Authentication Handlers', () => {
     it('should hash the new password correctly', async () => {
       const newPassword = 'newpassword456';
       
-      await changePassword(testUserId, newPassword);
+      await changePassword(testUserId, { current_password: 'password123', new_password: newPassword });
 
       // Check that password is properly hashed in database
       const users = await db.select()
@@ -355,7 +566,7 @@ describe('Authentication Handlers', () => {
     it('should invalidate old password after change', async () => {
       const newPassword = 'newpassword456';
       
-      await changePassword(testUserId, newPassword);
+      await changePassword(testUserId, { current_password: 'password123', new_password: newPassword });
 
       // Old password should no longer work
       await expect(loginUser({
@@ -365,20 +576,102 @@ describe('Authentication Handlers', () => {
     });
 
     it('should throw error for non-existent user', async () => {
-      await expect(changePassword(999999, 'newpassword'))
+      await expect(changePassword(999999, { current_password: 'password123', new_password: 'newpassword' }))
         .rejects.toThrow(/user not found/i);
     });
+
+    it('should require the current password', async () => {
+      await expect(changePassword(testUserId, { current_password: 'wrongpassword', new_password: 'newpassword456' }))
+        .rejects.toThrow(/current password is incorrect/i);
+
+      // Password is unchanged
+      const loginResult = await passwordLogin(testLoginInput);
+      expect(loginResult.token).toBeDefined();
+    });
+
+    it('should end other sessions but keep the current one', async () => {
+      const current = await passwordLogin(testLoginInput);
+      const other = await passwordLogin(testLoginInput);
+      const currentAuth = await authenticateToken(current.token);
+
+      await changePassword(testUserId, { current_password: 'password123', new_password: 'newpassword456' }, currentAuth!.session_id);
+
+      expect(await authenticateToken(current.token)).not.toBeNull();
+      expect(await authenticateToken(other.token)).toBeNull();
+    });
+  });
+
+  describe('authenticateToken', () => {
+    it('should resolve the caller from a login token', async () => {
+      const user = await registerUser(testUserInput);
+      const { token } = await passwordLogin(testLoginInput);
+
+      const result = await authenticateToken(token);
+
+      expect(result?.user).toEqual({ id: user.id, email: 'test@example.com', role: 'USER' });
+      expect(result?.session_id).toEqual(decodeJWT(token).sid);
+    });
+
+    it('should reflect the current role from the database', async () => {
+      const user = await registerUser(testUserInput);
+      const { token } = await passwordLogin(testLoginInput);
+
+      await db.update(usersTable)
+        .set({ role: 'MANAGER' })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      const result = await authenticateToken(token);
+      expect(result?.user.role).toEqual('MANAGER');
+    });
+
+    it('should return null for deactivated users', async () => {
+      const user = await registerUser(testUserInput);
+      const { token } = await passwordLogin(testLoginInput);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(await authenticateToken(token)).toBeNull();
+    });
+
+    it('should return null for purpose-scoped tokens', async () => {
+      const user = await registerUser(testUserInput);
+      const resetToken = createTestJWT({ userId: user.id, type: 'password-reset' }, 60 * 60 * 1000);
+
+      expect(await authenticateToken(resetToken)).toBeNull();
+    });
+
+    it('should return null for tokens without a session', async () => {
+      const user = await registerUser(testUserInput);
+      const sessionlessToken = createTestJWT({ userId: user.id, email: user.email, role: user.role }, 60 * 1000);
+
+      expect(await authenticateToken(sessionlessToken)).toBeNull();
+    });
+
+    it('should return null for invalid or expired tokens', async () => {
+      const user = await registerUser(testUserInput);
+      const expiredToken = createTestJWT({ userId: user.id, sid: 1 }, -1000);
+
+      expect(await authenticateToken('not.a.token')).toBeNull();
+      expect(await authenticateToken(expiredToken)).toBeNull();
+    });
   });
 
   describe('password security', () => {
     it('should use strong password hashing', async () => {
       const user = await registerUser(testUserInput);
+      const passwordHash = await storedHash(user.id);
 
-      // Hash should contain salt:hash format
-      expect(user.password_hash).toMatch(/^[a-f0-9]+:[a-f0-9]+$/);
+      // Hash should use the versioned scrypt format
+      expect(passwordHash).toMatch(/^\$scrypt\$v=1\$ln=\d+,r=\d+,p=\d+\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
       
-      // Hash should be at least 60 characters (32 hex salt + 1 colon + 128 hex hash)
-      expect(user.password_hash.length).toBeGreaterThanOrEqual(161);
+      // Hash should carry a 16 byte salt and a 64 byte key (base64 without padding)
+      const [, , , , salt, hash] = passwordHash.split('$');
+      expect(salt.length).toEqual(22);
+      expect(hash.length).toEqual(86);
     });
 
     it('should generate different hashes for same password', async () => {
@@ -393,18 +686,45 @@ describe('Authentication Handlers', () => {
       });
 
       // Same password should generate different hashes due to salt
-      expect(user1.password_hash).not.toEqual(user2.password_hash);
+      expect(await storedHash(user1.id)).not.toEqual(await storedHash(user2.id));
     });
 
     it('should verify password correctly across different instances', async () => {
       const user = await registerUser(testUserInput);
+      const passwordHash = await storedHash(user.id);
 
       // Both original password and different password should work correctly
-      const isValidCorrect = verifyPasswordHash('password123', user.password_hash);
-      const isValidIncorrect = verifyPasswordHash('wrongpassword', user.password_hash);
+      const isValidCorrect = verifyPasswordHash('password123', passwordHash);
+      const isValidIncorrect = verifyPasswordHash('wrongpassword', passwordHash);
 
       expect(isValidCorrect).toBe(true);
       expect(isValidIncorrect).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('requireSecret', () => {
+  const names = ['NODE_ENV', 'JWT_SECRET', 'RECEIPT_URL_SECRET'];
+  const saved = names.map(name => process.env[name]);
+
+  afterEach(() => {
+    names.forEach((name, i) => {
+      if (saved[i] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[i];
+      }
+    });
+  });
+
+  it('should refuse to run outside tests without the secret', () => {
+    process.env['NODE_ENV'] = 'production';
+    delete process.env['JWT_SECRET'];
+    process.env['RECEIPT_URL_SECRET'] = '';
+
+    expect(() => requireSecret('RECEIPT_URL_SECRET', 'JWT_SECRET')).toThrow('RECEIPT_URL_SECRET or JWT_SECRET must be set');
+
+    process.env['JWT_SECRET'] = 'from-the-environment';
+    expect(requireSecret('RECEIPT_URL_SECRET', 'JWT_SECRET')).toEqual('from-the-environment');
+  });
+});
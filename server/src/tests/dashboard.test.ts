@@ -77,7 +77,7 @@ describe('getDashboardStats', () => {
           title: 'Dinner',
           amount: '45.75',
           expense_date: '2023-10-16',
-          status: 'PENDING'
+          status: 'SUBMITTED'
         },
         {
           user_id: userId,
@@ -96,6 +96,60 @@ describe('getDashboardStats', () => {
     expect(result.total_amount_spent).toBe(191.5);
   });
 
+  it('should leave drafts, rejected and withdrawn expenses out of spending', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: 'hashed_password',
+        first_name: 'Test',
+        last_name: 'User',
+        role: 'USER'
+      })
+      .returning()
+      .execute();
+
+    const userId = userResult[0].id;
+
+    const categoryResult = await db.insert(categoriesTable)
+      .values({ name: 'Food', color: '#FF0000' })
+      .returning()
+      .execute();
+
+    const expense = (title: string, amount: string, status: 'DRAFT' | 'SUBMITTED' | 'REJECTED' | 'WITHDRAWN' | 'REIMBURSED') => ({
+      user_id: userId,
+      category_id: categoryResult[0].id,
+      title,
+      amount,
+      expense_date: '2023-10-15',
+      status
+    });
+
+    await db.insert(expensesTable)
+      .values([
+        expense('Draft', '10.00', 'DRAFT'),
+        expense('Submitted', '20.00', 'SUBMITTED'),
+        expense('Rejected', '40.00', 'REJECTED'),
+        expense('Withdrawn', '80.00', 'WITHDRAWN'),
+        expense('Reimbursed', '160.00', 'REIMBURSED')
+      ])
+      .execute();
+
+    const result = await getDashboardStats(userId);
+
+    expect(result.total_expenses).toBe(2);
+    expect(result.total_amount_spent).toBe(180);
+    expect(result.category_breakdown).toEqual([{ category_name: 'Food', amount_spent: 180, percentage: 100 }]);
+    expect(result.monthly_trend).toEqual([{ month: '2023-10', amount: 180 }]);
+    expect(result.status_breakdown).toEqual([
+      { status: 'DRAFT', count: 1, amount: 10 },
+      { status: 'SUBMITTED', count: 1, amount: 20 },
+      { status: 'REJECTED', count: 1, amount: 40 },
+      { status: 'REIMBURSED', count: 1, amount: 160 },
+      { status: 'WITHDRAWN', count: 1, amount: 80 }
+    ]);
+    expect(result.recent_expenses).toHaveLength(5);
+  });
+
   it('should calculate budget usage percentage correctly', async () => {
     // Create user
     const userResult = await db.insert(usersTable)
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expenseApprovalStepsTable, expensesTable, teamMembersTable, teamsTable, usersTable } from '../db/schema';
+import { createLocalStorageDriver, setStorageDriver } from '../storage';
+import { getExpenseAttachments, getReceiptContent, MAX_RECEIPT_BYTES } from '../handlers/attachments';
+import { getPendingApprovals } from '../handlers/expenses';
+import { runDataMigrations } from '../data_migrations';
+import { eq, sql } from 'drizzle-orm';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('png receipt')]);
+
+describe('data migrations', () => {
+  let directory: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let userId: number;
+  let categoryId: number;
+  let expenseIds: number[];
+
+  beforeEach(async () => {
+    await createDB();
+    directory = await mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    setStorageDriver(createLocalStorageDriver(directory));
+
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        switch (new URL(request.url).pathname) {
+          case '/files/hotel.png':
+            return new Response(PNG);
+          case '/files/huge.png':
+            return new Response(Buffer.concat([PNG, Buffer.alloc(MAX_RECEIPT_BYTES)]));
+          case '/internal':
+            return Response.redirect(`http://127.0.0.1:${server.port}/files/hotel.png`, 302);
+          default:
+            return new Response('gone', { status: 404 });
+        }
+      }
+    });
+    // The test server stands in for the file server the old links point to
+    process.env['RECEIPT_IMPORT_ALLOWED_HOSTS'] = 'localhost';
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Olga', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+    const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+    categoryId = categories[0].id;
+    const expenses = await db.insert(expensesTable)
+      .values(['Hotel', 'Taxi', 'Lunch'].map(title => ({ user_id: userId, category_id: categoryId, title, amount: '10.00', expense_date: '2024-03-01' })))
+      .returning()
+      .execute();
+    expenseIds = expenses.map(expense => expense.id);
+
+    // The column as it was before receipts became attachments
+    await db.execute(sql`alter table expenses add column receipt_url text`);
+    await db.execute(sql`update expenses set receipt_url = ${`${server.url}files/hotel.png`} where id = ${expenseIds[0]}`);
+    await db.execute(sql`update expenses set receipt_url = ${`${server.url}files/missing.png`} where id = ${expenseIds[1]}`);
+  });
+
+  afterEach(async () => {
+    delete process.env['RECEIPT_IMPORT_ALLOWED_HOSTS'];
+    server.stop(true);
+    await rm(directory, { recursive: true, force: true });
+    await db.execute(sql`drop schema if exists data_migrations cascade`);
+    await resetDB();
+  });
+
+  it('should turn pending expenses into submitted ones before the status is dropped', async () => {
+    await db.execute(sql`alter type expense_status rename value 'SUBMITTED' to 'PENDING'`);
+    await db.execute(sql`update expenses set status = 'PENDING' where id = ${expenseIds[0]}`);
+
+    await runDataMigrations('before');
+
+    const statuses = await db.execute<{ enumlabel: string }>(sql`select enumlabel from pg_enum join pg_type on pg_type.oid = enumtypid where typname = 'expense_status'`);
+    expect(statuses.rows.map(row => row.enumlabel)).not.toContain('PENDING');
+    const expenses = await db.select().from(expensesTable).where(eq(expensesTable.id, expenseIds[0])).execute();
+    expect(expenses[0].status).toEqual('SUBMITTED');
+  });
+
+  it('should start the approval workflow of expenses submitted before it existed', async () => {
+    const managers = await db.insert(usersTable)
+      .values({ email: 'manager@example.com', password_hash: 'hashedpassword', first_name: 'Mia', last_name: 'Manager', role: 'MANAGER' })
+      .returning()
+      .execute();
+    const teams = await db.insert(teamsTable).values({ name: 'Sales', manager_id: managers[0].id }).returning().execute();
+    await db.insert(teamMembersTable).values({ team_id: teams[0].id, user_id: userId }).execute();
+    await db.update(expensesTable).set({ status: 'DRAFT' }).where(eq(expensesTable.id, expenseIds[2])).execute();
+    const manager = { id: managers[0].id, email: managers[0].email, role: 'MANAGER' as const };
+    expect(await getPendingApprovals(manager)).toHaveLength(0);
+
+    await runDataMigrations('before');
+    await db.execute(sql`alter table expenses drop column receipt_url`);
+    await runDataMigrations('after');
+    await runDataMigrations('after');
+
+    expect((await getPendingApprovals(manager)).map(expense => expense.id)).toEqual(expenseIds.slice(0, 2));
+    expect(await db.select().from(expenseApprovalStepsTable).execute()).toHaveLength(2);
+  });
+
+  it('should move receipt links into attachments across the schema push', async () => {
+    await runDataMigrations('before');
+    // What drizzle-kit push does to the column
+    await db.execute(sql`alter table expenses drop column receipt_url`);
+    await runDataMigrations('after');
+
+    const attachments = await getExpenseAttachments(expenseIds[0]);
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0]).toMatchObject({ filename: 'hotel.png', content_type: 'image/png', size: PNG.length });
+    expect((await getReceiptContent(attachments[0].id))?.data).toEqual(PNG);
+
+    // The link that could not be downloaded is kept for the next run
+    const pending = await db.execute<{ expense_id: number; error: string | null }>(sql`select expense_id, error from data_migrations.receipt_urls`);
+    expect(pending.rows).toEqual([{ expense_id: expenseIds[1], error: 'The download failed with HTTP 404' }]);
+
+    // Running again neither duplicates the import nor fails without the old column
+    await runDataMigrations('before');
+    await runDataMigrations('after');
+    expect(await getExpenseAttachments(expenseIds[0])).toHaveLength(1);
+  });
+
+  it('should only download public http links of a limited size', async () => {
+    await db.execute(sql`update expenses set receipt_url = ${`http://127.0.0.1:${server.port}/files/hotel.png`} where id = ${expenseIds[0]}`);
+    await db.execute(sql`update expenses set receipt_url = ${`${server.url}internal`} where id = ${expenseIds[1]}`);
+    await db.execute(sql`update expenses set receipt_url = ${`${server.url}files/huge.png`} where id = ${expenseIds[2]}`);
+    const extra = await db.insert(expensesTable)
+      .values({ user_id: userId, category_id: categoryId, title: 'Parking', amount: '5.00', expense_date: '2024-03-01' })
+      .returning()
+      .execute();
+    await db.execute(sql`update expenses set receipt_url = 'file:///etc/passwd' where id = ${extra[0].id}`);
+
+    await runDataMigrations('before');
+    await db.execute(sql`alter table expenses drop column receipt_url`);
+    await runDataMigrations('after');
+
+    const pending = await db.execute<{ expense_id: number; error: string | null }>(sql`select expense_id, error from data_migrations.receipt_urls order by expense_id`);
+    expect(pending.rows).toEqual([
+      { expense_id: expenseIds[0], error: '127.0.0.1 is not a public address' },
+      { expense_id: expenseIds[1], error: '127.0.0.1 is not a public address' },
+      { expense_id: expenseIds[2], error: `The file is empty or larger than ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB` },
+      { expense_id: extra[0].id, error: 'Only http and https links are imported' }
+    ]);
+    for (const id of [...expenseIds, extra[0].id]) {
+      expect(await getExpenseAttachments(id)).toHaveLength(0);
+    }
+  });
+});
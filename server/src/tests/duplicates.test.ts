@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { type AuthUser, type CreateExpenseInput } from '../schema';
+import { createLocalStorageDriver, setStorageDriver } from '../storage';
+import { parseCsv } from '../utils/csv';
+import { scoreDuplicate, titleSimilarity } from '../utils/duplicates';
+import { attachReceiptFile } from '../handlers/attachments';
+import { getPossibleDuplicates } from '../handlers/duplicates';
+import { createExpense } from '../handlers/expenses';
+import { importExpenseData, parseImportAmount, parseImportDate } from '../handlers/imports';
+import { eq } from 'drizzle-orm';
+
+const subject = { title: 'Hotel Adlon', amount: 240, expense_date: '2024-03-10', receipt_hashes: [] };
+
+describe('duplicate scoring', () => {
+  it('should compare titles by character pairs', () => {
+    expect(titleSimilarity('Uber ride', 'uber  RIDE')).toEqual(1);
+    expect(titleSimilarity('Hotel Adlon Berlin', 'Adlon Hotel')).toBeGreaterThan(0.6);
+    expect(titleSimilarity('Hotel', 'Train ticket')).toBeLessThan(0.2);
+  });
+
+  it('should weigh amount, date and title', () => {
+    expect(scoreDuplicate(subject, { ...subject })).toEqual({ score: 1, reasons: ['SAME_AMOUNT', 'SAME_DATE', 'SIMILAR_TITLE'] });
+    expect(scoreDuplicate(subject, { ...subject, title: 'Room', expense_date: '2024-03-11' }))
+      .toEqual({ score: 0.6, reasons: ['SAME_AMOUNT', 'NEAR_DATE'] });
+    expect(scoreDuplicate(subject, { ...subject, amount: 241.5, expense_date: '2024-03-20' }))
+      .toEqual({ score: 0.55, reasons: ['SIMILAR_AMOUNT', 'SIMILAR_TITLE'] });
+    expect(scoreDuplicate(subject, { ...subject, amount: 99, title: 'Lunch' }).score).toEqual(0.3);
+  });
+
+  it('should treat the same receipt file as a certain duplicate', () => {
+    expect(scoreDuplicate({ ...subject, receipt_hashes: ['abc'] }, { title: 'Other', amount: 1, expense_date: '2023-01-01', receipt_hashes: ['abc'] }))
+      .toEqual({ score: 1, reasons: ['SAME_RECEIPT'] });
+  });
+});
+
+describe('import parsing', () => {
+  it('should read quoted cells and either delimiter', () => {
+    expect(parseCsv('date,title\r\n2024-03-01,"Dinner, ""Chez Paul"""\n\n')).toEqual([['date', 'title'], ['2024-03-01', 'Dinner, "Chez Paul"']]);
+    expect(parseCsv('Datum;Betrag\n01.03.2024;-12,50')).toEqual([['Datum', 'Betrag'], ['01.03.2024', '-12,50']]);
+  });
+
+  it('should read dates and amounts in common notations', () => {
+    expect(parseImportDate('2024-03-01')).toEqual('2024-03-01');
+    expect(parseImportDate('1.3.24')).toEqual('2024-03-01');
+    expect(parseImportDate('31.02.2024')).toBeNull();
+    expect(parseImportDate('03/01/2024')).toBeNull();
+
+    expect(parseImportAmount('-1.234,56 €')).toEqual(-1234.56);
+    expect(parseImportAmount('1,234.5')).toEqual(1234.5);
+    expect(parseImportAmount('12,50-')).toEqual(-12.5);
+    expect(parseImportAmount('1.000')).toEqual(1000);
+    expect(parseImportAmount('n/a')).toBeNull();
+  });
+});
+
+describe('duplicate detection', () => {
+  let directory: string;
+  let owner: AuthUser;
+  let other: AuthUser;
+  let admin: AuthUser;
+  let categoryId: number;
+
+  const expense = (input: Partial<CreateExpenseInput> = {}) => createExpense({
+    user_id: owner.id,
+    category_id: categoryId,
+    title: 'Hotel Adlon',
+    amount: 240,
+    tags: [],
+    is_recurring: false,
+    expense_date: new Date('2024-03-10'),
+    ...input
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    directory = await mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    setStorageDriver(createLocalStorageDriver(directory));
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Olga', last_name: 'Owner' },
+        { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Otto', last_name: 'Other' },
+        { email: 'admin@example.com', password_hash: 'hashedpassword', first_name: 'Ada', last_name: 'Admin', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    [owner, other, admin] = users.map(user => ({ id: user.id, email: user.email, role: user.role }));
+
+    const categories = await db.insert(categoriesTable)
+      .values([{ name: 'Travel', color: '#FF0000' }, { name: 'Meals', color: '#00FF00' }])
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+  });
+
+  afterEach(async () => {
+    setStorageDriver(null);
+    await rm(directory, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should warn about likely duplicates on create', async () => {
+    const first = await expense();
+    expect(first.possible_duplicates).toEqual([]);
+
+    const second = await expense({ title: 'Adlon', expense_date: new Date('2024-03-11') });
+
+    expect(second.possible_duplicates).toHaveLength(1);
+    expect(second.possible_duplicates[0]).toMatchObject({ expense_id: first.id, title: 'Hotel Adlon', amount: 240, reasons: ['SAME_AMOUNT', 'NEAR_DATE', 'SIMILAR_TITLE'] });
+    expect(second.possible_duplicates[0].score).toBeLessThan(0.9);
+  });
+
+  it('should block near-certain duplicates unless allowed', async () => {
+    const first = await expense();
+
+    await expect(expense()).rejects.toMatchObject({ code: 'CONFLICT', message: expect.stringContaining(`expense ${first.id}`) });
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(1);
+
+    const second = await expense({ allow_duplicate: true });
+    expect(second.possible_duplicates.map(match => match.expense_id)).toEqual([first.id]);
+  });
+
+  it('should ignore other users and withdrawn or rejected expenses', async () => {
+    const first = await expense();
+    await db.update(expensesTable).set({ status: 'WITHDRAWN' }).where(eq(expensesTable.id, first.id)).execute();
+    await expense({ user_id: other.id });
+
+    expect((await expense()).possible_duplicates).toEqual([]);
+  });
+
+  it('should show reviewers the possible duplicates of an expense', async () => {
+    const hotel = await expense();
+    const taxi = await expense({ title: 'Taxi', amount: 35, expense_date: new Date('2024-01-05') });
+    const again = await expense({ title: 'Adlon', expense_date: new Date('2024-03-11') });
+
+    // The same receipt file under a different expense
+    const receipt = Buffer.from('%PDF-1.7\nreceipt');
+    await attachReceiptFile(taxi.id, 'taxi.pdf', receipt, 'application/pdf', owner.id);
+    await attachReceiptFile(again.id, 'hotel.pdf', receipt, 'application/pdf', owner.id);
+
+    const matches = await getPossibleDuplicates(again.id, admin);
+
+    expect(matches.map(match => [match.expense_id, match.reasons])).toEqual([
+      [taxi.id, ['SAME_RECEIPT']],
+      [hotel.id, ['SAME_AMOUNT', 'NEAR_DATE', 'SIMILAR_TITLE']]
+    ]);
+    expect(await getPossibleDuplicates(again.id, owner)).toEqual(matches);
+    await expect(getPossibleDuplicates(again.id, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should import CSV rows as drafts and skip existing expenses', async () => {
+    const hotel = await expense();
+    const data = [
+      'date,title,amount,category,description',
+      '2024-03-10,Hotel Adlon,240.00,,',
+      '2024-03-12,Adlon Hotel,240.00,,minibar',
+      '2024-03-15,Team lunch,"1,234.50",meals,',
+      'yesterday,Taxi,12.00,,',
+      '2024-03-16,Parking,-5,,'
+    ].join('\n');
+
+    const result = await importExpenseData({ format: 'CSV', data, category_id: categoryId }, owner);
+
+    expect(result.imported).toEqual(2);
+    expect(result.skipped_duplicates).toEqual([{ row: 2, duplicate: expect.objectContaining({ expense_id: hotel.id, score: 1 }) }]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({ row: 3, expense_id: result.expense_ids[0] });
+    expect(result.warnings[0].possible_duplicates[0].expense_id).toEqual(hotel.id);
+    expect(result.errors).toEqual(['Row 5: unrecognised date', 'Row 6: the amount must be positive']);
+
+    const imported = await db.select().from(expensesTable).where(eq(expensesTable.id, result.expense_ids[1])).execute();
+    expect(imported[0]).toMatchObject({ status: 'DRAFT', title: 'Team lunch', amount: '1234.50', expense_date: '2024-03-15' });
+    expect(imported[0].category_id).not.toEqual(categoryId);
+  });
+
+  it('should import outgoing payments from a bank statement', async () => {
+    const data = [
+      'Buchungstag;Verwendungszweck;Betrag',
+      '01.03.2024;DB Fernverkehr Ticket;-89,90',
+      '02.03.2024;Gehalt;2.500,00',
+      '04.03.2024;REWE Markt;-23,45'
+    ].join('\n');
+
+    const result = await importExpenseData({ format: 'BANK_STATEMENT', data, category_id: categoryId }, owner);
+
+    expect(result.imported).toEqual(2);
+    expect(result.skipped_duplicates).toHaveLength(0);
+    expect(result.warnings).toHaveLength(0);
+    expect(result.errors).toEqual([]);
+
+    // Importing the same statement again adds nothing
+    const again = await importExpenseData({ format: 'BANK_STATEMENT', data, category_id: categoryId }, owner);
+    expect(again.imported).toEqual(0);
+    expect(again.skipped_duplicates.map(skipped => skipped.row)).toEqual([2, 4]);
+  });
+
+  it('should reject files without the needed columns', async () => {
+    await expect(importExpenseData({ format: 'CSV', data: 'when,what\n2024-03-01,Taxi', category_id: categoryId }, owner))
+      .rejects.toThrow('The file needs a header row with date, title, amount columns');
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetsTable, categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import { formatMoney, parseEcbRates } from '../utils/currency';
+import {
+  deleteExchangeRate,
+  findExchangeRate,
+  getExchangeRates,
+  importExchangeRates,
+  setExchangeRate
+} from '../handlers/exchange_rates';
+import { createExpense, processRecurringExpenses, updateExpense } from '../handlers/expenses';
+import { importExpenseData } from '../handlers/imports';
+import { updateUser } from '../handlers/users';
+import { getDashboardStats } from '../handlers/dashboard';
+import { checkBudgetAlerts, getBudgetOverview } from '../handlers/budgets';
+import { eq } from 'drizzle-orm';
+
+// Trimmed eurofxref-hist.xml
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <gesmes:Sender>
+    <gesmes:name>European Central Bank</gesmes:name>
+  </gesmes:Sender>
+  <Cube>
+    <Cube time='2024-03-01'>
+      <Cube currency='USD' rate='1.0830'/>
+      <Cube currency='JPY' rate='162.52'/>
+      <Cube currency='GBP' rate='0.85540'/>
+    </Cube>
+    <Cube time='2024-02-29'>
+      <Cube currency='USD' rate='1.0813'/>
+      <Cube currency='JPY' rate='162.20'/>
+      <Cube currency='GBP' rate='0.85583'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe('currency utilities', () => {
+  it('should read ECB reference rates', () => {
+    const rates = parseEcbRates(ECB_XML);
+
+    expect(rates).toHaveLength(6);
+    expect(rates[0]).toEqual({ currency: 'USD', rate_date: '2024-03-01', rate: 1.083 });
+    expect(rates[5]).toEqual({ currency: 'GBP', rate_date: '2024-02-29', rate: 0.85583 });
+    expect(parseEcbRates('<html>not rates</html>')).toEqual([]);
+  });
+
+  it('should format amounts with their currency', () => {
+    expect(formatMoney(1234.5)).toEqual('$1,234.50');
+    expect(formatMoney(12, 'EUR')).toEqual('€12.00');
+  });
+});
+
+describe('exchange rates', () => {
+  let userId: number;
+  let categoryId: number;
+
+  const expense = (input: Partial<CreateExpenseInput> = {}) => createExpense({
+    user_id: userId,
+    category_id: categoryId,
+    title: 'Conference ticket',
+    amount: 100,
+    currency: 'EUR',
+    tags: [],
+    is_recurring: false,
+    expense_date: new Date('2024-03-01'),
+    ...input
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashedpassword', first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+    categoryId = categories[0].id;
+
+    await importExchangeRates({ format: 'ECB_XML', data: ECB_XML });
+  });
+
+  afterEach(resetDB);
+
+  it('should find direct, inverse and cross rates on or before a date', async () => {
+    expect(await findExchangeRate('EUR', 'USD', '2024-03-01')).toEqual(1.083);
+    expect(await findExchangeRate('USD', 'EUR', '2024-02-29')).toBeCloseTo(1 / 1.0813, 10);
+    expect(await findExchangeRate('GBP', 'USD', '2024-03-01')).toBeCloseTo(1.083 / 0.8554, 10);
+    // Weekends use Friday's rate
+    expect(await findExchangeRate('EUR', 'USD', '2024-03-03')).toEqual(1.083);
+    expect(await findExchangeRate('EUR', 'USD', '2024-01-01')).toBeNull();
+    expect(await findExchangeRate('EUR', 'CHF', '2024-03-01')).toBeNull();
+    expect(await findExchangeRate('CHF', 'CHF', '2024-03-01')).toEqual(1);
+  });
+
+  it('should manage rates by hand', async () => {
+    const rate = await setExchangeRate({ currency: 'CHF', rate_date: new Date('2024-03-01'), rate: 0.95 });
+    expect(rate).toMatchObject({ base_currency: 'USD', currency: 'CHF', rate: 0.95, source: 'MANUAL' });
+
+    // The same pair and day is replaced, not duplicated
+    const corrected = await setExchangeRate({ currency: 'CHF', rate_date: new Date('2024-03-01'), rate: 0.955 });
+    expect(corrected.id).toEqual(rate.id);
+    expect(await getExchangeRates({ currency: 'CHF', limit: 100 })).toEqual([corrected]);
+
+    await expect(setExchangeRate({ currency: 'USD', rate_date: new Date('2024-03-01'), rate: 1 })).rejects.toThrow(/two different currencies/);
+
+    await deleteExchangeRate(rate.id);
+    expect(await findExchangeRate('CHF', 'USD', '2024-03-01')).toBeNull();
+    await expect(deleteExchangeRate(rate.id)).rejects.toThrow(/not found/);
+  });
+
+  it('should import rates from CSV and replace ECB rates on re-import', async () => {
+    const result = await importExchangeRates({
+      format: 'CSV',
+      data: [
+        'date,currency,rate,base_currency',
+        '2024-03-01,chf,"0,9551",',
+        '01.03.2024,SEK,11.2,',
+        '2024-03-01,EUR,1.2,USD',
+        '2024-03-01,NOK,-1,',
+        'someday,DKK,7.45,',
+        '2024-03-01,SEK,11.25,'
+      ].join('\n')
+    });
+
+    expect(result.imported).toEqual(3);
+    expect(result.errors).toEqual(['Row 5: the rate must be a positive number', 'Row 6: unrecognised date']);
+    expect(await findExchangeRate('USD', 'SEK', '2024-03-01')).toEqual(11.25);
+    // A direct rate wins over one derived from the ECB's euro rates
+    expect(await findExchangeRate('USD', 'EUR', '2024-03-01')).toEqual(1.2);
+
+    expect(await importExchangeRates({ format: 'ECB_XML', data: ECB_XML })).toEqual({ imported: 6, errors: [] });
+    expect(await getExchangeRates({ start_date: new Date('2024-03-01'), limit: 100 })).toHaveLength(6);
+    await expect(importExchangeRates({ format: 'ECB_XML', data: '<Cube/>' })).rejects.toThrow(/No exchange rates/);
+  });
+
+  it('should convert expenses at the expense date and keep the original amount', async () => {
+    const created = await expense();
+
+    expect(created).toMatchObject({ amount: 108.3, currency: 'EUR', original_amount: 100, exchange_rate: 1.083 });
+
+    // Base currency expenses are their own original
+    const local = await expense({ title: 'Taxi', amount: 25, currency: 'USD' });
+    expect(local).toMatchObject({ amount: 25, currency: 'USD', original_amount: 25, exchange_rate: 1 });
+
+    await expect(expense({ currency: 'CHF' })).rejects.toThrow('No exchange rate from CHF to USD on or before 2024-03-01');
+  });
+
+  it('should convert again when the amount, currency or date changes', async () => {
+    const created = await expense({ draft: true });
+
+    const moved = await updateExpense({ id: created.id, expense_date: new Date('2024-02-29') });
+    expect(moved).toMatchObject({ amount: 108.13, original_amount: 100, currency: 'EUR' });
+
+    const yen = await updateExpense({ id: created.id, amount: 16220, currency: 'JPY' });
+    expect(yen).toMatchObject({ amount: 108.13, original_amount: 16220, currency: 'JPY' });
+
+    const dollars = await updateExpense({ id: created.id, currency: 'USD' });
+    expect(dollars).toMatchObject({ amount: 16220, original_amount: 16220, currency: 'USD', exchange_rate: 1 });
+
+    const stored = await db.select().from(expensesTable).where(eq(expensesTable.id, created.id)).execute();
+    expect(stored[0]).toMatchObject({ currency: null, original_amount: null, exchange_rate: null });
+  });
+
+  it('should default to the currency the user enters expenses in', async () => {
+    await updateUser({ id: userId, default_currency: 'GBP' });
+
+    const created = await expense({ amount: 85.54, currency: undefined });
+    expect(created).toMatchObject({ currency: 'GBP', amount: 108.3 });
+
+    const imported = await importExpenseData({
+      format: 'CSV',
+      data: 'date,title,amount,currency\n2024-03-01,Hotel,200,EUR\n2024-03-01,Dinner,42.77,\n2024-03-01,Museum,10,XX',
+      category_id: categoryId
+    }, { id: userId, email: 'user@example.com', role: 'USER' });
+
+    expect(imported.errors).toEqual(['Row 4: unrecognised currency']);
+    const rows = await db.select().from(expensesTable).where(eq(expensesTable.status, 'DRAFT')).orderBy(expensesTable.id).execute();
+    expect(rows.map(row => [row.title, row.currency, row.amount])).toEqual([['Hotel', 'EUR', '216.60'], ['Dinner', 'GBP', '54.15']]);
+  });
+
+  it('should convert recurring occurrences at their own date', async () => {
+    const template: Partial<CreateExpenseInput> = {
+      title: 'Software subscription',
+      amount: 10,
+      expense_date: new Date('2024-02-01'),
+      is_recurring: true,
+      recurring_frequency: 'MONTHLY'
+    };
+    // No rate is known for the template's date yet
+    await expect(expense(template)).rejects.toThrow(/EUR to USD on or before 2024-02-01/);
+
+    await setExchangeRate({ currency: 'EUR', rate_date: new Date('2024-02-01'), rate: 0.8 });
+    const subscription = await expense(template);
+    expect(subscription.amount).toEqual(12.5);
+
+    await processRecurringExpenses(new Date('2024-04-15'));
+
+    const occurrences = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.recurring_parent_id, subscription.id))
+      .orderBy(expensesTable.expense_date)
+      .execute();
+    expect(occurrences.map(row => [row.expense_date, row.amount, row.original_amount, row.currency])).toEqual([
+      ['2024-03-01', '10.83', '10.00', 'EUR'],
+      ['2024-04-01', '10.83', '10.00', 'EUR']
+    ]);
+  });
+
+  it('should compute dashboard and budget totals in the base currency', async () => {
+    const eur = await expense();
+    const usd = await expense({ title: 'Taxi', amount: 41.7, currency: 'USD' });
+    await db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, eur.id)).execute();
+    await db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, usd.id)).execute();
+    await db.insert(budgetsTable)
+      .values({ user_id: userId, amount: '160.00', period: 'MONTHLY', start_date: '2024-03-01', end_date: '2024-03-31' })
+      .execute();
+
+    const stats = await getDashboardStats(userId);
+    expect(stats.currency).toEqual('USD');
+    expect(stats.total_amount_spent).toEqual(150);
+
+    const overview = await getBudgetOverview(userId);
+    expect(overview).toMatchObject({ currency: 'USD', total_budget: 160, total_spent: 150 });
+
+    const alerts = await checkBudgetAlerts(userId);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ currency: 'USD', budget_amount: 160, amount_spent: 150 });
+  });
+});
@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetsTable, categoriesTable, expenseSplitsTable, expensesTable, teamsTable, usersTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import { allocateCents } from '../utils/splits';
+import { createExpense, getExpenseById, processRecurringExpenses, updateExpense } from '../handlers/expenses';
+import { setExchangeRate } from '../handlers/exchange_rates';
+import { checkBudgetAlerts, getBudgetAnalytics } from '../handlers/budgets';
+import { getDashboardStats } from '../handlers/dashboard';
+import { getExpenseReportData } from '../handlers/reports';
+import { deleteCategory } from '../handlers/categories';
+import { eq } from 'drizzle-orm';
+
+describe('allocateCents', () => {
+  it('should share out every cent in proportion to the weights', () => {
+    expect(allocateCents(10000, [50, 50])).toEqual([5000, 5000]);
+    expect(allocateCents(10000, [1, 1, 1])).toEqual([3334, 3333, 3333]);
+    expect(allocateCents(1001, [70, 30])).toEqual([701, 300]);
+  });
+});
+
+describe('expense splits', () => {
+  let userId: number;
+  let travelId: number;
+  let mealsId: number;
+  let salesTeamId: number;
+  let supportTeamId: number;
+
+  const expense = (input: Partial<CreateExpenseInput> = {}) => createExpense({
+    user_id: userId,
+    category_id: travelId,
+    title: 'Client visit',
+    amount: 300,
+    tags: [],
+    is_recurring: false,
+    expense_date: new Date('2024-03-10'),
+    ...input
+  });
+
+  const approve = (id: number) => db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, id)).execute();
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashedpassword', first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const categories = await db.insert(categoriesTable)
+      .values([{ name: 'Travel', color: '#FF0000' }, { name: 'Meals', color: '#00FF00' }])
+      .returning()
+      .execute();
+    travelId = categories[0].id;
+    mealsId = categories[1].id;
+
+    const teams = await db.insert(teamsTable)
+      .values([{ name: 'Sales', manager_id: userId }, { name: 'Support', manager_id: userId }])
+      .returning()
+      .execute();
+    salesTeamId = teams[0].id;
+    supportTeamId = teams[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should split an expense by amount', async () => {
+    const created = await expense({
+      splits: [
+        { category_id: travelId, team_id: salesTeamId, amount: 200, tags: ['flight'] },
+        { category_id: mealsId, team_id: supportTeamId, description: 'Team dinner', amount: 100, tags: [] }
+      ]
+    });
+
+    const details = await getExpenseById(created.id);
+    expect(details?.splits).toHaveLength(2);
+    expect(details?.splits[0]).toMatchObject({ category_id: travelId, team_id: salesTeamId, amount: 200, original_amount: 200, percentage: null, tags: ['flight'] });
+    expect(details?.splits[1]).toMatchObject({ category_id: mealsId, description: 'Team dinner', amount: 100 });
+  });
+
+  it('should split by percentage without losing a cent', async () => {
+    const created = await expense({
+      amount: 100,
+      splits: [
+        { category_id: travelId, percentage: 100 / 3, tags: [] },
+        { category_id: mealsId, percentage: 100 / 3, tags: [] },
+        { category_id: mealsId, percentage: 100 / 3, tags: [] }
+      ]
+    });
+
+    const details = await getExpenseById(created.id);
+    expect(details?.splits.map(split => split.amount)).toEqual([33.34, 33.33, 33.33]);
+  });
+
+  it('should reject splits that do not add up', async () => {
+    await expect(expense({
+      splits: [{ category_id: travelId, amount: 200, tags: [] }, { category_id: mealsId, amount: 99.99, tags: [] }]
+    })).rejects.toThrow('The splits add up to 299.99 but the expense is 300.00');
+
+    await expect(expense({
+      splits: [{ category_id: travelId, percentage: 60, tags: [] }, { category_id: mealsId, percentage: 30, tags: [] }]
+    })).rejects.toThrow('The split percentages add up to 90 instead of 100');
+
+    await expect(expense({
+      splits: [{ category_id: travelId, percentage: 50, tags: [] }, { category_id: mealsId, amount: 150, tags: [] }]
+    })).rejects.toThrow(/either by amount or by percentage/);
+
+    await expect(expense({
+      splits: [{ category_id: 99999, amount: 300, tags: [] }]
+    })).rejects.toThrow('Category with id 99999 does not exist');
+
+    // Nothing was saved
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+  });
+
+  it('should only split to categories and teams the expense itself could use', async () => {
+    const others = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Otto', last_name: 'Other' })
+      .returning()
+      .execute();
+    const privateCategory = await db.insert(categoriesTable).values({ name: 'Hobby', color: '#0000FF', user_id: others[0].id }).returning().execute();
+    const otherTeam = await db.insert(teamsTable).values({ name: 'Finance', manager_id: others[0].id }).returning().execute();
+
+    await expect(expense({
+      splits: [{ category_id: travelId, amount: 200, tags: [] }, { category_id: privateCategory[0].id, amount: 100, tags: [] }]
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(expense({ category_id: privateCategory[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await expect(expense({
+      splits: [{ category_id: travelId, amount: 200, tags: [] }, { category_id: mealsId, team_id: otherTeam[0].id, amount: 100, tags: [] }]
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const created = await expense({ draft: true });
+    await expect(updateExpense({ id: created.id, splits: [{ category_id: mealsId, team_id: otherTeam[0].id, amount: 300, tags: [] }] }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should work percentage splits out again when the amount changes', async () => {
+    const created = await expense({
+      draft: true,
+      splits: [{ category_id: travelId, percentage: 75, tags: [] }, { category_id: mealsId, percentage: 25, tags: [] }]
+    });
+
+    await updateExpense({ id: created.id, amount: 400 });
+    let details = await getExpenseById(created.id);
+    expect(details?.splits.map(split => split.amount)).toEqual([300, 100]);
+
+    // Amount splits no longer add up to a new total
+    await updateExpense({ id: created.id, splits: [{ category_id: travelId, amount: 400, tags: [] }] });
+    await expect(updateExpense({ id: created.id, amount: 500 })).rejects.toThrow(/add up to 400.00 but the expense is 500.00/);
+
+    await updateExpense({ id: created.id, splits: [] });
+    details = await getExpenseById(created.id);
+    expect(details?.splits).toEqual([]);
+  });
+
+  it('should split the base currency amount in proportion to the original', async () => {
+    await setExchangeRate({ currency: 'EUR', rate_date: new Date('2024-03-01'), rate: 1.2 });
+
+    const created = await expense({
+      amount: 120,
+      currency: 'EUR',
+      splits: [{ category_id: travelId, amount: 90, tags: [] }, { category_id: mealsId, amount: 30, tags: [] }]
+    });
+
+    const details = await getExpenseById(created.id);
+    expect(details?.splits.map(split => [split.original_amount, split.amount])).toEqual([[90, 75], [30, 25]]);
+  });
+
+  it('should copy the template splits to recurring occurrences', async () => {
+    const template = await expense({
+      amount: 50,
+      expense_date: new Date('2024-01-15'),
+      is_recurring: true,
+      recurring_frequency: 'MONTHLY',
+      splits: [{ category_id: travelId, percentage: 60, tags: [] }, { category_id: mealsId, percentage: 40, tags: [] }]
+    });
+
+    await processRecurringExpenses(new Date('2024-02-20'));
+
+    const occurrences = await db.select().from(expensesTable).where(eq(expensesTable.recurring_parent_id, template.id)).execute();
+    expect(occurrences).toHaveLength(1);
+    const splits = await db.select().from(expenseSplitsTable).where(eq(expenseSplitsTable.expense_id, occurrences[0].id)).execute();
+    expect(splits.map(split => [split.category_id, split.amount])).toEqual([[travelId, '30.00'], [mealsId, '20.00']]);
+  });
+
+  it('should count splits towards their own category budget', async () => {
+    const split = await expense({
+      splits: [{ category_id: travelId, amount: 100, tags: [] }, { category_id: mealsId, amount: 200, tags: [] }]
+    });
+    const whole = await expense({ title: 'Lunch', amount: 50, category_id: mealsId });
+    await approve(split.id);
+    await approve(whole.id);
+    await db.insert(budgetsTable)
+      .values({ user_id: userId, category_id: mealsId, amount: '300.00', period: 'MONTHLY', start_date: '2024-03-01', end_date: '2024-03-31' })
+      .execute();
+
+    const alerts = await checkBudgetAlerts(userId);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ category_id: mealsId, amount_spent: 250 });
+
+    const analytics = await getBudgetAnalytics({
+      user_id: userId,
+      period: 'MONTHLY',
+      start_date: new Date('2024-03-01'),
+      end_date: new Date('2024-03-31')
+    });
+    expect(analytics.category_breakdown).toHaveLength(2);
+    expect(analytics.category_breakdown.find((item: any) => item.category_id === travelId).amount_spent).toEqual(100);
+    expect(analytics.category_breakdown.find((item: any) => item.category_id === mealsId).amount_spent).toEqual(250);
+  });
+
+  it('should break dashboards and reports down by split', async () => {
+    const created = await expense({
+      team_id: salesTeamId,
+      splits: [
+        { category_id: travelId, amount: 180, tags: [] },
+        { category_id: mealsId, team_id: supportTeamId, amount: 120, tags: ['dinner'] }
+      ]
+    });
+    await approve(created.id);
+
+    const stats = await getDashboardStats(userId);
+    expect(stats.total_amount_spent).toEqual(300);
+    expect(stats.category_breakdown.map(item => [item.category_name, item.amount_spent]).sort()).toEqual([['Meals', 120], ['Travel', 180]]);
+
+    const period = { start_date: new Date('2024-03-01'), end_date: new Date('2024-03-31'), format: 'CSV' as const, include_receipts: false };
+    const report = await getExpenseReportData({ user_id: userId, ...period });
+    expect(report.expenseCount).toEqual(1);
+    expect(report.totalAmount).toEqual(300);
+    expect(report.categoryBreakdown).toEqual({ Travel: { count: 1, total: 180 }, Meals: { count: 1, total: 120 } });
+
+    // A split without a team stays with the expense's team
+    const sales = await getExpenseReportData({ user_id: userId, team_id: salesTeamId, ...period });
+    expect(sales.rows.map(row => [row.category_name, row.expense_amount])).toEqual([['Travel', 180]]);
+    const support = await getExpenseReportData({ user_id: userId, team_id: supportTeamId, ...period });
+    expect(support.rows.map(row => [row.category_name, row.expense_amount, row.split_tags])).toEqual([['Meals', 120, ['dinner']]]);
+  });
+
+  it('should not delete a category that splits are charged to', async () => {
+    await expense({
+      splits: [{ category_id: travelId, amount: 150, tags: [] }, { category_id: mealsId, amount: 150, tags: [] }]
+    });
+
+    await expect(deleteCategory(mealsId)).rejects.toThrow(/existing expenses/);
+  });
+});
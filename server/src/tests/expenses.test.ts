@@ -1,10 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
-import { db } from '../db';
-import { usersTable, categoriesTable, teamsTable, expensesTable } from '../db/schema';
-import { type CreateExpenseInput } from '../schema';
-import { createExpense } from '../handlers/expenses';
-import { eq } from 'drizzle-orm';
+import { db, withTransaction } from '../db';
+import { usersTable, categoriesTable, teamsTable, teamMembersTable, expensesTable, expenseApprovalStepsTable, notificationsTable } from '../db/schema';
+import { expenseFilterSchema, type AuthUser, type CreateExpenseInput } from '../schema';
+import {
+  createExpense,
+  getExpenseById,
+  updateExpense,
+  reopenExpense,
+  submitExpense,
+  withdrawExpense,
+  updatePaymentStatus,
+  approveExpense,
+  deleteExpense,
+  getExpenses,
+  searchExpenses,
+  expenseSearchCondition
+} from '../handlers/expenses';
+import { getExpenseStatusHistory } from '../handlers/expense_status';
+import { eq, sql } from 'drizzle-orm';
 
 // Test data setup
 let testUser: any;
@@ -17,7 +31,6 @@ const baseExpenseInput: CreateExpenseInput = {
   title: 'Test Expense',
   description: 'A test expense description',
   amount: 99.99,
-  receipt_url: 'https://example.com/receipt.pdf',
   tags: ['business', 'travel'],
   is_recurring: false,
   recurring_frequency: null,
@@ -82,9 +95,8 @@ describe('createExpense', () => {
     expect(result.description).toEqual('A test expense description');
     expect(result.amount).toEqual(99.99);
     expect(typeof result.amount).toBe('number');
-    expect(result.receipt_url).toEqual('https://example.com/receipt.pdf');
     expect(result.tags).toEqual(['business', 'travel']);
-    expect(result.status).toEqual('PENDING');
+    expect(result.status).toEqual('SUBMITTED');
     expect(result.is_recurring).toBe(false);
     expect(result.recurring_frequency).toBeNull();
     expect(result.recurring_end_date).toBeNull();
@@ -137,7 +149,6 @@ describe('createExpense', () => {
     expect(result.title).toEqual('Minimal Expense');
     expect(result.amount).toEqual(25.50);
     expect(result.description).toBeNull();
-    expect(result.receipt_url).toBeNull();
     expect(result.tags).toEqual([]);
     expect(result.team_id).toBeNull();
     expect(result.is_recurring).toBe(false);
@@ -158,7 +169,7 @@ describe('createExpense', () => {
     expect(dbExpense.title).toEqual('Test Expense');
     expect(parseFloat(dbExpense.amount)).toEqual(99.99);
     expect(dbExpense.tags).toEqual(['business', 'travel']);
-    expect(dbExpense.status).toEqual('PENDING');
+    expect(dbExpense.status).toEqual('SUBMITTED');
     expect(new Date(dbExpense.expense_date)).toEqual(new Date('2024-01-15'));
   });
 
@@ -223,6 +234,23 @@ describe('createExpense', () => {
     expect(result.expense_date).toEqual(new Date('2023-12-01'));
   });
 
+  it('should block unverified users when email verification is required', async () => {
+    process.env['REQUIRE_VERIFIED_EMAIL_FOR_EXPENSES'] = 'true';
+    try {
+      await expect(createExpense(baseExpenseInput)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      await db.update(usersTable)
+        .set({ is_email_verified: true })
+        .where(eq(usersTable.id, testUser.id))
+        .execute();
+
+      const result = await createExpense(baseExpenseInput);
+      expect(result.id).toBeDefined();
+    } finally {
+      delete process.env['REQUIRE_VERIFIED_EMAIL_FOR_EXPENSES'];
+    }
+  });
+
   it('should handle complex tag arrays', async () => {
     const complexTagsInput: CreateExpenseInput = {
       ...baseExpenseInput,
@@ -233,4 +261,682 @@ describe('createExpense', () => {
 
     expect(result.tags).toEqual(['urgent', 'client-meeting', 'reimbursable', 'q1-2024']);
   });
-});
\ No newline at end of file
+});
+
+describe('getExpenseById and deleteExpense', () => {
+  let owner: any;
+  let other: any;
+  let expenseId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' },
+        { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Other', last_name: 'User', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+    owner = users[0];
+    other = users[1];
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Travel', color: '#FF0000' })
+      .returning()
+      .execute();
+
+    const expense = await createExpense({
+      ...baseExpenseInput,
+      user_id: owner.id,
+      category_id: category[0].id
+    });
+    expenseId = expense.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should fetch an expense with converted fields', async () => {
+    const result = await getExpenseById(expenseId);
+
+    expect(result).not.toBeNull();
+    expect(result!.amount).toEqual(99.99);
+    expect(result!.expense_date).toEqual(new Date('2024-01-15'));
+    expect(result!.tags).toEqual(['business', 'travel']);
+  });
+
+  it('should return null for a missing expense', async () => {
+    expect(await getExpenseById(99999)).toBeNull();
+  });
+
+  it('should include category, team, submitter and approver details', async () => {
+    const team = await db.insert(teamsTable)
+      .values({ name: 'Field Sales', manager_id: other.id })
+      .returning()
+      .execute();
+    await db.update(expensesTable)
+      .set({ team_id: team[0].id, status: 'APPROVED', approved_by: other.id, approved_at: new Date() })
+      .where(eq(expensesTable.id, expenseId))
+      .execute();
+
+    const result = await getExpenseById(expenseId);
+
+    expect(result!.category.name).toEqual('Travel');
+    expect(result!.category.color).toEqual('#FF0000');
+    expect(result!.team).toEqual({ id: team[0].id, name: 'Field Sales' });
+    expect(result!.submitter).toEqual({ id: owner.id, first_name: 'Owner', last_name: 'User', email: 'owner@example.com' });
+    expect(result!.approver).toEqual({ id: other.id, first_name: 'Other', last_name: 'User', email: 'other@example.com' });
+  });
+
+  it('should return null team and approver when unset', async () => {
+    const result = await getExpenseById(expenseId);
+
+    expect(result!.team).toBeNull();
+    expect(result!.approver).toBeNull();
+  });
+
+  it('should forbid reading another user\'s expense', async () => {
+    const actor = { id: other.id, email: other.email, role: 'USER' as const };
+    await expect(getExpenseById(expenseId, actor)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should delete the expense and detach notifications', async () => {
+    await db.insert(notificationsTable)
+      .values({ user_id: owner.id, type: 'EXPENSE_APPROVAL', title: 'Approval', message: 'Pending', related_expense_id: expenseId })
+      .execute();
+
+    const actor = { id: owner.id, email: owner.email, role: 'USER' as const };
+    const result = await deleteExpense(expenseId, actor);
+
+    expect(result.success).toBe(true);
+    expect(await getExpenseById(expenseId)).toBeNull();
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].related_expense_id).toBeNull();
+  });
+
+  it('should forbid deleting another user\'s expense', async () => {
+    const actor = { id: other.id, email: other.email, role: 'USER' as const };
+    await expect(deleteExpense(expenseId, actor)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should throw when deleting a missing expense', async () => {
+    await expect(deleteExpense(99999)).rejects.toThrow(/not found/i);
+  });
+
+  it('should refuse to delete an approved expense', async () => {
+    await db.update(expensesTable).set({ status: 'APPROVED' }).where(eq(expensesTable.id, expenseId)).execute();
+
+    const actor = { id: owner.id, email: owner.email, role: 'USER' as const };
+    await expect(deleteExpense(expenseId, actor)).rejects.toThrow(/approved/i);
+    expect(await getExpenseById(expenseId)).not.toBeNull();
+  });
+});
+
+describe('updateExpense and reopenExpense', () => {
+  let owner: AuthUser;
+  let other: AuthUser;
+  let manager: AuthUser;
+  let admin: AuthUser;
+  let categoryId: number;
+  let expenseId: number;
+
+  const setStatus = (status: 'APPROVED' | 'REJECTED', approvedBy: number) => db.update(expensesTable)
+    .set({ status, approved_by: approvedBy, approved_at: new Date() })
+    .where(eq(expensesTable.id, expenseId))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' },
+        { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Other', last_name: 'User', role: 'USER' },
+        { email: 'manager@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Manager', role: 'MANAGER' },
+        { email: 'admin@example.com', password_hash: 'hashedpassword', first_name: 'Site', last_name: 'Admin', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    owner = { id: users[0].id, email: users[0].email, role: 'USER' };
+    other = { id: users[1].id, email: users[1].email, role: 'USER' };
+    manager = { id: users[2].id, email: users[2].email, role: 'MANAGER' };
+    admin = { id: users[3].id, email: users[3].email, role: 'ADMIN' };
+
+    const categories = await db.insert(categoriesTable)
+      .values([{ name: 'Travel', color: '#FF0000' }, { name: 'Meals', color: '#00FF00' }])
+      .returning()
+      .execute();
+    categoryId = categories[1].id;
+
+    const team = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+    await db.insert(teamMembersTable).values({ team_id: team[0].id, user_id: owner.id }).execute();
+
+    const expense = await createExpense({ ...baseExpenseInput, user_id: owner.id, category_id: categories[0].id });
+    expenseId = expense.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update the given fields and convert them like createExpense', async () => {
+    const result = await updateExpense({
+      id: expenseId,
+      title: 'Updated title',
+      amount: 120.5,
+      category_id: categoryId,
+      tags: ['updated'],
+      expense_date: new Date('2024-02-01')
+    }, owner);
+
+    expect(result.title).toEqual('Updated title');
+    expect(result.amount).toEqual(120.5);
+    expect(typeof result.amount).toBe('number');
+    expect(result.category_id).toEqual(categoryId);
+    expect(result.tags).toEqual(['updated']);
+    expect(result.expense_date).toEqual(new Date('2024-02-01'));
+    expect(result.description).toEqual('A test expense description'); // untouched
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(result.created_at.getTime());
+
+    const rows = await db.select().from(expensesTable).where(eq(expensesTable.id, expenseId)).execute();
+    expect(rows[0].amount).toEqual('120.50');
+    expect(rows[0].expense_date).toEqual('2024-02-01');
+  });
+
+  it('should allow clearing nullable fields', async () => {
+    const result = await updateExpense({ id: expenseId, description: null }, owner);
+
+    expect(result.description).toBeNull();
+  });
+
+  it('should only let the owner or an admin edit', async () => {
+    await expect(updateExpense({ id: expenseId, title: 'Hijacked' }, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(updateExpense({ id: expenseId, title: 'Managed' }, manager)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const result = await updateExpense({ id: expenseId, title: 'Fixed by admin' }, admin);
+    expect(result.title).toEqual('Fixed by admin');
+  });
+
+  it('should reject unknown expenses and categories', async () => {
+    await expect(updateExpense({ id: 99999, title: 'Missing' }, owner)).rejects.toThrow(/not found/i);
+    await expect(updateExpense({ id: expenseId, category_id: 99999 }, owner)).rejects.toThrow(/does not exist/i);
+  });
+
+  it('should keep approved expenses immutable', async () => {
+    await setStatus('APPROVED', manager.id);
+
+    await expect(updateExpense({ id: expenseId, amount: 1 }, owner)).rejects.toThrow(/approved/i);
+    await expect(updateExpense({ id: expenseId, amount: 1 }, admin)).rejects.toThrow(/approved/i);
+  });
+
+  it('should resubmit a rejected expense when it is edited', async () => {
+    await setStatus('REJECTED', manager.id);
+
+    const result = await updateExpense({ id: expenseId, description: 'Added the missing receipt' }, owner);
+
+    expect(result.status).toEqual('SUBMITTED');
+    expect(result.approved_by).toBeNull();
+    expect(result.approved_at).toBeNull();
+  });
+
+  it('should reopen an approved expense for editing', async () => {
+    await setStatus('APPROVED', manager.id);
+
+    const reopened = await reopenExpense(expenseId, manager);
+    expect(reopened.status).toEqual('SUBMITTED');
+    expect(reopened.approved_by).toBeNull();
+
+    const result = await updateExpense({ id: expenseId, amount: 75 }, owner);
+    expect(result.amount).toEqual(75);
+  });
+
+  it('should only let approvers reopen approved expenses', async () => {
+    await expect(reopenExpense(expenseId, manager)).rejects.toThrow(/only approved/i);
+
+    await setStatus('APPROVED', manager.id);
+    await expect(reopenExpense(expenseId, owner)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(reopenExpense(expenseId, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('expense status lifecycle', () => {
+  let owner: AuthUser;
+  let manager: AuthUser;
+  let admin: AuthUser;
+  let categoryId: number;
+
+  const draft = () => createExpense({ ...baseExpenseInput, user_id: owner.id, category_id: categoryId, draft: true });
+  const approve = (id: number) => approveExpense({ expense_id: id, status: 'APPROVED', approved_by: manager.id }, manager);
+  const transitions = async (id: number) => (await getExpenseStatusHistory(id, owner)).map(h => `${h.from_status ?? '-'}>${h.to_status}`);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' },
+        { email: 'manager@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Manager', role: 'MANAGER' },
+        { email: 'admin@example.com', password_hash: 'hashedpassword', first_name: 'Site', last_name: 'Admin', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    owner = { id: users[0].id, email: users[0].email, role: 'USER' };
+    manager = { id: users[1].id, email: users[1].email, role: 'MANAGER' };
+    admin = { id: users[2].id, email: users[2].email, role: 'ADMIN' };
+
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Travel', color: '#FF0000' })
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+
+    const team = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+    await db.insert(teamMembersTable).values({ team_id: team[0].id, user_id: owner.id }).execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should keep drafts out of the approval workflow until submitted', async () => {
+    const expense = await draft();
+    expect(expense.status).toEqual('DRAFT');
+
+    const steps = () => db.select().from(expenseApprovalStepsTable).where(eq(expenseApprovalStepsTable.expense_id, expense.id)).execute();
+    expect(await steps()).toHaveLength(0);
+
+    const edited = await updateExpense({ id: expense.id, amount: 42 }, owner);
+    expect(edited.status).toEqual('DRAFT');
+    expect(await steps()).toHaveLength(0);
+
+    const submitted = await submitExpense({ id: expense.id }, owner);
+    expect(submitted.status).toEqual('SUBMITTED');
+    expect((await steps()).map(s => s.status)).toEqual(['PENDING']);
+  });
+
+  it('should record every transition with its actor', async () => {
+    const expense = await draft();
+    await submitExpense({ id: expense.id }, owner);
+    await approve(expense.id);
+    await updatePaymentStatus({ id: expense.id, status: 'SCHEDULED_FOR_PAYMENT' }, admin);
+    await updatePaymentStatus({ id: expense.id, status: 'REIMBURSED', note: 'Paid in March run' }, admin);
+
+    const history = await getExpenseStatusHistory(expense.id, owner);
+    expect(history.map(h => h.to_status)).toEqual(['DRAFT', 'SUBMITTED', 'APPROVED', 'SCHEDULED_FOR_PAYMENT', 'REIMBURSED']);
+    expect(history.map(h => h.changed_by)).toEqual([owner.id, owner.id, manager.id, admin.id, admin.id]);
+    expect(history[0].from_status).toBeNull();
+    expect(history[4].note).toEqual('Paid in March run');
+    expect(history[4].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should let the owner withdraw and resubmit', async () => {
+    const expense = await createExpense({ ...baseExpenseInput, user_id: owner.id, category_id: categoryId });
+
+    const withdrawn = await withdrawExpense({ id: expense.id, note: 'Wrong trip' }, owner);
+    expect(withdrawn.status).toEqual('WITHDRAWN');
+    await expect(approve(expense.id)).rejects.toThrow(/only submitted/i);
+
+    await submitExpense({ id: expense.id }, owner);
+    await approve(expense.id);
+
+    expect(await transitions(expense.id)).toEqual(['->SUBMITTED', 'SUBMITTED>WITHDRAWN', 'WITHDRAWN>SUBMITTED', 'SUBMITTED>APPROVED']);
+  });
+
+  it('should reject transitions the lifecycle does not allow', async () => {
+    const expense = await draft();
+
+    await expect(withdrawExpense({ id: expense.id }, owner)).rejects.toThrow(/only submitted or rejected/i);
+    await expect(updatePaymentStatus({ id: expense.id, status: 'REIMBURSED' }, admin)).rejects.toThrow(/cannot move an expense from DRAFT to REIMBURSED/i);
+
+    await submitExpense({ id: expense.id }, owner);
+    await expect(submitExpense({ id: expense.id }, owner)).rejects.toThrow(/only draft, withdrawn or rejected/i);
+
+    await approve(expense.id);
+    await expect(withdrawExpense({ id: expense.id }, owner)).rejects.toThrow(/only submitted or rejected/i);
+  });
+
+  it('should only let admins move expenses through payment', async () => {
+    const expense = await createExpense({ ...baseExpenseInput, user_id: owner.id, category_id: categoryId });
+    await approve(expense.id);
+
+    await expect(updatePaymentStatus({ id: expense.id, status: 'SCHEDULED_FOR_PAYMENT' }, manager)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    await updatePaymentStatus({ id: expense.id, status: 'SCHEDULED_FOR_PAYMENT' }, admin);
+    const unscheduled = await updatePaymentStatus({ id: expense.id, status: 'APPROVED' }, admin);
+    expect(unscheduled.status).toEqual('APPROVED');
+  });
+
+  it('should lock expenses once they are in payment', async () => {
+    const expense = await createExpense({ ...baseExpenseInput, user_id: owner.id, category_id: categoryId });
+    await approve(expense.id);
+    await updatePaymentStatus({ id: expense.id, status: 'SCHEDULED_FOR_PAYMENT' }, admin);
+
+    await expect(updateExpense({ id: expense.id, amount: 1 }, owner)).rejects.toThrow(/scheduled for payment or reimbursed/i);
+    await expect(deleteExpense(expense.id, owner)).rejects.toThrow(/scheduled for payment or reimbursed/i);
+    await expect(reopenExpense(expense.id, manager)).rejects.toThrow(/only approved/i);
+  });
+
+  it('should hide the history from users who cannot read the expense', async () => {
+    const expense = await draft();
+    const stranger: AuthUser = { id: manager.id + 100, email: 'nobody@example.com', role: 'USER' };
+
+    await expect(getExpenseStatusHistory(expense.id, stranger)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('getExpenses', () => {
+  let owner: any;
+  let member: any;
+  let outsider: any;
+  let manager: any;
+  let travel: any;
+  let meals: any;
+  let team: any;
+
+  const asActor = (user: any): AuthUser => ({ id: user.id, email: user.email, role: user.role });
+
+  // Parse through the schema so defaults apply like they do for tRPC input
+  const list = (input: Record<string, unknown>, actor?: AuthUser) => getExpenses(expenseFilterSchema.parse(input), actor);
+  const titles = async (input: Record<string, unknown>, actor?: AuthUser) => (await list(input, actor)).expenses.map(e => e.title);
+
+  async function addExpense(input: Partial<CreateExpenseInput> & { user_id: number; category_id: number; title: string }, status?: 'APPROVED' | 'REJECTED') {
+    const expense = await createExpense({ ...baseExpenseInput, description: null, tags: [], ...input });
+    if (status) {
+      await db.update(expensesTable).set({ status }).where(eq(expensesTable.id, expense.id)).execute();
+    }
+    return expense;
+  }
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' },
+        { email: 'member@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Member', role: 'USER' },
+        { email: 'outsider@example.com', password_hash: 'hashedpassword', first_name: 'Out', last_name: 'Sider', role: 'USER' },
+        { email: 'manager@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Manager', role: 'MANAGER' }
+      ])
+      .returning()
+      .execute();
+    [owner, member, outsider, manager] = users;
+
+    const categories = await db.insert(categoriesTable)
+      .values([{ name: 'Travel', color: '#FF0000' }, { name: 'Meals', color: '#00FF00' }])
+      .returning()
+      .execute();
+    [travel, meals] = categories;
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: manager.id })
+      .returning()
+      .execute();
+    team = teams[0];
+    await db.insert(teamMembersTable).values({ team_id: team.id, user_id: member.id }).execute();
+
+    await addExpense({ user_id: owner.id, category_id: travel.id, title: 'Flight to Berlin', amount: 450, tags: ['travel', 'client'], expense_date: new Date('2024-01-10') });
+    await addExpense({ user_id: owner.id, category_id: meals.id, title: 'Team lunch', amount: 80.5, tags: ['meals'], expense_date: new Date('2024-02-05') }, 'APPROVED');
+    await addExpense({ user_id: owner.id, category_id: travel.id, title: 'Hotel Berlin', description: 'Two nights near the client office', amount: 300, tags: ['travel'], expense_date: new Date('2024-03-01') }, 'REJECTED');
+    await addExpense({ user_id: member.id, team_id: team.id, category_id: meals.id, title: 'Coffee', amount: 12, tags: ['meals', 'client'], expense_date: new Date('2024-02-20') });
+    await addExpense({ user_id: outsider.id, category_id: travel.id, title: 'Taxi', amount: 25, expense_date: new Date('2024-01-25') });
+  });
+
+  afterEach(resetDB);
+
+  it('should list every expense newest first by default', async () => {
+    const result = await list({});
+
+    expect(result.total_count).toEqual(5);
+    expect(result.total_pages).toEqual(1);
+    expect(result.page).toEqual(1);
+    expect(result.limit).toEqual(20);
+    expect(result.expenses.map(e => e.title)).toEqual(['Hotel Berlin', 'Coffee', 'Team lunch', 'Taxi', 'Flight to Berlin']);
+    expect(typeof result.expenses[0].amount).toBe('number');
+  });
+
+  it('should filter by user, team and category', async () => {
+    expect(await titles({ user_id: owner.id })).toEqual(['Hotel Berlin', 'Team lunch', 'Flight to Berlin']);
+    expect(await titles({ team_id: team.id })).toEqual(['Coffee']);
+    expect(await titles({ category_id: meals.id })).toEqual(['Coffee', 'Team lunch']);
+  });
+
+  it('should filter by status', async () => {
+    expect(await titles({ status: 'APPROVED' })).toEqual(['Team lunch']);
+    expect(await titles({ status: 'SUBMITTED' })).toEqual(['Coffee', 'Taxi', 'Flight to Berlin']);
+    expect(await titles({ statuses: ['APPROVED', 'REJECTED'] })).toEqual(['Hotel Berlin', 'Team lunch']);
+  });
+
+  it('should filter by an inclusive date range', async () => {
+    expect(await titles({ start_date: '2024-01-25', end_date: '2024-02-20' })).toEqual(['Coffee', 'Team lunch', 'Taxi']);
+    expect(await titles({ start_date: '2024-02-21' })).toEqual(['Hotel Berlin']);
+    expect(await titles({ end_date: '2024-01-10' })).toEqual(['Flight to Berlin']);
+  });
+
+  it('should filter by an inclusive amount range', async () => {
+    expect(await titles({ min_amount: 80.5, max_amount: 300 })).toEqual(['Hotel Berlin', 'Team lunch']);
+    expect(await titles({ max_amount: 25 })).toEqual(['Coffee', 'Taxi']);
+  });
+
+  it('should require every requested tag', async () => {
+    expect(await titles({ tags: ['client'] })).toEqual(['Coffee', 'Flight to Berlin']);
+    expect(await titles({ tags: ['travel', 'client'] })).toEqual(['Flight to Berlin']);
+    expect(await titles({ tags: ['travel', 'meals'] })).toEqual([]);
+  });
+
+  it('should search titles and descriptions case-insensitively', async () => {
+    expect(await titles({ search: 'berlin' })).toEqual(['Hotel Berlin', 'Flight to Berlin']);
+    expect(await titles({ search: 'CLIENT OFFICE' })).toEqual(['Hotel Berlin']);
+    expect(await titles({ search: '%' })).toEqual([]);
+  });
+
+  it('should combine filters', async () => {
+    const result = await list({
+      user_id: owner.id,
+      category_id: travel.id,
+      min_amount: 100,
+      start_date: '2024-02-01',
+      tags: ['travel']
+    });
+
+    expect(result.total_count).toEqual(1);
+    expect(result.expenses[0].title).toEqual('Hotel Berlin');
+  });
+
+  it('should sort by the requested field and direction', async () => {
+    expect(await titles({ sort_by: 'amount', sort_direction: 'asc' })).toEqual(['Coffee', 'Taxi', 'Team lunch', 'Hotel Berlin', 'Flight to Berlin']);
+    expect(await titles({ sort_by: 'title', sort_direction: 'desc' })).toEqual(['Team lunch', 'Taxi', 'Hotel Berlin', 'Flight to Berlin', 'Coffee']);
+    expect(await titles({ sort_by: 'expense_date', sort_direction: 'asc' })).toEqual(['Flight to Berlin', 'Taxi', 'Team lunch', 'Coffee', 'Hotel Berlin']);
+  });
+
+  it('should paginate with correct totals', async () => {
+    const second = await list({ sort_by: 'amount', sort_direction: 'asc', page: 2, limit: 2 });
+
+    expect(second.expenses.map(e => e.title)).toEqual(['Team lunch', 'Hotel Berlin']);
+    expect(second.total_count).toEqual(5);
+    expect(second.total_pages).toEqual(3);
+    expect(second.page).toEqual(2);
+    expect(second.limit).toEqual(2);
+
+    const beyond = await list({ page: 4, limit: 2 });
+    expect(beyond.expenses).toHaveLength(0);
+    expect(beyond.total_count).toEqual(5);
+  });
+
+  it('should report totals for the filtered set only', async () => {
+    const result = await list({ status: 'SUBMITTED', limit: 2 });
+
+    expect(result.total_count).toEqual(3);
+    expect(result.total_pages).toEqual(2);
+  });
+
+  it('should walk every expense with cursors', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await list({ limit: 2, cursor });
+      seen.push(...result.expenses.map(e => e.title));
+      cursor = result.next_cursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['Hotel Berlin', 'Coffee', 'Team lunch', 'Taxi', 'Flight to Berlin']);
+  });
+
+  it('should not shift cursor pages when newer expenses arrive', async () => {
+    const first = await list({ limit: 2 });
+    await addExpense({ user_id: owner.id, category_id: meals.id, title: 'Late dinner', expense_date: new Date('2024-04-01') });
+
+    const second = await list({ limit: 2, cursor: first.next_cursor! });
+
+    expect(second.expenses.map(e => e.title)).toEqual(['Team lunch', 'Taxi']);
+  });
+
+  it('should page ascending and through equal dates', async () => {
+    await addExpense({ user_id: owner.id, category_id: meals.id, title: 'Second coffee', expense_date: new Date('2024-02-20') });
+    const first = await list({ sort_direction: 'asc', limit: 3 });
+    const second = await list({ sort_direction: 'asc', limit: 3, cursor: first.next_cursor! });
+
+    expect(first.expenses.map(e => e.title)).toEqual(['Flight to Berlin', 'Taxi', 'Team lunch']);
+    expect(second.expenses.map(e => e.title)).toEqual(['Coffee', 'Second coffee', 'Hotel Berlin']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should only issue cursors for the expense_date ordering', async () => {
+    const byAmount = await list({ sort_by: 'amount', limit: 2 });
+    expect(byAmount.next_cursor).toBeNull();
+
+    const byDate = await list({ limit: 2 });
+    await expect(list({ sort_by: 'amount', cursor: byDate.next_cursor! })).rejects.toThrow(/expense_date/i);
+    await expect(list({ cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+  });
+
+  it('should only show users their own expenses', async () => {
+    expect(await titles({}, asActor(owner))).toEqual(['Hotel Berlin', 'Team lunch', 'Flight to Berlin']);
+    expect(await titles({ user_id: outsider.id }, asActor(owner))).toEqual([]);
+  });
+
+  it('should show managers the expenses of their teams', async () => {
+    const result = await list({}, asActor(manager));
+
+    expect(result.total_count).toEqual(1);
+    expect(result.expenses[0].title).toEqual('Coffee');
+  });
+});
+
+describe('searchExpenses', () => {
+  let owner: AuthUser;
+  let manager: AuthUser;
+  let admin: AuthUser;
+
+  const search = async (query: string, actor: AuthUser) => searchExpenses({ query, limit: 20 }, actor);
+  const titles = async (query: string, actor: AuthUser) => (await search(query, actor)).map(e => e.title);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' },
+        { email: 'member@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Member', role: 'USER' },
+        { email: 'outsider@example.com', password_hash: 'hashedpassword', first_name: 'Out', last_name: 'Sider', role: 'USER' },
+        { email: 'manager@example.com', password_hash: 'hashedpassword', first_name: 'Team', last_name: 'Manager', role: 'MANAGER' },
+        { email: 'admin@example.com', password_hash: 'hashedpassword', first_name: 'Site', last_name: 'Admin', role: 'ADMIN' }
+      ])
+      .returning()
+      .execute();
+    const [ownerRow, memberRow, outsiderRow, managerRow, adminRow] = users;
+    owner = { id: ownerRow.id, email: ownerRow.email, role: 'USER' };
+    manager = { id: managerRow.id, email: managerRow.email, role: 'MANAGER' };
+    admin = { id: adminRow.id, email: adminRow.email, role: 'ADMIN' };
+
+    const categories = await db.insert(categoriesTable)
+      .values([{ name: 'Travel', color: '#FF0000' }, { name: 'Meals', color: '#00FF00' }])
+      .returning()
+      .execute();
+    const [travel, meals] = categories;
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Sales', manager_id: managerRow.id })
+      .returning()
+      .execute();
+    await db.insert(teamMembersTable).values({ team_id: teams[0].id, user_id: memberRow.id }).execute();
+
+    const add = (user_id: number, category_id: number, title: string, description: string | null, tags: string[]) =>
+      createExpense({ ...baseExpenseInput, user_id, category_id, title, description, tags });
+
+    await add(ownerRow.id, travel.id, 'Hotel Berlin', 'Two nights near the client office', ['conference']);
+    await add(ownerRow.id, travel.id, 'Flight to Munich', 'Economy <seat> & extra bags', ['airfare']);
+    await add(ownerRow.id, meals.id, 'Team lunch', 'Berlin office lunch', []);
+    await add(memberRow.id, travel.id, 'Berlin taxi', null, []);
+    await add(outsiderRow.id, meals.id, 'Berlin dinner', null, []);
+  });
+
+  afterEach(resetDB);
+
+  it('should rank title matches above description matches', async () => {
+    const results = await search('berlin', owner);
+
+    expect(results.map(e => e.title)).toEqual(['Hotel Berlin', 'Team lunch']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should match word prefixes and stems for type-ahead', async () => {
+    expect(await titles('hot ber', owner)).toEqual(['Hotel Berlin']);
+    expect(await titles('hotels', owner)).toEqual(['Hotel Berlin']);
+  });
+
+  it('should match tags and category names', async () => {
+    expect(await titles('confer', owner)).toEqual(['Hotel Berlin']);
+    expect(await titles('meals', owner)).toEqual(['Team lunch']);
+    expect(await titles('travel munich', owner)).toEqual(['Flight to Munich']);
+  });
+
+  it('should find candidates through the full-text and category indexes', async () => {
+    const plan = await withTransaction(async () => {
+      // The tables are tiny, so take sequential scans off the table to see which indexes the planner can use
+      await db.execute(sql`set local enable_seqscan = off`);
+      const condition = await expenseSearchCondition('travel munich');
+      const result = await db.execute(sql`explain ${db.select({ id: expensesTable.id })
+        .from(expensesTable)
+        .innerJoin(categoriesTable, eq(expensesTable.category_id, categoriesTable.id))
+        .where(condition!)}`);
+      return result.rows.map(row => row['QUERY PLAN']).join('\n');
+    });
+
+    expect(plan).toContain('expenses_search_vector_idx');
+    expect(plan).toContain('expenses_category_id_idx');
+    expect(plan).not.toContain('Seq Scan on expenses');
+  });
+
+  it('should highlight matches in titles and description snippets', async () => {
+    const [result] = await search('client', owner);
+
+    expect(result.title_highlight).toEqual('Hotel Berlin');
+    expect(result.description_snippet).toContain('<mark>client</mark>');
+    expect(result.category_name).toEqual('Travel');
+    expect(result.amount).toEqual(99.99);
+    expect((result as any).search_vector).toBeUndefined();
+
+    const [hotel] = await search('berlin', owner);
+    expect(hotel.title_highlight).toEqual('Hotel <mark>Berlin</mark>');
+  });
+
+  it('should escape markup in the stored text', async () => {
+    const [result] = await search('bags', owner);
+
+    expect(result.description_snippet).toContain('&lt;seat&gt; &amp; extra <mark>bags</mark>');
+  });
+
+  it('should scope results to what the caller may read', async () => {
+    expect(await titles('berlin', manager)).toEqual(['Berlin taxi']);
+    expect((await titles('berlin', admin)).sort()).toEqual(['Berlin dinner', 'Berlin taxi', 'Hotel Berlin', 'Team lunch']);
+  });
+
+  it('should return nothing for queries without words', async () => {
+    expect(await search('!!! ???', owner)).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginThrottlesTable, notificationsTable, usersTable } from '../db/schema';
+import { registerUser, loginUser } from '../handlers/auth';
+import { clearLoginLockout, getLoginLockouts, retryDelay } from '../handlers/login_throttles';
+import { eq } from 'drizzle-orm';
+
+const client = { ip_address: '192.0.2.10', user_agent: 'bun-test' };
+const wrongPassword = { email: 'throttle@example.com', password: 'wrong-password' };
+const rightPassword = { email: 'throttle@example.com', password: 'password123' };
+let userId: number;
+
+// Pretend the back-off delay has passed without actually waiting
+async function skipDelay() {
+  await db.update(loginThrottlesTable)
+    .set({ last_failed_at: new Date(Date.now() - 60 * 1000) })
+    .execute();
+}
+
+async function failLogins(times: number, input = wrongPassword) {
+  for (let i = 0; i < times; i++) {
+    await skipDelay();
+    await expect(loginUser(input, client)).rejects.toThrow(/invalid email or password/i);
+  }
+}
+
+describe('login throttling', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await registerUser({
+      ...rightPassword,
+      first_name: 'Brute',
+      last_name: 'Force',
+      role: 'USER'
+    });
+    userId = user.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should grow the delay with each failure', () => {
+    expect(retryDelay('EMAIL', 2)).toEqual(0);
+    expect(retryDelay('EMAIL', 3)).toEqual(1000);
+    expect(retryDelay('EMAIL', 4)).toEqual(2000);
+    expect(retryDelay('EMAIL', 20)).toEqual(30000);
+    expect(retryDelay('IP', 5)).toEqual(0);
+  });
+
+  it('should count failures per email and per IP', async () => {
+    await failLogins(2);
+
+    const throttles = await db.select().from(loginThrottlesTable).execute();
+    expect(throttles.map(t => [t.scope, t.key, t.failed_attempts]).sort()).toEqual([
+      ['EMAIL', 'throttle@example.com', 2],
+      ['IP', '192.0.2.10', 2]
+    ]);
+  });
+
+  it('should not let concurrent attempts past the free ones', async () => {
+    const results = await Promise.allSettled(Array.from({ length: 8 }, () => loginUser(wrongPassword, client)));
+
+    const reasons = results.map(result => result.status === 'rejected' ? String(result.reason.message) : 'logged in');
+    expect(reasons.filter(reason => /invalid email or password/i.test(reason))).toHaveLength(3);
+    expect(reasons.filter(reason => /try again in \d+ seconds/i.test(reason))).toHaveLength(5);
+
+    const throttles = await db.select().from(loginThrottlesTable).where(eq(loginThrottlesTable.scope, 'EMAIL')).execute();
+    expect(throttles[0].failed_attempts).toEqual(3);
+  });
+
+  it('should make callers wait after repeated failures', async () => {
+    await failLogins(3);
+
+    await expect(loginUser(rightPassword, client)).rejects.toThrow(/try again in \d+ seconds/i);
+
+    await skipDelay();
+    const result = await loginUser(rightPassword, client);
+    expect(result.two_factor_required).toBe(false);
+  });
+
+  it('should lock the account and notify the user', async () => {
+    await failLogins(5);
+    await skipDelay();
+
+    await expect(loginUser(rightPassword, client)).rejects.toThrow(/locked until/i);
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, userId))
+      .execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('SYSTEM_UPDATE');
+  });
+
+  it('should count unknown emails without revealing them', async () => {
+    await failLogins(5, { email: 'nobody@example.com', password: 'whatever1' });
+    await skipDelay();
+
+    await expect(loginUser({ email: 'nobody@example.com', password: 'whatever1' }, client)).rejects.toThrow(/locked until/i);
+  });
+
+  it('should reset the email counter after a successful login', async () => {
+    await failLogins(2);
+    await loginUser(rightPassword, client);
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .where(eq(loginThrottlesTable.scope, 'EMAIL'))
+      .execute();
+    expect(throttles).toHaveLength(0);
+  });
+
+  it('should give the attempt back when the password is right but the account is deactivated', async () => {
+    await failLogins(2);
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, userId)).execute();
+
+    await skipDelay();
+    await expect(loginUser(rightPassword, client)).rejects.toThrow(/account is deactivated/i);
+
+    const throttles = await db.select().from(loginThrottlesTable).execute();
+    expect(throttles.map(t => [t.scope, t.failed_attempts]).sort()).toEqual([['EMAIL', 2], ['IP', 2]]);
+  });
+
+  it('should start counting afresh once a lockout expires', async () => {
+    await failLogins(5);
+    await db.update(loginThrottlesTable)
+      .set({ locked_until: new Date(Date.now() - 1000) })
+      .execute();
+
+    await failLogins(1);
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .where(eq(loginThrottlesTable.scope, 'EMAIL'))
+      .execute();
+    expect(throttles[0].failed_attempts).toEqual(1);
+    expect(throttles[0].locked_until).toBeNull();
+  });
+
+  describe('admin lockout management', () => {
+    it('should list and clear active lockouts', async () => {
+      await failLogins(5);
+
+      const lockouts = await getLoginLockouts();
+      expect(lockouts).toHaveLength(1);
+      expect(lockouts[0].scope).toEqual('EMAIL');
+      expect(lockouts[0].key).toEqual('throttle@example.com');
+
+      await clearLoginLockout(lockouts[0].id);
+
+      expect(await getLoginLockouts()).toHaveLength(0);
+      const result = await loginUser(rightPassword, client);
+      expect(result.two_factor_required).toBe(false);
+    });
+
+    it('should throw for unknown lockouts', async () => {
+      await expect(clearLoginLockout(999)).rejects.toThrow(/not found/i);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable } from '../db/schema';
+import { appLink, createFileOutboxTransport, sendMail, setMailTransport, type MailMessage } from '../mail';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+const message: MailMessage = {
+  to: 'someone@example.com',
+  subject: 'Hello',
+  body: 'Line one\nLine two'
+};
+
+describe('mail', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    setMailTransport(null);
+    await resetDB();
+  });
+
+  it('should store messages in the database outbox by default', async () => {
+    await sendMail(message);
+
+    const rows = await db.select().from(mailOutboxTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].to_address).toEqual('someone@example.com');
+    expect(rows[0].subject).toEqual('Hello');
+    expect(rows[0].body).toEqual('Line one\nLine two');
+  });
+
+  it('should write messages to files with the file transport', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'outbox-'));
+    try {
+      setMailTransport(createFileOutboxTransport(directory));
+      await sendMail(message);
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      const saved = JSON.parse(await readFile(path.join(directory, files[0]), 'utf8'));
+      expect(saved.to).toEqual('someone@example.com');
+      expect(saved.body).toEqual('Line one\nLine two');
+
+      const rows = await db.select().from(mailOutboxTable).execute();
+      expect(rows).toHaveLength(0);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should accept custom transports', async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (m) => { sent.push(m); } });
+
+    await sendMail(message);
+
+    expect(sent).toEqual([message]);
+  });
+
+  it('should build absolute links with encoded parameters', () => {
+    const link = appLink('/reset-password', { token: 'a+b/c' });
+    expect(link).toMatch(/\/reset-password\?token=a%2Bb%2Fc$/);
+  });
+});
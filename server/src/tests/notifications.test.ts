@@ -7,6 +7,7 @@ import { eq, and } from 'drizzle-orm';
 import {
   createNotification,
   getNotifications,
+  getNotificationsPage,
   markNotificationAsRead,
   markAllNotificationsAsRead,
   deleteNotification,
@@ -198,6 +199,65 @@ describe('Notification Handlers', () => {
     });
   });
 
+  describe('getNotificationsPage', () => {
+    it('should page newest first until the cursor runs out', async () => {
+      const userResult = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+      const userId = userResult[0].id;
+
+      for (const title of ['One', 'Two', 'Three', 'Four', 'Five']) {
+        await createNotification({ ...testNotificationInput, user_id: userId, title });
+      }
+
+      const first = await getNotificationsPage(userId, { limit: 2 });
+      const second = await getNotificationsPage(userId, { limit: 2, cursor: first.next_cursor! });
+      const third = await getNotificationsPage(userId, { limit: 2, cursor: second.next_cursor! });
+
+      expect(first.notifications.map(n => n.title)).toEqual(['Five', 'Four']);
+      expect(second.notifications.map(n => n.title)).toEqual(['Three', 'Two']);
+      expect(third.notifications.map(n => n.title)).toEqual(['One']);
+      expect(third.next_cursor).toBeNull();
+    });
+
+    it('should break ties on identical timestamps by id', async () => {
+      const userResult = await db.insert(usersTable)
+        .values(testUser)
+        .returning()
+        .execute();
+      const userId = userResult[0].id;
+
+      const created_at = new Date('2024-01-01T12:00:00Z');
+      await db.insert(notificationsTable)
+        .values(['A', 'B', 'C'].map(title => ({ user_id: userId, type: 'SYSTEM_UPDATE' as const, title, message: 'Same time', created_at })))
+        .execute();
+
+      const first = await getNotificationsPage(userId, { limit: 2 });
+      const second = await getNotificationsPage(userId, { limit: 2, cursor: first.next_cursor! });
+
+      expect(first.notifications.map(n => n.title)).toEqual(['C', 'B']);
+      expect(second.notifications.map(n => n.title)).toEqual(['A']);
+    });
+
+    it('should only include the user\'s own notifications', async () => {
+      const users = await db.insert(usersTable)
+        .values([testUser, testManager])
+        .returning()
+        .execute();
+
+      await createNotification({ ...testNotificationInput, user_id: users[0].id, title: 'Mine' });
+      await createNotification({ ...testNotificationInput, user_id: users[1].id, title: 'Theirs' });
+
+      const page = await getNotificationsPage(users[0].id, { limit: 20 });
+      expect(page.notifications.map(n => n.title)).toEqual(['Mine']);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(getNotificationsPage(1, { limit: 20, cursor: 'garbage' })).rejects.toThrow(/invalid cursor/i);
+    });
+  });
+
   describe('markNotificationAsRead', () => {
     it('should mark notification as read', async () => {
       // Create user and notification
@@ -361,7 +421,7 @@ describe('Notification Handlers', () => {
       expect(notifications).toHaveLength(1);
       expect(notifications[0].title).toEqual('Budget Alert');
       expect(notifications[0].message).toContain('85%');
-      expect(notifications[0].message).toContain('1000');
+      expect(notifications[0].message).toContain('$1,000.00');
     });
 
     it('should throw error for non-existent user', async () => {
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { registerUser, loginUser } from '../handlers/auth';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/passwords';
+import { changePasswordInputSchema, createUserInputSchema, passwordSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Hash in the format used before scrypt was introduced
+function legacyHash(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
+  return `${salt}:${hash}`;
+}
+
+describe('password hashing', () => {
+  it('should produce versioned scrypt hashes', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    expect(hash).toMatch(/^\$scrypt\$v=1\$ln=\d+,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(await hashPassword('correct horse battery')).not.toEqual(hash); // salted
+  });
+
+  it('should verify scrypt hashes', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    expect(await verifyPassword('correct horse battery', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse battery', hash)).toBe(false);
+  });
+
+  it('should still verify legacy hashes', async () => {
+    const hash = legacyHash('old-password-1');
+
+    expect(await verifyPassword('old-password-1', hash)).toBe(true);
+    expect(await verifyPassword('old-password-2', hash)).toBe(false);
+    expect(await verifyPassword('old-password-1', 'garbage')).toBe(false);
+  });
+
+  it('should flag legacy and weaker hashes for rehashing', async () => {
+    expect(needsRehash(legacyHash('old-password-1'))).toBe(true);
+    expect(needsRehash(await hashPassword('new-password-1'))).toBe(false);
+    expect(needsRehash('$scrypt$v=1$ln=10,r=8,p=1$c2FsdA$aGFzaA')).toBe(true);
+  });
+});
+
+describe('password policy', () => {
+  it('should reject short and overly long passwords', () => {
+    expect(passwordSchema.safeParse('short').success).toBe(false);
+    expect(passwordSchema.safeParse('x'.repeat(129)).success).toBe(false);
+    expect(passwordSchema.safeParse('plum-kettle-42').success).toBe(true);
+  });
+
+  it('should reject common passwords regardless of case', () => {
+    expect(passwordSchema.safeParse('password123').success).toBe(false);
+    expect(passwordSchema.safeParse('QWERTYUIOP').success).toBe(false);
+    expect(passwordSchema.safeParse('Expense123').success).toBe(false);
+  });
+
+  it('should apply to registration and password changes', () => {
+    const registration = createUserInputSchema.safeParse({
+      email: 'policy@example.com',
+      password: 'iloveyou1',
+      first_name: 'Policy',
+      last_name: 'Test'
+    });
+    expect(registration.success).toBe(false);
+
+    const change = changePasswordInputSchema.safeParse({
+      current_password: 'anything',
+      new_password: 'letmein123'
+    });
+    expect(change.success).toBe(false);
+  });
+});
+
+describe('rehash on login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should upgrade a legacy hash after a successful login', async () => {
+    const user = await registerUser({
+      email: 'legacy@example.com',
+      password: 'old-password-1',
+      first_name: 'Legacy',
+      last_name: 'User',
+      role: 'USER'
+    });
+    await db.update(usersTable)
+      .set({ password_hash: legacyHash('old-password-1') })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await loginUser({ email: 'legacy@example.com', password: 'old-password-1' });
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(users[0].password_hash.startsWith('$scrypt$')).toBe(true);
+    expect(await verifyPassword('old-password-1', users[0].password_hash)).toBe(true);
+
+    // The upgraded hash keeps working
+    const again = await loginUser({ email: 'legacy@example.com', password: 'old-password-1' });
+    expect(again.two_factor_required).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, teamsTable, teamMembersTable, categoriesTable, budgetsTable, notificationsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { can, authorize } from '../policy';
+import { updateBudget } from '../handlers/budgets';
+import { deleteCategory } from '../handlers/categories';
+import { markNotificationAsRead } from '../handlers/notifications';
+import { addTeamMember } from '../handlers/teams';
+import { updateUser } from '../handlers/users';
+
+let admin: AuthUser;
+let manager: AuthUser;
+let otherManager: AuthUser;
+let member: AuthUser;
+let outsider: AuthUser;
+let teamId: number;
+
+async function createUser(email: string, role: 'ADMIN' | 'MANAGER' | 'USER'): Promise<AuthUser> {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      password_hash: 'hashedpassword',
+      first_name: 'Test',
+      last_name: 'User',
+      role
+    })
+    .returning()
+    .execute();
+
+  return { id: result[0].id, email, role };
+}
+
+describe('policy', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    admin = await createUser('admin@example.com', 'ADMIN');
+    manager = await createUser('manager@example.com', 'MANAGER');
+    otherManager = await createUser('other@example.com', 'MANAGER');
+    member = await createUser('member@example.com', 'USER');
+    outsider = await createUser('outsider@example.com', 'USER');
+
+    const team = await db.insert(teamsTable)
+      .values({ name: 'Finance', manager_id: manager.id })
+      .returning()
+      .execute();
+    teamId = team[0].id;
+
+    await db.insert(teamMembersTable)
+      .values({ team_id: teamId, user_id: member.id })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('can', () => {
+    it('should allow admins everything', async () => {
+      expect(await can(admin, 'delete', { type: 'budget', user_id: member.id })).toBe(true);
+      expect(await can(admin, 'update', { type: 'category', user_id: null })).toBe(true);
+      expect(await can(admin, 'manage', { type: 'user', id: member.id })).toBe(true);
+    });
+
+    it('should let owners manage their own expenses', async () => {
+      const expense = { type: 'expense' as const, user_id: member.id, team_id: null };
+
+      expect(await can(member, 'read', expense)).toBe(true);
+      expect(await can(member, 'update', expense)).toBe(true);
+      expect(await can(member, 'delete', expense)).toBe(true);
+      expect(await can(member, 'approve', expense)).toBe(false);
+      expect(await can(outsider, 'read', expense)).toBe(false);
+      expect(await can(outsider, 'delete', expense)).toBe(false);
+    });
+
+    it('should let team managers read and approve member expenses', async () => {
+      const memberExpense = { type: 'expense' as const, user_id: member.id, team_id: null };
+      const teamExpense = { type: 'expense' as const, user_id: outsider.id, team_id: teamId };
+
+      expect(await can(manager, 'read', memberExpense)).toBe(true);
+      expect(await can(manager, 'approve', memberExpense)).toBe(true);
+      expect(await can(manager, 'approve', teamExpense)).toBe(true);
+      expect(await can(manager, 'delete', memberExpense)).toBe(false);
+      expect(await can(otherManager, 'approve', memberExpense)).toBe(false);
+    });
+
+    it('should restrict budgets and notifications to their owner', async () => {
+      expect(await can(member, 'update', { type: 'budget', user_id: member.id })).toBe(true);
+      expect(await can(manager, 'read', { type: 'budget', user_id: member.id })).toBe(false);
+      expect(await can(member, 'delete', { type: 'notification', user_id: member.id })).toBe(true);
+      expect(await can(outsider, 'update', { type: 'notification', user_id: member.id })).toBe(false);
+    });
+
+    it('should keep global categories read-only for non-admins', async () => {
+      expect(await can(member, 'read', { type: 'category', user_id: null })).toBe(true);
+      expect(await can(member, 'update', { type: 'category', user_id: null })).toBe(false);
+      expect(await can(member, 'delete', { type: 'category', user_id: member.id })).toBe(true);
+      expect(await can(outsider, 'read', { type: 'category', user_id: member.id })).toBe(false);
+    });
+
+    it('should apply team rules for managers and members', async () => {
+      const team = { type: 'team' as const, id: teamId, manager_id: manager.id };
+
+      expect(await can(member, 'read', team)).toBe(true);
+      expect(await can(outsider, 'read', team)).toBe(false);
+      expect(await can(manager, 'manage', team)).toBe(true);
+      expect(await can(member, 'manage', team)).toBe(false);
+      expect(await can(manager, 'delete', team)).toBe(false);
+      expect(await can(manager, 'create', { type: 'team', manager_id: manager.id })).toBe(true);
+      expect(await can(manager, 'create', { type: 'team', manager_id: otherManager.id })).toBe(false);
+    });
+
+    it('should let users read and update themselves only', async () => {
+      expect(await can(member, 'update', { type: 'user', id: member.id })).toBe(true);
+      expect(await can(member, 'manage', { type: 'user', id: member.id })).toBe(false);
+      expect(await can(manager, 'read', { type: 'user', id: member.id })).toBe(true);
+      expect(await can(manager, 'update', { type: 'user', id: member.id })).toBe(false);
+      expect(await can(otherManager, 'read', { type: 'user', id: member.id })).toBe(false);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should throw a FORBIDDEN error when denied', async () => {
+      await expect(authorize(outsider, 'read', { type: 'budget', user_id: member.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should resolve when allowed', async () => {
+      await expect(authorize(member, 'read', { type: 'budget', user_id: member.id })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('handler enforcement', () => {
+    it('should reject updating another user\'s budget', async () => {
+      const budget = await db.insert(budgetsTable)
+        .values({
+          user_id: member.id,
+          amount: '500.00',
+          period: 'MONTHLY',
+          start_date: '2024-01-01',
+          end_date: '2024-01-31'
+        })
+        .returning()
+        .execute();
+
+      await expect(updateBudget({ id: budget[0].id, amount: 1 }, outsider))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const updated = await updateBudget({ id: budget[0].id, amount: 750 }, member);
+      expect(updated.amount).toEqual(750);
+    });
+
+    it('should reject deleting a global category as a regular user', async () => {
+      const category = await db.insert(categoriesTable)
+        .values({ name: 'Travel', color: '#FF0000' })
+        .returning()
+        .execute();
+
+      await expect(deleteCategory(category[0].id, member)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(await deleteCategory(category[0].id, admin)).toEqual({ success: true });
+    });
+
+    it('should reject marking someone else\'s notification as read', async () => {
+      const notification = await db.insert(notificationsTable)
+        .values({ user_id: member.id, type: 'SYSTEM_UPDATE', title: 'Hello', message: 'World' })
+        .returning()
+        .execute();
+
+      await expect(markNotificationAsRead(notification[0].id, outsider)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(await markNotificationAsRead(notification[0].id, member)).toEqual({ success: true });
+    });
+
+    it('should reject team changes by a manager of another team', async () => {
+      await expect(addTeamMember(teamId, outsider.id, otherManager)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const membership = await addTeamMember(teamId, outsider.id, manager);
+      expect(membership.user_id).toEqual(outsider.id);
+    });
+
+    it('should reject role changes by non-admins', async () => {
+      await expect(updateUser({ id: member.id, role: 'ADMIN' }, member)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      const updated = await updateUser({ id: member.id, first_name: 'Renamed' }, member);
+      expect(updated.first_name).toEqual('Renamed');
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createLocalStorageDriver, setStorageDriver } from '../storage';
+import { createTesseractEngine, setOcrEngine } from '../ocr';
+import { parseAmounts, parseReceiptText } from '../utils/receipt_parser';
+import { getReceiptScan, scanReceipt } from '../handlers/receipt_scans';
+import { getExpenseAttachments } from '../handlers/attachments';
+import { submitExpense, updateExpense } from '../handlers/expenses';
+import { TRPCError } from '@trpc/server';
+
+const today = new Date('2024-06-01T12:00:00Z');
+
+const US_RECEIPT = `WHOLE FOODS MARKET
+123 Main Street
+Austin, TX 78701
+Tel (512) 555-0100
+03/14/2024 10:42
+ORGANIC BANANAS        2.49
+COFFEE BEANS          14.99
+SUBTOTAL              17.48
+SALES TAX 8.25%        1.44
+TOTAL                $18.92
+VISA                  18.92`;
+
+const GERMAN_RECEIPT = `Bäckerei Müller GmbH
+Hauptstr. 5, 10115 Berlin
+Datum: 12.03.2024
+2x Brötchen   1,20
+Kaffee        3,50
+Summe EUR     4,70
+MwSt 7%       0,31
+Bar          10,00
+Rückgeld      5,30`;
+
+const UK_RECEIPT = `*** THE RED LION ***
+Invoice
+14 March 2024
+Fish & Chips  £12.50
+2 Pints        £9.80
+Total Due     £22.30
+VAT           £3.72`;
+
+describe('receipt parser', () => {
+  it('should read amounts in common notations', () => {
+    expect(parseAmounts('1,234.56  1.234,56  12,50  1\'000.00')).toEqual([1234.56, 1234.56, 12.5, 1000]);
+    expect(parseAmounts('VAT 19.00% on 12.03.2024')).toEqual([]);
+  });
+
+  it('should read a US receipt', () => {
+    const receipt = parseReceiptText(US_RECEIPT, today);
+
+    expect(receipt.merchant.value).toEqual('WHOLE FOODS MARKET');
+    expect(receipt.date.value).toEqual('2024-03-14');
+    expect(receipt.total.value).toEqual(18.92);
+    expect(receipt.tax.value).toEqual(1.44);
+    expect(receipt.currency.value).toEqual('USD');
+    // "$" is used by several currencies
+    expect(receipt.currency.confidence).toBeLessThan(0.7);
+  });
+
+  it('should read a German receipt', () => {
+    const receipt = parseReceiptText(GERMAN_RECEIPT, today);
+
+    expect(receipt.merchant.value).toEqual('Bäckerei Müller GmbH');
+    expect(receipt.date).toEqual({ value: '2024-03-12', confidence: 0.9 });
+    expect(receipt.total.value).toEqual(4.7);
+    expect(receipt.tax.value).toEqual(0.31);
+    expect(receipt.currency).toEqual({ value: 'EUR', confidence: 0.9 });
+  });
+
+  it('should prefer strongly labelled totals', () => {
+    const receipt = parseReceiptText(UK_RECEIPT, today);
+
+    expect(receipt.merchant.value).toEqual('THE RED LION');
+    expect(receipt.date.value).toEqual('2024-03-14');
+    expect(receipt.total).toEqual({ value: 22.3, confidence: 0.9 });
+    expect(receipt.tax.value).toEqual(3.72);
+    expect(receipt.currency.value).toEqual('GBP');
+  });
+
+  it('should resolve ambiguous dates by currency and skip future ones', () => {
+    expect(parseReceiptText('Shop\n03/04/2024\nTotal $5.00', today).date).toEqual({ value: '2024-03-04', confidence: 0.5 });
+    expect(parseReceiptText('Shop\n03/04/2024\nTotal €5.00', today).date).toEqual({ value: '2024-04-03', confidence: 0.5 });
+    expect(parseReceiptText('Shop\n2024-12-24\nTotal 5.00', today).date.value).toBeNull();
+  });
+
+  it('should fall back to guesses with low confidence', () => {
+    const receipt = parseReceiptText('Corner Kiosk\nCola 2.50\nChips 3.20', today);
+
+    expect(receipt.total).toEqual({ value: 3.2, confidence: 0.3 });
+    expect(receipt.tax).toEqual({ value: null, confidence: 0 });
+    expect(receipt.currency).toEqual({ value: null, confidence: 0 });
+  });
+
+  it('should return empty fields for unreadable text', () => {
+    const receipt = parseReceiptText('', today);
+
+    for (const field of Object.values(receipt)) {
+      expect(field).toEqual({ value: null, confidence: 0 });
+    }
+  });
+});
+
+describe('scanReceipt', () => {
+  const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('scanned receipt')]);
+  let directory: string;
+  let owner: AuthUser;
+  let other: AuthUser;
+  let categoryId: number;
+  let ocrText: string | Error;
+
+  const scan = (filename = 'lunch.png') =>
+    scanReceipt({ filename, content_type: 'image/png', data: PNG.toString('base64'), category_id: categoryId }, owner);
+
+  beforeEach(async () => {
+    await createDB();
+    directory = await mkdtemp(path.join(os.tmpdir(), 'receipts-'));
+    setStorageDriver(createLocalStorageDriver(directory));
+    ocrText = GERMAN_RECEIPT;
+    setOcrEngine({
+      name: 'fake',
+      recognize: async () => {
+        if (ocrText instanceof Error) {
+          throw ocrText;
+        }
+        return ocrText;
+      }
+    });
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Olga', last_name: 'Owner' },
+        { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Otto', last_name: 'Other' }
+      ])
+      .returning()
+      .execute();
+    [owner, other] = users.map(user => ({ id: user.id, email: user.email, role: user.role }));
+
+    const categories = await db.insert(categoriesTable).values({ name: 'Meals', color: '#00FF00' }).returning().execute();
+    categoryId = categories[0].id;
+  });
+
+  afterEach(async () => {
+    setOcrEngine(null);
+    setStorageDriver(null);
+    await rm(directory, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should draft an expense prefilled from the receipt', async () => {
+    const result = await scan();
+
+    expect(result.expense.status).toEqual('DRAFT');
+    expect(result.expense.user_id).toEqual(owner.id);
+    expect(result.expense.title).toEqual('Bäckerei Müller GmbH');
+    expect(result.expense.amount).toEqual(4.7);
+    expect(result.expense.expense_date).toEqual(new Date('2024-03-12'));
+
+    expect(result.attachment.expense_id).toEqual(result.expense.id);
+    expect(result.attachment.filename).toEqual('lunch.png');
+
+    expect(result.scan.status).toEqual('COMPLETED');
+    expect(result.scan.engine).toEqual('fake');
+    expect(result.scan.text).toEqual(GERMAN_RECEIPT);
+    expect(result.scan.fields.total).toEqual({ value: 4.7, confidence: 0.8 });
+    expect(result.scan.fields.tax.value).toEqual(0.31);
+    expect(result.scan.fields.currency.value).toEqual('EUR');
+
+    expect(await getReceiptScan(result.expense.id, owner)).toEqual(result.scan);
+    expect(await getExpenseAttachments(result.expense.id, owner)).toHaveLength(1);
+  });
+
+  it('should keep the upload as a draft when OCR fails', async () => {
+    ocrText = new Error('tesseract exited with code 1: Error in pixReadMem');
+
+    const result = await scan('Hotel Invoice.png');
+
+    expect(result.scan.status).toEqual('FAILED');
+    expect(result.scan.error).toContain('pixReadMem');
+    expect(result.scan.fields.total).toEqual({ value: null, confidence: 0 });
+    expect(result.expense.title).toEqual('Hotel Invoice');
+    expect(result.expense.amount).toEqual(0);
+
+    // The user has to enter the amount before the draft can go to approval
+    await expect(submitExpense({ id: result.expense.id }, owner)).rejects.toThrow(/Enter the amount/);
+    await updateExpense({ id: result.expense.id, amount: 89 }, owner);
+    expect((await submitExpense({ id: result.expense.id }, owner)).status).toEqual('SUBMITTED');
+  });
+
+  it('should say OCR is unavailable instead of drafting a blank expense', async () => {
+    ocrText = new TRPCError({ code: 'PRECONDITION_FAILED', message: 'OCR is not available: tesseract is not installed' });
+
+    await expect(scan()).rejects.toThrow('OCR is not available: tesseract is not installed');
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+  });
+
+  it('should flag a receipt that was scanned before', async () => {
+    const first = await scan();
+    expect(first.expense.possible_duplicates).toEqual([]);
+
+    // Read differently the second time, the file is still the same
+    ocrText = UK_RECEIPT;
+    const second = await scan('lunch again.png');
+
+    expect(second.expense.possible_duplicates).toHaveLength(1);
+    expect(second.expense.possible_duplicates[0]).toMatchObject({ expense_id: first.expense.id, reasons: ['SAME_RECEIPT'] });
+  });
+
+  it('should reject invalid files before drafting anything', async () => {
+    await expect(scanReceipt({
+      filename: 'receipt.pdf',
+      content_type: 'application/pdf',
+      data: PNG.toString('base64'),
+      category_id: categoryId
+    }, owner)).rejects.toThrow(/does not match/);
+
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+  });
+
+  it('should only show the scan to those who may read the expense', async () => {
+    const result = await scan();
+
+    await expect(getReceiptScan(result.expense.id, other)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const typed = await db.insert(expensesTable)
+      .values({ user_id: owner.id, category_id: categoryId, title: 'Typed in', amount: '5.00', expense_date: '2024-03-01' })
+      .returning()
+      .execute();
+    expect(await getReceiptScan(typed[0].id, owner)).toBeNull();
+  });
+
+  it('should report a missing OCR installation', async () => {
+    const engine = createTesseractEngine({
+      tesseract_path: '/nonexistent/tesseract',
+      pdftotext_path: '/nonexistent/pdftotext',
+      pdftoppm_path: '/nonexistent/pdftoppm',
+      languages: 'eng'
+    });
+
+    await expect(engine.recognize(PNG, 'image/png')).rejects.toMatchObject({
+      code: 'PRECONDITION_FAILED',
+      message: 'OCR is not available: /nonexistent/tesseract is not installed'
+    });
+    await expect(engine.recognize(Buffer.from('%PDF-1.7'), 'application/pdf')).rejects.toThrow(/pdftotext is not installed/);
+
+    // Installed, but without the language data
+    const tesseract = path.join(directory, 'tesseract');
+    await writeFile(tesseract, '#!/bin/sh\necho "Failed loading language \'deu\'" >&2\nexit 1\n');
+    await chmod(tesseract, 0o755);
+    const german = createTesseractEngine({ tesseract_path: tesseract, pdftotext_path: 'pdftotext', pdftoppm_path: 'pdftoppm', languages: 'deu' });
+    await expect(german.recognize(PNG, 'image/png')).rejects.toThrow('OCR is not available: the deu language data for tesseract is not installed');
+  });
+
+  it('should read scanned PDFs without a text layer through tesseract', async () => {
+    const script = async (name: string, body: string) => {
+      const file = path.join(directory, name);
+      await writeFile(file, `#!/bin/sh\n${body}\n`);
+      await chmod(file, 0o755);
+      return file;
+    };
+    // Only PDFs with text operators (BT) have a text layer to extract
+    const engine = createTesseractEngine({
+      pdftotext_path: await script('pdftotext', 'if grep -q BT; then echo "TOTAL 4,70"; fi'),
+      pdftoppm_path: await script('pdftoppm', 'cat > /dev/null; printf "page image"'),
+      tesseract_path: await script('tesseract', 'echo "read from $(cat)"'),
+      languages: 'eng'
+    });
+
+    expect(await engine.recognize(Buffer.from('%PDF-1.7 BT (TOTAL 4,70) Tj ET'), 'application/pdf')).toEqual('TOTAL 4,70\n');
+    expect(await engine.recognize(Buffer.from('%PDF-1.7 /Image'), 'application/pdf')).toEqual('read from page image\n');
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, usersTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import { createExpense, deleteExpense, getRecurringExpenses, processRecurringExpenses } from '../handlers/expenses';
+import { dueOccurrences, occurrenceDate } from '../utils/recurrence';
+import { asc, eq } from 'drizzle-orm';
+
+describe('recurrence dates', () => {
+  it('should clamp month-end anchors to shorter months and return afterwards', () => {
+    expect([1, 2, 3, 4].map(n => occurrenceDate('2024-01-31', 'MONTHLY', n))).toEqual(['2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+    expect(occurrenceDate('2023-11-30', 'QUARTERLY', 1)).toEqual('2024-02-29');
+    expect(occurrenceDate('2024-02-29', 'YEARLY', 1)).toEqual('2025-02-28');
+    expect(occurrenceDate('2024-02-29', 'YEARLY', 4)).toEqual('2028-02-29');
+  });
+
+  it('should step days and weeks across month and year boundaries', () => {
+    expect(occurrenceDate('2024-12-30', 'DAILY', 3)).toEqual('2025-01-02');
+    expect(occurrenceDate('2024-12-25', 'WEEKLY', 2)).toEqual('2025-01-08');
+  });
+
+  it('should list occurrences in the window, excluding the anchor', () => {
+    expect(dueOccurrences('2024-01-01', 'WEEKLY', '2024-01-01', '2024-01-22')).toEqual(['2024-01-08', '2024-01-15', '2024-01-22']);
+    expect(dueOccurrences('2024-01-01', 'WEEKLY', '2024-01-08', '2024-01-21')).toEqual(['2024-01-15']);
+    expect(dueOccurrences('2024-01-01', 'MONTHLY', '2024-01-01', '2024-01-31')).toEqual([]);
+  });
+});
+
+describe('processRecurringExpenses', () => {
+  let userId: number;
+  let categoryId: number;
+
+  const template = (input: Partial<CreateExpenseInput>) => createExpense({
+    user_id: userId,
+    category_id: categoryId,
+    title: 'Phone plan',
+    amount: 29.99,
+    tags: ['phone'],
+    is_recurring: true,
+    recurring_frequency: 'MONTHLY',
+    expense_date: new Date('2024-01-31'),
+    ...input
+  });
+
+  const occurrences = (templateId: number) => db.select()
+    .from(expensesTable)
+    .where(eq(expensesTable.recurring_parent_id, templateId))
+    .orderBy(asc(expensesTable.expense_date))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashedpassword', first_name: 'Owner', last_name: 'User', role: 'USER' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Utilities', color: '#FF0000' })
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create due occurrences linked to their template', async () => {
+    const phone = await template({});
+
+    const result = await processRecurringExpenses(new Date('2024-05-15'));
+
+    expect(result.created).toEqual(3);
+    const children = await occurrences(phone.id);
+    expect(children.map(c => c.expense_date)).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+    expect(children[0].title).toEqual('Phone plan');
+    expect(children[0].amount).toEqual('29.99');
+    expect(children[0].tags).toEqual(['phone']);
+    expect(children[0].status).toEqual('SUBMITTED');
+    expect(children[0].is_recurring).toBe(false);
+  });
+
+  it('should never create an occurrence twice', async () => {
+    const phone = await template({});
+
+    await processRecurringExpenses(new Date('2024-03-31'));
+    const again = await processRecurringExpenses(new Date('2024-03-31'));
+    expect(again.created).toEqual(0);
+
+    const later = await processRecurringExpenses(new Date('2024-04-30'));
+    expect(later.created).toEqual(1);
+    expect((await occurrences(phone.id)).map(c => c.expense_date)).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('should not bring back occurrences the user deleted', async () => {
+    const phone = await template({});
+    await processRecurringExpenses(new Date('2024-03-31'));
+
+    const children = await occurrences(phone.id);
+    await deleteExpense(children[0].id);
+
+    expect((await processRecurringExpenses(new Date('2024-03-31'))).created).toEqual(0);
+    expect(await occurrences(phone.id)).toHaveLength(1);
+  });
+
+  it('should stop at the end date', async () => {
+    const gym = await template({ title: 'Gym', recurring_frequency: 'WEEKLY', expense_date: new Date('2024-01-01'), recurring_end_date: new Date('2024-01-22') });
+
+    await processRecurringExpenses(new Date('2024-06-01'));
+
+    expect((await occurrences(gym.id)).map(c => c.expense_date)).toEqual(['2024-01-08', '2024-01-15', '2024-01-22']);
+  });
+
+  it('should handle every frequency', async () => {
+    const daily = await template({ recurring_frequency: 'DAILY', expense_date: new Date('2024-01-01') });
+    const quarterly = await template({ recurring_frequency: 'QUARTERLY', expense_date: new Date('2023-01-15') });
+    const yearly = await template({ recurring_frequency: 'YEARLY', expense_date: new Date('2022-02-01') });
+
+    await processRecurringExpenses(new Date('2024-01-04'));
+
+    expect(await occurrences(daily.id)).toHaveLength(3);
+    expect((await occurrences(quarterly.id)).map(c => c.expense_date)).toEqual(['2023-04-15', '2023-07-15', '2023-10-15']);
+    expect((await occurrences(yearly.id)).map(c => c.expense_date)).toEqual(['2023-02-01']);
+  });
+
+  it('should skip drafts, withdrawn templates and future start dates', async () => {
+    await template({ draft: true });
+    const withdrawn = await template({ allow_duplicate: true });
+    await db.update(expensesTable).set({ status: 'WITHDRAWN' }).where(eq(expensesTable.id, withdrawn.id)).execute();
+    await template({ expense_date: new Date('2030-01-01') });
+
+    expect((await processRecurringExpenses(new Date('2024-05-15'))).created).toEqual(0);
+  });
+
+  it('should report a failing template and carry on with the others', async () => {
+    const broken = await template({ title: 'Roaming' });
+    // No JPY rate is known, so converting its occurrences fails
+    await db.update(expensesTable)
+      .set({ currency: 'JPY', original_amount: '4500', exchange_rate: null })
+      .where(eq(expensesTable.id, broken.id))
+      .execute();
+    const phone = await template({ allow_duplicate: true });
+
+    const result = await processRecurringExpenses(new Date('2024-05-15'));
+
+    expect(result.created).toEqual(3);
+    expect(result.errors).toEqual([`Template ${broken.id}: No exchange rate from JPY to USD on or before 2024-02-29`]);
+    expect(await occurrences(broken.id)).toHaveLength(0);
+    expect(await occurrences(phone.id)).toHaveLength(3);
+  });
+
+  it('should skip templates of deactivated users', async () => {
+    await template({});
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, userId)).execute();
+
+    expect(await processRecurringExpenses(new Date('2024-05-15'))).toEqual({ created: 0, errors: [] });
+  });
+
+  it('should require a frequency for recurring expenses', async () => {
+    await expect(template({ recurring_frequency: null })).rejects.toThrow(/recurring_frequency/);
+  });
+
+  it('should list only templates as recurring expenses', async () => {
+    const phone = await template({});
+    await processRecurringExpenses(new Date('2024-05-15'));
+
+    const templates = await getRecurringExpenses(userId);
+
+    expect(templates.map(t => t.id)).toEqual([phone.id]);
+    expect(templates[0].recurring_parent_id).toBeNull();
+  });
+});
@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, reimbursementBatchesTable, reimbursementItemsTable, usersTable } from '../db/schema';
+import { setPayoutAccountInputSchema, type AuthUser } from '../schema';
+import {
+  createReimbursementBatch,
+  generatePaymentFile,
+  getPayoutAccount,
+  getReimbursementBatch,
+  markReimbursementBatchPaid,
+  reverseReimbursementBatch,
+  setPayoutAccount
+} from '../handlers/reimbursements';
+import { updatePaymentStatus } from '../handlers/expenses';
+import { getExpenseStatusHistory } from '../handlers/expense_status';
+import { isValidIban } from '../utils/sepa';
+import { eq, sql } from 'drizzle-orm';
+
+const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+describe('reimbursements', () => {
+  let admin: AuthUser;
+  let alice: AuthUser;
+  let bob: AuthUser;
+  let carol: AuthUser;
+  let categoryId: number;
+
+  async function addExpense(user: AuthUser, amount: string, status: 'APPROVED' | 'SUBMITTED' = 'APPROVED'): Promise<number> {
+    const result = await db.insert(expensesTable)
+      .values({ user_id: user.id, category_id: categoryId, title: `Expense of ${amount}`, amount, expense_date: '2024-03-01', status })
+      .returning()
+      .execute();
+    return result[0].id;
+  }
+
+  const statusOf = async (id: number) => (await db.select().from(expensesTable).where(eq(expensesTable.id, id)).execute())[0].status;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hashedpassword', first_name: 'Site', last_name: 'Admin', role: 'ADMIN' },
+        { email: 'alice@example.com', password_hash: 'hashedpassword', first_name: 'Alice', last_name: 'Anders', role: 'USER' },
+        { email: 'bob@example.com', password_hash: 'hashedpassword', first_name: 'Bob', last_name: 'Berg', role: 'USER' },
+        { email: 'carol@example.com', password_hash: 'hashedpassword', first_name: 'Carol', last_name: 'Cruz', role: 'USER' }
+      ])
+      .returning()
+      .execute();
+    [admin, alice, bob, carol] = users.map(user => ({ id: user.id, email: user.email, role: user.role }));
+
+    const categories = await db.insert(categoriesTable)
+      .values({ name: 'Travel', color: '#FF0000' })
+      .returning()
+      .execute();
+    categoryId = categories[0].id;
+
+    await setPayoutAccount({ account_holder: 'Jürgen Ändersson & Co', iban: 'de89 3704 0044 0532 0130 00', bic: 'cobadeffxxx' }, alice);
+    await setPayoutAccount({ account_holder: 'Bob Berg', iban: 'GB29NWBK60161331926819' }, bob);
+
+    process.env['BASE_CURRENCY'] = 'EUR';
+    process.env['PAYOUT_DEBTOR_NAME'] = 'Example GmbH';
+    process.env['PAYOUT_DEBTOR_IBAN'] = 'FR1420041010050500013M02606';
+    delete process.env['PAYOUT_DEBTOR_BIC'];
+  });
+
+  afterEach(async () => {
+    delete process.env['BASE_CURRENCY'];
+    delete process.env['PAYOUT_DEBTOR_NAME'];
+    delete process.env['PAYOUT_DEBTOR_IBAN'];
+    await resetDB();
+  });
+
+  describe('payout accounts', () => {
+    it('should validate IBAN checksums', () => {
+      expect(isValidIban('DE89370400440532013000')).toBe(true);
+      expect(isValidIban('DE89370400440532013001')).toBe(false);
+      expect(setPayoutAccountInputSchema.safeParse({ account_holder: 'X', iban: 'DE00123' }).success).toBe(false);
+      expect(setPayoutAccountInputSchema.safeParse({ account_holder: 'X', iban: 'GB29NWBK60161331926819', bic: 'nope' }).success).toBe(false);
+    });
+
+    it('should store normalized details and replace them on update', async () => {
+      const account = await getPayoutAccount(alice.id, alice);
+      expect(account?.iban).toEqual('DE89370400440532013000');
+      expect(account?.bic).toEqual('COBADEFFXXX');
+
+      await setPayoutAccount({ account_holder: 'Alice Anders', iban: 'GB29NWBK60161331926819' }, alice);
+      const updated = await getPayoutAccount(alice.id, alice);
+      expect(updated?.id).toEqual(account!.id);
+      expect(updated?.bic).toBeNull();
+    });
+
+    it('should keep bank details private to the owner and admins', async () => {
+      await expect(getPayoutAccount(alice.id, bob)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(setPayoutAccount({ user_id: alice.id, account_holder: 'Bob', iban: 'GB29NWBK60161331926819' }, bob)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      await setPayoutAccount({ user_id: carol.id, account_holder: 'Carol Cruz', iban: 'GB29NWBK60161331926819' }, admin);
+      expect((await getPayoutAccount(carol.id, admin))?.account_holder).toEqual('Carol Cruz');
+    });
+  });
+
+  describe('batches', () => {
+    it('should group approved expenses into one payment per user', async () => {
+      const a1 = await addExpense(alice, '10.10');
+      const a2 = await addExpense(alice, '20.20');
+      const b1 = await addExpense(bob, '5.00');
+      const pending = await addExpense(bob, '99.00', 'SUBMITTED');
+
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+
+      expect(batch.status).toEqual('SCHEDULED');
+      expect(batch.reference).toMatch(/^RB-\d{8}$/);
+      expect(batch.total_amount).toEqual(35.3);
+      expect(batch.payment_count).toEqual(2);
+      expect(batch.payments.map(p => [p.user_id, p.amount, p.expense_ids])).toEqual([
+        [alice.id, 30.3, [a1, a2]],
+        [bob.id, 5, [b1]]
+      ]);
+      expect(batch.skipped_user_ids).toEqual([]);
+
+      expect(await statusOf(a1)).toEqual('SCHEDULED_FOR_PAYMENT');
+      expect(await statusOf(pending)).toEqual('SUBMITTED');
+
+      const history = await getExpenseStatusHistory(a1);
+      expect(history[history.length - 1].note).toContain(batch.reference);
+    });
+
+    it('should skip users without a payout account and limit to the requested users', async () => {
+      await addExpense(alice, '10.00');
+      const c1 = await addExpense(carol, '15.00');
+
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+      expect(batch.payments.map(p => p.user_id)).toEqual([alice.id]);
+      expect(batch.skipped_user_ids).toEqual([carol.id]);
+      expect(await statusOf(c1)).toEqual('APPROVED');
+
+      await expect(createReimbursementBatch({ execution_date: tomorrow(), user_ids: [carol.id] }, admin)).rejects.toThrow(/payout account/i);
+      await expect(createReimbursementBatch({ execution_date: tomorrow(), user_ids: [bob.id] }, admin)).rejects.toThrow(/no approved expenses/i);
+    });
+
+    it('should schedule each expense in only one of two concurrent batches', async () => {
+      for (const amount of ['10.00', '10.00', '10.00', '10.00', '10.00']) {
+        await addExpense(alice, amount);
+      }
+
+      const results = await Promise.allSettled([
+        createReimbursementBatch({ execution_date: tomorrow() }, admin),
+        createReimbursementBatch({ execution_date: tomorrow() }, admin)
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      const batches = await db.select().from(reimbursementBatchesTable).execute();
+      expect(batches.map(batch => [batch.status, batch.total_amount])).toEqual([['SCHEDULED', '50.00']]);
+      expect(await db.select().from(reimbursementItemsTable).execute()).toHaveLength(5);
+    });
+
+    it('should leave nothing behind when scheduling fails partway', async () => {
+      const a1 = await addExpense(alice, '10.00');
+      // Fail Bob's status change, after Alice's payment and expenses were written
+      const b1 = await addExpense(bob, '5.00');
+      await db.execute(sql`create function block_b1() returns trigger as $$ begin if new.id = ${sql.raw(String(b1))} and new.status = 'SCHEDULED_FOR_PAYMENT' then raise exception 'payout blocked'; end if; return new; end $$ language plpgsql`);
+      await db.execute(sql`create trigger block_b1 before update on expenses for each row execute function block_b1()`);
+
+      await expect(createReimbursementBatch({ execution_date: tomorrow() }, admin)).rejects.toThrow(/payout blocked/);
+
+      expect(await db.select().from(reimbursementBatchesTable).execute()).toHaveLength(0);
+      expect(await statusOf(a1)).toEqual('APPROVED');
+    });
+
+    it('should refuse execution dates in the past', async () => {
+      await addExpense(alice, '10.00');
+
+      await expect(createReimbursementBatch({ execution_date: new Date('2020-01-01') }, admin)).rejects.toThrow(/past/i);
+    });
+
+    it('should mark expenses reimbursed once the batch is paid', async () => {
+      const a1 = await addExpense(alice, '10.00');
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+
+      const paid = await markReimbursementBatchPaid(batch.id, admin);
+      expect(paid.status).toEqual('PAID');
+      expect(paid.paid_at).toBeInstanceOf(Date);
+      expect(await statusOf(a1)).toEqual('REIMBURSED');
+
+      await expect(markReimbursementBatchPaid(batch.id, admin)).rejects.toThrow(/only scheduled/i);
+    });
+
+    it('should return expenses to APPROVED when a batch is reversed', async () => {
+      const a1 = await addExpense(alice, '10.00');
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+      await markReimbursementBatchPaid(batch.id, admin);
+
+      const reversed = await reverseReimbursementBatch({ id: batch.id, reason: 'Account closed' }, admin);
+      expect(reversed.status).toEqual('REVERSED');
+      expect(reversed.reversal_reason).toEqual('Account closed');
+      expect(await statusOf(a1)).toEqual('APPROVED');
+
+      await expect(reverseReimbursementBatch({ id: batch.id, reason: 'Again' }, admin)).rejects.toThrow(/already been reversed/i);
+      await expect(generatePaymentFile({ id: batch.id, format: 'CSV' })).rejects.toThrow(/reversed/i);
+
+      // Reversed expenses can go into the next run
+      const next = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+      expect(next.payments[0].expense_ids).toEqual([a1]);
+      expect((await getReimbursementBatch(batch.id)).payments[0].expense_ids).toEqual([a1]);
+    });
+
+    it('should keep batched expenses out of manual payment updates', async () => {
+      const a1 = await addExpense(alice, '10.00');
+      await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+
+      await expect(updatePaymentStatus({ id: a1, status: 'REIMBURSED' }, admin)).rejects.toThrow(/reimbursement batch RB-/i);
+    });
+  });
+
+  describe('payment files', () => {
+    it('should produce a SEPA pain.001 credit transfer', async () => {
+      await addExpense(alice, '10.10');
+      await addExpense(alice, '20.20');
+      await addExpense(bob, '5.00');
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+
+      const file = await generatePaymentFile({ id: batch.id, format: 'SEPA_XML' });
+
+      expect(file.filename).toEqual(`${batch.reference}.xml`);
+      expect(file.content_type).toEqual('application/xml');
+      expect(file.content).toContain('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03');
+      expect(file.content.match(/<NbOfTxs>2<\/NbOfTxs>/g)).toHaveLength(2);
+      expect(file.content.match(/<CtrlSum>35.30<\/CtrlSum>/g)).toHaveLength(2);
+      expect(file.content).toContain(`<ReqdExctnDt>${tomorrow().toISOString().split('T')[0]}</ReqdExctnDt>`);
+      expect(file.content).toContain('<DbtrAcct><Id><IBAN>FR1420041010050500013M02606</IBAN></Id></DbtrAcct>');
+      expect(file.content).toContain('<Othr><Id>NOTPROVIDED</Id></Othr>');
+      expect(file.content).toContain('<InstdAmt Ccy="EUR">30.30</InstdAmt>');
+      expect(file.content).toContain('<BIC>COBADEFFXXX</BIC>');
+      // Names are reduced to the SEPA character set
+      expect(file.content).toContain('<Nm>Jurgen Andersson Co</Nm>');
+      expect(file.content).toContain(`<EndToEndId>${batch.reference}-${batch.payments[0].id}</EndToEndId>`);
+    });
+
+    it('should require the company account for SEPA files', async () => {
+      await addExpense(alice, '10.00');
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+      delete process.env['PAYOUT_DEBTOR_IBAN'];
+
+      await expect(generatePaymentFile({ id: batch.id, format: 'SEPA_XML' })).rejects.toThrow(/PAYOUT_DEBTOR_IBAN/);
+
+      process.env['BASE_CURRENCY'] = 'USD';
+      await expect(generatePaymentFile({ id: batch.id, format: 'SEPA_XML' })).rejects.toThrow('SEPA credit transfers are euro only, export payouts in USD as CSV');
+    });
+
+    it('should produce a CSV with one row per payment', async () => {
+      await setPayoutAccount({ account_holder: '=Bob, "the builder"', iban: 'GB29NWBK60161331926819' }, bob);
+      const a1 = await addExpense(alice, '10.10');
+      const b1 = await addExpense(bob, '5.00');
+      const batch = await createReimbursementBatch({ execution_date: tomorrow() }, admin);
+
+      const file = await generatePaymentFile({ id: batch.id, format: 'CSV' });
+      const lines = file.content.trimEnd().split('\r\n');
+
+      expect(file.content_type).toEqual('text/csv');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toEqual('batch_reference,end_to_end_id,execution_date,user_id,account_holder,iban,bic,amount,currency,remittance_info,expense_ids');
+      expect(lines[1]).toContain(`,${alice.id},Jürgen Ändersson & Co,DE89370400440532013000,COBADEFFXXX,10.10,EUR,`);
+      expect(lines[1].endsWith(`,${a1}`)).toBe(true);
+      expect(lines[2]).toContain(`"'=Bob, ""the builder""",GB29NWBK60161331926819,,5.00,EUR,`);
+      expect(lines[2].endsWith(`,${b1}`)).toBe(true);
+    });
+  });
+});
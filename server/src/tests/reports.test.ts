@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, expensesTable, teamsTable, teamMembersTable } from '../db/schema';
+import { usersTable, categoriesTable, expensesTable, teamsTable, teamMembersTable, receiptFilesTable, expenseAttachmentsTable } from '../db/schema';
 import { type ReportGeneration } from '../schema';
 import { generateExpenseReport } from '../handlers/reports';
 
@@ -94,7 +94,7 @@ describe('generateExpenseReport', () => {
         description: 'Conference hotel',
         amount: '299.50',
         expense_date: '2024-01-16',
-        status: 'PENDING'
+        status: 'SUBMITTED'
       }
     ]).execute();
 
@@ -242,14 +242,24 @@ describe('generateExpenseReport', () => {
 
   it('should handle report with receipts included', async () => {
     // Create expense with receipt
-    await db.insert(expensesTable).values({
+    const expenses = await db.insert(expensesTable).values({
       user_id: userId,
       category_id: categoryId,
       title: 'Expense with Receipt',
       amount: '150.75',
       expense_date: '2024-01-15',
-      receipt_url: 'https://storage.example.com/receipt.pdf',
       status: 'APPROVED'
+    }).returning().execute();
+    const files = await db.insert(receiptFilesTable).values({
+      sha256: 'a'.repeat(64),
+      content_type: 'application/pdf',
+      size: 1024,
+      storage_key: `receipts/aa/${'a'.repeat(64)}`
+    }).returning().execute();
+    await db.insert(expenseAttachmentsTable).values({
+      expense_id: expenses[0].id,
+      file_id: files[0].id,
+      filename: 'receipt.pdf'
     }).execute();
 
     const input: ReportGeneration = {
@@ -299,7 +309,7 @@ describe('generateExpenseReport', () => {
         title: 'Pending Expense',
         amount: '100.00',
         expense_date: '2024-01-15',
-        status: 'PENDING'
+        status: 'SUBMITTED'
       },
       {
         user_id: userId,
@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, expensesTable, jobRunsTable, notificationsTable, scheduledJobsTable, usersTable } from '../db/schema';
+import { nextCronTime, parseCron } from '../utils/cron';
+import { registerJob, retryDelay, runDueJobs, runJobNow, syncJobs, unregisterJob } from '../scheduler';
+import { getJobRuns, getJobs, setJobPaused } from '../handlers/jobs';
+import { sendDraftReminders } from '../jobs';
+import { eq } from 'drizzle-orm';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('cron expressions', () => {
+  it('should find the next matching minute', () => {
+    expect(nextCronTime('*/15 * * * *', at('2024-03-01T10:07:30'))).toEqual(at('2024-03-01T10:15:00'));
+    expect(nextCronTime('*/15 * * * *', at('2024-03-01T10:15:00'))).toEqual(at('2024-03-01T10:30:00'));
+    expect(nextCronTime('0 1 * * *', at('2024-12-31T23:00:00'))).toEqual(at('2025-01-01T01:00:00'));
+  });
+
+  it('should handle weekdays, lists and ranges', () => {
+    // 2024-03-01 is a Friday
+    expect(nextCronTime('0 9 * * 1-5', at('2024-03-01T10:00:00'))).toEqual(at('2024-03-04T09:00:00'));
+    expect(nextCronTime('30 8,17 * * *', at('2024-03-01T09:00:00'))).toEqual(at('2024-03-01T17:30:00'));
+    expect(nextCronTime('0 0 * * 7', at('2024-03-01T00:00:00'))).toEqual(at('2024-03-03T00:00:00'));
+  });
+
+  it('should skip months without the requested day', () => {
+    expect(nextCronTime('0 0 31 * *', at('2024-04-01T00:00:00'))).toEqual(at('2024-05-31T00:00:00'));
+    expect(nextCronTime('0 0 29 2 *', at('2024-03-01T00:00:00'))).toEqual(at('2028-02-29T00:00:00'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(nextCronTime('0 0 15 * 1', at('2024-03-01T00:00:00'))).toEqual(at('2024-03-04T00:00:00'));
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/minute/);
+    expect(() => parseCron('* * * 0 *')).toThrow(/month/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/minute/);
+  });
+});
+
+describe('scheduler', () => {
+  let calls: number;
+  let failures: number;
+
+  const jobRow = async (name: string) => (await db.select().from(scheduledJobsTable).where(eq(scheduledJobsTable.name, name)).execute())[0];
+  const makeDue = (name: string) => db.update(scheduledJobsTable)
+    .set({ next_run_at: new Date(Date.now() - 1000) })
+    .where(eq(scheduledJobsTable.name, name))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+    calls = 0;
+    failures = 0;
+
+    registerJob({
+      name: 'counter',
+      description: 'Counts its runs',
+      schedule: '0 3 * * *',
+      run: async () => {
+        calls++;
+        return { calls };
+      }
+    });
+    registerJob({
+      name: 'flaky',
+      description: 'Fails on demand',
+      schedule: '0 4 * * *',
+      max_attempts: 2,
+      run: async () => {
+        if (failures > 0) {
+          failures--;
+          throw new Error('Upstream unavailable');
+        }
+        return { ok: true };
+      }
+    });
+    await syncJobs();
+  });
+
+  afterEach(async () => {
+    unregisterJob('counter');
+    unregisterJob('flaky');
+    unregisterJob('slow');
+    await resetDB();
+  });
+
+  it('should create job rows scheduled for their next cron time', async () => {
+    const jobs = await getJobs();
+
+    expect(jobs.map(job => job.name)).toEqual(['counter', 'flaky']);
+    expect(jobs[0].next_run_at.getUTCHours()).toEqual(3);
+    expect(jobs[0].next_run_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reschedule a job whose schedule changed', async () => {
+    await makeDue('flaky');
+    const due = (await jobRow('flaky')).next_run_at;
+
+    registerJob({ name: 'counter', description: 'Counts its runs', schedule: '30 5 * * *', run: async () => null });
+    await syncJobs();
+
+    const counter = await jobRow('counter');
+    expect(counter.schedule).toEqual('30 5 * * *');
+    expect([counter.next_run_at.getUTCHours(), counter.next_run_at.getUTCMinutes()]).toEqual([5, 30]);
+    // An unchanged schedule keeps the run that is due
+    expect((await jobRow('flaky')).next_run_at).toEqual(due);
+  });
+
+  it('should only run jobs that are due', async () => {
+    expect(await runDueJobs()).toHaveLength(0);
+
+    await makeDue('counter');
+    const runs = await runDueJobs();
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].status).toEqual('SUCCEEDED');
+    expect(runs[0].trigger).toEqual('SCHEDULE');
+    expect(runs[0].result).toEqual({ calls: 1 });
+    expect(calls).toEqual(1);
+
+    const job = await jobRow('counter');
+    expect(job.last_status).toEqual('SUCCEEDED');
+    expect(job.locked_by).toBeNull();
+    expect(job.next_run_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not run a job twice when instances race for it', async () => {
+    let release: () => void = () => {};
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    registerJob({
+      name: 'slow',
+      description: 'Waits for the test',
+      schedule: '0 5 * * *',
+      run: async () => {
+        calls++;
+        await gate;
+      }
+    });
+    await syncJobs();
+    await makeDue('slow');
+
+    const first = runDueJobs();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const second = await runDueJobs();
+    release();
+
+    expect(second).toHaveLength(0);
+    expect(await first).toHaveLength(1);
+    expect(calls).toEqual(1);
+  });
+
+  it('should retry failures with backoff and then fall back to the schedule', async () => {
+    failures = 2;
+    await makeDue('flaky');
+
+    const [firstRun] = await runDueJobs();
+    expect(firstRun.status).toEqual('FAILED');
+    expect(firstRun.error).toEqual('Upstream unavailable');
+
+    let job = await jobRow('flaky');
+    expect(job.attempt).toEqual(1);
+    expect(job.last_status).toEqual('FAILED');
+    const delay = job.next_run_at.getTime() - firstRun.finished_at!.getTime();
+    expect(Math.abs(delay - retryDelay(1))).toBeLessThan(1000);
+
+    await makeDue('flaky');
+    const [secondRun] = await runDueJobs();
+    expect(secondRun.attempt).toEqual(2);
+
+    // Out of attempts: wait for the next regular run
+    job = await jobRow('flaky');
+    expect(job.attempt).toEqual(0);
+    expect(job.next_run_at.getUTCHours()).toEqual(4);
+
+    expect(retryDelay(2)).toEqual(2 * retryDelay(1));
+    expect(retryDelay(20)).toEqual(60 * 60 * 1000);
+  });
+
+  it('should skip paused jobs until they are resumed', async () => {
+    const job = await jobRow('counter');
+    await setJobPaused(job.id, true);
+    await makeDue('counter');
+
+    expect(await runDueJobs()).toHaveLength(0);
+
+    // Re-syncing definitions keeps the pause
+    await syncJobs();
+    expect((await jobRow('counter')).is_paused).toBe(true);
+
+    const resumed = await setJobPaused(job.id, false);
+    expect(resumed.is_paused).toBe(false);
+    expect(resumed.next_run_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should run a job on demand and keep the history', async () => {
+    const job = await jobRow('counter');
+    await setJobPaused(job.id, true);
+
+    const run = await runJobNow(job.id);
+    expect(run.trigger).toEqual('MANUAL');
+    expect(run.status).toEqual('SUCCEEDED');
+
+    await runJobNow(job.id);
+    const history = await getJobRuns({ job_id: job.id, limit: 20 });
+    expect(history).toHaveLength(2);
+    expect(history[0].id).toBeGreaterThan(history[1].id);
+    expect(await getJobRuns({ job_id: job.id, limit: 1 })).toHaveLength(1);
+  });
+
+  it('should refuse to trigger a job that is running or missing', async () => {
+    const job = await jobRow('counter');
+    await db.update(scheduledJobsTable)
+      .set({ locked_by: 'other-instance', locked_until: new Date(Date.now() + 60 * 1000) })
+      .where(eq(scheduledJobsTable.id, job.id))
+      .execute();
+
+    await expect(runJobNow(job.id)).rejects.toThrow(/already running/i);
+    await expect(runJobNow(99999)).rejects.toThrow(/not found/i);
+    expect(await db.select().from(jobRunsTable).execute()).toHaveLength(0);
+  });
+
+  it('should take over jobs whose lease expired', async () => {
+    await makeDue('counter');
+    await db.update(scheduledJobsTable)
+      .set({ locked_by: 'crashed-instance', locked_until: new Date(Date.now() - 1000) })
+      .where(eq(scheduledJobsTable.name, 'counter'))
+      .execute();
+
+    expect(await runDueJobs()).toHaveLength(1);
+  });
+});
+
+describe('built-in jobs', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should remind users with unsubmitted drafts once each', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'drafter@example.com', password_hash: 'hashedpassword', first_name: 'Dee', last_name: 'Drafter' },
+        { email: 'done@example.com', password_hash: 'hashedpassword', first_name: 'Don', last_name: 'Done' }
+      ])
+      .returning()
+      .execute();
+    const categories = await db.insert(categoriesTable).values({ name: 'Travel', color: '#FF0000' }).returning().execute();
+    const expense = (userId: number, status: 'DRAFT' | 'SUBMITTED') => ({
+      user_id: userId, category_id: categories[0].id, title: 'Taxi', amount: '10.00', expense_date: '2024-03-01', status
+    });
+    await db.insert(expensesTable)
+      .values([expense(users[0].id, 'DRAFT'), expense(users[0].id, 'DRAFT'), expense(users[1].id, 'SUBMITTED')])
+      .execute();
+
+    expect(await sendDraftReminders()).toEqual({ sent: 1 });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications.map(n => [n.user_id, n.type])).toEqual([[users[0].id, 'EXPENSE_REMINDER']]);
+  });
+});
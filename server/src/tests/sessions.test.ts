@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { registerUser, loginUser, refreshAccessToken, authenticateToken } from '../handlers/auth';
+import { getActiveSessions, revokeSession, revokeAllSessions, rotateSession } from '../handlers/sessions';
+import { updateUser } from '../handlers/users';
+import { eq } from 'drizzle-orm';
+
+const client = { ip_address: '198.51.100.4', user_agent: 'Mozilla/5.0 Test' };
+let userId: number;
+
+describe('sessions', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const user = await registerUser({
+      email: 'session@example.com',
+      password: 'password123',
+      first_name: 'Session',
+      last_name: 'User',
+      role: 'USER'
+    });
+    userId = user.id;
+  });
+
+  afterEach(resetDB);
+
+  const login = async () => {
+    const result = await loginUser({ email: 'session@example.com', password: 'password123' }, client);
+    if (result.two_factor_required) {
+      throw new Error('Unexpected two-factor challenge');
+    }
+    return result;
+  };
+
+  it('should persist a hashed refresh token on login', async () => {
+    const { refresh_token } = await login();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].refresh_token_hash).not.toEqual(refresh_token);
+    expect(sessions[0].ip_address).toEqual('198.51.100.4');
+    expect(sessions[0].user_agent).toEqual('Mozilla/5.0 Test');
+    expect(sessions[0].expires_at > new Date()).toBe(true);
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  describe('refreshAccessToken', () => {
+    it('should issue a new access and refresh token', async () => {
+      const first = await login();
+
+      const refreshed = await refreshAccessToken(first.refresh_token, client);
+
+      expect(refreshed.refresh_token).not.toEqual(first.refresh_token);
+      const auth = await authenticateToken(refreshed.token);
+      expect(auth?.user.id).toEqual(userId);
+    });
+
+    it('should reject a refresh token once it has been rotated', async () => {
+      const first = await login();
+      await refreshAccessToken(first.refresh_token, client);
+
+      await expect(refreshAccessToken(first.refresh_token, client)).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+
+    it('should revoke the session when a rotated token is replayed', async () => {
+      const first = await login();
+      const second = await refreshAccessToken(first.refresh_token, client);
+
+      await expect(refreshAccessToken(first.refresh_token, client)).rejects.toThrow();
+
+      // The legitimate holder is logged out as well
+      await expect(refreshAccessToken(second.refresh_token, client)).rejects.toThrow(/invalid or expired refresh token/i);
+      expect(await authenticateToken(second.token)).toBeNull();
+    });
+
+    it('should let only one of two concurrent refreshes through and revoke the session', async () => {
+      const first = await login();
+
+      const results = await Promise.allSettled([rotateSession(first.refresh_token, client), rotateSession(first.refresh_token, client)]);
+
+      const rotated = results.filter(result => result.status === 'fulfilled');
+      expect(rotated).toHaveLength(1);
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+      expect(sessions[0].revoked_at).not.toBeNull();
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const first = await login();
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(rotateSession(first.refresh_token)).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+
+    it('should reject refresh for deactivated users', async () => {
+      const first = await login();
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await expect(refreshAccessToken(first.refresh_token, client)).rejects.toThrow(/account is deactivated/i);
+    });
+  });
+
+  describe('revocation', () => {
+    it('should invalidate access tokens of a logged-out session', async () => {
+      const { token } = await login();
+      const auth = await authenticateToken(token);
+
+      await revokeSession(auth!.session_id, userId);
+
+      expect(await authenticateToken(token)).toBeNull();
+    });
+
+    it('should not revoke sessions of other users', async () => {
+      const { token } = await login();
+      const auth = await authenticateToken(token);
+
+      await expect(revokeSession(auth!.session_id, userId + 1)).rejects.toThrow(/not found/i);
+    });
+
+    it('should log out every device', async () => {
+      const laptop = await login();
+      const phone = await login();
+
+      const result = await revokeAllSessions(userId);
+
+      expect(result.revoked).toEqual(2);
+      expect(await authenticateToken(laptop.token)).toBeNull();
+      expect(await authenticateToken(phone.token)).toBeNull();
+    });
+
+    it('should revoke sessions when the user is deactivated', async () => {
+      const { refresh_token } = await login();
+
+      await updateUser({ id: userId, is_active: false });
+
+      await expect(rotateSession(refresh_token)).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const laptop = await login();
+      const phone = await login();
+      const laptopAuth = await authenticateToken(laptop.token);
+      const phoneAuth = await authenticateToken(phone.token);
+
+      await revokeSession(phoneAuth!.session_id, userId);
+
+      const sessions = await getActiveSessions(userId, laptopAuth!.session_id);
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].id).toEqual(laptopAuth!.session_id);
+      expect(sessions[0].is_current).toBe(true);
+      expect(sessions[0].ip_address).toEqual('198.51.100.4');
+      expect((sessions[0] as any).refresh_token_hash).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startMockIdp, type MockIdp } from '../helpers/mock_idp';
+import { db } from '../db';
+import { ssoIdentitiesTable, teamMembersTable, teamsTable, usersTable } from '../db/schema';
+import { registerUser, loginUser, completeSsoLogin, requestPasswordReset, authenticateToken } from '../handlers/auth';
+import {
+  createSsoGroupMapping,
+  createSsoProvider,
+  discoverSsoProvider,
+  getSsoProviders,
+  setSsoDomain,
+  startSsoLogin,
+  updateSsoProvider
+} from '../handlers/sso';
+import { createSsoGroupMappingInputSchema, type SsoProvider } from '../schema';
+import { type CookieJar } from '../utils/cookies';
+import { eq } from 'drizzle-orm';
+
+let idp: MockIdp;
+let provider: SsoProvider;
+
+const alice = {
+  sub: 'idp-user-1',
+  email: 'alice@corp.example',
+  email_verified: true,
+  given_name: 'Alice',
+  family_name: 'Anders',
+  groups: ['engineering']
+};
+
+// The cookies of one browser
+function browser(): CookieJar {
+  const cookies = new Map<string, string>();
+  return {
+    get: name => cookies.get(name),
+    set: (name, value, maxAgeSeconds) => maxAgeSeconds > 0 ? cookies.set(name, value) : cookies.delete(name)
+  };
+}
+
+// Run the full browser round trip against the mock IdP
+async function signInWithSso() {
+  const cookies = browser();
+  const { authorization_url } = await startSsoLogin(provider.id, cookies);
+  const callback = await idp.authorize(authorization_url);
+  const result = await completeSsoLogin(callback, cookies);
+  if (result.two_factor_required) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+}
+
+async function createTeam(name: string): Promise<number> {
+  const manager = await registerUser({
+    email: `${name.toLowerCase()}-lead@example.com`,
+    password: 'password123',
+    first_name: name,
+    last_name: 'Lead',
+    role: 'MANAGER'
+  });
+  const teams = await db.insert(teamsTable)
+    .values({ name, manager_id: manager.id })
+    .returning()
+    .execute();
+  return teams[0].id;
+}
+
+describe('single sign-on', () => {
+  beforeAll(() => {
+    idp = startMockIdp();
+  });
+
+  afterAll(() => {
+    idp.stop();
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    provider = await createSsoProvider({
+      name: 'Corp IdP',
+      protocol: 'OIDC',
+      config: {
+        issuer: idp.issuer,
+        client_id: idp.client_id,
+        client_secret: idp.client_secret,
+        scopes: ['openid', 'email', 'profile'],
+        groups_claim: 'groups',
+        trust_unverified_emails: false
+      }
+    });
+    await setSsoDomain({ domain: 'corp.example', provider_id: provider.id, force_sso: false });
+    idp.signInAs(alice);
+  });
+
+  afterEach(resetDB);
+
+  describe('providers', () => {
+    it('should never expose the client secret', async () => {
+      expect((provider.config as any).client_secret).toBeUndefined();
+      expect(((await getSsoProviders())[0].config as any).client_secret).toBeUndefined();
+    });
+
+    it('should keep the secret when other settings change', async () => {
+      await updateSsoProvider({ id: provider.id, config: { groups_claim: 'roles' } });
+
+      idp.signInAs({ ...alice, groups: undefined });
+      const result = await signInWithSso();
+      expect(result.user.email).toEqual('alice@corp.example');
+    });
+  });
+
+  describe('authorization code flow', () => {
+    it('should send state, nonce and a PKCE challenge', async () => {
+      const { authorization_url } = await startSsoLogin(provider.id, browser());
+      const url = new URL(authorization_url);
+
+      expect(url.origin).toEqual(idp.issuer);
+      expect(url.searchParams.get('response_type')).toEqual('code');
+      expect(url.searchParams.get('state')).toBeTruthy();
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+      expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+    });
+
+    it('should provision a new user just in time', async () => {
+      const result = await signInWithSso();
+
+      expect(result.user.email).toEqual('alice@corp.example');
+      expect(result.user.first_name).toEqual('Alice');
+      expect(result.user.last_name).toEqual('Anders');
+      expect(result.user.role).toEqual('USER');
+      expect(result.user.is_email_verified).toBe(true);
+
+      const auth = await authenticateToken(result.token);
+      expect(auth?.user.id).toEqual(result.user.id);
+    });
+
+    it('should reuse the linked account on later logins', async () => {
+      const first = await signInWithSso();
+      const second = await signInWithSso();
+
+      expect(second.user.id).toEqual(first.user.id);
+      const identities = await db.select().from(ssoIdentitiesTable).execute();
+      expect(identities).toHaveLength(1);
+    });
+
+    it('should reject a replayed state', async () => {
+      const cookies = browser();
+      const { authorization_url } = await startSsoLogin(provider.id, cookies);
+      const callback = await idp.authorize(authorization_url);
+      const binding = cookies.get('sso_browser')!;
+      await completeSsoLogin(callback, cookies);
+
+      cookies.set('sso_browser', binding, 60);
+      await expect(completeSsoLogin(callback, cookies)).rejects.toThrow(/invalid or expired sso state/i);
+    });
+
+    it('should reject unknown states', async () => {
+      const cookies = browser();
+      await startSsoLogin(provider.id, cookies);
+
+      await expect(completeSsoLogin({ state: 'forged', code: 'whatever' }, cookies)).rejects.toThrow(/invalid or expired sso state/i);
+    });
+
+    it('should only complete the login in the browser that started it', async () => {
+      // An attacker starts a login and tricks the victim into opening the callback
+      const attacker = browser();
+      const { authorization_url } = await startSsoLogin(provider.id, attacker);
+      const callback = await idp.authorize(authorization_url);
+
+      const victim = browser();
+      await expect(completeSsoLogin(callback, victim)).rejects.toThrow(/invalid or expired sso state/i);
+      await startSsoLogin(provider.id, victim);
+      await expect(completeSsoLogin(callback, victim)).rejects.toThrow(/invalid or expired sso state/i);
+
+      expect(await completeSsoLogin(callback, attacker)).toMatchObject({ user: { email: 'alice@corp.example' } });
+    });
+
+    it('should reject unverified emails unless the provider vouches for them', async () => {
+      idp.signInAs({ ...alice, email_verified: false });
+      await expect(signInWithSso()).rejects.toThrow(/not verified/i);
+
+      idp.signInAs({ ...alice, email_verified: undefined });
+      await expect(signInWithSso()).rejects.toThrow(/not verified/i);
+
+      await updateSsoProvider({ id: provider.id, config: { trust_unverified_emails: true } });
+      expect((await signInWithSso()).user.email).toEqual('alice@corp.example');
+    });
+
+    it('should only provision accounts in the provider\'s own domains', async () => {
+      idp.signInAs({ ...alice, email: 'alice@elsewhere.example' });
+
+      await expect(signInWithSso()).rejects.toThrow('Corp IdP does not handle sign-ins for elsewhere.example');
+      expect(await db.select().from(usersTable).execute()).toHaveLength(0);
+    });
+
+    it('should refuse disabled providers', async () => {
+      await updateSsoProvider({ id: provider.id, is_active: false });
+
+      await expect(startSsoLogin(provider.id, browser())).rejects.toThrow(/disabled/i);
+    });
+  });
+
+  describe('existing accounts', () => {
+    beforeEach(async () => {
+      await registerUser({
+        email: 'alice@corp.example',
+        password: 'password123',
+        first_name: 'Alice',
+        last_name: 'Local',
+        role: 'USER'
+      });
+    });
+
+    it('should not let an unrelated provider take over a local account', async () => {
+      const other = await createSsoProvider({
+        name: 'Other IdP',
+        protocol: 'OIDC',
+        config: { issuer: idp.issuer, client_id: 'other-app', client_secret: 'other-secret', scopes: ['openid', 'email'], groups_claim: 'groups', trust_unverified_emails: false }
+      });
+      await setSsoDomain({ domain: 'corp.example', provider_id: other.id, force_sso: false });
+
+      await expect(signInWithSso()).rejects.toThrow('Corp IdP does not handle sign-ins for corp.example');
+      expect(await db.select().from(ssoIdentitiesTable).execute()).toHaveLength(0);
+    });
+
+    it('should link the account when the provider owns the domain', async () => {
+      // Until the address is verified the account may belong to someone else
+      await expect(signInWithSso()).rejects.toThrow(/unverified account/i);
+      expect(await db.select().from(ssoIdentitiesTable).execute()).toHaveLength(0);
+
+      await db.update(usersTable).set({ is_email_verified: true }).where(eq(usersTable.email, 'alice@corp.example')).execute();
+      const result = await signInWithSso();
+
+      expect(result.user.last_name).toEqual('Local');
+    });
+  });
+
+  describe('group mappings', () => {
+    it('should grant the most privileged mapped role', async () => {
+      await createSsoGroupMapping({ provider_id: provider.id, group: 'engineering', role: 'MANAGER' });
+      await createSsoGroupMapping({ provider_id: provider.id, group: 'it-admins', role: 'ADMIN' });
+      idp.signInAs({ ...alice, groups: ['engineering', 'it-admins'] });
+
+      const result = await signInWithSso();
+
+      expect(result.user.role).toEqual('ADMIN');
+    });
+
+    it('should use the provider default role without a matching group', async () => {
+      await updateSsoProvider({ id: provider.id, default_role: 'MANAGER' });
+
+      const result = await signInWithSso();
+
+      expect(result.user.role).toEqual('MANAGER');
+    });
+
+    it('should add and remove memberships of mapped teams', async () => {
+      const engineering = await createTeam('Engineering');
+      const sales = await createTeam('Sales');
+      await createSsoGroupMapping({ provider_id: provider.id, group: 'engineering', team_id: engineering });
+      await createSsoGroupMapping({ provider_id: provider.id, group: 'sales', team_id: sales });
+
+      const first = await signInWithSso();
+      const memberships = () => db.select()
+        .from(teamMembersTable)
+        .where(eq(teamMembersTable.user_id, first.user.id))
+        .execute();
+      expect((await memberships()).map(m => m.team_id)).toEqual([engineering]);
+
+      idp.signInAs({ ...alice, groups: ['sales'] });
+      await signInWithSso();
+      expect((await memberships()).map(m => m.team_id)).toEqual([sales]);
+    });
+
+    it('should require a role or a team', () => {
+      expect(createSsoGroupMappingInputSchema.safeParse({ provider_id: provider.id, group: 'x' }).success).toBe(false);
+    });
+  });
+
+  describe('forced SSO domains', () => {
+    beforeEach(async () => {
+      await db.insert(usersTable)
+        .values({
+          email: 'bob@corp.example',
+          password_hash: 'unused:hash',
+          first_name: 'Bob',
+          last_name: 'Legacy'
+        })
+        .execute();
+      await setSsoDomain({ domain: 'Corp.Example', provider_id: provider.id, force_sso: true });
+    });
+
+    it('should point matching emails at the provider', async () => {
+      expect(await discoverSsoProvider('someone@CORP.example')).toEqual({
+        provider_id: provider.id,
+        provider_name: 'Corp IdP',
+        force_sso: true
+      });
+      expect(await discoverSsoProvider('someone@elsewhere.example')).toBeNull();
+    });
+
+    it('should disable password logins, registration and resets', async () => {
+      await expect(loginUser({ email: 'bob@corp.example', password: 'whatever1' })).rejects.toThrow(/single sign-on/i);
+      await expect(requestPasswordReset('bob@corp.example')).rejects.toThrow(/single sign-on/i);
+      await expect(registerUser({
+        email: 'new@corp.example',
+        password: 'password123',
+        first_name: 'New',
+        last_name: 'User',
+        role: 'USER'
+      })).rejects.toThrow(/single sign-on/i);
+    });
+
+    it('should still allow SSO logins', async () => {
+      const result = await signInWithSso();
+      expect(result.user.email).toEqual('alice@corp.example');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { registerUser, loginUser } from '../handlers/auth';
+import {
+  createContext,
+  createCallerFactory,
+  parseBearerToken,
+  router,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  managerProcedure,
+  adminProcedure
+} from '../trpc';
+
+// Minimal router exercising each procedure level
+const testRouter = router({
+  open: publicProcedure.query(({ ctx }) => ctx.user),
+  me: protectedProcedure.query(({ ctx }) => ctx.user.id),
+  enrolling: authenticatedProcedure.query(({ ctx }) => ctx.user.id),
+  managers: managerProcedure.query(() => 'ok'),
+  admins: adminProcedure.query(() => 'ok')
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+function contextOptions(authorization?: string, setCookies: string[] = []): CreateHTTPContextOptions {
+  return {
+    req: {
+      headers: { authorization, 'user-agent': 'bun-test', 'x-real-ip': '203.0.113.7', cookie: 'theme=dark; sso_browser=abc%3D' },
+      socket: { remoteAddress: '127.0.0.1' }
+    },
+    res: {
+      appendHeader: (name: string, value: string) => setCookies.push(`${name}: ${value}`)
+    }
+  } as unknown as CreateHTTPContextOptions;
+}
+
+describe('parseBearerToken', () => {
+  it('should extract the token from a bearer header', () => {
+    expect(parseBearerToken('Bearer abc.def.ghi')).toEqual('abc.def.ghi');
+    expect(parseBearerToken('bearer abc.def.ghi')).toEqual('abc.def.ghi');
+  });
+
+  it('should return null for missing or malformed headers', () => {
+    expect(parseBearerToken(undefined)).toBeNull();
+    expect(parseBearerToken('')).toBeNull();
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(parseBearerToken('Bearer')).toBeNull();
+  });
+});
+
+describe('createContext', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should attach the authenticated user', async () => {
+    const user = await registerUser({
+      email: 'ctx@example.com',
+      password: 'password123',
+      first_name: 'Ctx',
+      last_name: 'User',
+      role: 'MANAGER'
+    });
+    const login = await loginUser({ email: 'ctx@example.com', password: 'password123' });
+    if (login.two_factor_required) {
+      throw new Error('Unexpected two-factor challenge');
+    }
+
+    const ctx = await createContext(contextOptions(`Bearer ${login.token}`));
+
+    expect(ctx.user).toEqual({ id: user.id, email: 'ctx@example.com', role: 'MANAGER' });
+    expect(ctx.sessionId).not.toBeNull();
+  });
+
+  it('should record client metadata', async () => {
+    const ctx = await createContext(contextOptions());
+
+    // X-Real-IP is only believed from a trusted proxy
+    expect(ctx.client).toEqual({ ip_address: '127.0.0.1', user_agent: 'bun-test' });
+
+    process.env['TRUST_PROXY'] = '127.0.0.1, ::1';
+    try {
+      expect((await createContext(contextOptions())).client.ip_address).toEqual('203.0.113.7');
+    } finally {
+      delete process.env['TRUST_PROXY'];
+    }
+  });
+
+  it('should read request cookies and send the ones set with the response', async () => {
+    const setCookies: string[] = [];
+    const ctx = await createContext(contextOptions(undefined, setCookies));
+
+    expect(ctx.cookies.get('sso_browser')).toEqual('abc=');
+    expect(ctx.cookies.get('missing')).toBeUndefined();
+
+    ctx.cookies.set('sso_browser', '', 0);
+    expect(ctx.cookies.get('sso_browser')).toEqual('');
+    expect(setCookies).toEqual(['Set-Cookie: sso_browser=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax']);
+  });
+
+  it('should leave user null without a valid token', async () => {
+    expect((await createContext(contextOptions())).user).toBeNull();
+    expect((await createContext(contextOptions('Bearer invalid'))).user).toBeNull();
+  });
+});
+
+describe('procedure middlewares', () => {
+  const admin = { id: 1, email: 'admin@example.com', role: 'ADMIN' as const };
+  const manager = { id: 2, email: 'manager@example.com', role: 'MANAGER' as const };
+  const member = { id: 3, email: 'user@example.com', role: 'USER' as const };
+  const client = { ip_address: '127.0.0.1', user_agent: 'test' };
+  const cookies = { get: () => undefined, set: () => {} };
+
+  it('should allow anonymous callers on public procedures', async () => {
+    const caller = createCaller({ user: null, sessionId: null, twoFactorSetupRequired: false, client, cookies });
+    expect(await caller.open()).toBeNull();
+  });
+
+  it('should reject anonymous callers on protected procedures', async () => {
+    const caller = createCaller({ user: null, sessionId: null, twoFactorSetupRequired: false, client, cookies });
+    await expect(caller.me()).rejects.toThrow(/authentication required/i);
+  });
+
+  it('should expose the caller on protected procedures', async () => {
+    const caller = createCaller({ user: member, sessionId: 1, twoFactorSetupRequired: false, client, cookies });
+    expect(await caller.me()).toEqual(3);
+  });
+
+  it('should restrict manager procedures to managers and admins', async () => {
+    await expect(createCaller({ user: member, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).managers()).rejects.toThrow(/manager role required/i);
+    expect(await createCaller({ user: manager, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).managers()).toEqual('ok');
+    expect(await createCaller({ user: admin, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).managers()).toEqual('ok');
+  });
+
+  it('should block protected procedures until required 2FA is set up', async () => {
+    const caller = createCaller({ user: manager, sessionId: 1, twoFactorSetupRequired: true, client, cookies });
+
+    await expect(caller.me()).rejects.toThrow(/two-factor authentication setup required/i);
+    expect(await caller.enrolling()).toEqual(2);
+  });
+
+  it('should restrict admin procedures to admins', async () => {
+    await expect(createCaller({ user: member, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).admins()).rejects.toThrow(/admin role required/i);
+    await expect(createCaller({ user: manager, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).admins()).rejects.toThrow(/admin role required/i);
+    expect(await createCaller({ user: admin, sessionId: 1, twoFactorSetupRequired: false, client, cookies }).admins()).toEqual('ok');
+  });
+});
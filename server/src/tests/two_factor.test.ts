@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { recoveryCodesTable, twoFactorCredentialsTable } from '../db/schema';
+import { registerUser, loginUser, verifyTwoFactorLogin, authenticateToken } from '../handlers/auth';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorPolicies,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+  setTwoFactorPolicy
+} from '../handlers/two_factor';
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotpCode, totpStep, verifyTotpCode } from '../utils/totp';
+import { type AuthUser } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const credentials = { email: 'mfa@example.com', password: 'password123' };
+let user: AuthUser;
+
+// Enroll the test user and return the secret and recovery codes
+async function enroll() {
+  const { secret } = await beginTwoFactorEnrollment(user.id);
+  const { recovery_codes } = await confirmTwoFactorEnrollment(user.id, generateTotpCode(secret));
+  return { secret, recovery_codes };
+}
+
+// Codes are accepted once per time step, so later steps stand in for "the next code"
+function nextCode(secret: string, offset: number = 1): string {
+  return generateTotpCode(secret, totpStep() + offset);
+}
+
+describe('totp', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+    expect(generateTotpCode(secret, totpStep(59 * 1000))).toEqual('287082');
+    expect(generateTotpCode(secret, totpStep(1111111109 * 1000))).toEqual('081804');
+    expect(generateTotpCode(secret, totpStep(2000000000 * 1000))).toEqual('279037');
+  });
+
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('two-factor secret');
+    expect(base32Decode(base32Encode(bytes)).equals(bytes)).toBe(true);
+  });
+
+  it('should accept codes within one step of clock drift', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+    const now = 1111111109 * 1000;
+
+    expect(verifyTotpCode(secret, generateTotpCode(secret, totpStep(now) - 1), now)).toEqual(totpStep(now) - 1);
+    expect(verifyTotpCode(secret, generateTotpCode(secret, totpStep(now) + 2), now)).toBeNull();
+    expect(verifyTotpCode(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'mfa@example.com', 'Expense Tracker');
+
+    expect(uri.startsWith('otpauth://totp/Expense%20Tracker%3Amfa%40example.com?')).toBe(true);
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('period=30');
+  });
+});
+
+describe('two-factor authentication', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const registered = await registerUser({
+      ...credentials,
+      first_name: 'Multi',
+      last_name: 'Factor',
+      role: 'MANAGER'
+    });
+    user = { id: registered.id, email: registered.email, role: registered.role };
+  });
+
+  afterEach(resetDB);
+
+  describe('enrollment', () => {
+    it('should not enable 2FA before a code is confirmed', async () => {
+      const enrollment = await beginTwoFactorEnrollment(user.id);
+
+      expect(enrollment.otpauth_uri).toContain(`secret=${enrollment.secret}`);
+      expect((await getTwoFactorStatus(user)).enabled).toBe(false);
+
+      const login = await loginUser(credentials);
+      expect(login.two_factor_required).toBe(false);
+    });
+
+    it('should enable 2FA and return recovery codes once confirmed', async () => {
+      const { recovery_codes } = await enroll();
+
+      expect(recovery_codes).toHaveLength(10);
+      expect(new Set(recovery_codes).size).toEqual(10);
+      // 80 random bits each
+      expect(recovery_codes[0]).toMatch(/^[a-z2-7]{4}(-[a-z2-7]{4}){3}$/);
+
+      const status = await getTwoFactorStatus(user);
+      expect(status.enabled).toBe(true);
+      expect(status.recovery_codes_remaining).toEqual(10);
+
+      // Only hashes are stored
+      const stored = await db.select().from(recoveryCodesTable).execute();
+      expect(stored.map(code => code.code_hash)).not.toContain(recovery_codes[0]);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      await beginTwoFactorEnrollment(user.id);
+
+      await expect(confirmTwoFactorEnrollment(user.id, '000000')).rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should not restart enrollment once enabled', async () => {
+      await enroll();
+
+      await expect(beginTwoFactorEnrollment(user.id)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('login', () => {
+    it('should require a second step when 2FA is enabled', async () => {
+      const { secret } = await enroll();
+
+      const login = await loginUser(credentials);
+      expect(login.two_factor_required).toBe(true);
+      if (!login.two_factor_required) return;
+
+      // The challenge is not an access token
+      expect(await authenticateToken(login.challenge_token)).toBeNull();
+
+      const result = await verifyTwoFactorLogin({ challenge_token: login.challenge_token, code: nextCode(secret) });
+      if (result.two_factor_required) throw new Error('Expected a completed login');
+
+      const auth = await authenticateToken(result.token);
+      expect(auth?.user.id).toEqual(user.id);
+    });
+
+    it('should reject wrong and replayed codes', async () => {
+      const { secret } = await enroll();
+      const login = await loginUser(credentials);
+      if (!login.two_factor_required) throw new Error('Expected a challenge');
+
+      await expect(verifyTwoFactorLogin({ challenge_token: login.challenge_token, code: '000000' }))
+        .rejects.toThrow(/invalid two-factor code/i);
+
+      const code = nextCode(secret);
+      await verifyTwoFactorLogin({ challenge_token: login.challenge_token, code });
+      await expect(verifyTwoFactorLogin({ challenge_token: login.challenge_token, code }))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recovery_codes } = await enroll();
+      const login = await loginUser(credentials);
+      if (!login.two_factor_required) throw new Error('Expected a challenge');
+
+      const result = await verifyTwoFactorLogin({
+        challenge_token: login.challenge_token,
+        code: recovery_codes[0].toUpperCase()
+      });
+      expect(result.two_factor_required).toBe(false);
+      expect((await getTwoFactorStatus(user)).recovery_codes_remaining).toEqual(9);
+
+      await expect(verifyTwoFactorLogin({ challenge_token: login.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should reject tokens that are not challenges', async () => {
+      await enroll();
+
+      await expect(verifyTwoFactorLogin({ challenge_token: 'not-a-token', code: '123456' }))
+        .rejects.toThrow(/invalid or expired challenge/i);
+    });
+  });
+
+  describe('recovery codes and disabling', () => {
+    it('should replace recovery codes', async () => {
+      const { secret, recovery_codes } = await enroll();
+
+      const regenerated = await regenerateRecoveryCodes(user.id, nextCode(secret));
+
+      expect(regenerated.recovery_codes).toHaveLength(10);
+      expect(regenerated.recovery_codes).not.toContain(recovery_codes[1]);
+      expect((await getTwoFactorStatus(user)).recovery_codes_remaining).toEqual(10);
+    });
+
+    it('should disable 2FA with a valid code', async () => {
+      const { secret } = await enroll();
+
+      await expect(disableTwoFactor(user, '000000')).rejects.toThrow(/invalid two-factor code/i);
+      await disableTwoFactor(user, nextCode(secret));
+
+      expect((await getTwoFactorStatus(user)).enabled).toBe(false);
+      expect((await loginUser(credentials)).two_factor_required).toBe(false);
+    });
+
+    it('should let an admin reset a lost authenticator', async () => {
+      await enroll();
+
+      await resetTwoFactor(user.id);
+
+      const stored = await db.select()
+        .from(twoFactorCredentialsTable)
+        .where(eq(twoFactorCredentialsTable.user_id, user.id))
+        .execute();
+      expect(stored).toHaveLength(0);
+      expect((await getTwoFactorStatus(user)).recovery_codes_remaining).toEqual(0);
+    });
+  });
+
+  describe('role policies', () => {
+    it('should default to not required', async () => {
+      expect(await getTwoFactorPolicies()).toEqual([
+        { role: 'ADMIN', required: false },
+        { role: 'MANAGER', required: false }
+      ]);
+    });
+
+    it('should flag sessions of unenrolled users in a required role', async () => {
+      await setTwoFactorPolicy({ role: 'MANAGER', required: true });
+
+      const login = await loginUser(credentials);
+      if (login.two_factor_required) throw new Error('Expected a completed login');
+      expect(login.two_factor_setup_required).toBe(true);
+      expect((await authenticateToken(login.token))?.two_factor_setup_required).toBe(true);
+
+      await enroll();
+      expect((await authenticateToken(login.token))?.two_factor_setup_required).toBe(false);
+    });
+
+    it('should not let users in a required role disable 2FA', async () => {
+      const { secret } = await enroll();
+      await setTwoFactorPolicy({ role: 'MANAGER', required: true });
+
+      await expect(disableTwoFactor(user, nextCode(secret))).rejects.toThrow(/required for your role/i);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { mailOutboxTable, usersTable } from '../db/schema';
 import { type UpdateUserInput } from '../schema';
 import { getUsers, getUserById, updateUser, deleteUser, getUserProfile } from '../handlers/users';
 import { eq } from 'drizzle-orm';
@@ -87,6 +87,7 @@ describe('User Handlers', () => {
       expect(user!.role).toBe('MANAGER');
       expect(user!.created_at).toBeInstanceOf(Date);
       expect(user!.updated_at).toBeInstanceOf(Date);
+      expect(user).not.toHaveProperty('password_hash');
     });
   });
 
@@ -180,6 +181,20 @@ describe('User Handlers', () => {
       expect(dbUsers[0].first_name).toBe('DatabaseTest');
       expect(dbUsers[0].role).toBe('MANAGER');
     });
+
+    it('should ask for a changed email address to be verified', async () => {
+      const testUser = await createTestUser();
+
+      const unchanged = await updateUser({ id: testUser.id, email: 'Test@example.com' });
+      expect(unchanged.is_email_verified).toBe(true);
+
+      const changed = await updateUser({ id: testUser.id, email: 'new@example.com' });
+      expect(changed.is_email_verified).toBe(false);
+
+      const mail = await db.select().from(mailOutboxTable).execute();
+      expect(mail).toHaveLength(1);
+      expect(mail[0]).toMatchObject({ to_address: 'new@example.com', subject: 'Verify your email address' });
+    });
   });
 
   describe('deleteUser', () => {
@@ -0,0 +1,105 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type AuthUser, type ClientInfo } from './schema';
+import { authenticateToken } from './handlers/auth';
+import { createCookieJar, type CookieJar } from './utils/cookies';
+
+export interface Context {
+  user: AuthUser | null;
+  sessionId: number | null;
+  twoFactorSetupRequired: boolean;
+  client: ClientInfo;
+  cookies: CookieJar;
+}
+
+// Extract the token from an `Authorization: Bearer <token>` header value
+export function parseBearerToken(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(value.trim());
+  return match ? match[1] : null;
+}
+
+// Peers allowed to set X-Real-IP, e.g. the bundled Caddy on loopback; anyone else could forge it
+function trustedProxies(): string[] {
+  return (process.env['TRUST_PROXY'] || '').split(',').map(address => address.trim()).filter(Boolean);
+}
+
+// The socket peer, or the address a trusted reverse proxy passed on in X-Real-IP
+export function getClientInfo(req: CreateHTTPContextOptions['req']): ClientInfo {
+  const peer = req.socket?.remoteAddress || null;
+  const realIp = req.headers['x-real-ip'];
+  const forwarded = Array.isArray(realIp) ? realIp[0] : realIp;
+  const ip = peer && forwarded && trustedProxies().includes(peer) ? forwarded : peer;
+
+  return {
+    ip_address: ip,
+    user_agent: req.headers['user-agent'] || null
+  };
+}
+
+export async function createContext({ req, res }: CreateHTTPContextOptions): Promise<Context> {
+  const client = getClientInfo(req);
+  const cookies = createCookieJar(req, res);
+  const token = parseBearerToken(req.headers.authorization);
+  if (!token) {
+    return { user: null, sessionId: null, twoFactorSetupRequired: false, client, cookies };
+  }
+
+  const auth = await authenticateToken(token);
+  return {
+    user: auth?.user ?? null,
+    sessionId: auth?.session_id ?? null,
+    twoFactorSetupRequired: auth?.two_factor_setup_required ?? false,
+    client,
+    cookies
+  };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+export const publicProcedure = t.procedure;
+
+// Requires a valid login token; narrows ctx.user and ctx.sessionId to non-null
+export const authenticatedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || ctx.sessionId === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+// Authenticated and, where the role requires it, enrolled in two-factor authentication
+export const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (ctx.twoFactorSetupRequired) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication setup required' });
+  }
+
+  return next();
+});
+
+// Requires a MANAGER or ADMIN caller
+export const managerProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'MANAGER' && ctx.user.role !== 'ADMIN') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Manager role required' });
+  }
+
+  return next();
+});
+
+// Requires an ADMIN caller
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'ADMIN') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin role required' });
+  }
+
+  return next();
+});
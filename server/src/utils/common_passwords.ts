@@ -0,0 +1,19 @@
+import { readFileSync } from 'fs';
+
+// Every password of at least PASSWORD_MIN_LENGTH characters in the ranked common-password
+// dictionary of @zxcvbn-ts/language-common 4.1.3 (MIT), lower-cased, most common first; shorter
+// ones are refused by the length rule anyway. Bundled so the policy check works offline.
+const DICTIONARY = readFileSync(new URL('./common_passwords.txt', import.meta.url), 'utf8');
+
+// Guesses specific to this app and the current years
+const APP_PASSWORDS = [
+  'expenses', 'expense123', 'budget123', 'company123', 'office123',
+  'welcome2024', 'welcome2025', 'welcome2026', 'password2024', 'password2025', 'password2026',
+  'summer2024', 'summer2025', 'winter2024', 'spring2024', 'autumn2024'
+];
+
+const COMMON_PASSWORDS = new Set<string>([...DICTIONARY.split('\n').filter(Boolean), ...APP_PASSWORDS]);
+
+export function isCommonPassword(password: string): boolean {
+  return COMMON_PASSWORDS.has(password.toLowerCase());
+}
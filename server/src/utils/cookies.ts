@@ -0,0 +1,41 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+// Cookies of the current request; the ones set go out with the response
+export interface CookieJar {
+  get(name: string): string | undefined;
+  set(name: string, value: string, maxAgeSeconds: number): void;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      const name = pair.slice(0, separator).trim();
+      try {
+        cookies[name] ??= decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        // a malformed value is treated as absent
+      }
+    }
+  }
+  return cookies;
+}
+
+// HttpOnly and SameSite=Lax, so scripts cannot read them and other sites cannot send them along;
+// Secure whenever the app is served over https
+export function serializeCookie(name: string, value: string, maxAgeSeconds: number): string {
+  const secure = (process.env['APP_URL'] || '').startsWith('https:') ? '; Secure' : '';
+  return `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${maxAgeSeconds}; HttpOnly; SameSite=Lax${secure}`;
+}
+
+export function createCookieJar(req: IncomingMessage, res: ServerResponse): CookieJar {
+  const cookies = parseCookies(req.headers.cookie);
+  return {
+    get: name => cookies[name],
+    set(name, value, maxAgeSeconds) {
+      cookies[name] = value;
+      res.appendHeader('Set-Cookie', serializeCookie(name, value, maxAgeSeconds));
+    }
+  };
+}
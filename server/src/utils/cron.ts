@@ -0,0 +1,109 @@
+// Standard five-field cron expressions ("minute hour day-of-month month day-of-week"), evaluated in UTC.
+// Supports *, numbers, ranges (1-5), lists (1,15) and steps (*/10, 8-18/2); Sunday is 0 or 7.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // As in cron, when both day fields are restricted a day matching either one counts
+  days_restricted: boolean;
+  weekdays_restricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MAX_SEARCH_DAYS = 366 * 5; // enough for any satisfiable schedule, e.g. Feb 29
+
+function parseField(field: string, { name, min, max }: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} "${part}"`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name} "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}", expected 5 fields`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    days_restricted: fields[2] !== '*',
+    weekdays_restricted: fields[4] !== '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayMatches = schedule.days.has(date.getUTCDate());
+  const weekdayMatches = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.days_restricted && schedule.weekdays_restricted) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+}
+
+// First time strictly after `after` that the expression matches
+export function nextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  const startDay = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(startDay + offset * 24 * 60 * 60 * 1000);
+    if (!matchesDay(schedule, day)) {
+      continue;
+    }
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const candidate = new Date(day.getTime() + (hour * 60 + minute) * 60 * 1000);
+        if (candidate > after) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
@@ -0,0 +1,31 @@
+// Expense amounts, budgets and approval limits are kept in the organization's base currency;
+// expenses entered in another currency also keep their original amount and the rate used.
+// Amounts from before currencies were tracked are in US dollars, hence the default.
+export function baseCurrency(): string {
+  return (process.env['BASE_CURRENCY'] || 'USD').toUpperCase();
+}
+
+export function formatMoney(amount: number, currency: string = baseCurrency()): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+export interface PublishedRate {
+  currency: string;
+  rate_date: string; // YYYY-MM-DD
+  rate: number; // units of currency per euro
+}
+
+// Euro reference rates as published by the ECB (eurofxref-daily.xml, -hist.xml and -hist-90d.xml):
+// <Cube time="2024-03-01"><Cube currency="USD" rate="1.0826"/>...</Cube>
+export function parseEcbRates(xml: string): PublishedRate[] {
+  const rates: PublishedRate[] = [];
+  const days = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const entries = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+  for (const day of xml.matchAll(days)) {
+    for (const entry of day[2].matchAll(entries)) {
+      rates.push({ currency: entry[1], rate_date: day[1], rate: Number(entry[2]) });
+    }
+  }
+  return rates;
+}
@@ -0,0 +1,21 @@
+// Opaque keyset pagination cursors: the sort key of the last row seen plus its id as tie-breaker
+export interface Cursor {
+  value: string;
+  id: number;
+}
+
+export function encodeCursor(value: string, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value === 'string' && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
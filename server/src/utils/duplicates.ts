@@ -0,0 +1,88 @@
+// Scoring for possible duplicate expenses. Each signal adds to a score between 0 and 1:
+// matching amounts and dates carry most weight, a similar title or the very same receipt file settles it.
+
+export type DuplicateReason = 'SAME_AMOUNT' | 'SIMILAR_AMOUNT' | 'SAME_DATE' | 'NEAR_DATE' | 'SIMILAR_TITLE' | 'SAME_RECEIPT';
+
+export interface DuplicateSubject {
+  title: string;
+  amount: number;
+  expense_date: string; // YYYY-MM-DD
+  receipt_hashes: string[];
+}
+
+export const DUPLICATE_WARNING_SCORE = 0.5;
+export const DUPLICATE_BLOCKING_SCORE = 0.9;
+export const DUPLICATE_DATE_WINDOW_DAYS = 7;
+export const SIMILAR_AMOUNT_RATIO = 0.01; // e.g. rounding or a card fee
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const grams: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) {
+    grams.push(normalized.slice(i, i + 2));
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams: 1 for equal titles, tolerant of word order and typos
+export function titleSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) {
+    return left.length === right.length && a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const gram of left) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+export function amountsSimilar(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.max(a, b) * SIMILAR_AMOUNT_RATIO, 0.01);
+}
+
+export function scoreDuplicate(subject: DuplicateSubject, other: DuplicateSubject): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (subject.receipt_hashes.some(hash => other.receipt_hashes.includes(hash))) {
+    return { score: 1, reasons: ['SAME_RECEIPT'] };
+  }
+
+  if (subject.amount.toFixed(2) === other.amount.toFixed(2)) {
+    score += 0.45;
+    reasons.push('SAME_AMOUNT');
+  } else if (amountsSimilar(subject.amount, other.amount)) {
+    score += 0.3;
+    reasons.push('SIMILAR_AMOUNT');
+  }
+
+  const days = Math.abs(Date.parse(subject.expense_date) - Date.parse(other.expense_date)) / DAY_MS;
+  if (days === 0) {
+    score += 0.3;
+    reasons.push('SAME_DATE');
+  } else if (days <= 3) {
+    score += days <= 1 ? 0.15 : 0.05;
+    reasons.push('NEAR_DATE');
+  }
+
+  const similarity = titleSimilarity(subject.title, other.title);
+  if (similarity >= 0.5) {
+    score += similarity >= 0.8 ? 0.25 : 0.15;
+    reasons.push('SIMILAR_TITLE');
+  }
+
+  return { score: Math.round(Math.min(score, 1) * 100) / 100, reasons };
+}
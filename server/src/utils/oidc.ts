@@ -0,0 +1,165 @@
+import * as crypto from 'crypto';
+
+// Subset of the OpenID Provider metadata we rely on
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  scopes: string[];
+}
+
+const METADATA_TTL = 60 * 60 * 1000; // re-discover endpoints and keys hourly
+
+const metadataCache = new Map<string, { metadata: OidcMetadata; fetched_at: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetched_at: number }>();
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function discoverOidcMetadata(issuer: string): Promise<OidcMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetched_at < METADATA_TTL) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  if (metadata.issuer !== issuer) {
+    throw new Error('OIDC discovery returned a different issuer');
+  }
+
+  metadataCache.set(issuer, { metadata, fetched_at: Date.now() });
+  return metadata;
+}
+
+// PKCE verifier and its S256 challenge
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function buildAuthorizationUrl(
+  metadata: OidcMetadata,
+  config: OidcClientConfig,
+  params: { redirect_uri: string; state: string; nonce: string; code_challenge: string }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.client_id);
+  url.searchParams.set('redirect_uri', params.redirect_uri);
+  url.searchParams.set('scope', config.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.code_challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+// Exchange an authorization code for the raw ID token
+export async function exchangeAuthorizationCode(
+  metadata: OidcMetadata,
+  config: OidcClientConfig,
+  params: { code: string; redirect_uri: string; code_verifier: string }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirect_uri,
+    code_verifier: params.code_verifier,
+    client_id: config.client_id,
+    client_secret: config.client_secret
+  });
+
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body
+  });
+
+  if (typeof tokens.id_token !== 'string') {
+    throw new Error('OIDC token response did not include an ID token');
+  }
+
+  return tokens.id_token;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = (keys: crypto.JsonWebKey[]) => keys.find((key: any) => key.kty === 'RSA' && (!kid || key.kid === kid));
+
+  const cached = jwksCache.get(jwksUri);
+  let jwk = cached && Date.now() - cached.fetched_at < METADATA_TTL ? find(cached.keys) : undefined;
+
+  // Unknown key ids usually mean the IdP rotated its keys
+  if (!jwk) {
+    const { keys } = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, { keys, fetched_at: Date.now() });
+    jwk = find(keys);
+  }
+
+  if (!jwk) {
+    throw new Error('No matching OIDC signing key');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+// Verify an RS256 ID token and return its claims
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcMetadata,
+  config: OidcClientConfig,
+  nonce: string
+): Promise<Record<string, unknown>> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid ID token format');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+  if (header.alg !== 'RS256') {
+    throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, header.kid);
+  const valid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== metadata.issuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+  if (!audiences.includes(config.client_id)) {
+    throw new Error('ID token audience mismatch');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp < now) {
+    throw new Error('ID token expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return claims;
+}
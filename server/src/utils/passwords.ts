@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Stored as `$scrypt$v=1$ln=<log2 N>,r=<r>,p=<p>$<salt>$<hash>` (base64, no padding).
+// Raise PASSWORD_HASH_COST over time; older hashes are upgraded on the next login.
+const HASH_VERSION = 1;
+const SCRYPT_COST = parseInt(process.env['PASSWORD_HASH_COST'] || '15', 10); // log2 of N
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELISM = 1;
+const KEY_LENGTH = 64;
+
+interface ScryptParams {
+  ln: number;
+  r: number;
+  p: number;
+}
+
+async function deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  const N = 2 ** params.ln;
+  return scrypt(password, salt, keyLength, {
+    N,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * N * params.r // default maxmem is too small above ln=14
+  });
+}
+
+function parseScryptHash(stored: string): { version: number; params: ScryptParams; salt: Buffer; hash: Buffer } | null {
+  const match = /^\$scrypt\$v=(\d+)\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/.exec(stored);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    version: parseInt(match[1], 10),
+    params: { ln: parseInt(match[2], 10), r: parseInt(match[3], 10), p: parseInt(match[4], 10) },
+    salt: Buffer.from(match[5], 'base64'),
+    hash: Buffer.from(match[6], 'base64')
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const params = { ln: SCRYPT_COST, r: SCRYPT_BLOCK_SIZE, p: SCRYPT_PARALLELISM };
+  const salt = crypto.randomBytes(16);
+  const hash = await deriveKey(password, salt, params, KEY_LENGTH);
+
+  const encode = (buffer: Buffer) => buffer.toString('base64').replace(/=+$/, '');
+  return `$scrypt$v=${HASH_VERSION}$ln=${params.ln},r=${params.r},p=${params.p}$${encode(salt)}$${encode(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseScryptHash(stored);
+  if (parsed) {
+    const hash = await deriveKey(password, parsed.salt, parsed.params, parsed.hash.length);
+    return safeEqual(hash, parsed.hash);
+  }
+
+  // Legacy `salt:hash` values from PBKDF2-SHA512 with 10,000 iterations
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const legacyHash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512');
+  return safeEqual(legacyHash, Buffer.from(hash, 'hex'));
+}
+
+// True for legacy hashes and hashes made with weaker parameters than the current ones
+export function needsRehash(stored: string): boolean {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) {
+    return true;
+  }
+
+  return parsed.version < HASH_VERSION
+    || parsed.params.ln < SCRYPT_COST
+    || parsed.params.r < SCRYPT_BLOCK_SIZE
+    || parsed.params.p < SCRYPT_PARALLELISM;
+}
@@ -0,0 +1,235 @@
+// Heuristics that pull the key fields out of OCR'd receipt text. Every field comes with a
+// confidence between 0 and 1 so the client can highlight what the user should double-check.
+
+export interface ReceiptField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ParsedReceipt {
+  merchant: ReceiptField<string>;
+  date: ReceiptField<string>; // YYYY-MM-DD
+  total: ReceiptField<number>;
+  tax: ReceiptField<number>;
+  currency: ReceiptField<string>; // ISO 4217
+}
+
+// 12.50, 12,50, 1,234.56, 1.234,56 and 1'234.50; rates (19.00%) and dates (12.03.2024) are skipped
+const AMOUNT_PATTERN = /(?<![\d.,'])(\d{1,3}(?:[.,']\d{3})+|\d+)[.,](\d{2})(?![.,]?\d|\s*%)/g;
+
+const STRONG_TOTAL_PATTERN = /\b(grand\s*total|total\s*due|amount\s*due|balance\s*due|total\s*to\s*pay|zu\s*zahlen|gesamtbetrag|endbetrag)\b/i;
+const TOTAL_PATTERN = /\b(total|summe|gesamt|montant|importe|totale|betrag)\b/i;
+const SUBTOTAL_PATTERN = /\b(sub\s*-?\s*total|zwischensumme|net\s*total|netto|total\s*(tax|vat|mwst)|(tax|vat|mwst)\s*total|total\s*items?|total\s*savings?|total\s*discount)\b/i;
+const TAX_PATTERN = /\b(tax|vat|mwst|ust|tva|iva|gst|hst|pst|mehrwertsteuer)\b/i;
+const TAX_TOTAL_PATTERN = /\b(total\s*(tax|vat|mwst)|(tax|vat|mwst)\s*total)\b/i;
+const DATE_KEYWORD_PATTERN = /\b(date|datum|fecha|data)\b/i;
+const NOT_MERCHANT_PATTERN = /(www\.|https?:|@|\b(tel|phone|fax|receipt|invoice|rechnung|quittung|beleg|kassenbon|date|datum|cashier|kasse|table|order)\b|\b(vat|ust|tax)[\s-]*(no|nr|id|reg)\b)/i;
+
+const CURRENCY_CODES = ['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'INR', 'CNY'];
+// Symbols shared by several currencies ($) get a lower confidence than unambiguous ones
+const CURRENCY_SYMBOLS: Record<string, { code: string; confidence: number }> = {
+  '€': { code: 'EUR', confidence: 0.85 },
+  '£': { code: 'GBP', confidence: 0.85 },
+  '¥': { code: 'JPY', confidence: 0.6 },
+  '$': { code: 'USD', confidence: 0.6 }
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, 'mär': 3, apr: 4, may: 5, mai: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, dez: 12
+};
+
+const round = (confidence: number) => Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100;
+const field = <T>(value: T | null, confidence: number): ReceiptField<T> => ({ value, confidence: value === null ? 0 : round(confidence) });
+
+export function parseAmounts(line: string): number[] {
+  return [...line.matchAll(AMOUNT_PATTERN)].map(match => Number(`${match[1].replace(/[.,']/g, '')}.${match[2]}`));
+}
+
+function findTotal(lines: string[]): ReceiptField<number> {
+  const candidates: { amount: number; confidence: number }[] = [];
+
+  lines.forEach((line, index) => {
+    const strong = STRONG_TOTAL_PATTERN.test(line);
+    if (!strong && (!TOTAL_PATTERN.test(line) || SUBTOTAL_PATTERN.test(line))) {
+      return;
+    }
+
+    // Layouts sometimes put the amount on the line below its label
+    const own = parseAmounts(line);
+    const amounts = own.length > 0 ? own : parseAmounts(lines[index + 1] ?? '');
+    if (amounts.length > 0) {
+      const confidence = (strong ? 0.9 : 0.8) - (own.length > 0 ? 0 : 0.1);
+      candidates.push({ amount: amounts[amounts.length - 1], confidence });
+    }
+  });
+
+  if (candidates.length > 0) {
+    // Among the best-labelled lines the largest is the total, the rest are savings, points, etc.
+    const best = Math.max(...candidates.map(candidate => candidate.confidence));
+    const amount = Math.max(...candidates.filter(candidate => candidate.confidence === best).map(candidate => candidate.amount));
+    return field(amount, best);
+  }
+
+  // No total line was recognised; the largest amount is a reasonable guess
+  const all = lines.flatMap(parseAmounts);
+  return all.length > 0 ? field(Math.max(...all), 0.3) : field<number>(null, 0);
+}
+
+function findTax(lines: string[], total: number | null): ReceiptField<number> {
+  const taxLines = lines.filter(line => TAX_PATTERN.test(line) && (!TOTAL_PATTERN.test(line) || TAX_TOTAL_PATTERN.test(line)));
+  const amounts = taxLines.map(line => ({ line, amount: parseAmounts(line).pop() })).filter(entry => entry.amount !== undefined);
+  if (amounts.length === 0) {
+    return field<number>(null, 0);
+  }
+
+  const stated = amounts.find(entry => TAX_TOTAL_PATTERN.test(entry.line));
+  let tax: number;
+  let confidence: number;
+  if (stated) {
+    tax = stated.amount!;
+    confidence = 0.85;
+  } else {
+    // Several rates (e.g. 7% and 19% VAT) are listed separately
+    tax = Math.round(amounts.reduce((sum, entry) => sum + entry.amount!, 0) * 100) / 100;
+    confidence = amounts.length === 1 ? 0.75 : 0.6;
+  }
+
+  if (total !== null && tax >= total) {
+    confidence = 0.2;
+  }
+  return field(tax, confidence);
+}
+
+function findCurrency(text: string): ReceiptField<string> {
+  const evidence = new Map<string, { count: number; confidence: number }>();
+  const add = (code: string, confidence: number) => {
+    const current = evidence.get(code) ?? { count: 0, confidence: 0 };
+    evidence.set(code, { count: current.count + 1, confidence: Math.max(current.confidence, confidence) });
+  };
+
+  for (const match of text.matchAll(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`, 'g'))) {
+    add(match[1], 0.9);
+  }
+  for (const char of text) {
+    const symbol = CURRENCY_SYMBOLS[char];
+    if (symbol) {
+      add(symbol.code, symbol.confidence);
+    }
+  }
+
+  const ranked = [...evidence.entries()].sort((a, b) => b[1].count - a[1].count || b[1].confidence - a[1].confidence);
+  if (ranked.length === 0) {
+    return field<string>(null, 0);
+  }
+
+  const [code, { confidence }] = ranked[0];
+  return field(code, ranked.length > 1 ? confidence - 0.2 : confidence);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function findDate(lines: string[], currency: string | null, today: Date): ReceiptField<string> {
+  const candidates: { date: string; confidence: number }[] = [];
+  const todayIso = today.toISOString().split('T')[0];
+  const oldest = new Date(today.getTime() - 5 * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  for (const line of lines) {
+    const found: { date: string | null; confidence: number }[] = [];
+
+    for (const match of line.matchAll(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g)) {
+      found.push({ date: isoDate(Number(match[1]), Number(match[2]), Number(match[3])), confidence: 0.9 });
+    }
+
+    for (const match of line.matchAll(/\b(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})\b/g)) {
+      const first = Number(match[1]);
+      const second = Number(match[3]);
+      const year = fullYear(match[4]);
+      if (match[2] === '.' || first > 12) {
+        found.push({ date: isoDate(year, second, first), confidence: match[2] === '.' ? 0.85 : 0.8 });
+      } else if (second > 12) {
+        found.push({ date: isoDate(year, first, second), confidence: 0.8 });
+      } else {
+        // 03/04/2024: month first on US receipts, day first elsewhere
+        found.push({
+          date: currency === 'USD' ? isoDate(year, first, second) : isoDate(year, second, first),
+          confidence: 0.5
+        });
+      }
+    }
+
+    for (const match of line.matchAll(/\b(\d{1,2})\.?\s+([A-Za-zä]{3,9})\.?,?\s+(\d{4})\b/g)) {
+      const month = MONTHS[match[2].slice(0, 3).toLowerCase()];
+      if (month) {
+        found.push({ date: isoDate(Number(match[3]), month, Number(match[1])), confidence: 0.85 });
+      }
+    }
+
+    for (const match of line.matchAll(/\b([A-Za-zä]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/g)) {
+      const month = MONTHS[match[1].slice(0, 3).toLowerCase()];
+      if (month) {
+        found.push({ date: isoDate(Number(match[3]), month, Number(match[2])), confidence: 0.85 });
+      }
+    }
+
+    const labelled = DATE_KEYWORD_PATTERN.test(line);
+    for (const { date, confidence } of found) {
+      if (!date || date > todayIso) {
+        continue;
+      }
+      candidates.push({ date, confidence: (date < oldest ? confidence / 2 : confidence) + (labelled ? 0.05 : 0) });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return field<string>(null, 0);
+  }
+
+  const best = candidates.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+  return field(best.date, best.confidence);
+}
+
+function findMerchant(lines: string[]): ReceiptField<string> {
+  // The business name is printed at the top, above the address
+  for (const [index, line] of lines.slice(0, 6).entries()) {
+    const letters = (line.match(/\p{L}/gu) ?? []).length;
+    if (letters < 3
+      || letters / line.replace(/\s/g, '').length < 0.5
+      || /^\d/.test(line)
+      || NOT_MERCHANT_PATTERN.test(line)
+      || parseAmounts(line).length > 0) {
+      continue;
+    }
+
+    const name = line.replace(/\s+/g, ' ').replace(/[\s*#:=_-]+$/, '').replace(/^[\s*#:=_-]+/, '');
+    const confidence = (index === 0 ? 0.7 : 0.5) - (name.length > 40 ? 0.1 : 0);
+    return field(name, confidence);
+  }
+
+  return field<string>(null, 0);
+}
+
+export function parseReceiptText(text: string, today: Date = new Date()): ParsedReceipt {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+  const total = findTotal(lines);
+  const currency = findCurrency(text);
+
+  return {
+    merchant: findMerchant(lines),
+    date: findDate(lines, currency.value, today),
+    total,
+    tax: findTax(lines, total.value),
+    currency
+  };
+}
@@ -0,0 +1,43 @@
+export type RecurringFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+const MONTHS_PER_PERIOD: Partial<Record<RecurringFrequency, number>> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12
+};
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// The n-th occurrence after the anchor date (YYYY-MM-DD). Months are counted from the anchor rather
+// than the previous occurrence, so a schedule starting on the 31st lands on the last day of shorter
+// months and returns to the 31st afterwards.
+export function occurrenceDate(anchor: string, frequency: RecurringFrequency, n: number): string {
+  const [year, month, day] = anchor.split('-').map(Number);
+
+  const months = MONTHS_PER_PERIOD[frequency];
+  if (months === undefined) {
+    const days = (frequency === 'WEEKLY' ? 7 : 1) * n;
+    return formatDate(new Date(Date.UTC(year, month - 1, day + days)));
+  }
+
+  const target = new Date(Date.UTC(year, month - 1 + months * n, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return formatDate(target);
+}
+
+// Occurrences after `after` up to and including `until`, never counting the anchor itself
+export function dueOccurrences(anchor: string, frequency: RecurringFrequency, after: string, until: string): string[] {
+  const dates: string[] = [];
+  for (let n = 1; ; n++) {
+    const date = occurrenceDate(anchor, frequency, n);
+    if (date > until) {
+      return dates;
+    }
+    if (date > after) {
+      dates.push(date);
+    }
+  }
+}
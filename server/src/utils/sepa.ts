@@ -0,0 +1,126 @@
+// SEPA credit transfer initiation (ISO 20022 pain.001.001.03), the format EU banks accept for bulk payouts
+
+export interface SepaAccount {
+  name: string;
+  iban: string;
+  bic: string | null;
+}
+
+export interface SepaCreditTransfer {
+  end_to_end_id: string;
+  amount_cents: number;
+  creditor: SepaAccount;
+  remittance_info: string;
+}
+
+export interface SepaPaymentFile {
+  message_id: string;
+  created_at: Date;
+  execution_date: string; // YYYY-MM-DD
+  debtor: SepaAccount;
+  transfers: SepaCreditTransfer[];
+}
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// Structure plus the ISO 13616 mod-97 checksum
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) {
+    return false;
+  }
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = char >= 'A' ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isValidBic(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.toUpperCase());
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Banks only accept the basic Latin SEPA character set, so transliterate and drop the rest
+function sepaText(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/'/g, '&apos;')
+    .replace(/"/g, '&quot;');
+}
+
+function agent(bic: string | null): string {
+  return bic
+    ? `<FinInstnId><BIC>${escapeXml(bic)}</BIC></FinInstnId>`
+    : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+}
+
+export function buildPain001(file: SepaPaymentFile): string {
+  const count = file.transfers.length;
+  const total = formatCents(file.transfers.reduce((sum, transfer) => sum + transfer.amount_cents, 0));
+  const createdAt = file.created_at.toISOString().split('.')[0];
+  const debtorName = escapeXml(sepaText(file.debtor.name, 70));
+
+  const transfers = file.transfers.map(transfer => [
+    '      <CdtTrfTxInf>',
+    `        <PmtId><EndToEndId>${escapeXml(sepaText(transfer.end_to_end_id, 35))}</EndToEndId></PmtId>`,
+    `        <Amt><InstdAmt Ccy="EUR">${formatCents(transfer.amount_cents)}</InstdAmt></Amt>`,
+    ...(transfer.creditor.bic ? [`        <CdtrAgt>${agent(transfer.creditor.bic)}</CdtrAgt>`] : []),
+    `        <Cdtr><Nm>${escapeXml(sepaText(transfer.creditor.name, 70))}</Nm></Cdtr>`,
+    `        <CdtrAcct><Id><IBAN>${escapeXml(transfer.creditor.iban)}</IBAN></Id></CdtrAcct>`,
+    `        <RmtInf><Ustrd>${escapeXml(sepaText(transfer.remittance_info, 140))}</Ustrd></RmtInf>`,
+    '      </CdtTrfTxInf>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <CstmrCdtTrfInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${escapeXml(sepaText(file.message_id, 35))}</MsgId>`,
+    `      <CreDtTm>${createdAt}</CreDtTm>`,
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${total}</CtrlSum>`,
+    `      <InitgPty><Nm>${debtorName}</Nm></InitgPty>`,
+    '    </GrpHdr>',
+    '    <PmtInf>',
+    `      <PmtInfId>${escapeXml(sepaText(file.message_id, 35))}</PmtInfId>`,
+    '      <PmtMtd>TRF</PmtMtd>',
+    '      <BtchBookg>true</BtchBookg>',
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${total}</CtrlSum>`,
+    '      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>',
+    `      <ReqdExctnDt>${file.execution_date}</ReqdExctnDt>`,
+    `      <Dbtr><Nm>${debtorName}</Nm></Dbtr>`,
+    `      <DbtrAcct><Id><IBAN>${escapeXml(file.debtor.iban)}</IBAN></Id></DbtrAcct>`,
+    `      <DbtrAgt>${agent(file.debtor.bic)}</DbtrAgt>`,
+    '      <ChrgBr>SLEV</ChrgBr>',
+    ...transfers,
+    '    </PmtInf>',
+    '  </CstmrCdtTrfInitn>',
+    '</Document>',
+    ''
+  ].join('\n');
+}
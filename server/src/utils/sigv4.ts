@@ -0,0 +1,74 @@
+import * as crypto from 'crypto';
+
+export interface AwsCredentials {
+  region: string;
+  access_key_id: string;
+  secret_access_key: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  body?: Buffer;
+  headers?: Record<string, string>;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding, which SigV4 requires for path segments and query parameters
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// "20240301T101500Z"
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// AWS Signature Version 4 headers for an S3 request; the url path must already be uri-encoded
+export function signS3Request(request: SignableRequest, credentials: AwsCredentials, now: Date = new Date()): Record<string, string> {
+  const timestamp = amzDate(now);
+  const day = timestamp.slice(0, 8);
+  const scope = `${day}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: request.url.host,
+    'x-amz-content-sha256': sha256Hex(request.body ?? ''),
+    'x-amz-date': timestamp
+  };
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const query = [...request.url.searchParams.entries()]
+    .map(([name, value]) => `${uriEncode(name)}=${uriEncode(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    headers['x-amz-content-sha256']
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['aws4_request', 's3', credentials.region, day]
+    .reduceRight((key: string | Buffer, part) => hmac(key, part), `AWS4${credentials.secret_access_key}`);
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  // fetch sets Host itself
+  const { host, ...signed } = headers;
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.access_key_id}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
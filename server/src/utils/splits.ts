@@ -0,0 +1,24 @@
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Share totalCents out in proportion to the weights so the parts add up exactly:
+// each part is rounded down and the leftover cents go to the largest remainders.
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => weightSum > 0 ? (totalCents * weight) / weightSum : 0);
+  const parts = exact.map(Math.floor);
+
+  let leftover = totalCents - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) {
+      break;
+    }
+    parts[index]++;
+    leftover--;
+  }
+  return parts;
+}
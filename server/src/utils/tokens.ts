@@ -0,0 +1,26 @@
+import * as crypto from 'crypto';
+
+// Opaque, URL-safe random token suitable for refresh/reset links
+export function generateToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+// Value of the first of the named environment variables that is set. Tests get a fixed key;
+// anywhere else the server refuses to start rather than sign with a publicly known one.
+export function requireSecret(...names: string[]): string {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) {
+      return value;
+    }
+  }
+  if (process.env['NODE_ENV'] === 'test') {
+    return 'default-secret-key-for-testing';
+  }
+  throw new Error(`${names.join(' or ')} must be set`);
+}
+
+// Tokens are high-entropy, so a fast digest is enough for at-rest storage
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}